@@ -0,0 +1,113 @@
+/**
+ * @fileoverview توليد API-Dump.json - Roblox API Dump Extract
+ *
+ * @description
+ * ينزّل API Dump الرسمي لآخر إصدار من Roblox Studio (أو يقرأ ملفاً محلياً)
+ * ويكتب منه supabase/functions/_shared/API-Dump.json بالحقول التي يقرؤها
+ * robloxApi.ts و luauApiCheck.ts فقط.
+ *
+ * @usage
+ * npm run api-dump                          # آخر إصدار من setup.rbxcdn.com
+ * npm run api-dump -- path/to/API-Dump.json # ملف محلي (مثل Roblox Client Tracker)
+ *
+ * @behavior
+ * - كل الفئات والـ Enums تُحفظ؛ الأعضاء التي لا يصل إليها سكربت أو إضافة
+ *   (Hidden، NotScriptable، RobloxScriptSecurity...) تُحذف
+ * - الملف الناتج يحمل "Complete": true، فيعتبر الفاحص أي فئة غائبة عنه
+ *   غير موجودة فعلاً (luauApiCheck)
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { fileURLToPath } from "node:url";
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CDN = "https://setup.rbxcdn.com";
+
+const OUTPUT = fileURLToPath(new URL("../supabase/functions/_shared/API-Dump.json", import.meta.url));
+
+/** مستويات الأمان المتاحة للسكربتات والإضافات */
+const ACCESSIBLE_SECURITY = new Set(["None", "PluginSecurity"]);
+
+const HIDDEN_TAGS = new Set(["Hidden", "NotScriptable"]);
+
+// ============================================================================
+// SOURCE
+// ============================================================================
+
+const fetchText = async (url) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`GET ${url} → ${response.status}`);
+  return response.text();
+};
+
+/**
+ * الـ dump ومصدره (رقم إصدار Studio أو مسار الملف)
+ */
+const loadDump = async (path) => {
+  if (path) {
+    return { dump: JSON.parse(await readFile(path, "utf8")), source: path };
+  }
+  const version = (await fetchText(`${CDN}/versionQTStudio`)).trim();
+  return { dump: JSON.parse(await fetchText(`${CDN}/${version}-API-Dump.json`)), source: version };
+};
+
+// ============================================================================
+// EXTRACT
+// ============================================================================
+
+const withTags = (tags) => (tags && tags.length > 0 ? { Tags: tags } : {});
+
+const isAccessible = (member) => {
+  if (member.Tags?.some((tag) => HIDDEN_TAGS.has(tag))) return false;
+  const security = typeof member.Security === "string" ? member.Security : member.Security?.Read;
+  return !security || ACCESSIBLE_SECURITY.has(security);
+};
+
+const extractType = ({ Category, Name }) => ({ Category, Name });
+
+const extractMember = (member) => ({
+  MemberType: member.MemberType,
+  Name: member.Name,
+  ...withTags(member.Tags),
+  ...(member.Security ? { Security: member.Security } : {}),
+  ...(member.ValueType ? { ValueType: extractType(member.ValueType) } : {}),
+  ...(member.Parameters
+    ? {
+        Parameters: member.Parameters.map((parameter) => ({
+          Name: parameter.Name,
+          Type: extractType(parameter.Type),
+          ...(parameter.Default !== undefined ? { Default: parameter.Default } : {}),
+        })),
+      }
+    : {}),
+  ...(member.ReturnType ? { ReturnType: extractType(member.ReturnType) } : {}),
+});
+
+const extractDump = (dump, source) => ({
+  Version: dump.Version,
+  Source: source,
+  Complete: true,
+  Classes: dump.Classes.map((apiClass) => ({
+    Name: apiClass.Name,
+    Superclass: apiClass.Superclass,
+    ...withTags(apiClass.Tags),
+    Members: apiClass.Members.filter(isAccessible).map(extractMember),
+  })),
+  Enums: (dump.Enums ?? []).map((apiEnum) => ({
+    Name: apiEnum.Name,
+    Items: apiEnum.Items.map((item) => ({ Name: item.Name, Value: item.Value, ...withTags(item.Tags) })),
+  })),
+});
+
+// ============================================================================
+// MAIN
+// ============================================================================
+
+const { dump, source } = await loadDump(process.argv[2]);
+const extract = extractDump(dump, source);
+
+await writeFile(OUTPUT, `${JSON.stringify(extract, null, "\t")}\n`);
+console.log(`API-Dump.json: ${extract.Classes.length} classes, ${extract.Enums.length} enums (${source})`);
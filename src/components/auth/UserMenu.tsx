@@ -5,6 +5,8 @@
  * يعرض قائمة منبثقة للمستخدم تحتوي على:
  * - صورة المستخدم أو الأحرف الأولى
  * - البريد الإلكتروني
+ * - ملف المشروع (تعليمات مخصصة تُرسل مع كل سؤال)
+ * - صفحة الاستخدام (استهلاك الـ tokens)
  * - زر تسجيل الخروج
  * 
  * @accessibility
@@ -14,7 +16,7 @@
  */
 
 import { useState, useEffect } from 'react';
-import { LogOut, User, Grid2X2 } from 'lucide-react';
+import { LogOut, User, Grid2X2, FolderCog, BarChart3 } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useNavigate } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
@@ -28,6 +30,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Button } from '@/components/ui/button';
+import { ProjectProfileDialog } from '@/components/chat/ProjectProfileDialog';
 import { cn } from '@/lib/utils';
 
 // ============================================================================
@@ -68,6 +71,7 @@ export const UserMenu = ({ collapsed = false }: UserMenuProps) => {
     fullName: null,
   });
   const [isLoading, setIsLoading] = useState(false);
+  const [isProfileDialogOpen, setIsProfileDialogOpen] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -170,89 +174,111 @@ export const UserMenu = ({ collapsed = false }: UserMenuProps) => {
   // ─────────────────────────────────────────────────────────────────────────
 
   return (
-    <DropdownMenu>
-      <DropdownMenuTrigger asChild>
-        <Button
-          variant="ghost"
-          className={cn(
-            'w-full justify-start gap-3 h-auto py-2.5 px-3',
-            'hover:bg-accent/50 transition-colors',
-            'focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2',
-            collapsed && 'justify-center px-2'
-          )}
-          aria-label="قائمة المستخدم"
-        >
-          {/* أيقونة المستخدم - مقسمة لـ 4 أجزاء */}
-          <div className="relative flex-shrink-0">
-            <Avatar className="h-9 w-9 border-2 border-border">
-              <AvatarImage src={userData.avatarUrl ?? undefined} alt={userData.fullName ?? 'المستخدم'} />
-              <AvatarFallback className="bg-muted text-muted-foreground text-sm font-medium">
-                {userData.avatarUrl ? (
-                  <Grid2X2 className="h-4 w-4" strokeWidth={2} />
-                ) : (
-                  getInitials()
-                )}
-              </AvatarFallback>
-            </Avatar>
-            {/* مؤشر الاتصال */}
-            <span className="absolute bottom-0 right-0 block h-2.5 w-2.5 rounded-full bg-primary ring-2 ring-card" />
-          </div>
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            className={cn(
+              'w-full justify-start gap-3 h-auto py-2.5 px-3',
+              'hover:bg-accent/50 transition-colors',
+              'focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2',
+              collapsed && 'justify-center px-2'
+            )}
+            aria-label="قائمة المستخدم"
+          >
+            {/* أيقونة المستخدم - مقسمة لـ 4 أجزاء */}
+            <div className="relative flex-shrink-0">
+              <Avatar className="h-9 w-9 border-2 border-border">
+                <AvatarImage src={userData.avatarUrl ?? undefined} alt={userData.fullName ?? 'المستخدم'} />
+                <AvatarFallback className="bg-muted text-muted-foreground text-sm font-medium">
+                  {userData.avatarUrl ? (
+                    <Grid2X2 className="h-4 w-4" strokeWidth={2} />
+                  ) : (
+                    getInitials()
+                  )}
+                </AvatarFallback>
+              </Avatar>
+              {/* مؤشر الاتصال */}
+              <span className="absolute bottom-0 right-0 block h-2.5 w-2.5 rounded-full bg-primary ring-2 ring-card" />
+            </div>
 
-          {/* معلومات المستخدم - تختفي عند الطي */}
-          {!collapsed && (
-            <div className="flex-1 min-w-0 text-right">
-              <p className="text-sm font-medium text-foreground truncate">
+            {/* معلومات المستخدم - تختفي عند الطي */}
+            {!collapsed && (
+              <div className="flex-1 min-w-0 text-right">
+                <p className="text-sm font-medium text-foreground truncate">
+                  {userData.fullName || 'المستخدم'}
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {userData.email || 'غير متصل'}
+                </p>
+              </div>
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+
+        <DropdownMenuContent 
+          align="end" 
+          className="w-56"
+          sideOffset={8}
+        >
+          {/* معلومات المستخدم في القائمة */}
+          <DropdownMenuLabel className="font-normal">
+            <div className="flex flex-col space-y-1 text-right">
+              <p className="text-sm font-medium leading-none">
                 {userData.fullName || 'المستخدم'}
               </p>
-              <p className="text-xs text-muted-foreground truncate">
-                {userData.email || 'غير متصل'}
+              <p className="text-xs leading-none text-muted-foreground">
+                {userData.email}
               </p>
             </div>
-          )}
-        </Button>
-      </DropdownMenuTrigger>
+          </DropdownMenuLabel>
 
-      <DropdownMenuContent 
-        align="end" 
-        className="w-56"
-        sideOffset={8}
-      >
-        {/* معلومات المستخدم في القائمة */}
-        <DropdownMenuLabel className="font-normal">
-          <div className="flex flex-col space-y-1 text-right">
-            <p className="text-sm font-medium leading-none">
-              {userData.fullName || 'المستخدم'}
-            </p>
-            <p className="text-xs leading-none text-muted-foreground">
-              {userData.email}
-            </p>
-          </div>
-        </DropdownMenuLabel>
+          <DropdownMenuSeparator />
 
-        <DropdownMenuSeparator />
+          {/* ملف المشروع */}
+          <DropdownMenuItem
+            onSelect={() => setIsProfileDialogOpen(true)}
+            className="gap-2 cursor-pointer"
+          >
+            <FolderCog className="h-4 w-4" strokeWidth={2} />
+            <span>ملف المشروع</span>
+          </DropdownMenuItem>
 
-        {/* الملف الشخصي (مستقبلياً) */}
-        <DropdownMenuItem 
-          className="gap-2 cursor-pointer"
-          disabled
-        >
-          <User className="h-4 w-4" strokeWidth={2} />
-          <span>الملف الشخصي</span>
-          <span className="mr-auto text-xs text-muted-foreground">قريباً</span>
-        </DropdownMenuItem>
+          {/* الاستخدام */}
+          <DropdownMenuItem
+            onSelect={() => navigate('/usage')}
+            className="gap-2 cursor-pointer"
+          >
+            <BarChart3 className="h-4 w-4" strokeWidth={2} />
+            <span>الاستخدام</span>
+          </DropdownMenuItem>
 
-        <DropdownMenuSeparator />
+          {/* الملف الشخصي (مستقبلياً) */}
+          <DropdownMenuItem 
+            className="gap-2 cursor-pointer"
+            disabled
+          >
+            <User className="h-4 w-4" strokeWidth={2} />
+            <span>الملف الشخصي</span>
+            <span className="mr-auto text-xs text-muted-foreground">قريباً</span>
+          </DropdownMenuItem>
 
-        {/* تسجيل الخروج */}
-        <DropdownMenuItem
-          onClick={handleSignOut}
-          disabled={isLoading}
-          className="gap-2 cursor-pointer text-destructive focus:text-destructive focus:bg-destructive/10"
-        >
-          <LogOut className="h-4 w-4" strokeWidth={2} />
-          <span>{isLoading ? 'جاري الخروج...' : 'تسجيل الخروج'}</span>
-        </DropdownMenuItem>
-      </DropdownMenuContent>
-    </DropdownMenu>
+          <DropdownMenuSeparator />
+
+          {/* تسجيل الخروج */}
+          <DropdownMenuItem
+            onClick={handleSignOut}
+            disabled={isLoading}
+            className="gap-2 cursor-pointer text-destructive focus:text-destructive focus:bg-destructive/10"
+          >
+            <LogOut className="h-4 w-4" strokeWidth={2} />
+            <span>{isLoading ? 'جاري الخروج...' : 'تسجيل الخروج'}</span>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <ProjectProfileDialog open={isProfileDialogOpen} onOpenChange={setIsProfileDialogOpen} />
+    </>
   );
 };
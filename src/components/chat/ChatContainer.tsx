@@ -3,20 +3,35 @@
  * 
  * @description
  * يدير عرض الرسائل والتمرير التلقائي والشريط الجانبي وشاشة الترحيب
- * مع زر التمرير للأسفل عند التصفح للأعلى
+ * (أسئلة البداية فيها تمر عبر sendMessage مثل حقل الإدخال)
+ * مع زر التمرير للأسفل عند التصفح للأعلى، والتمرير لرسالة مختارة من البحث
  */
 
-import { useRef, useEffect, useState, useCallback } from 'react';
+import { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { ChatMessage } from './ChatMessage';
 import { ChatInput } from './ChatInput';
 import { ChatHeader } from './ChatHeader';
 import { WelcomeScreen } from './WelcomeScreen';
 import { ConversationSidebar } from './ConversationSidebar';
 import { useChat } from '@/hooks/useChat';
+import { useConversationSync } from '@/hooks/useConversationSync';
+import { useOutboxReplay } from '@/hooks/useOutboxReplay';
 import { useChatStore } from '@/stores/chatStore';
+import { getSiblingPositions } from '@/lib/messageTree';
+import type { StudioOutputLog } from '@shared/studioOutput';
 import { ArrowDown } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * مدة تظليل الرسالة المختارة من البحث
+ * @value 2500ms
+ */
+const HIGHLIGHT_DURATION_MS = 2500;
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -26,10 +41,27 @@ export const ChatContainer = () => {
   // HOOKS & STATE
   // ─────────────────────────────────────────────────────────────────────────
   
-  const { messages, isLoading, sendMessage, regenerateLastMessage } = useChat();
+  const {
+    messages,
+    isLoading,
+    sendMessage,
+    fixCode,
+    regenerateMessage,
+    editMessage,
+    selectBranch,
+    retryMessage,
+    continueMessage,
+    stopGeneration,
+  } = useChat();
+  useConversationSync();
+  useOutboxReplay();
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
   const pendingAttachments = useChatStore((state) => state.pendingAttachments);
+  const highlightedMessageId = useChatStore((state) => state.highlightedMessageId);
+  
+  /** كل عقد شجرة المحادثة (لحساب الفروع الأخوة) */
+  const messageNodes = useChatStore((state) => state.getCurrentConversation()?.messages);
   
   /** حالة فتح/إغلاق الشريط الجانبي */
   const [sidebarOpen, setSidebarOpen] = useState(true);
@@ -68,8 +100,12 @@ export const ChatContainer = () => {
 
   /**
    * التمرير التلقائي عند تغير الرسائل
+   * 
+   * @note
+   * لا يُمرر للأسفل أثناء عرض رسالة مختارة من البحث
    */
   useEffect(() => {
+    if (useChatStore.getState().highlightedMessageId) return;
     scrollToBottom();
   }, [messages, scrollToBottom]);
 
@@ -77,12 +113,31 @@ export const ChatContainer = () => {
    * التمرير أثناء البث
    */
   useEffect(() => {
+    if (useChatStore.getState().highlightedMessageId) return;
     const lastMessage = messages[messages.length - 1];
     if (lastMessage?.isStreaming) {
       scrollToBottom();
     }
   }, [messages, scrollToBottom]);
 
+  /**
+   * التمرير للرسالة المختارة من البحث ثم إزالة تظليلها
+   */
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+
+    const element = messagesContainerRef.current?.querySelector(
+      `[data-message-id="${CSS.escape(highlightedMessageId)}"]`
+    );
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+
+    const timer = setTimeout(
+      () => useChatStore.getState().clearHighlightedMessage(),
+      HIGHLIGHT_DURATION_MS
+    );
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
   /**
    * إضافة مستمع التمرير
    */
@@ -101,18 +156,28 @@ export const ChatContainer = () => {
   /**
    * معالج إرسال الرسالة
    */
-  const handleSend = (content: string, attachments: typeof pendingAttachments) => {
-    sendMessage(content, attachments);
+  const handleSend = (
+    content: string,
+    attachments: typeof pendingAttachments,
+    studioOutput?: StudioOutputLog
+  ) => {
+    sendMessage(content, attachments, { studioOutput });
   };
 
   /**
    * معالج إعادة التوليد
    */
-  const handleRegenerate = useCallback(() => {
-    if (regenerateLastMessage) {
-      regenerateLastMessage();
-    }
-  }, [regenerateLastMessage]);
+  const handleRegenerate = useCallback((messageId: string) => {
+    regenerateMessage(messageId);
+  }, [regenerateMessage]);
+
+  /**
+   * موقع كل رسالة معروضة بين فروعها
+   */
+  const siblingPositions = useMemo(
+    () => getSiblingPositions(messageNodes ?? [], messages),
+    [messageNodes, messages]
+  );
 
   /**
    * تحديد فهرس آخر رسالة من المساعد
@@ -153,17 +218,31 @@ export const ChatContainer = () => {
           className="flex-1 overflow-y-auto overflow-x-hidden scroll-smooth overscroll-contain touch-pan-y"
         >
           {messages.length === 0 ? (
-            <WelcomeScreen />
+            <WelcomeScreen onSendPrompt={(prompt) => sendMessage(prompt)} disabled={isLoading} />
           ) : (
             <div className="divide-y divide-border/30">
-              {messages.map((message, index) => (
-                <ChatMessage 
-                  key={message.id} 
-                  message={message}
-                  isLastAssistant={index === lastAssistantIndex && message.role === 'assistant'}
-                  onRegenerate={handleRegenerate}
-                />
-              ))}
+              {messages.map((message, index) => {
+                const position = siblingPositions.get(message.id);
+                return (
+                  <ChatMessage 
+                    key={message.id} 
+                    message={message}
+                    isLastAssistant={index === lastAssistantIndex && message.role === 'assistant'}
+                    branchIndex={position?.index}
+                    branchCount={position?.count}
+                    previousBranchId={position?.previousId}
+                    nextBranchId={position?.nextId}
+                    onSelectBranch={isLoading ? undefined : selectBranch}
+                    onRegenerate={isLoading ? undefined : handleRegenerate}
+                    onEdit={isLoading ? undefined : editMessage}
+                    onRetry={isLoading ? undefined : retryMessage}
+                    onContinue={continueMessage}
+                    isHighlighted={message.id === highlightedMessageId}
+                    onFixCode={isLoading ? undefined : fixCode}
+                    fixRequest={message.role === 'assistant' ? messages[index - 1]?.codeFix : undefined}
+                  />
+                );
+              })}
               <div ref={messagesEndRef} className="h-1" />
             </div>
           )}
@@ -194,7 +273,12 @@ export const ChatContainer = () => {
         {/* ───────────────────────────────────────────────────────────────────
             INPUT AREA
             ─────────────────────────────────────────────────────────────────── */}
-        <ChatInput onSend={handleSend} disabled={isLoading} />
+        <ChatInput
+          onSend={handleSend}
+          disabled={isLoading}
+          isGenerating={isLoading}
+          onStop={stopGeneration}
+        />
       </main>
 
       {/* ═══════════════════════════════════════════════════════════════════
@@ -5,14 +5,19 @@
  * يعرض:
  * - شعار التطبيق
  * - اسم المساعد
+ * - منتقي النموذج وإعدادات التوليد للمحادثة
+ * - مؤشر امتلاء نافذة السياق
+ * - تعديلات لم تُحفظ على الخادم (تظهر عند فشل المزامنة فقط)
  * - مؤشر الاتصال
+ * - مشاركة المحادثة برابط للقراءة فقط
+ * - قائمة التصدير والاستيراد
  * - زر القائمة الجانبية
  * 
  * @layout
  * ```
  * ┌────────────────────────────────────────────────────────┐
- * │  [Logo]  Roblox Expert ✨                    [Menu] 📋  │
- * │          Gemini 3.0 Flash                              │
+ * │  [Logo]  Roblox Expert ✨           [↗] [⬇] [Menu] 📋  │
+ * │          Gemini 3.0 Flash ▾  ◔ 42%                     │
  * └────────────────────────────────────────────────────────┘
  * ```
  * 
@@ -23,6 +28,11 @@
 
 import { Bot, Menu, Sparkles } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { ModelPicker } from './ModelPicker';
+import { ContextMeter } from './ContextMeter';
+import { SyncStatus } from './SyncStatus';
+import { ExportMenu } from './ExportMenu';
+import { ShareDialog } from './ShareDialog';
 
 // ============================================================================
 // TYPES
@@ -74,24 +84,30 @@ export const ChatHeader = ({ onOpenSidebar }: ChatHeaderProps) => {
             Roblox Expert
             <Sparkles className="h-4 w-4 text-muted-foreground" strokeWidth={2} />
           </h1>
-          <p className="text-xs text-muted-foreground">
-            Gemini 3.0 Flash
-          </p>
+          <div className="flex items-center gap-3">
+            <ModelPicker />
+            <ContextMeter />
+            <SyncStatus />
+          </div>
         </div>
       </div>
 
       {/* ═══════════════════════════════════════════════════════════════════
-          RIGHT: Menu Button
+          RIGHT: Share + Export + Menu Button
           ═══════════════════════════════════════════════════════════════════ */}
-      <Button
-        variant="ghost"
-        size="icon"
-        onClick={onOpenSidebar}
-        aria-label="فتح القائمة الجانبية"
-        className="h-10 w-10 text-muted-foreground hover:text-foreground transition-colors"
-      >
-        <Menu className="h-5 w-5" strokeWidth={2} />
-      </Button>
+      <div className="flex items-center gap-1">
+        <ShareDialog />
+        <ExportMenu />
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onOpenSidebar}
+          aria-label="فتح القائمة الجانبية"
+          className="h-10 w-10 text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <Menu className="h-5 w-5" strokeWidth={2} />
+        </Button>
+      </div>
     </header>
   );
 };
@@ -8,9 +8,12 @@
  * - قائمة إضافة مرفقات (صور/ملفات)
  * - معاينة المرفقات المعلقة
  * - حفظ المسودة تلقائياً
+ * - أوامر "/" لإدراج قوالب الرسائل (مدمجة + قوالب المستخدم)
+ * - لصق سجل Studio Output: يظهر كملخص أخطاء بدل النص الكامل
  * 
  * @dependencies
  * - useChatStore: للمرفقات والمسودة
+ * - useProfileStore: قوالب المستخدم
  * - Shadcn UI components
  * 
  * @accessibility
@@ -21,23 +24,42 @@
  * @keyboard
  * - Enter: إرسال الرسالة
  * - Shift+Enter: سطر جديد
+ * - "/" في بداية الحقل: قائمة القوالب (↑/↓ للتنقل، Enter أو Tab للاختيار، Esc للإغلاق)
  */
 
-import { useState, useRef, useCallback, KeyboardEvent, useEffect } from 'react';
-import { Send, Plus, FileText, X } from 'lucide-react';
+import { useState, useRef, useCallback, KeyboardEvent, useEffect, useMemo } from 'react';
+import { Send, Plus, FileText, X, Square, SquareTerminal } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useChatStore, Attachment } from '@/stores/chatStore';
+import { useProfileStore } from '@/stores/profileStore';
 import { Button } from '@/components/ui/button';
+import { findChatModel, resolveGenerationSettings } from '@shared/models';
+import {
+  BUILT_IN_TEMPLATES,
+  getSlashQuery,
+  matchTemplates,
+  parseTemplateFields,
+  type PromptTemplate,
+} from '@/lib/promptTemplates';
+import { formatStudioFrame, parseStudioOutput, type StudioOutputLog } from '@shared/studioOutput';
+import { STUDIO_OUTPUT_DEFAULT_PROMPT } from '@/lib/studioOutput';
+import { SlashCommandPalette } from './SlashCommandPalette';
+import { TemplateFieldsDialog } from './TemplateFieldsDialog';
+import { PromptTemplatesDialog } from './PromptTemplatesDialog';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
 interface ChatInputProps {
-  /** دالة الإرسال */
-  onSend: (content: string, attachments: Attachment[]) => void;
+  /** دالة الإرسال (مع سجل Output الملصق إن وُجد) */
+  onSend: (content: string, attachments: Attachment[], studioOutput?: StudioOutputLog) => void;
   /** هل الإدخال معطل؟ (أثناء التحميل) */
   disabled?: boolean;
+  /** هل يوجد رد قيد التوليد؟ (يستبدل زر الإرسال بزر الإيقاف) */
+  isGenerating?: boolean;
+  /** دالة إيقاف التوليد */
+  onStop?: () => void;
 }
 
 // ============================================================================
@@ -56,6 +78,11 @@ const MAX_TEXTAREA_HEIGHT = 160;
  */
 const ALLOWED_FILE_TYPES = '.txt,.pdf,.doc,.docx,.lua,.json,.xml';
 
+/**
+ * قيمة عنصر "إدارة القوالب" في قائمة "/" (قيم القوالب تبدأ بـ "/")
+ */
+const MANAGE_TEMPLATES_VALUE = 'manage';
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -68,10 +95,12 @@ const ALLOWED_FILE_TYPES = '.txt,.pdf,.doc,.docx,.lua,.json,.xml';
  * <ChatInput 
  *   onSend={(content, attachments) => sendMessage(content, attachments)} 
  *   disabled={isLoading} 
+ *   isGenerating={isLoading}
+ *   onStop={stopGeneration}
  * />
  * ```
  */
-export const ChatInput = ({ onSend, disabled }: ChatInputProps) => {
+export const ChatInput = ({ onSend, disabled, isGenerating, onStop }: ChatInputProps) => {
   // ─────────────────────────────────────────────────────────────────────────
   // STATE & REFS
   // ─────────────────────────────────────────────────────────────────────────
@@ -84,6 +113,21 @@ export const ChatInput = ({ onSend, disabled }: ChatInputProps) => {
   
   /** مرجع إدخال المرفقات (صور + ملفات) */
   const attachmentInputRef = useRef<HTMLInputElement>(null);
+
+  /** العنصر المحدد في قائمة "/" */
+  const [paletteValue, setPaletteValue] = useState('');
+
+  /** النص الذي أُغلقت عنده القائمة بـ Esc (تعود عند تغيّره) */
+  const [dismissedValue, setDismissedValue] = useState<string | null>(null);
+
+  /** القالب الذي تُملأ حقوله */
+  const [fillingTemplate, setFillingTemplate] = useState<PromptTemplate | null>(null);
+
+  /** نافذة إدارة قوالب المستخدم */
+  const [isManageOpen, setIsManageOpen] = useState(false);
+
+  /** سجل Output الملصق (يُرسل مع الرسالة التالية) */
+  const [studioOutput, setStudioOutput] = useState<StudioOutputLog | null>(null);
   
   // ─────────────────────────────────────────────────────────────────────────
   // STORE SUBSCRIPTIONS
@@ -91,10 +135,38 @@ export const ChatInput = ({ onSend, disabled }: ChatInputProps) => {
   
   const currentConversationId = useChatStore(state => state.currentConversationId);
   const pendingAttachments = useChatStore(state => state.pendingAttachments);
+  const modelId = useChatStore(
+    state => resolveGenerationSettings(state.getCurrentConversation()?.settings).model
+  );
+  const userTemplates = useProfileStore(state => state.promptTemplates);
   
   // Actions (stable references)
   const { addAttachment, removeAttachment, clearAttachments, setDraft } = useChatStore.getState();
 
+  // ─────────────────────────────────────────────────────────────────────────
+  // SLASH COMMANDS
+  // ─────────────────────────────────────────────────────────────────────────
+
+  const slashQuery = dismissedValue === value ? null : getSlashQuery(value);
+
+  const templateMatches = useMemo(
+    () => (slashQuery === null ? [] : matchTemplates([...BUILT_IN_TEMPLATES, ...userTemplates], slashQuery)),
+    [slashQuery, userTemplates]
+  );
+
+  /** قيم عناصر القائمة بترتيب عرضها (للتنقل بالأسهم) */
+  const paletteValues = useMemo(
+    () => [...templateMatches.map(template => `/${template.command}`), MANAGE_TEMPLATES_VALUE],
+    [templateMatches]
+  );
+
+  const isPaletteOpen = slashQuery !== null && !disabled;
+
+  /** أول نتيجة محددة تلقائياً كلما تغير البحث */
+  useEffect(() => {
+    setPaletteValue(paletteValues[0]);
+  }, [paletteValues]);
+
   // ─────────────────────────────────────────────────────────────────────────
   // EFFECTS
   // ─────────────────────────────────────────────────────────────────────────
@@ -107,12 +179,13 @@ export const ChatInput = ({ onSend, disabled }: ChatInputProps) => {
    * 
    * @behavior
    * 1. يجلب المسودة المحفوظة للمحادثة
-   * 2. يحدث قيمة الحقل
+   * 2. يحدث قيمة الحقل ويلغي سجل Output الملصق
    * 3. يعيد حساب ارتفاع الحقل
    */
   useEffect(() => {
     const conversation = useChatStore.getState().conversations.find(c => c.id === currentConversationId);
     setValue(conversation?.draft || '');
+    setStudioOutput(null);
 
     // إعادة حساب الارتفاع بعد تحديث القيمة
     setTimeout(() => {
@@ -141,26 +214,129 @@ export const ChatInput = ({ onSend, disabled }: ChatInputProps) => {
     }
   }, []);
 
+  /**
+   * استبدال نص الحقل (قالب مختار) مع المسودة والارتفاع والتركيز
+   */
+  const replaceValue = useCallback((text: string) => {
+    setValue(text);
+    if (currentConversationId) {
+      setDraft(currentConversationId, text);
+    }
+
+    setTimeout(() => {
+      const textarea = textareaRef.current;
+      if (!textarea) return;
+      handleResize();
+      textarea.focus();
+      textarea.setSelectionRange(text.length, text.length);
+    }, 0);
+  }, [currentConversationId, setDraft, handleResize]);
+
+  /**
+   * اختيار قالب من قائمة "/"
+   *
+   * @behavior
+   * - قالب بحقول: نافذة الحقول ثم الإدراج
+   * - قالب بدون حقول: يُدرج مباشرة
+   * - في الحالتين يُدرج النص ولا يُرسل حتى يراجعه المستخدم
+   */
+  const handleTemplateSelect = (template: PromptTemplate) => {
+    if (parseTemplateFields(template.body).length > 0) {
+      setDismissedValue(value);
+      setFillingTemplate(template);
+    } else {
+      replaceValue(template.body);
+    }
+  };
+
+  const handleManageTemplates = () => {
+    setDismissedValue(value);
+    setIsManageOpen(true);
+  };
+
+  /**
+   * التنقل في قائمة "/" من داخل حقل النص
+   *
+   * @returns true إذا استُهلك المفتاح
+   */
+  const handlePaletteKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>): boolean => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      const index = paletteValues.indexOf(paletteValue);
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      setPaletteValue(paletteValues[(index + step + paletteValues.length) % paletteValues.length]);
+      return true;
+    }
+
+    if (e.key === 'Enter' || e.key === 'Tab') {
+      if (paletteValue === MANAGE_TEMPLATES_VALUE) {
+        handleManageTemplates();
+      } else {
+        const template = templateMatches.find(item => `/${item.command}` === paletteValue);
+        if (!template) return false;
+        handleTemplateSelect(template);
+      }
+      return true;
+    }
+
+    if (e.key === 'Escape') {
+      setDismissedValue(value);
+      return true;
+    }
+
+    return false;
+  };
+
+  /**
+   * لصق سجل Studio Output
+   *
+   * @behavior
+   * - نص متعدد الأسطر فيه خطأ بموضع (سكربت:سطر) لا يُدرج في الحقل،
+   *   بل يُحفظ كسجل ويظهر ملخصه فوق الحقل
+   * - لصق سجل ثانٍ يُضاف للأول
+   * - ما عدا ذلك (كود، سطر واحد) يُلصق كالمعتاد
+   */
+  const handlePaste = (e: React.ClipboardEvent<HTMLTextAreaElement>) => {
+    const text = e.clipboardData.getData('text/plain');
+    if (!text.includes('\n')) return;
+
+    const parsed = parseStudioOutput(text);
+    if (!parsed) return;
+
+    e.preventDefault();
+    setStudioOutput(studioOutput ? parseStudioOutput(`${studioOutput.raw}\n${text}`) : parsed);
+  };
+
+  /**
+   * إعادة السجل الملصق إلى الحقل كنص عادي
+   */
+  const handleStudioOutputAsText = () => {
+    if (!studioOutput) return;
+    const raw = studioOutput.raw;
+    setStudioOutput(null);
+    replaceValue(value.trim() ? `${value}\n${raw}` : raw);
+  };
+
   /**
    * إرسال الرسالة
    * 
    * @guards
    * - لا يرسل إذا كان disabled
-   * - لا يرسل إذا كان المحتوى فارغاً ولا يوجد مرفقات
+   * - لا يرسل إذا كان المحتوى فارغاً ولا يوجد مرفقات ولا سجل Output
    * 
    * @sideEffects
    * - يمسح حقل النص
    * - يمسح المسودة
-   * - يمسح المرفقات المعلقة
+   * - يمسح المرفقات المعلقة وسجل Output
    * - يعيد الارتفاع للافتراضي
    */
   const handleSubmit = useCallback(() => {
     // Guard Clauses
     if (disabled) return;
-    if (!value.trim() && pendingAttachments.length === 0) return;
+    if (!value.trim() && pendingAttachments.length === 0 && !studioOutput) return;
     
-    // إرسال
-    onSend(value.trim(), pendingAttachments);
+    // إرسال (السجل وحده يُرسل بسؤال افتراضي)
+    const content = value.trim() || (studioOutput ? STUDIO_OUTPUT_DEFAULT_PROMPT : '');
+    onSend(content, pendingAttachments, studioOutput ?? undefined);
     
     // تنظيف
     setValue('');
@@ -168,21 +344,28 @@ export const ChatInput = ({ onSend, disabled }: ChatInputProps) => {
       setDraft(currentConversationId, '');
     }
     clearAttachments();
+    setStudioOutput(null);
     
     // إعادة ضبط الارتفاع
     if (textareaRef.current) {
       textareaRef.current.style.height = 'auto';
     }
-  }, [value, pendingAttachments, disabled, onSend, clearAttachments, currentConversationId, setDraft]);
+  }, [value, pendingAttachments, studioOutput, disabled, onSend, clearAttachments, currentConversationId, setDraft]);
 
   /**
    * معالج ضغط المفاتيح
    * 
    * @behavior
+   * - قائمة "/" مفتوحة: مفاتيح التنقل والاختيار لها أولاً
    * - Enter: إرسال
    * - Shift+Enter: سطر جديد
    */
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (isPaletteOpen && !e.shiftKey && handlePaletteKeyDown(e)) {
+      e.preventDefault();
+      return;
+    }
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSubmit();
@@ -296,78 +479,142 @@ export const ChatInput = ({ onSend, disabled }: ChatInputProps) => {
               ))}
             </div>
           )}
+
+          {studioOutput && (
+            <div className="flex items-center gap-3 rounded-xl border border-border bg-muted/60 px-3 py-2">
+              <SquareTerminal className="h-4 w-4 flex-shrink-0 text-muted-foreground" strokeWidth={2} />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-foreground">
+                  سجل Output · {studioOutput.errors.length} خطأ
+                </p>
+                <p dir="ltr" className="truncate text-start font-mono text-xs text-muted-foreground">
+                  {formatStudioFrame(studioOutput.errors[0].frames[0])}: {studioOutput.errors[0].message}
+                </p>
+              </div>
+              <button
+                type="button"
+                onClick={handleStudioOutputAsText}
+                className="flex-shrink-0 rounded-md px-2 py-1 text-xs text-muted-foreground hover:bg-accent hover:text-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              >
+                إدراج كنص
+              </button>
+              <button
+                type="button"
+                onClick={() => setStudioOutput(null)}
+                aria-label="إزالة سجل Output"
+                className="flex-shrink-0 rounded-full p-1 text-muted-foreground hover:text-foreground focus-visible:ring-2 focus-visible:ring-ring"
+              >
+                <X className="h-3 w-3" strokeWidth={2} />
+              </button>
+            </div>
+          )}
         </div>
 
         {/* ═══════════════════════════════════════════════════════════════════
             INPUT BOX - Compact & Centered
             ═══════════════════════════════════════════════════════════════════ */}
-        <div className="relative rounded-2xl border border-border bg-muted/50 shadow-lg overflow-hidden">
-          {/* ───────────────────────────────────────────────────────────────────
-              TEXT INPUT
-              ─────────────────────────────────────────────────────────────────── */}
-          <textarea
-            ref={textareaRef}
-            value={value}
-            onChange={e => {
-              const newValue = e.target.value;
-              setValue(newValue);
-              handleResize();
-
-              // حفظ المسودة تلقائياً
-              if (currentConversationId) {
-                setDraft(currentConversationId, newValue);
-              }
-            }}
-            onKeyDown={handleKeyDown}
-            placeholder="اسأل عن Roblox Studio..."
-            aria-label="اكتب رسالتك هنا"
-            disabled={disabled}
-            rows={1}
-            dir="auto"
-            className={cn(
-              'w-full resize-none bg-transparent px-4 py-3 pr-24',
-              'text-foreground placeholder:text-muted-foreground text-base',
-              'focus:outline-none',
-              'transition-all duration-200',
-              'disabled:opacity-50 disabled:cursor-not-allowed',
-              'max-h-32 min-h-[48px] overflow-y-auto',
-              'border-0'
-            )}
-          />
-
-          {/* ───────────────────────────────────────────────────────────────────
-              ACTION BUTTONS - Inside Input
-              ─────────────────────────────────────────────────────────────────── */}
-          <div className="absolute right-2 bottom-2 flex items-center gap-1">
-            <Button
-              type="button"
-              variant="ghost"
-              size="icon"
-              aria-label="إضافة مرفقات"
-              onClick={() => attachmentInputRef.current?.click()}
+        <div className="relative">
+          {isPaletteOpen && (
+            <SlashCommandPalette
+              templates={templateMatches}
+              activeValue={paletteValue}
+              onActiveValueChange={setPaletteValue}
+              manageValue={MANAGE_TEMPLATES_VALUE}
+              onSelect={handleTemplateSelect}
+              onManage={handleManageTemplates}
+            />
+          )}
+
+          <div className="relative rounded-2xl border border-border bg-muted/50 shadow-lg overflow-hidden">
+            {/* ───────────────────────────────────────────────────────────────────
+                TEXT INPUT
+                ─────────────────────────────────────────────────────────────────── */}
+            <textarea
+              ref={textareaRef}
+              value={value}
+              onChange={e => {
+                const newValue = e.target.value;
+                setValue(newValue);
+                setDismissedValue(null);
+                handleResize();
+
+                // حفظ المسودة تلقائياً
+                if (currentConversationId) {
+                  setDraft(currentConversationId, newValue);
+                }
+              }}
+              onKeyDown={handleKeyDown}
+              onPaste={handlePaste}
+              placeholder="اسأل عن Roblox Studio... أو / للقوالب"
+              aria-label="اكتب رسالتك هنا"
+              aria-autocomplete="list"
+              aria-expanded={isPaletteOpen}
+              aria-controls={isPaletteOpen ? 'slash-command-list' : undefined}
+              disabled={disabled}
+              rows={1}
+              dir="auto"
               className={cn(
-                'h-8 w-8 rounded-lg text-muted-foreground transition-all',
-                'hover:bg-accent hover:text-foreground',
-                'focus-visible:ring-2 focus-visible:ring-ring'
+                'w-full resize-none bg-transparent px-4 py-3 pr-24',
+                'text-foreground placeholder:text-muted-foreground text-base',
+                'focus:outline-none',
+                'transition-all duration-200',
+                'disabled:opacity-50 disabled:cursor-not-allowed',
+                'max-h-32 min-h-[48px] overflow-y-auto',
+                'border-0'
               )}
-            >
-              <Plus className="h-4 w-4" strokeWidth={2} />
-            </Button>
-
-            <Button
-              onClick={handleSubmit}
-              disabled={disabled || (!value.trim() && pendingAttachments.length === 0)}
-              size="icon"
-              aria-label="إرسال الرسالة"
-              className={cn(
-                'h-8 w-8 rounded-lg transition-all duration-200',
-                'bg-foreground text-background hover:bg-foreground/90',
-                'focus-visible:ring-2 focus-visible:ring-ring',
-                'disabled:opacity-50 disabled:cursor-not-allowed'
+            />
+
+            {/* ───────────────────────────────────────────────────────────────────
+                ACTION BUTTONS - Inside Input
+                ─────────────────────────────────────────────────────────────────── */}
+            <div className="absolute right-2 bottom-2 flex items-center gap-1">
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                aria-label="إضافة مرفقات"
+                onClick={() => attachmentInputRef.current?.click()}
+                className={cn(
+                  'h-8 w-8 rounded-lg text-muted-foreground transition-all',
+                  'hover:bg-accent hover:text-foreground',
+                  'focus-visible:ring-2 focus-visible:ring-ring'
+                )}
+              >
+                <Plus className="h-4 w-4" strokeWidth={2} />
+              </Button>
+
+              {isGenerating && onStop ? (
+                <Button
+                  type="button"
+                  onClick={onStop}
+                  size="icon"
+                  aria-label="إيقاف التوليد"
+                  title="إيقاف التوليد"
+                  className={cn(
+                    'h-8 w-8 rounded-lg transition-all duration-200',
+                    'bg-foreground text-background hover:bg-foreground/90',
+                    'focus-visible:ring-2 focus-visible:ring-ring'
+                  )}
+                >
+                  <Square className="h-3 w-3 fill-current" strokeWidth={2} />
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleSubmit}
+                  disabled={disabled || (!value.trim() && pendingAttachments.length === 0 && !studioOutput)}
+                  size="icon"
+                  aria-label="إرسال الرسالة"
+                  className={cn(
+                    'h-8 w-8 rounded-lg transition-all duration-200',
+                    'bg-foreground text-background hover:bg-foreground/90',
+                    'focus-visible:ring-2 focus-visible:ring-ring',
+                    'disabled:opacity-50 disabled:cursor-not-allowed'
+                  )}
+                >
+                  <Send className="h-3.5 w-3.5" strokeWidth={2} />
+                </Button>
               )}
-            >
-              <Send className="h-3.5 w-3.5" strokeWidth={2} />
-            </Button>
+            </div>
           </div>
         </div>
 
@@ -387,9 +634,18 @@ export const ChatInput = ({ onSend, disabled }: ChatInputProps) => {
             FOOTER NOTE
             ═══════════════════════════════════════════════════════════════════ */}
         <p className="text-xs text-muted-foreground text-center mt-3">
-          Roblox Expert · Gemini 3.0 Flash
+          Roblox Expert · {findChatModel(modelId)?.label}
         </p>
       </div>
+
+      <TemplateFieldsDialog
+        template={fillingTemplate}
+        onOpenChange={(open) => {
+          if (!open) setFillingTemplate(null);
+        }}
+        onSubmit={replaceValue}
+      />
+      <PromptTemplatesDialog open={isManageOpen} onOpenChange={setIsManageOpen} />
     </div>
   );
 };
@@ -4,18 +4,41 @@
  * @description
  * يعرض رسالة واحدة مع:
  * - اسم المرسل
- * - المرفقات (صور/ملفات)
+ * - المرفقات (صور/ملفات) وسجل Studio Output الملصق
  * - المحتوى (مع دعم streaming)
  * - مؤشر التفكير (thinking indicator)
  * - أزرار النسخ وإعادة التوليد
+ * - حالة رسائل المستخدم المنتظرة أو الفاشلة (Outbox)
+ * - تعديل رسائل المستخدم والتنقل بين الفروع ("2 / 3")
+ * - تظليل مؤقت عند الوصول إليها من البحث
+ * - زر "إصلاح" لكتل الكود، وعرض رد الإصلاح كمقارنة مع الأصل
+ * - تصدير كل سكربتات الرد كنموذج Roblox أو مشروع Rojo
  */
 
-import { memo, useState } from 'react';
+import { memo, useMemo, useState, KeyboardEvent } from 'react';
 import { cn } from '@/lib/utils';
-import { Message } from '@/stores/chatStore';
+import { CodeFixRequest, Message } from '@/stores/chatStore';
+import type { CodeFixInput } from '@/lib/codeFix';
+import { extractCodeBlocks } from '@/lib/codeBlocks';
+import { LUAU_LANGUAGES } from '@/lib/luauAnalyzer';
+import { formatStudioFrame } from '@shared/studioOutput';
 import { ThinkingIndicator } from './ThinkingIndicator';
 import { StreamingText } from './StreamingText';
-import { Copy, Check, RefreshCw } from 'lucide-react';
+import { ScriptExportMenu } from './ScriptExportMenu';
+import {
+  Copy,
+  Check,
+  RefreshCw,
+  Clock,
+  AlertCircle,
+  CircleStop,
+  Scissors,
+  StepForward,
+  Pencil,
+  ChevronLeft,
+  ChevronRight,
+  SquareTerminal,
+} from 'lucide-react';
 import { toast } from 'sonner';
 
 // ============================================================================
@@ -25,10 +48,32 @@ import { toast } from 'sonner';
 interface ChatMessageProps {
   /** بيانات الرسالة للعرض */
   message: Message;
-  /** هل هذه الرسالة الأخيرة؟ (لإظهار زر الإعادة) */
+  /** هل هذه آخر رسالة للمساعد؟ (لإظهار زر المتابعة) */
   isLastAssistant?: boolean;
-  /** دالة إعادة التوليد */
-  onRegenerate?: () => void;
+  /** ترتيب الرسالة بين فروعها الأخوة (يبدأ من 0) */
+  branchIndex?: number;
+  /** عدد الفروع الأخوة (شاملاً الرسالة) */
+  branchCount?: number;
+  /** الفرع الأخ السابق */
+  previousBranchId?: string;
+  /** الفرع الأخ التالي */
+  nextBranchId?: string;
+  /** عرض فرع أخ */
+  onSelectBranch?: (messageId: string) => void;
+  /** دالة إعادة التوليد (تنشئ فرعاً أخاً) */
+  onRegenerate?: (messageId: string) => void;
+  /** تعديل رسالة المستخدم كفرع جديد */
+  onEdit?: (messageId: string, content: string) => void;
+  /** إعادة محاولة إرسال رسالة فاشلة */
+  onRetry?: (messageId: string) => void;
+  /** متابعة رد مقطوع في نفس الرسالة */
+  onContinue?: (messageId: string) => void;
+  /** تظليل مؤقت (عند الانتقال من نتائج البحث) */
+  isHighlighted?: boolean;
+  /** إرسال كتلة كود للإصلاح */
+  onFixCode?: (input: CodeFixInput) => void;
+  /** طلب الإصلاح الذي يجيب عليه هذا الرد (من رسالة المستخدم السابقة) */
+  fixRequest?: CodeFixRequest;
 }
 
 // ============================================================================
@@ -38,12 +83,33 @@ interface ChatMessageProps {
 /**
  * مكون عرض الرسالة
  */
-export const ChatMessage = memo(({ message, isLastAssistant, onRegenerate }: ChatMessageProps) => {
+export const ChatMessage = memo(({
+  message,
+  isLastAssistant,
+  branchIndex = 0,
+  branchCount = 1,
+  previousBranchId,
+  nextBranchId,
+  onSelectBranch,
+  onRegenerate,
+  onEdit,
+  onRetry,
+  onContinue,
+  isHighlighted = false,
+  onFixCode,
+  fixRequest,
+}: ChatMessageProps) => {
   // ─────────────────────────────────────────────────────────────────────────
   // STATE
   // ─────────────────────────────────────────────────────────────────────────
   
   const [copied, setCopied] = useState(false);
+  
+  /** هل الرسالة في وضع التعديل؟ */
+  const [isEditing, setIsEditing] = useState(false);
+  
+  /** النص أثناء التعديل */
+  const [editValue, setEditValue] = useState('');
 
   // ─────────────────────────────────────────────────────────────────────────
   // DERIVED STATE
@@ -57,6 +123,32 @@ export const ChatMessage = memo(({ message, isLastAssistant, onRegenerate }: Cha
   
   /** هل في حالة بث؟ */
   const isStreaming = message.isStreaming && !!message.content;
+  
+  /** هل الرسالة في طابور الإرسال؟ */
+  const isQueued = message.status === 'queued';
+  
+  /** هل فشل إرسال الرسالة؟ */
+  const isFailed = message.status === 'failed';
+
+  /** هل أوقف المستخدم الرد قبل اكتماله؟ */
+  const isStopped = !isUser && message.stopReason === 'stopped';
+
+  /** هل قُطع الرد عند حد الطول؟ */
+  const isTruncated = !isUser && message.stopReason === 'length';
+
+  /** يمكن متابعة آخر رد مقطوع فقط (ما بعده يعتمد عليه) */
+  const canContinue = (isStopped || isTruncated) && isLastAssistant && !!onContinue;
+
+  /** كتل Luau المكتملة في الرد (للتصدير دفعة واحدة) */
+  const luauSources = useMemo(
+    () =>
+      isUser || message.isStreaming
+        ? []
+        : extractCodeBlocks(message.content)
+            .filter((block) => LUAU_LANGUAGES.has(block.language))
+            .map((block) => block.code),
+    [isUser, message.isStreaming, message.content]
+  );
 
   // ─────────────────────────────────────────────────────────────────────────
   // HANDLERS
@@ -81,7 +173,40 @@ export const ChatMessage = memo(({ message, isLastAssistant, onRegenerate }: Cha
    */
   const handleRegenerate = () => {
     if (onRegenerate) {
-      onRegenerate();
+      onRegenerate(message.id);
+    }
+  };
+
+  /**
+   * بدء تعديل رسالة المستخدم
+   */
+  const startEditing = () => {
+    setEditValue(message.content);
+    setIsEditing(true);
+  };
+
+  /**
+   * إرسال النسخة المعدلة كفرع جديد
+   * 
+   * @behavior
+   * لا يُنشأ فرع إذا لم يتغير النص
+   */
+  const submitEdit = () => {
+    const trimmed = editValue.trim();
+    setIsEditing(false);
+    if (!trimmed || trimmed === message.content.trim()) return;
+    onEdit?.(message.id, trimmed);
+  };
+
+  /**
+   * Enter للإرسال، Shift+Enter لسطر جديد، Escape للإلغاء
+   */
+  const handleEditKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      submitEdit();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
     }
   };
 
@@ -91,11 +216,14 @@ export const ChatMessage = memo(({ message, isLastAssistant, onRegenerate }: Cha
 
   return (
     <div
+      data-message-id={message.id}
       className={cn(
-        'message-enter px-4 py-5',
+        'group message-enter px-4 py-5 transition-colors duration-500',
         isUser
           ? 'bg-transparent border-r-2 border-foreground/10'
-          : 'bg-card/30 border-l-2 border-foreground/10'
+          : 'bg-card/30 border-l-2 border-foreground/10',
+        isQueued && 'opacity-70',
+        isHighlighted && 'bg-primary/10 ring-2 ring-inset ring-primary/40'
       )}
     >
       <div className="max-w-3xl mx-auto space-y-2">
@@ -109,6 +237,100 @@ export const ChatMessage = memo(({ message, isLastAssistant, onRegenerate }: Cha
           )}>
             {isUser ? 'أنت' : 'Roblox Expert'}
           </span>
+          
+          {/* حالة الإرسال (رسائل المستخدم فقط) */}
+          {isUser && isQueued && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Clock className="h-3 w-3" strokeWidth={2} />
+              في انتظار الاتصال
+            </span>
+          )}
+          {isUser && isFailed && (
+            <span className="flex items-center gap-1 text-xs text-destructive">
+              <AlertCircle className="h-3 w-3" strokeWidth={2} />
+              فشل الإرسال
+            </span>
+          )}
+          {isStopped && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <CircleStop className="h-3 w-3" strokeWidth={2} />
+              تم الإيقاف
+            </span>
+          )}
+          {isTruncated && (
+            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+              <Scissors className="h-3 w-3" strokeWidth={2} />
+              توقف عند حد الطول
+            </span>
+          )}
+          {isUser && isFailed && onRetry && (
+            <button
+              onClick={() => onRetry(message.id)}
+              className={cn(
+                "flex items-center gap-1 px-2 py-0.5 rounded-md text-xs",
+                "text-muted-foreground hover:text-foreground hover:bg-muted/50",
+                "transition-colors duration-200",
+                "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              )}
+              aria-label="إعادة محاولة الإرسال"
+            >
+              <RefreshCw className="h-3 w-3" strokeWidth={2} />
+              <span>إعادة المحاولة</span>
+            </button>
+          )}
+
+          {/* تعديل رسالة المستخدم (يظهر عند المرور) */}
+          {isUser && onEdit && !isEditing && !isQueued && (
+            <button
+              onClick={startEditing}
+              className={cn(
+                "p-1 rounded-md text-muted-foreground",
+                "opacity-0 group-hover:opacity-100 focus-visible:opacity-100",
+                "hover:text-foreground hover:bg-muted/50",
+                "transition-all duration-200",
+                "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              )}
+              aria-label="تعديل الرسالة"
+              title="تعديل الرسالة"
+            >
+              <Pencil className="h-3 w-3" strokeWidth={2} />
+            </button>
+          )}
+
+          {/* التنقل بين الفروع الأخوة */}
+          {branchCount > 1 && (
+            <div className="ms-auto flex items-center gap-0.5 text-xs text-muted-foreground">
+              <button
+                onClick={() => previousBranchId && onSelectBranch?.(previousBranchId)}
+                disabled={!previousBranchId || !onSelectBranch}
+                className={cn(
+                  "p-1 rounded-md hover:text-foreground hover:bg-muted/50",
+                  "transition-colors duration-200",
+                  "disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent",
+                  "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                )}
+                aria-label="الفرع السابق"
+              >
+                <ChevronRight className="h-3.5 w-3.5" strokeWidth={2} />
+              </button>
+              <span dir="ltr" className="tabular-nums min-w-[2.5rem] text-center">
+                {branchIndex + 1} / {branchCount}
+              </span>
+              <button
+                onClick={() => nextBranchId && onSelectBranch?.(nextBranchId)}
+                disabled={!nextBranchId || !onSelectBranch}
+                className={cn(
+                  "p-1 rounded-md hover:text-foreground hover:bg-muted/50",
+                  "transition-colors duration-200",
+                  "disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent",
+                  "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                )}
+                aria-label="الفرع التالي"
+              >
+                <ChevronLeft className="h-3.5 w-3.5" strokeWidth={2} />
+              </button>
+            </div>
+          )}
         </div>
 
         {/* ───────────────────────────────────────────────────────────────────
@@ -118,7 +340,8 @@ export const ChatMessage = memo(({ message, isLastAssistant, onRegenerate }: Cha
           <div className="flex flex-wrap gap-2">
             {message.attachments.map((attachment) => (
               <div key={attachment.id} className="relative group">
-                {attachment.type === 'image' ? (
+                {/* المرفقات المسحوبة من الخادم لا تحمل رابط عرض محلي */}
+                {attachment.type === 'image' && attachment.url ? (
                   <img
                     src={attachment.url}
                     alt={attachment.name}
@@ -134,6 +357,35 @@ export const ChatMessage = memo(({ message, isLastAssistant, onRegenerate }: Cha
           </div>
         )}
 
+        {/* ───────────────────────────────────────────────────────────────────
+            STUDIO OUTPUT (if any) - ملخص الأخطاء بدل السجل الكامل
+            ─────────────────────────────────────────────────────────────────── */}
+        {message.studioOutput && (
+          <details className="group rounded-lg border border-border bg-muted/40 text-sm">
+            <summary
+              className={cn(
+                "flex cursor-pointer list-none items-center gap-2 px-3 py-2 text-muted-foreground",
+                "hover:text-foreground rounded-lg",
+                "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              )}
+            >
+              <SquareTerminal className="h-4 w-4" strokeWidth={2} />
+              سجل Output · {message.studioOutput.errors.length} خطأ
+            </summary>
+            <ul dir="ltr" className="space-y-1 border-t border-border px-3 py-2 font-mono text-xs">
+              {message.studioOutput.errors.map((error, index) => (
+                <li key={index} className="text-muted-foreground">
+                  {error.frames[0] && (
+                    <span className="text-foreground">{formatStudioFrame(error.frames[0])}: </span>
+                  )}
+                  {error.message}
+                  {error.count > 1 && ` ×${error.count}`}
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+
         {/* ───────────────────────────────────────────────────────────────────
             CONTENT AREA
             ─────────────────────────────────────────────────────────────────── */}
@@ -152,17 +404,62 @@ export const ChatMessage = memo(({ message, isLastAssistant, onRegenerate }: Cha
               isWaiting ? 'opacity-0' : 'opacity-100'
             )}
           >
-            {!isWaiting && (
+            {isEditing ? (
+              <div className="space-y-2">
+                <textarea
+                  value={editValue}
+                  onChange={(e) => setEditValue(e.target.value)}
+                  onKeyDown={handleEditKeyDown}
+                  autoFocus
+                  rows={3}
+                  dir="auto"
+                  aria-label="تعديل نص الرسالة"
+                  className={cn(
+                    "w-full resize-y rounded-lg border border-border bg-muted/50 px-3 py-2",
+                    "text-base text-foreground",
+                    "focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  )}
+                />
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={submitEdit}
+                    disabled={!editValue.trim()}
+                    className={cn(
+                      "px-3 py-1.5 rounded-lg text-xs font-medium",
+                      "bg-foreground text-background hover:bg-foreground/90",
+                      "transition-colors duration-200",
+                      "disabled:opacity-50 disabled:cursor-not-allowed",
+                      "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                    )}
+                  >
+                    إرسال
+                  </button>
+                  <button
+                    onClick={() => setIsEditing(false)}
+                    className={cn(
+                      "px-3 py-1.5 rounded-lg text-xs",
+                      "text-muted-foreground hover:text-foreground hover:bg-muted/50",
+                      "transition-colors duration-200",
+                      "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                    )}
+                  >
+                    إلغاء
+                  </button>
+                </div>
+              </div>
+            ) : !isWaiting && (
               <StreamingText 
                 content={message.content} 
                 isStreaming={isStreaming} 
+                onFixCode={onFixCode}
+                fixRequest={fixRequest}
               />
             )}
           </div>
         </div>
 
         {/* ───────────────────────────────────────────────────────────────────
-            ACTION BUTTONS - Copy & Regenerate (Assistant only)
+            ACTION BUTTONS - Copy, Export & Regenerate (Assistant only)
             ─────────────────────────────────────────────────────────────────── */}
         {!isUser && !isWaiting && !isStreaming && message.content && (
           <div className="flex items-center gap-2 pt-2 border-t border-border/30">
@@ -190,8 +487,28 @@ export const ChatMessage = memo(({ message, isLastAssistant, onRegenerate }: Cha
               )}
             </button>
 
-            {/* Regenerate Button - Only for last assistant message */}
-            {isLastAssistant && onRegenerate && (
+            {/* Export Menu - All Luau blocks as one model / Rojo project */}
+            {luauSources.length > 0 && <ScriptExportMenu sources={luauSources} variant="action" />}
+
+            {/* Continue Button - Only for a cut-off last assistant message */}
+            {canContinue && (
+              <button
+                onClick={() => onContinue?.(message.id)}
+                className={cn(
+                  "flex items-center gap-1.5 px-2.5 py-1.5 rounded-lg text-xs",
+                  "text-muted-foreground hover:text-foreground hover:bg-muted/50",
+                  "transition-colors duration-200",
+                  "focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                )}
+                aria-label="متابعة الرد"
+              >
+                <StepForward className="h-3.5 w-3.5" />
+                <span>متابعة</span>
+              </button>
+            )}
+
+            {/* Regenerate Button - Keeps the current reply as a sibling branch */}
+            {onRegenerate && (
               <button
                 onClick={handleRegenerate}
                 className={cn(
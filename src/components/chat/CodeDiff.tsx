@@ -0,0 +1,194 @@
+/**
+ * @fileoverview مقارنة الكود المصلح - Code Diff
+ *
+ * @description
+ * يعرض كود رد "إصلاح" كتغييرات على الكود الأصلي:
+ * - كل تغيير (hunk) يُقبل أو يُرفض على حدة (الافتراضي: مقبول)
+ * - النسخ يأخذ الناتج بعد تطبيق المقبول فقط
+ * - "عرض الناتج" يعرضه ككتلة كود عادية (مع الفحص)
+ *
+ * @dependencies
+ * - @/lib/diff: المقارنة وتطبيق التغييرات
+ *
+ * @usedBy
+ * - StreamingText: أول كتلة بنفس اللغة في رد على طلب إصلاح
+ */
+
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { Check, Copy, GitCompare, X } from 'lucide-react';
+import { applyHunks, diffLines, type DiffHunk } from '@/lib/diff';
+import { cn } from '@/lib/utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface CodeDiffProps {
+  original: string;
+  fixed: string;
+  /** عرض الناتج ككتلة كود عادية */
+  renderCode: (code: string) => ReactNode;
+}
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+const DiffLine = ({ prefix, text, className }: { prefix: string; text: string; className?: string }) => (
+  <div className={cn('flex whitespace-pre', className)}>
+    <span className="w-5 shrink-0 select-none text-muted-foreground/60">{prefix}</span>
+    <span>{text || ' '}</span>
+  </div>
+);
+
+const HunkView = ({
+  hunk,
+  accepted,
+  onToggle,
+}: {
+  hunk: DiffHunk;
+  accepted: boolean;
+  onToggle: (accepted: boolean) => void;
+}) => (
+  <div className="border-b border-border last:border-b-0">
+    <div className="flex items-center justify-between px-4 py-1.5 bg-background/50 text-xs" dir="rtl">
+      <span className="text-muted-foreground tabular-nums">سطر {hunk.oldStart + 1}</span>
+      <div className="flex items-center gap-1" role="group" aria-label={`التغيير عند السطر ${hunk.oldStart + 1}`}>
+        {[
+          { value: true, label: 'قبول', icon: Check },
+          { value: false, label: 'رفض', icon: X },
+        ].map(({ value, label, icon: Icon }) => (
+          <button
+            key={label}
+            type="button"
+            onClick={() => onToggle(value)}
+            aria-pressed={accepted === value}
+            className={cn(
+              'flex items-center gap-1 px-2 py-0.5 rounded transition-colors',
+              'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+              accepted === value
+                ? 'bg-foreground text-background'
+                : 'text-muted-foreground hover:text-foreground hover:bg-muted/50'
+            )}
+          >
+            <Icon className="h-3 w-3" strokeWidth={2} />
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+
+    <div className="px-4 py-2 font-mono text-sm overflow-x-auto" dir="ltr">
+      {hunk.context.map((line, i) => (
+        <DiffLine key={`c${i}`} prefix=" " text={line} className="text-muted-foreground" />
+      ))}
+      {hunk.removed.map((line, i) => (
+        <DiffLine
+          key={`r${i}`}
+          prefix="-"
+          text={line}
+          className={cn('bg-destructive/15', accepted && 'opacity-50 line-through')}
+        />
+      ))}
+      {hunk.added.map((line, i) => (
+        <DiffLine
+          key={`a${i}`}
+          prefix="+"
+          text={line}
+          className={cn('bg-foreground/10', !accepted && 'opacity-40')}
+        />
+      ))}
+    </div>
+  </div>
+);
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * @example
+ * ```tsx
+ * <CodeDiff original={request.code} fixed={code} renderCode={(code) => <CodeBlock ... />} />
+ * ```
+ */
+export const CodeDiff = ({ original, fixed, renderCode }: CodeDiffProps) => {
+  const hunks = useMemo(() => diffLines(original, fixed), [original, fixed]);
+  const [accepted, setAccepted] = useState<boolean[]>(() => hunks.map(() => true));
+  const [showResult, setShowResult] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    setAccepted(hunks.map(() => true));
+  }, [hunks]);
+
+  const result = useMemo(() => applyHunks(original, hunks, accepted), [original, hunks, accepted]);
+  const acceptedCount = accepted.filter(Boolean).length;
+
+  const toggle = (index: number, value: boolean) =>
+    setAccepted((current) => current.map((item, i) => (i === index ? value : item)));
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(result);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (hunks.length === 0) {
+    return (
+      <div className="my-4">
+        <p className="text-xs text-muted-foreground mb-1">الكود مطابق للأصل</p>
+        {renderCode(fixed)}
+      </div>
+    );
+  }
+
+  return (
+    <div className="my-4 space-y-2">
+      <div className="rounded-lg border border-border bg-muted overflow-hidden">
+        {/* ─────────────────────────────────────────────────────────────────────
+            HEADER: summary + result toggle + copy
+            ───────────────────────────────────────────────────────────────────── */}
+        <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-border bg-background/50 text-xs" dir="rtl">
+          <span className="flex items-center gap-1.5 text-muted-foreground">
+            <GitCompare className="h-3.5 w-3.5" strokeWidth={2} />
+            مقارنة مع الكود الأصلي · {acceptedCount} من {hunks.length} تغييرات مقبولة
+          </span>
+          <div className="flex items-center gap-3">
+            <button
+              type="button"
+              onClick={() => setShowResult((value) => !value)}
+              aria-expanded={showResult}
+              className="text-muted-foreground hover:text-foreground transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring rounded"
+            >
+              {showResult ? 'إخفاء الناتج' : 'عرض الناتج'}
+            </button>
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="flex items-center gap-1.5 text-muted-foreground hover:text-foreground transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring rounded"
+            >
+              {copied ? (
+                <Check className="h-3.5 w-3.5" strokeWidth={2} />
+              ) : (
+                <Copy className="h-3.5 w-3.5" strokeWidth={2} />
+              )}
+              <span>{copied ? 'تم النسخ' : 'نسخ الناتج'}</span>
+            </button>
+          </div>
+        </div>
+
+        {hunks.map((hunk, index) => (
+          <HunkView
+            key={`${hunk.oldStart}-${index}`}
+            hunk={hunk}
+            accepted={accepted[index] ?? true}
+            onToggle={(value) => toggle(index, value)}
+          />
+        ))}
+      </div>
+
+      {showResult && renderCode(result)}
+    </div>
+  );
+};
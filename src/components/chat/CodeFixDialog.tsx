@@ -0,0 +1,99 @@
+/**
+ * @fileoverview نافذة إصلاح الكود - Code Fix Dialog
+ *
+ * @description
+ * تجمع ما يُرسل مع الكتلة: ملاحظات الفحص (تلقائياً) وأخطاء Studio Output
+ * الملصقة (اختيارياً)
+ *
+ * @usedBy
+ * - StreamingText (CodeBlock)
+ */
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { Wrench } from 'lucide-react';
+import type { LuauDiagnostic } from '@/lib/luauAnalyzer';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface CodeFixDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  diagnostics: LuauDiagnostic[];
+  onSubmit: (studioOutput: string) => void;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * @example
+ * ```tsx
+ * <CodeFixDialog open={open} onOpenChange={setOpen} diagnostics={diagnostics} onSubmit={send} />
+ * ```
+ */
+export const CodeFixDialog = ({ open, onOpenChange, diagnostics, onSubmit }: CodeFixDialogProps) => {
+  const [studioOutput, setStudioOutput] = useState('');
+
+  useEffect(() => {
+    if (open) setStudioOutput('');
+  }, [open]);
+
+  const canSubmit = diagnostics.length > 0 || !!studioOutput.trim();
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    onSubmit(studioOutput);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg" dir="rtl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader className="text-right sm:text-right">
+            <DialogTitle>إصلاح الكود</DialogTitle>
+            <DialogDescription>
+              {diagnostics.length > 0
+                ? `يُرسل الكود مع ${diagnostics.length} ملاحظة من الفحص، ويظهر الرد كمقارنة مع الأصل.`
+                : 'لا توجد ملاحظات من الفحص. ألصق أخطاء Studio لإرسالها مع الكود.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Textarea
+            value={studioOutput}
+            onChange={(e) => setStudioOutput(e.target.value)}
+            placeholder="ServerScriptService.Main:42: attempt to index nil with 'Humanoid'"
+            aria-label="أخطاء Studio Output (اختياري)"
+            rows={5}
+            dir="auto"
+            className="font-mono text-xs"
+          />
+
+          <DialogFooter className="gap-2 sm:justify-start">
+            <Button type="submit" disabled={!canSubmit} className="gap-2">
+              <Wrench className="h-4 w-4" strokeWidth={2} />
+              إرسال للإصلاح
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              إلغاء
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview مؤشر نافذة السياق - Context Meter
+ *
+ * @description
+ * دائرة صغيرة تعرض نسبة ما يشغله سجل المحادثة من ميزانية السياق.
+ * عند امتلائها تُلخص الرسائل القديمة تلقائياً مع الرسالة التالية.
+ *
+ * @usedBy
+ * - ChatHeader
+ */
+
+import { useMemo } from 'react';
+import { useChatStore } from '@/stores/chatStore';
+import { getContextUsage } from '@/lib/contextBuilder';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SIZE = 16;
+const STROKE = 2;
+const RADIUS = (SIZE - STROKE) / 2;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * مكون مؤشر السياق (لا يظهر لمحادثة فارغة)
+ *
+ * @example
+ * ```tsx
+ * <ContextMeter />
+ * ```
+ */
+export const ContextMeter = () => {
+  const conversation = useChatStore((state) => state.getCurrentConversation());
+  const usage = useMemo(
+    () => (conversation && conversation.messages.length > 0 ? getContextUsage(conversation) : null),
+    [conversation]
+  );
+
+  if (!usage) return null;
+
+  const ratio = Math.min(1, usage.usedTokens / usage.budget);
+  const percent = Math.round(ratio * 100);
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button
+          type="button"
+          className="flex items-center gap-1 text-xs text-muted-foreground rounded-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          aria-label={`سياق المحادثة ${percent}%`}
+        >
+          <svg width={SIZE} height={SIZE} viewBox={`0 0 ${SIZE} ${SIZE}`} className="-rotate-90" aria-hidden="true">
+            <circle
+              cx={SIZE / 2}
+              cy={SIZE / 2}
+              r={RADIUS}
+              fill="none"
+              strokeWidth={STROKE}
+              className="stroke-muted"
+            />
+            <circle
+              cx={SIZE / 2}
+              cy={SIZE / 2}
+              r={RADIUS}
+              fill="none"
+              strokeWidth={STROKE}
+              strokeDasharray={CIRCUMFERENCE}
+              strokeDashoffset={CIRCUMFERENCE * (1 - ratio)}
+              strokeLinecap="round"
+              className={cn(
+                'transition-all duration-300',
+                ratio >= 0.9 ? 'stroke-destructive' : 'stroke-foreground'
+              )}
+            />
+          </svg>
+          <span className="tabular-nums" dir="ltr">{percent}%</span>
+        </button>
+      </TooltipTrigger>
+      <TooltipContent side="bottom" className="max-w-xs text-right" dir="rtl">
+        <p>
+          سياق المحادثة: ~{usage.usedTokens.toLocaleString('ar')} من{' '}
+          {usage.budget.toLocaleString('ar')} token
+        </p>
+        {usage.summarizedCount > 0 && (
+          <p className="text-muted-foreground">
+            {usage.summarizedCount.toLocaleString('ar')} رسالة قديمة محفوظة كملخص
+          </p>
+        )}
+        {ratio >= 1 && (
+          <p className="text-muted-foreground">ستُلخص الرسائل القديمة مع رسالتك التالية</p>
+        )}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
@@ -0,0 +1,141 @@
+/**
+ * @fileoverview صفحة المحادثة المصدّرة - Exported Conversation Document
+ *
+ * @description
+ * مستند HTML كامل (<html> ... </html>) يُحوَّل لنص بـ renderToStaticMarkup
+ * ويُحفظ كملف مستقل: الأنماط في <style> والتلوين بأنماط مضمنة والصور كـ data URL.
+ *
+ * @note
+ * لا يُعرض داخل التطبيق؛ لا يستخدم فئات Tailwind لأنها لن تكون موجودة في الملف
+ *
+ * @usedBy
+ * - conversationExport.conversationToHtml
+ */
+
+import ReactMarkdown from 'react-markdown';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import type { Conversation } from '@/stores/chatStore';
+import { getActivePath } from '@/lib/messageTree';
+import { ROLE_LABELS, closeOpenFence, formatExportDate } from '@/lib/conversationExport';
+import { withStudioOutput } from '@/lib/studioOutput';
+import { findChatModel, resolveGenerationSettings } from '@shared/models';
+
+// ============================================================================
+// STYLES
+// ============================================================================
+
+const DOCUMENT_CSS = `
+*{box-sizing:border-box}
+body{margin:0;background:#0a0a0a;color:#e5e5e5;font:15px/1.7 system-ui,-apple-system,"Segoe UI",Tahoma,sans-serif}
+main{max-width:860px;margin:0 auto;padding:32px 16px}
+header{border-bottom:1px solid #262626;padding-bottom:16px;margin-bottom:24px}
+h1{font-size:1.5rem;margin:0 0 4px}
+.meta{color:#a3a3a3;font-size:.85rem}
+article{border:1px solid #262626;border-radius:12px;padding:16px 20px;margin:0 0 16px}
+article.user{background:#171717}
+.role{font-weight:600;font-size:.85rem;color:#a3a3a3;margin-bottom:8px;display:flex;justify-content:space-between;gap:8px}
+.content p{margin:0 0 12px}
+.content code{font-family:ui-monospace,Consolas,monospace;font-size:.875em}
+.content :not(pre)>code{background:#262626;border-radius:4px;padding:1px 5px}
+.code{direction:ltr;text-align:left;border:1px solid #262626;border-radius:8px;overflow:hidden;margin:12px 0}
+.code-lang{font:12px ui-monospace,monospace;text-transform:uppercase;color:#a3a3a3;padding:6px 12px;border-bottom:1px solid #262626}
+.attachments{margin:12px 0 0;padding:0;list-style:none;color:#a3a3a3;font-size:.85rem}
+.attachments img{max-width:100%;border-radius:8px;display:block;margin-top:8px}
+a{color:#93c5fd}
+`;
+
+// ============================================================================
+// MARKDOWN
+// ============================================================================
+
+const markdownComponents = {
+  code({ className, children }: { className?: string; children?: React.ReactNode }) {
+    const match = /language-(\w+)/.exec(className || '');
+    if (!match && !className) return <code>{children}</code>;
+
+    const language = match ? match[1] : '';
+    return (
+      <div className="code">
+        <div className="code-lang">{language === 'lua' ? 'Lua' : language || 'code'}</div>
+        <SyntaxHighlighter
+          language={language || 'text'}
+          style={oneDark}
+          showLineNumbers
+          customStyle={{ margin: 0, padding: '1rem', fontSize: '0.875rem', borderRadius: 0 }}
+        >
+          {String(children).replace(/\n$/, '')}
+        </SyntaxHighlighter>
+      </div>
+    );
+  },
+  // الكتلة ترسم غلافها بنفسها
+  pre({ children }: { children?: React.ReactNode }) {
+    return <>{children}</>;
+  },
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+interface ConversationDocumentProps {
+  conversation: Conversation;
+}
+
+export const ConversationDocument = ({ conversation }: ConversationDocumentProps) => {
+  const model = findChatModel(resolveGenerationSettings(conversation.settings).model);
+
+  return (
+    <html lang="ar" dir="rtl">
+      <head>
+        <meta charSet="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <title>{conversation.title}</title>
+        <style dangerouslySetInnerHTML={{ __html: DOCUMENT_CSS }} />
+      </head>
+      <body>
+        <main>
+          <header>
+            <h1 dir="auto">{conversation.title}</h1>
+            <div className="meta">
+              {formatExportDate(conversation.createdAt)}
+              {model ? ` · ${model.label}` : ''}
+            </div>
+          </header>
+
+          {getActivePath(conversation).map((message) => (
+            <article key={message.id} className={message.role}>
+              <div className="role">
+                <span>{ROLE_LABELS[message.role]}</span>
+                <time dateTime={new Date(message.timestamp).toISOString()}>
+                  {formatExportDate(message.timestamp)}
+                </time>
+              </div>
+              <div className="content" dir="auto">
+                <ReactMarkdown components={markdownComponents}>
+                  {closeOpenFence(withStudioOutput(message))}
+                </ReactMarkdown>
+              </div>
+              {message.attachments?.length ? (
+                <ul className="attachments">
+                  {message.attachments.map((attachment) => (
+                    <li key={attachment.id}>
+                      📎 {attachment.name}
+                      {attachment.type === 'image' && attachment.base64 && attachment.mimeType && (
+                        <img
+                          src={`data:${attachment.mimeType};base64,${attachment.base64}`}
+                          alt={attachment.name}
+                        />
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </article>
+          ))}
+        </main>
+      </body>
+    </html>
+  );
+};
@@ -0,0 +1,594 @@
+/**
+ * @fileoverview قائمة المحادثات المجمعة - Grouped Conversation List
+ *
+ * @description
+ * تعرض أقسام groupConversations (مثبتة، مجلدات، مجموعات التاريخ) مع:
+ * - سحب المحادثة وإفلاتها على قسم لتثبيتها أو نقلها لمجلد أو إخراجها منه
+ * - قائمة لكل محادثة (إعادة تسمية، تثبيت، نقل لمجلد، وسوم، حذف) كبديل للسحب بلوحة المفاتيح
+ * - إعادة تسمية المحادثة في مكانها (نقر مزدوج على العنوان)، وتقفل العنوان من التوليد التلقائي
+ * - طي المجلدات وإعادة تسميتها وحذفها
+ *
+ * @accessibility
+ * - role="listbox" للقائمة و role="group" لكل قسم
+ * - كل ما يتم بالسحب متاح أيضاً من قائمة المحادثة
+ *
+ * @usedBy
+ * - ConversationSidebar
+ */
+
+import {
+  useRef,
+  useState,
+  type DragEvent,
+  type FormEvent,
+  type KeyboardEvent,
+  type ReactNode,
+} from 'react';
+import {
+  ChevronDown,
+  Folder,
+  FolderInput,
+  FolderPlus,
+  MessageSquare,
+  MoreHorizontal,
+  Pencil,
+  PencilLine,
+  Pin,
+  PinOff,
+  Tags,
+  Trash2,
+} from 'lucide-react';
+import {
+  useChatStore,
+  type Conversation,
+  type ConversationFolder,
+  type ConversationTag,
+} from '@/stores/chatStore';
+import type { ConversationGroups } from '@/lib/conversationGroups';
+import { formatRelativeDate } from '@/lib/dateUtils';
+import { cn } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { TAG_COLOR_CLASSES } from '@/lib/tagColors';
+import { MAX_TITLE_LENGTH } from '@/lib/conversationTitle';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * هدف الإفلات: قسم المثبتة، مجلد، أو المحادثات بدون مجلد
+ */
+type DropTarget =
+  | { type: 'pinned' }
+  | { type: 'folder'; folderId: string }
+  | { type: 'ungrouped' };
+
+interface ConversationListProps {
+  groups: ConversationGroups;
+  currentConversationId: string | null;
+  hasMore: boolean;
+  onLoadMore: () => void;
+  onSelect: (id: string) => void;
+  onDelete: (e: React.MouseEvent, id: string) => void;
+  /** إنشاء مجلد (مع نقل المحادثة إليه إن حُددت) */
+  onCreateFolder: (conversationId?: string) => void;
+  onRenameFolder: (folder: ConversationFolder) => void;
+  onManageTags: () => void;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** نوع بيانات السحب (يمنع إفلات نصوص أو ملفات على الأقسام) */
+const DRAG_TYPE = 'application/x-conversation-id';
+
+// ============================================================================
+// DRAG & DROP
+// ============================================================================
+
+/**
+ * تطبيق الإفلات على المتجر
+ *
+ * @behavior
+ * الإفلات على مجلد أو على "بدون مجلد" يلغي التثبيت أيضاً،
+ * حتى تظهر المحادثة حيث أُفلتت
+ */
+const applyDrop = (target: DropTarget, conversationId: string) => {
+  const store = useChatStore.getState();
+  const conversation = store.conversations.find((c) => c.id === conversationId);
+  if (!conversation) return;
+
+  if (target.type === 'pinned') {
+    if (!conversation.pinned) store.setConversationPinned(conversationId, true);
+    return;
+  }
+
+  if (conversation.pinned) store.setConversationPinned(conversationId, false);
+  const folderId = target.type === 'folder' ? target.folderId : null;
+  if ((conversation.folderId ?? null) !== folderId) {
+    store.moveConversationToFolder(conversationId, folderId);
+  }
+};
+
+// ============================================================================
+// SECTION
+// ============================================================================
+
+interface SectionProps {
+  title: string;
+  icon?: ReactNode;
+  target: DropTarget;
+  collapsed?: boolean;
+  onToggle?: () => void;
+  actions?: ReactNode;
+  children: ReactNode;
+}
+
+/**
+ * قسم في القائمة يقبل إفلات المحادثات
+ */
+const Section = ({ title, icon, target, collapsed, onToggle, actions, children }: SectionProps) => {
+  const [isOver, setIsOver] = useState(false);
+
+  const handleDragOver = (e: DragEvent) => {
+    if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setIsOver(true);
+  };
+
+  const handleDrop = (e: DragEvent) => {
+    setIsOver(false);
+    const conversationId = e.dataTransfer.getData(DRAG_TYPE);
+    if (!conversationId) return;
+    e.preventDefault();
+    applyDrop(target, conversationId);
+  };
+
+  return (
+    <div
+      role="group"
+      aria-label={title}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsOver(false)}
+      onDrop={handleDrop}
+      className={cn(
+        'rounded-lg transition-colors duration-200',
+        isOver && 'bg-accent/50 ring-1 ring-inset ring-ring'
+      )}
+    >
+      <div className="group/section flex items-center gap-1 px-2 pt-3 pb-1">
+        {onToggle ? (
+          <button
+            type="button"
+            onClick={onToggle}
+            aria-expanded={!collapsed}
+            className="flex flex-1 items-center gap-1.5 min-w-0 text-xs font-medium text-muted-foreground hover:text-foreground rounded-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            <ChevronDown
+              className={cn('h-3.5 w-3.5 flex-shrink-0 transition-transform', collapsed && 'rotate-90')}
+              strokeWidth={2}
+            />
+            {icon}
+            <span dir="auto" className="truncate">{title}</span>
+          </button>
+        ) : (
+          <p className="flex flex-1 items-center gap-1.5 min-w-0 text-xs font-medium text-muted-foreground">
+            {icon}
+            <span className="truncate">{title}</span>
+          </p>
+        )}
+        {actions}
+      </div>
+      {!collapsed && children}
+    </div>
+  );
+};
+
+// ============================================================================
+// CONVERSATION ITEM
+// ============================================================================
+
+interface ConversationItemProps {
+  conversation: Conversation;
+  isActive: boolean;
+  folders: ConversationFolder[];
+  tags: ConversationTag[];
+  onSelect: (id: string) => void;
+  onDelete: (e: React.MouseEvent, id: string) => void;
+  onCreateFolder: (conversationId?: string) => void;
+  onManageTags: () => void;
+}
+
+const ConversationItem = ({
+  conversation,
+  isActive,
+  folders,
+  tags,
+  onSelect,
+  onDelete,
+  onCreateFolder,
+  onManageTags,
+}: ConversationItemProps) => {
+  const {
+    setConversationPinned,
+    moveConversationToFolder,
+    toggleConversationTag,
+    updateConversationTitle,
+  } = useChatStore.getState();
+
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [titleDraft, setTitleDraft] = useState('');
+  /** منع القائمة من إعادة التركيز لزرها بعد اختيار "إعادة التسمية" (يُفقد حقل الإدخال تركيزه) */
+  const renameFromMenuRef = useRef(false);
+  /** يمنع حفظ المسودة مرتين (الإرسال ثم blur) أو بعد الإلغاء بـ Escape */
+  const renameActiveRef = useRef(false);
+
+  const conversationTags = tags.filter((tag) => conversation.tagIds?.includes(tag.id));
+
+  const startRename = () => {
+    setTitleDraft(conversation.title);
+    renameActiveRef.current = true;
+    setIsRenaming(true);
+  };
+
+  const commitRename = (e?: FormEvent) => {
+    e?.preventDefault();
+    if (!renameActiveRef.current) return;
+    renameActiveRef.current = false;
+    setIsRenaming(false);
+    const trimmed = titleDraft.trim();
+    if (trimmed && trimmed !== conversation.title) {
+      updateConversationTitle(conversation.id, trimmed);
+    }
+  };
+
+  const handleRenameKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      renameActiveRef.current = false;
+      setIsRenaming(false);
+    }
+  };
+
+  const handleDragStart = (e: DragEvent) => {
+    e.dataTransfer.setData(DRAG_TYPE, conversation.id);
+    e.dataTransfer.effectAllowed = 'move';
+  };
+
+  return (
+    <div
+      role="option"
+      aria-selected={isActive}
+      draggable={!isRenaming}
+      onDragStart={handleDragStart}
+      className={cn(
+        'group flex items-center gap-2 rounded-lg p-2.5 text-right transition-colors duration-200',
+        isActive
+          ? 'bg-accent text-accent-foreground'
+          : 'text-foreground hover:bg-muted focus-within:bg-muted'
+      )}
+    >
+      {/* Inline Rename */}
+      {isRenaming ? (
+        <form onSubmit={commitRename} className="flex flex-1 items-center gap-2.5 min-w-0">
+          <MessageSquare className="h-4 w-4 text-muted-foreground flex-shrink-0" strokeWidth={2} />
+          <input
+            value={titleDraft}
+            onChange={(e) => setTitleDraft(e.target.value)}
+            onBlur={() => commitRename()}
+            onKeyDown={handleRenameKeyDown}
+            aria-label="عنوان المحادثة"
+            maxLength={MAX_TITLE_LENGTH}
+            dir="auto"
+            autoFocus
+            onFocus={(e) => e.target.select()}
+            className="flex-1 min-w-0 rounded-md border border-input bg-background px-2 py-0.5 text-sm font-medium focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          />
+        </form>
+      ) : (
+        /* Main Button - Compact Layout */
+        <button
+          type="button"
+          onClick={() => onSelect(conversation.id)}
+          onDoubleClick={startRename}
+          title="انقر مرتين لإعادة التسمية"
+          className="flex flex-1 items-center gap-2.5 text-right outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-1 rounded-md min-w-0"
+        >
+          {/* Icon */}
+          <div className="relative flex-shrink-0">
+            <MessageSquare className="h-4 w-4 text-muted-foreground" strokeWidth={2} />
+            {conversation.unreadCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 flex h-2 w-2">
+                <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-primary opacity-75"></span>
+                <span className="relative inline-flex rounded-full h-2 w-2 bg-primary"></span>
+              </span>
+            )}
+          </div>
+
+          {/* Content - Single Line */}
+          <div className="flex-1 min-w-0 flex items-center gap-2">
+            <p dir="auto" className="text-sm font-medium truncate flex-1">
+              {conversation.title}
+            </p>
+            {conversationTags.length > 0 && (
+              <span className="flex items-center gap-0.5 flex-shrink-0" aria-label={conversationTags.map((t) => t.name).join('، ')}>
+                {conversationTags.map((tag) => (
+                  <span key={tag.id} className={cn('h-2 w-2 rounded-full', TAG_COLOR_CLASSES[tag.color])} />
+                ))}
+              </span>
+            )}
+            <span className="text-[10px] text-muted-foreground flex-shrink-0">
+              {formatRelativeDate(conversation.updatedAt)}
+            </span>
+            {conversation.unreadCount > 0 && (
+              <Badge variant="default" className="h-4 px-1 min-w-[1rem] text-[10px] flex-shrink-0">
+                {conversation.unreadCount}
+              </Badge>
+            )}
+          </div>
+        </button>
+      )}
+
+      {/* Conversation Menu */}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <button
+            type="button"
+            aria-label="خيارات المحادثة"
+            className="opacity-0 group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring p-1.5 hover:bg-muted-foreground/10 rounded transition-all flex-shrink-0"
+          >
+            <MoreHorizontal className="h-3.5 w-3.5 text-muted-foreground" strokeWidth={2} />
+          </button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent
+          align="end"
+          className="w-52"
+          onCloseAutoFocus={(e) => {
+            if (renameFromMenuRef.current) {
+              renameFromMenuRef.current = false;
+              e.preventDefault();
+            }
+          }}
+        >
+          <DropdownMenuItem
+            onSelect={() => {
+              renameFromMenuRef.current = true;
+              startRename();
+            }}
+            className="gap-2 cursor-pointer"
+          >
+            <PencilLine className="h-4 w-4" strokeWidth={2} />
+            <span>إعادة التسمية</span>
+          </DropdownMenuItem>
+
+          <DropdownMenuItem
+            onSelect={() => setConversationPinned(conversation.id, !conversation.pinned)}
+            className="gap-2 cursor-pointer"
+          >
+            {conversation.pinned ? (
+              <PinOff className="h-4 w-4" strokeWidth={2} />
+            ) : (
+              <Pin className="h-4 w-4" strokeWidth={2} />
+            )}
+            <span>{conversation.pinned ? 'إلغاء التثبيت' : 'تثبيت'}</span>
+          </DropdownMenuItem>
+
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger className="gap-2 cursor-pointer">
+              <FolderInput className="h-4 w-4" strokeWidth={2} />
+              <span>نقل إلى مجلد</span>
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="w-48">
+              <DropdownMenuCheckboxItem
+                checked={!conversation.folderId}
+                onSelect={() => moveConversationToFolder(conversation.id, null)}
+              >
+                بدون مجلد
+              </DropdownMenuCheckboxItem>
+              {folders.map((folder) => (
+                <DropdownMenuCheckboxItem
+                  key={folder.id}
+                  checked={conversation.folderId === folder.id}
+                  onSelect={() => moveConversationToFolder(conversation.id, folder.id)}
+                >
+                  <span dir="auto" className="truncate">{folder.name}</span>
+                </DropdownMenuCheckboxItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onSelect={() => onCreateFolder(conversation.id)}
+                className="gap-2 cursor-pointer"
+              >
+                <FolderPlus className="h-4 w-4" strokeWidth={2} />
+                <span>مجلد جديد...</span>
+              </DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger className="gap-2 cursor-pointer">
+              <Tags className="h-4 w-4" strokeWidth={2} />
+              <span>الوسوم</span>
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent className="w-48">
+              {tags.map((tag) => (
+                <DropdownMenuCheckboxItem
+                  key={tag.id}
+                  checked={!!conversation.tagIds?.includes(tag.id)}
+                  onSelect={(e) => {
+                    // إبقاء القائمة مفتوحة لاختيار عدة وسوم
+                    e.preventDefault();
+                    toggleConversationTag(conversation.id, tag.id);
+                  }}
+                  className="gap-2"
+                >
+                  <span className={cn('h-2.5 w-2.5 rounded-full flex-shrink-0', TAG_COLOR_CLASSES[tag.color])} />
+                  <span dir="auto" className="truncate">{tag.name}</span>
+                </DropdownMenuCheckboxItem>
+              ))}
+              {tags.length > 0 && <DropdownMenuSeparator />}
+              <DropdownMenuItem onSelect={onManageTags} className="gap-2 cursor-pointer">
+                <Pencil className="h-4 w-4" strokeWidth={2} />
+                <span>إدارة الوسوم...</span>
+              </DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Delete Button */}
+      <button
+        type="button"
+        onClick={(e) => onDelete(e, conversation.id)}
+        aria-label="حذف المحادثة"
+        className="opacity-0 group-hover:opacity-100 focus-visible:opacity-100 focus-visible:ring-2 focus-visible:ring-destructive p-1.5 hover:bg-destructive/20 rounded transition-all flex-shrink-0"
+      >
+        <Trash2 className="h-3.5 w-3.5 text-destructive" strokeWidth={2} />
+      </button>
+    </div>
+  );
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const ConversationList = ({
+  groups,
+  currentConversationId,
+  hasMore,
+  onLoadMore,
+  onSelect,
+  onDelete,
+  onCreateFolder,
+  onRenameFolder,
+  onManageTags,
+}: ConversationListProps) => {
+  const folders = useChatStore((state) => state.folders);
+  const tags = useChatStore((state) => state.tags);
+  const { toggleFolderCollapsed, deleteFolder } = useChatStore.getState();
+
+  const renderItems = (conversations: Conversation[]) => (
+    <div className="space-y-1">
+      {conversations.map((conversation) => (
+        <ConversationItem
+          key={conversation.id}
+          conversation={conversation}
+          isActive={conversation.id === currentConversationId}
+          folders={folders}
+          tags={tags}
+          onSelect={onSelect}
+          onDelete={onDelete}
+          onCreateFolder={onCreateFolder}
+          onManageTags={onManageTags}
+        />
+      ))}
+    </div>
+  );
+
+  const isEmpty =
+    groups.pinned.length === 0 && groups.folders.length === 0 && groups.dates.length === 0;
+
+  return (
+    <div role="listbox" aria-label="قائمة المحادثات" className="pb-4">
+      {isEmpty && (
+        <div className="text-center py-8 text-muted-foreground text-sm">
+          لا توجد محادثات سابقة
+        </div>
+      )}
+
+      {/* ─────────────────────────────────────────────────────────────────
+          PINNED
+          ───────────────────────────────────────────────────────────────── */}
+      {groups.pinned.length > 0 && (
+        <Section
+          title="مثبتة"
+          icon={<Pin className="h-3 w-3 flex-shrink-0" strokeWidth={2} />}
+          target={{ type: 'pinned' }}
+        >
+          {renderItems(groups.pinned)}
+        </Section>
+      )}
+
+      {/* ─────────────────────────────────────────────────────────────────
+          FOLDERS
+          ───────────────────────────────────────────────────────────────── */}
+      {groups.folders.map(({ folder, conversations }) => (
+        <Section
+          key={folder.id}
+          title={folder.name}
+          icon={<Folder className="h-3.5 w-3.5 flex-shrink-0" strokeWidth={2} />}
+          target={{ type: 'folder', folderId: folder.id }}
+          collapsed={folder.collapsed}
+          onToggle={() => toggleFolderCollapsed(folder.id)}
+          actions={
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button
+                  type="button"
+                  aria-label={`خيارات المجلد ${folder.name}`}
+                  className="opacity-0 group-hover/section:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring p-1 rounded hover:bg-muted transition-all"
+                >
+                  <MoreHorizontal className="h-3.5 w-3.5 text-muted-foreground" strokeWidth={2} />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-44">
+                <DropdownMenuItem onSelect={() => onRenameFolder(folder)} className="gap-2 cursor-pointer">
+                  <Pencil className="h-4 w-4" strokeWidth={2} />
+                  <span>إعادة التسمية</span>
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  onSelect={() => deleteFolder(folder.id)}
+                  className="gap-2 cursor-pointer text-destructive focus:text-destructive focus:bg-destructive/10"
+                >
+                  <Trash2 className="h-4 w-4" strokeWidth={2} />
+                  <span>حذف المجلد</span>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          }
+        >
+          {conversations.length > 0 ? (
+            renderItems(conversations)
+          ) : (
+            <p className="px-3 py-2 text-xs text-muted-foreground">اسحب محادثة إلى هنا</p>
+          )}
+        </Section>
+      ))}
+
+      {/* ─────────────────────────────────────────────────────────────────
+          DATE GROUPS (بدون مجلد)
+          ───────────────────────────────────────────────────────────────── */}
+      {groups.dates.map(({ bucket, label, conversations }) => (
+        <Section key={bucket} title={label} target={{ type: 'ungrouped' }}>
+          {renderItems(conversations)}
+        </Section>
+      ))}
+
+      {hasMore && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onLoadMore}
+          className="w-full mt-2 text-muted-foreground hover:text-foreground"
+        >
+          تحميل المزيد
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -4,9 +4,10 @@
  * @description
  * يعرض قائمة المحادثات السابقة مع:
  * - إنشاء محادثة جديدة
- * - البحث في المحادثات
+ * - البحث في كل الرسائل مع الانتقال للرسالة المطابقة
  * - حذف المحادثات
  * - التنقل بين المحادثات
+ * - التثبيت والمجلدات والوسوم، والتجميع حسب التاريخ (ConversationList)
  * 
  * @responsive
  * - Desktop: شريط جانبي ثابت
@@ -18,15 +19,20 @@
  * - role="listbox" للقائمة
  */
 
-import { MessageSquare, Plus, Trash2, X, Search } from 'lucide-react';
-import { useChatStore, Conversation } from '@/stores/chatStore';
+import { FolderPlus, Plus, Tags, X, Search } from 'lucide-react';
+import { useChatStore, type ConversationFolder, type ConversationTag } from '@/stores/chatStore';
 import { cn } from '@/lib/utils';
-import { formatRelativeDate } from '@/lib/dateUtils';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Input } from '@/components/ui/input';
-import { Badge } from '@/components/ui/badge';
 import { UserMenu } from '@/components/auth/UserMenu';
+import { SearchResults } from './SearchResults';
+import { ConversationList } from './ConversationList';
+import { FolderNameDialog } from './FolderNameDialog';
+import { TagManagerDialog } from './TagManagerDialog';
+import { TAG_COLOR_CLASSES } from '@/lib/tagColors';
+import { searchIndex, type SearchHit } from '@/lib/searchIndex';
+import { groupConversations, type ConversationGroups } from '@/lib/conversationGroups';
 import { useState, useMemo } from 'react';
 
 // ============================================================================
@@ -52,6 +58,12 @@ interface ConversationSidebarProps {
  */
 const MAX_PREVIEW_LENGTH = 80;
 
+/**
+ * الحد الأقصى لنتائج البحث المعروضة
+ * @value 50 رسالة
+ */
+const MAX_SEARCH_RESULTS = 50;
+
 // ============================================================================
 // COMPONENT
 // ============================================================================
@@ -64,6 +76,18 @@ export const ConversationSidebar = ({ isOpen, onClose, isMobile = false }: Conve
   const [searchQuery, setSearchQuery] = useState('');
   const [isSearching, setIsSearching] = useState(false);
   
+  /** الوسم المختار للتصفية (null = الكل) */
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  
+  /** نافذة المجلد: إنشاء (مع نقل محادثة إليه) أو إعادة تسمية */
+  const [folderDialog, setFolderDialog] = useState<{
+    open: boolean;
+    folder?: ConversationFolder;
+    moveConversationId?: string;
+  }>({ open: false });
+  
+  const [isTagDialogOpen, setIsTagDialogOpen] = useState(false);
+  
   // ─────────────────────────────────────────────────────────────────────────
   // STORE
   // ─────────────────────────────────────────────────────────────────────────
@@ -71,30 +95,53 @@ export const ConversationSidebar = ({ isOpen, onClose, isMobile = false }: Conve
   const conversations = useChatStore((state) => state.conversations);
   const currentConversationId = useChatStore((state) => state.currentConversationId);
   const visibleConversationsCount = useChatStore((state) => state.visibleConversationsCount);
+  const folders = useChatStore((state) => state.folders);
+  const tags = useChatStore((state) => state.tags);
 
   const {
     createConversation,
     setCurrentConversation,
     deleteConversation,
     loadMoreConversations,
+    revealMessage,
+    createFolder,
+    renameFolder,
+    moveConversationToFolder,
   } = useChatStore.getState();
 
   // ─────────────────────────────────────────────────────────────────────────
-  // FILTERED DATA
+  // GROUPED DATA
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /** وسم محذوف لا يبقى فلتراً فعالاً */
+  const activeTagFilter = tags.some((tag) => tag.id === tagFilter) ? tagFilter : null;
+
+  const groups = useMemo(
+    () => groupConversations(conversations, folders, {
+      limit: visibleConversationsCount,
+      tagId: activeTagFilter,
+    }),
+    [conversations, folders, visibleConversationsCount, activeTagFilter]
+  );
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // SEARCH
   // ─────────────────────────────────────────────────────────────────────────
 
-  const filteredConversations = useMemo(() => {
-    if (!searchQuery.trim()) return conversations;
+  /**
+   * نتائج البحث من الفهرس (يُعاد الاستعلام عند تغير المحادثات
+   * لأن المتجر يحدّث الفهرس مع كل تعديل)
+   */
+  const searchHits = useMemo(
+    () => (searchQuery.trim() ? searchIndex.search(searchQuery, MAX_SEARCH_RESULTS) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [conversations, searchQuery]
+  );
 
-    const query = searchQuery.toLowerCase();
-    return conversations.filter((c) => {
-      const titleMatch = c.title.toLowerCase().includes(query);
-      const messageMatch = c.messages.some((m) =>
-        m.content.toLowerCase().includes(query)
-      );
-      return titleMatch || messageMatch;
-    });
-  }, [conversations, searchQuery]);
+  const conversationTitles = useMemo(
+    () => new Map(conversations.map((c) => [c.id, c.title])),
+    [conversations]
+  );
 
   // ─────────────────────────────────────────────────────────────────────────
   // HANDLERS
@@ -110,8 +157,7 @@ export const ConversationSidebar = ({ isOpen, onClose, isMobile = false }: Conve
     }
   };
 
-  const visibleConversations = filteredConversations.slice(0, visibleConversationsCount);
-  const hasMore = filteredConversations.length > visibleConversationsCount;
+  const hasMore = groups.ungroupedTotal > visibleConversationsCount;
 
   const handleNewChat = () => {
     createConversation();
@@ -123,11 +169,35 @@ export const ConversationSidebar = ({ isOpen, onClose, isMobile = false }: Conve
     if (isMobile) onClose();
   };
 
+  const handleSelectSearchHit = (hit: SearchHit) => {
+    revealMessage(hit.conversationId, hit.messageId);
+    if (isMobile) onClose();
+  };
+
   const handleDeleteConversation = (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
     deleteConversation(id);
   };
 
+  const handleCreateFolder = (moveConversationId?: string) => {
+    setFolderDialog({ open: true, moveConversationId });
+  };
+
+  const handleRenameFolder = (folder: ConversationFolder) => {
+    setFolderDialog({ open: true, folder });
+  };
+
+  const handleFolderSubmit = (name: string) => {
+    if (folderDialog.folder) {
+      renameFolder(folderDialog.folder.id, name);
+      return;
+    }
+    const folderId = createFolder(name);
+    if (folderDialog.moveConversationId) {
+      moveConversationToFolder(folderDialog.moveConversationId, folderId);
+    }
+  };
+
   /**
    * اقتطاع النص مع إضافة ...
    */
@@ -136,6 +206,18 @@ export const ConversationSidebar = ({ isOpen, onClose, isMobile = false }: Conve
     return text.slice(0, maxLength).trim() + '...';
   };
 
+  const dialogs = (
+    <>
+      <FolderNameDialog
+        open={folderDialog.open}
+        onOpenChange={(open) => setFolderDialog((current) => ({ ...current, open }))}
+        initialName={folderDialog.folder?.name}
+        onSubmit={handleFolderSubmit}
+      />
+      <TagManagerDialog open={isTagDialogOpen} onOpenChange={setIsTagDialogOpen} />
+    </>
+  );
+
   if (isMobile) {
     return (
       <>
@@ -160,45 +242,67 @@ export const ConversationSidebar = ({ isOpen, onClose, isMobile = false }: Conve
             searchQuery={searchQuery}
             setSearchQuery={handleSearchChange}
             isSearching={isSearching}
-            visibleConversations={visibleConversations}
+            searchHits={searchHits}
+            conversationTitles={conversationTitles}
+            handleSelectSearchHit={handleSelectSearchHit}
+            groups={groups}
+            tags={tags}
+            tagFilter={activeTagFilter}
+            setTagFilter={setTagFilter}
             currentConversationId={currentConversationId}
             handleNewChat={handleNewChat}
             handleSelectConversation={handleSelectConversation}
             handleDeleteConversation={handleDeleteConversation}
+            handleCreateFolder={handleCreateFolder}
+            handleRenameFolder={handleRenameFolder}
+            handleManageTags={() => setIsTagDialogOpen(true)}
             hasMore={hasMore}
             loadMoreConversations={loadMoreConversations}
             truncateText={truncateText}
           />
         </aside>
+        {dialogs}
       </>
     );
   }
 
   // Desktop Sidebar
   return (
-    <aside
-      className={cn(
-        'hidden lg:flex flex-col h-full bg-card border-r border-border transition-all duration-300 ease-out overflow-hidden',
-        isOpen ? "w-80" : "w-0 border-r-0"
-      )}
-    >
-      <div className="w-80 h-full flex flex-col flex-shrink-0">
-        <SidebarContent
-          onClose={onClose}
-          searchQuery={searchQuery}
-          setSearchQuery={handleSearchChange}
-          isSearching={isSearching}
-          visibleConversations={visibleConversations}
-          currentConversationId={currentConversationId}
-          handleNewChat={handleNewChat}
-          handleSelectConversation={handleSelectConversation}
-          handleDeleteConversation={handleDeleteConversation}
-          hasMore={hasMore}
-          loadMoreConversations={loadMoreConversations}
-          truncateText={truncateText}
-        />
-      </div>
-    </aside>
+    <>
+      <aside
+        className={cn(
+          'hidden lg:flex flex-col h-full bg-card border-r border-border transition-all duration-300 ease-out overflow-hidden',
+          isOpen ? "w-80" : "w-0 border-r-0"
+        )}
+      >
+        <div className="w-80 h-full flex flex-col flex-shrink-0">
+          <SidebarContent
+            onClose={onClose}
+            searchQuery={searchQuery}
+            setSearchQuery={handleSearchChange}
+            isSearching={isSearching}
+            searchHits={searchHits}
+            conversationTitles={conversationTitles}
+            handleSelectSearchHit={handleSelectSearchHit}
+            groups={groups}
+            tags={tags}
+            tagFilter={activeTagFilter}
+            setTagFilter={setTagFilter}
+            currentConversationId={currentConversationId}
+            handleNewChat={handleNewChat}
+            handleSelectConversation={handleSelectConversation}
+            handleDeleteConversation={handleDeleteConversation}
+            handleCreateFolder={handleCreateFolder}
+            handleRenameFolder={handleRenameFolder}
+            handleManageTags={() => setIsTagDialogOpen(true)}
+            hasMore={hasMore}
+            loadMoreConversations={loadMoreConversations}
+            truncateText={truncateText}
+          />
+        </div>
+      </aside>
+      {dialogs}
+    </>
   );
 };
 
@@ -211,11 +315,21 @@ interface SidebarContentProps {
   searchQuery: string;
   setSearchQuery: (q: string) => void;
   isSearching?: boolean;
-  visibleConversations: Conversation[];
+  /** نتائج البحث، أو null إذا كان حقل البحث فارغاً */
+  searchHits: SearchHit[] | null;
+  conversationTitles: Map<string, string>;
+  handleSelectSearchHit: (hit: SearchHit) => void;
+  groups: ConversationGroups;
+  tags: ConversationTag[];
+  tagFilter: string | null;
+  setTagFilter: (tagId: string | null) => void;
   currentConversationId: string | null;
   handleNewChat: () => void;
   handleSelectConversation: (id: string) => void;
   handleDeleteConversation: (e: React.MouseEvent, id: string) => void;
+  handleCreateFolder: (conversationId?: string) => void;
+  handleRenameFolder: (folder: ConversationFolder) => void;
+  handleManageTags: () => void;
   hasMore: boolean;
   loadMoreConversations: () => void;
   truncateText: (text: string, maxLength?: number) => string;
@@ -233,11 +347,20 @@ function SidebarContent({
   searchQuery,
   setSearchQuery,
   isSearching,
-  visibleConversations,
+  searchHits,
+  conversationTitles,
+  handleSelectSearchHit,
+  groups,
+  tags,
+  tagFilter,
+  setTagFilter,
   currentConversationId,
   handleNewChat,
   handleSelectConversation,
   handleDeleteConversation,
+  handleCreateFolder,
+  handleRenameFolder,
+  handleManageTags,
   hasMore,
   loadMoreConversations,
   truncateText
@@ -264,14 +387,34 @@ function SidebarContent({
           ACTION AREA
           ═══════════════════════════════════════════════════════════════════ */}
       <div className="flex-shrink-0 p-4 space-y-3">
-        {/* New Chat Button */}
-        <Button
-          onClick={handleNewChat}
-          className="w-full gap-2 bg-foreground text-background hover:bg-foreground/90"
-        >
-          <Plus className="h-4 w-4" strokeWidth={2} />
-          محادثة جديدة
-        </Button>
+        {/* New Chat / Folder / Tags Buttons */}
+        <div className="flex gap-2">
+          <Button
+            onClick={handleNewChat}
+            className="flex-1 gap-2 bg-foreground text-background hover:bg-foreground/90"
+          >
+            <Plus className="h-4 w-4" strokeWidth={2} />
+            محادثة جديدة
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => handleCreateFolder()}
+            aria-label="مجلد جديد"
+            className="flex-shrink-0"
+          >
+            <FolderPlus className="h-4 w-4" strokeWidth={2} />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={handleManageTags}
+            aria-label="إدارة الوسوم"
+            className="flex-shrink-0"
+          >
+            <Tags className="h-4 w-4" strokeWidth={2} />
+          </Button>
+        </div>
 
         {/* Search Input */}
         <div className="relative">
@@ -280,8 +423,8 @@ function SidebarContent({
             isSearching && "animate-pulse scale-110 text-foreground"
           )} strokeWidth={2} />
           <Input
-            placeholder="بحث في المحادثات..."
-            aria-label="بحث في المحادثات"
+            placeholder="بحث في الرسائل..."
+            aria-label="بحث في الرسائل"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="pr-9"
@@ -292,102 +435,62 @@ function SidebarContent({
             </div>
           )}
         </div>
+
+        {/* Tag Filter */}
+        {tags.length > 0 && !searchHits && (
+          <div role="group" aria-label="تصفية حسب الوسم" className="flex flex-wrap gap-1.5">
+            {tags.map((tag) => {
+              const isActive = tag.id === tagFilter;
+              return (
+                <button
+                  key={tag.id}
+                  type="button"
+                  aria-pressed={isActive}
+                  onClick={() => setTagFilter(isActive ? null : tag.id)}
+                  className={cn(
+                    'flex items-center gap-1.5 rounded-full border px-2 py-0.5 text-xs transition-colors',
+                    'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                    isActive
+                      ? 'border-foreground bg-accent text-accent-foreground'
+                      : 'border-border text-muted-foreground hover:text-foreground'
+                  )}
+                >
+                  <span className={cn('h-2 w-2 rounded-full', TAG_COLOR_CLASSES[tag.color])} />
+                  <span dir="auto">{tag.name}</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
       </div>
 
       {/* ═══════════════════════════════════════════════════════════════════
-          CONVERSATIONS LIST
+          CONVERSATIONS LIST / SEARCH RESULTS
           
           @accessibility
-          - role="listbox" للقائمة
+          - role="listbox" للقائمة (داخل ConversationList)
           - aria-selected للعنصر النشط
           ═══════════════════════════════════════════════════════════════════ */}
       <ScrollArea className="flex-1 px-2">
-        <div 
-          role="listbox" 
-          aria-label="قائمة المحادثات"
-          className="space-y-1 pb-4"
-        >
-          {visibleConversations.length === 0 ? (
-            <div className="text-center py-8 text-muted-foreground text-sm">
-              {searchQuery ? 'لا توجد نتائج للبحث' : 'لا توجد محادثات سابقة'}
-            </div>
-          ) : (
-            <>
-              {visibleConversations.map((conversation) => {
-                const lastMessage = conversation.messages[conversation.messages.length - 1];
-                const isActive = conversation.id === currentConversationId;
-
-                return (
-                  <div
-                    key={conversation.id}
-                    role="option"
-                    aria-selected={isActive}
-                    className={cn(
-                      'group flex items-center gap-2 rounded-lg p-2.5 text-right transition-colors duration-200',
-                      isActive
-                        ? 'bg-accent text-accent-foreground'
-                        : 'text-foreground hover:bg-muted focus-within:bg-muted'
-                    )}
-                  >
-                    {/* Main Button - Compact Layout */}
-                    <button
-                      type="button"
-                      onClick={() => handleSelectConversation(conversation.id)}
-                      className="flex flex-1 items-center gap-2.5 text-right outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-1 rounded-md min-w-0"
-                    >
-                      {/* Icon */}
-                      <div className="relative flex-shrink-0">
-                        <MessageSquare className="h-4 w-4 text-muted-foreground" strokeWidth={2} />
-                        {conversation.unreadCount > 0 && (
-                          <span className="absolute -top-0.5 -right-0.5 flex h-2 w-2">
-                            <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-primary opacity-75"></span>
-                            <span className="relative inline-flex rounded-full h-2 w-2 bg-primary"></span>
-                          </span>
-                        )}
-                      </div>
-                      
-                      {/* Content - Single Line */}
-                      <div className="flex-1 min-w-0 flex items-center gap-2">
-                        <p className="text-sm font-medium truncate flex-1">
-                          {conversation.title}
-                        </p>
-                        <span className="text-[10px] text-muted-foreground flex-shrink-0">
-                          {formatRelativeDate(conversation.updatedAt)}
-                        </span>
-                        {conversation.unreadCount > 0 && (
-                          <Badge variant="default" className="h-4 px-1 min-w-[1rem] text-[10px] flex-shrink-0">
-                            {conversation.unreadCount}
-                          </Badge>
-                        )}
-                      </div>
-                    </button>
-                    
-                    {/* Delete Button */}
-                    <button
-                      type="button"
-                      onClick={(e) => handleDeleteConversation(e, conversation.id)}
-                      aria-label="حذف المحادثة"
-                      className="opacity-0 group-hover:opacity-100 focus-visible:opacity-100 focus-visible:ring-2 focus-visible:ring-destructive p-1.5 hover:bg-destructive/20 rounded transition-all flex-shrink-0"
-                    >
-                      <Trash2 className="h-3.5 w-3.5 text-destructive" strokeWidth={2} />
-                    </button>
-                  </div>
-                );
-              })}
-
-              {hasMore && (
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={loadMoreConversations}
-                  className="w-full mt-2 text-muted-foreground hover:text-foreground"
-                >
-                  تحميل المزيد
-                </Button>
-              )}
-            </>
-          )}
-        </div>
+        {searchHits ? (
+          <SearchResults
+            hits={searchHits}
+            titles={conversationTitles}
+            onSelect={handleSelectSearchHit}
+          />
+        ) : (
+          <ConversationList
+            groups={groups}
+            currentConversationId={currentConversationId}
+            hasMore={hasMore}
+            onLoadMore={loadMoreConversations}
+            onSelect={handleSelectConversation}
+            onDelete={handleDeleteConversation}
+            onCreateFolder={handleCreateFolder}
+            onRenameFolder={handleRenameFolder}
+            onManageTags={handleManageTags}
+          />
+        )}
       </ScrollArea>
 
       {/* ═══════════════════════════════════════════════════════════════════
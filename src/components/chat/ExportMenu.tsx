@@ -0,0 +1,205 @@
+/**
+ * @fileoverview قائمة التصدير والاستيراد - Export Menu
+ *
+ * @description
+ * - تصدير المحادثة الحالية (Markdown / JSON / HTML) أو كل المحادثات كملف ZIP
+ * - استيراد ملف تصدير التطبيق أو conversations.json من ChatGPT
+ *
+ * @dependencies
+ * - @/lib/conversationExport: بناء الملفات
+ * - @/lib/conversationImport: التحقق من الملف وإزالة المكرر
+ *
+ * @usedBy
+ * - ChatHeader
+ */
+
+import { useRef, useState, type ChangeEvent } from 'react';
+import { Archive, Braces, Download, FileCode2, FileText, Loader2, Upload } from 'lucide-react';
+import { useChatStore } from '@/stores/chatStore';
+import {
+  EXPORT_EXTENSIONS,
+  downloadBlob,
+  exportAllConversations,
+  exportConversation,
+  toFileName,
+  type ExportFormat,
+} from '@/lib/conversationExport';
+import {
+  ImportFormatError,
+  describeSkipped,
+  parseImportFile,
+  prepareImport,
+} from '@/lib/conversationImport';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string; icon: typeof FileText }[] = [
+  { format: 'markdown', label: 'Markdown (.md)', icon: FileText },
+  { format: 'html', label: 'صفحة HTML', icon: FileCode2 },
+  { format: 'json', label: 'JSON (نسخة كاملة)', icon: Braces },
+];
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * @example
+ * ```tsx
+ * <ExportMenu />
+ * ```
+ */
+export const ExportMenu = () => {
+  const hasMessages = useChatStore((state) => (state.getCurrentConversation()?.messages.length ?? 0) > 0);
+  const conversationCount = useChatStore((state) => state.conversations.length);
+  const [isExporting, setIsExporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * تنفيذ التصدير مع مؤشر انتظار
+   *
+   * @behavior
+   * HTML و ZIP يحمّلان react-dom/server عند أول استخدام
+   */
+  const runExport = async (build: () => Promise<{ blob: Blob; fileName: string }>) => {
+    setIsExporting(true);
+    try {
+      const { blob, fileName } = await build();
+      downloadBlob(blob, fileName);
+    } catch (error) {
+      console.error('Export error:', error);
+      toast.error('تعذر تصدير المحادثة');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportCurrent = (format: ExportFormat) => {
+    const { getCurrentConversation, folders, tags } = useChatStore.getState();
+    const conversation = getCurrentConversation();
+    if (!conversation) return;
+
+    runExport(async () => ({
+      blob: await exportConversation(conversation, format, { folders, tags }),
+      fileName: toFileName(conversation.title, EXPORT_EXTENSIONS[format]),
+    }));
+  };
+
+  const handleExportAll = () => {
+    const { conversations, folders, tags } = useChatStore.getState();
+    const date = new Date().toISOString().slice(0, 10);
+
+    runExport(async () => ({
+      blob: await exportAllConversations(conversations, { folders, tags }),
+      fileName: `roblox-expert-${date}.zip`,
+    }));
+  };
+
+  /**
+   * استيراد ملف JSON
+   *
+   * @behavior
+   * الملف يُقرأ محلياً؛ التنبيه يذكر عدد المستورد وما تُخطي ولماذا
+   */
+  const handleImportFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsExporting(true);
+    try {
+      const { conversations, folders, tags, importConversations } = useChatStore.getState();
+      const prepared = prepareImport(parseImportFile(await file.text()), { conversations, folders, tags });
+      importConversations(prepared.conversations, prepared);
+
+      const description = describeSkipped(prepared.skipped) ?? undefined;
+      if (prepared.conversations.length > 0) {
+        toast.success(`تم استيراد ${prepared.conversations.length} محادثة`, { description });
+      } else {
+        toast.warning('لم تُستورد أي محادثة', { description });
+      }
+    } catch (error) {
+      console.error('Import error:', error);
+      toast.error(error instanceof ImportFormatError ? error.message : 'تعذر قراءة الملف');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          disabled={isExporting}
+          aria-label="تصدير واستيراد المحادثات"
+          className="h-10 w-10 text-muted-foreground hover:text-foreground transition-colors"
+        >
+          {isExporting ? (
+            <Loader2 className="h-5 w-5 animate-spin" strokeWidth={2} />
+          ) : (
+            <Download className="h-5 w-5" strokeWidth={2} />
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="text-xs text-muted-foreground font-normal">
+          المحادثة الحالية
+        </DropdownMenuLabel>
+        {FORMAT_OPTIONS.map(({ format, label, icon: Icon }) => (
+          <DropdownMenuItem
+            key={format}
+            disabled={!hasMessages}
+            onSelect={() => handleExportCurrent(format)}
+            className="gap-2 cursor-pointer"
+          >
+            <Icon className="h-4 w-4" strokeWidth={2} />
+            <span>{label}</span>
+          </DropdownMenuItem>
+        ))}
+
+        <DropdownMenuSeparator />
+
+        <DropdownMenuItem
+          disabled={conversationCount === 0}
+          onSelect={handleExportAll}
+          className="gap-2 cursor-pointer"
+        >
+          <Archive className="h-4 w-4" strokeWidth={2} />
+          <span>كل المحادثات (.zip)</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          onSelect={() => fileInputRef.current?.click()}
+          className="gap-2 cursor-pointer"
+        >
+          <Upload className="h-4 w-4" strokeWidth={2} />
+          <span>استيراد محادثات (JSON)...</span>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".json,application/json"
+        onChange={handleImportFile}
+        className="hidden"
+        aria-hidden="true"
+        tabIndex={-1}
+      />
+    </DropdownMenu>
+  );
+};
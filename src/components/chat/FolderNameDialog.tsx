@@ -0,0 +1,106 @@
+/**
+ * @fileoverview نافذة اسم المجلد - Folder Name Dialog
+ *
+ * @description
+ * إنشاء مجلد جديد أو إعادة تسمية مجلد موجود.
+ *
+ * @usedBy
+ * - ConversationSidebar
+ */
+
+import { useEffect, useState, type FormEvent } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * الحد الأقصى لطول اسم المجلد
+ * @value 60 حرف
+ */
+export const MAX_FOLDER_NAME_LENGTH = 60;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface FolderNameDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** الاسم الحالي عند إعادة التسمية (فارغ = مجلد جديد) */
+  initialName?: string;
+  onSubmit: (name: string) => void;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * @example
+ * ```tsx
+ * <FolderNameDialog open={open} onOpenChange={setOpen} onSubmit={createFolder} />
+ * ```
+ */
+export const FolderNameDialog = ({
+  open,
+  onOpenChange,
+  initialName = '',
+  onSubmit,
+}: FolderNameDialogProps) => {
+  const [name, setName] = useState(initialName);
+
+  useEffect(() => {
+    if (open) setName(initialName);
+  }, [open, initialName]);
+
+  const isRename = !!initialName;
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSubmit(trimmed);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm" dir="rtl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader className="text-right sm:text-right">
+            <DialogTitle>{isRename ? 'إعادة تسمية المجلد' : 'مجلد جديد'}</DialogTitle>
+          </DialogHeader>
+
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="مثال: لعبة السباق"
+            aria-label="اسم المجلد"
+            maxLength={MAX_FOLDER_NAME_LENGTH}
+            dir="auto"
+            autoFocus
+          />
+
+          <DialogFooter className="gap-2 sm:justify-start">
+            <Button type="submit" disabled={!name.trim()}>
+              {isRename ? 'حفظ' : 'إنشاء'}
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              إلغاء
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,187 @@
+/**
+ * @fileoverview منتقي النموذج وإعدادات التوليد - Model Picker
+ *
+ * @description
+ * يعرض اسم نموذج المحادثة الحالية، ويفتح لوحة لاختيار:
+ * - النموذج (من القائمة المسموح بها في @shared/models)
+ * - درجة العشوائية (temperature)
+ * - الحد الأقصى لطول الرد (max tokens)
+ *
+ * الإعدادات تُحفظ لكل محادثة على حدة، فمحادثة إعادة هيكلة عميقة
+ * يمكن أن تستخدم نموذجاً أقوى بينما تبقى الأسئلة السريعة على Flash.
+ *
+ * @usedBy
+ * - ChatHeader
+ */
+
+import { useEffect, useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import { useChatStore } from '@/stores/chatStore';
+import {
+  CHAT_MODELS,
+  MAX_TOKENS_MIN,
+  TEMPERATURE_MAX,
+  TEMPERATURE_MIN,
+  findChatModel,
+  resolveGenerationSettings,
+  type GenerationSettings,
+} from '@shared/models';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Slider } from '@/components/ui/slider';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** خطوة شريط الـ tokens */
+const MAX_TOKENS_STEP = 256;
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * مكون منتقي النموذج
+ *
+ * @example
+ * ```tsx
+ * <ModelPicker />
+ * ```
+ */
+export const ModelPicker = () => {
+  // ─────────────────────────────────────────────────────────────────────────
+  // STATE
+  // ─────────────────────────────────────────────────────────────────────────
+
+  const conversationSettings = useChatStore((state) => state.getCurrentConversation()?.settings);
+  const settings = resolveGenerationSettings(conversationSettings);
+  const model = findChatModel(settings.model);
+
+  /** قيم الأشرطة أثناء السحب (تُحفظ عند الإفلات فقط) */
+  const [temperature, setTemperature] = useState(settings.temperature);
+  const [maxTokens, setMaxTokens] = useState(settings.maxTokens);
+
+  useEffect(() => {
+    setTemperature(settings.temperature);
+    setMaxTokens(settings.maxTokens);
+  }, [settings.temperature, settings.maxTokens]);
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // HANDLERS
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * حفظ الإعدادات للمحادثة الحالية
+   *
+   * @behavior
+   * إذا لم تكن هناك محادثة بعد، تُنشأ واحدة لتحمل الإعدادات
+   */
+  const saveSettings = (patch: Partial<GenerationSettings>) => {
+    const { currentConversationId, createConversation, updateConversationSettings } =
+      useChatStore.getState();
+    const conversationId = currentConversationId ?? createConversation();
+    updateConversationSettings(conversationId, patch);
+  };
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // RENDER
+  // ─────────────────────────────────────────────────────────────────────────
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          className={cn(
+            'flex items-center gap-1 text-xs text-muted-foreground',
+            'hover:text-foreground transition-colors duration-200 rounded-md',
+            'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring'
+          )}
+          aria-label="اختيار النموذج وإعدادات التوليد"
+        >
+          {model?.label}
+          <ChevronDown className="h-3 w-3" strokeWidth={2} />
+        </button>
+      </PopoverTrigger>
+
+      <PopoverContent align="start" className="w-80 space-y-4">
+        {/* ───────────────────────────────────────────────────────────────────
+            MODEL
+            ─────────────────────────────────────────────────────────────────── */}
+        <div className="space-y-2">
+          <p className="text-sm font-semibold text-foreground">النموذج</p>
+          <RadioGroup
+            value={settings.model}
+            onValueChange={(value) => saveSettings({ model: value })}
+            aria-label="النموذج"
+          >
+            {CHAT_MODELS.map((option) => (
+              <Label
+                key={option.id}
+                htmlFor={`model-${option.id}`}
+                className={cn(
+                  'flex items-start gap-3 rounded-lg border border-border p-2.5 cursor-pointer',
+                  'hover:bg-muted/50 transition-colors duration-200',
+                  option.id === settings.model && 'bg-muted/50'
+                )}
+              >
+                <RadioGroupItem id={`model-${option.id}`} value={option.id} className="mt-0.5" />
+                <span className="space-y-0.5">
+                  <span className="block text-sm font-medium text-foreground">{option.label}</span>
+                  <span className="block text-xs font-normal text-muted-foreground">
+                    {option.description}
+                  </span>
+                </span>
+              </Label>
+            ))}
+          </RadioGroup>
+        </div>
+
+        {/* ───────────────────────────────────────────────────────────────────
+            TEMPERATURE
+            ─────────────────────────────────────────────────────────────────── */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-semibold text-foreground">درجة الإبداع</span>
+            <span dir="ltr" className="tabular-nums text-muted-foreground">{temperature.toFixed(1)}</span>
+          </div>
+          <Slider
+            min={TEMPERATURE_MIN}
+            max={TEMPERATURE_MAX}
+            step={0.1}
+            value={[temperature]}
+            onValueChange={([value]) => setTemperature(value)}
+            onValueCommit={([value]) => saveSettings({ temperature: value })}
+            aria-label="درجة الإبداع"
+          />
+          <p className="text-xs text-muted-foreground">
+            قيم منخفضة لكود دقيق ومتسق، وقيم أعلى لأفكار متنوعة
+          </p>
+        </div>
+
+        {/* ───────────────────────────────────────────────────────────────────
+            MAX TOKENS
+            ─────────────────────────────────────────────────────────────────── */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-semibold text-foreground">أقصى طول للرد</span>
+            <span dir="ltr" className="tabular-nums text-muted-foreground">
+              {maxTokens.toLocaleString('en-US')} tokens
+            </span>
+          </div>
+          <Slider
+            min={MAX_TOKENS_MIN}
+            max={model?.maxOutputTokens ?? settings.maxTokens}
+            step={MAX_TOKENS_STEP}
+            value={[maxTokens]}
+            onValueChange={([value]) => setMaxTokens(value)}
+            onValueCommit={([value]) => saveSettings({ maxTokens: value })}
+            aria-label="أقصى طول للرد"
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,389 @@
+/**
+ * @fileoverview نافذة ملف المشروع - Project Profile Dialog
+ *
+ * @description
+ * تعديل ملف المشروع الذي يُلحق برسالة النظام في كل طلب:
+ * - "عام": يُحفظ في profiles.project_profile ويُطبق على كل المحادثات
+ * - "هذه المحادثة": تخصيص يطغى على الحقول التي يحددها فقط
+ *
+ * @dependencies
+ * - @shared/projectProfile: الحدود وقائمة المكتبات
+ * - useProfileStore / useChatStore: مكان حفظ كل نطاق
+ *
+ * @usedBy
+ * - UserMenu
+ */
+
+import { useEffect, useState, type KeyboardEvent } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useChatStore } from '@/stores/chatStore';
+import { useProfileStore } from '@/stores/profileStore';
+import { saveProjectProfile } from '@/lib/supabaseProfile';
+import { useToast } from '@/hooks/use-toast';
+import {
+  KNOWN_FRAMEWORKS,
+  PROJECT_PROFILE_LIMITS,
+  normalizeProjectProfile,
+  type LuauMode,
+  type ProjectProfile,
+  type ResponseLanguage,
+} from '@shared/projectProfile';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ProjectProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type ProfileScope = 'user' | 'conversation';
+
+/** قيمة القوائم المنسدلة عندما لا يوجد تفضيل (Radix لا يقبل قيمة فارغة) */
+const UNSET = 'unset';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const isSameProfile = (a: ProjectProfile, b: ProjectProfile) =>
+  JSON.stringify(normalizeProjectProfile(a)) === JSON.stringify(normalizeProjectProfile(b));
+
+// ============================================================================
+// FIELDS
+// ============================================================================
+
+interface ProfileFieldsProps {
+  idPrefix: string;
+  value: ProjectProfile;
+  onChange: (value: ProjectProfile) => void;
+  /** نص خيار "بدون تفضيل" في القوائم */
+  unsetLabel: string;
+}
+
+/**
+ * حقول ملف المشروع (مشتركة بين النطاقين)
+ */
+const ProfileFields = ({ idPrefix, value, onChange, unsetLabel }: ProfileFieldsProps) => {
+  const [customFramework, setCustomFramework] = useState('');
+
+  const frameworks = value.frameworks ?? [];
+  const frameworkOptions = [
+    ...KNOWN_FRAMEWORKS,
+    ...frameworks.filter((name) => !(KNOWN_FRAMEWORKS as readonly string[]).includes(name)),
+  ];
+  const frameworksFull = frameworks.length >= PROJECT_PROFILE_LIMITS.frameworks;
+
+  const update = (patch: Partial<ProjectProfile>) => onChange({ ...value, ...patch });
+
+  const toggleFramework = (name: string) => {
+    if (frameworks.includes(name)) {
+      update({ frameworks: frameworks.filter((item) => item !== name) });
+    } else if (!frameworksFull) {
+      update({ frameworks: [...frameworks, name] });
+    }
+  };
+
+  const handleCustomFrameworkKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    const name = customFramework.trim();
+    if (name && !frameworks.includes(name) && !frameworksFull) {
+      update({ frameworks: [...frameworks, name] });
+    }
+    setCustomFramework('');
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* نوع اللعبة */}
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}-genre`}>نوع اللعبة</Label>
+        <Input
+          id={`${idPrefix}-genre`}
+          dir="auto"
+          value={value.gameGenre ?? ''}
+          maxLength={PROJECT_PROFILE_LIMITS.gameGenre}
+          onChange={(e) => update({ gameGenre: e.target.value })}
+          placeholder="مثال: Tycoon، Obby، Simulator"
+        />
+      </div>
+
+      {/* المكتبات */}
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}-framework`}>المكتبات المستخدمة</Label>
+        <div className="flex flex-wrap gap-1.5" role="group" aria-label="المكتبات المستخدمة">
+          {frameworkOptions.map((name) => {
+            const selected = frameworks.includes(name);
+            return (
+              <button
+                key={name}
+                type="button"
+                dir="ltr"
+                onClick={() => toggleFramework(name)}
+                aria-pressed={selected}
+                disabled={!selected && frameworksFull}
+                className={cn(
+                  'rounded-full border px-2.5 py-0.5 text-xs transition-colors duration-200',
+                  'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                  'disabled:opacity-50 disabled:cursor-not-allowed',
+                  selected
+                    ? 'border-primary bg-primary text-primary-foreground'
+                    : 'border-border text-muted-foreground hover:bg-muted/50'
+                )}
+              >
+                {name}
+              </button>
+            );
+          })}
+        </div>
+        <Input
+          id={`${idPrefix}-framework`}
+          dir="auto"
+          value={customFramework}
+          maxLength={PROJECT_PROFILE_LIMITS.framework}
+          disabled={frameworksFull}
+          onChange={(e) => setCustomFramework(e.target.value)}
+          onKeyDown={handleCustomFrameworkKeyDown}
+          placeholder="مكتبة أخرى ثم Enter"
+        />
+      </div>
+
+      {/* اصطلاحات التسمية */}
+      <div className="space-y-1.5">
+        <Label htmlFor={`${idPrefix}-naming`}>اصطلاحات التسمية</Label>
+        <Textarea
+          id={`${idPrefix}-naming`}
+          dir="auto"
+          rows={2}
+          value={value.namingConventions ?? ''}
+          maxLength={PROJECT_PROFILE_LIMITS.namingConventions}
+          onChange={(e) => update({ namingConventions: e.target.value })}
+          placeholder="مثال: PascalCase للخدمات، camelCase للمتغيرات، بادئة _ للخاص"
+        />
+      </div>
+
+      {/* وضع Luau ولغة الرد */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-1.5">
+          <Label htmlFor={`${idPrefix}-mode`}>وضع Luau</Label>
+          <Select
+            value={value.luauMode ?? UNSET}
+            onValueChange={(mode) =>
+              update({ luauMode: mode === UNSET ? undefined : (mode as LuauMode) })
+            }
+          >
+            <SelectTrigger id={`${idPrefix}-mode`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNSET}>{unsetLabel}</SelectItem>
+              <SelectItem value="strict">--!strict</SelectItem>
+              <SelectItem value="nonstrict">--!nonstrict</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1.5">
+          <Label htmlFor={`${idPrefix}-language`}>لغة الرد</Label>
+          <Select
+            value={value.responseLanguage ?? UNSET}
+            onValueChange={(language) =>
+              update({
+                responseLanguage: language === UNSET ? undefined : (language as ResponseLanguage),
+              })
+            }
+          >
+            <SelectTrigger id={`${idPrefix}-language`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNSET}>{unsetLabel}</SelectItem>
+              <SelectItem value="ar">العربية</SelectItem>
+              <SelectItem value="en">English</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {/* ملاحظات */}
+      <div className="space-y-1.5">
+        <div className="flex items-center justify-between">
+          <Label htmlFor={`${idPrefix}-notes`}>تعليمات إضافية</Label>
+          <span dir="ltr" className="text-xs tabular-nums text-muted-foreground">
+            {(value.notes ?? '').length}/{PROJECT_PROFILE_LIMITS.notes}
+          </span>
+        </div>
+        <Textarea
+          id={`${idPrefix}-notes`}
+          dir="auto"
+          rows={3}
+          value={value.notes ?? ''}
+          maxLength={PROJECT_PROFILE_LIMITS.notes}
+          onChange={(e) => update({ notes: e.target.value })}
+          placeholder="مثال: كل الأنظمة في ServerScriptService/Services، لا تستخدم wait()"
+        />
+      </div>
+    </div>
+  );
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * نافذة تعديل ملف المشروع
+ *
+ * @example
+ * ```tsx
+ * <ProjectProfileDialog open={open} onOpenChange={setOpen} />
+ * ```
+ */
+export const ProjectProfileDialog = ({ open, onOpenChange }: ProjectProfileDialogProps) => {
+  // ─────────────────────────────────────────────────────────────────────────
+  // STATE
+  // ─────────────────────────────────────────────────────────────────────────
+
+  const userProfile = useProfileStore((state) => state.projectProfile);
+  const conversation = useChatStore((state) => state.getCurrentConversation());
+  const { toast } = useToast();
+
+  const [scope, setScope] = useState<ProfileScope>('user');
+  const [userDraft, setUserDraft] = useState<ProjectProfile>({});
+  const [conversationDraft, setConversationDraft] = useState<ProjectProfile>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  /** المسودات تبدأ من القيم المحفوظة في كل مرة تُفتح فيها النافذة */
+  useEffect(() => {
+    if (!open) return;
+    setUserDraft(useProfileStore.getState().projectProfile);
+    setConversationDraft(useChatStore.getState().getCurrentConversation()?.projectProfile ?? {});
+    setScope('user');
+  }, [open]);
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // HANDLERS
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * حفظ النطاقين (ما تغير منهما فقط)
+   *
+   * @behavior
+   * الملف العام يُحفظ محلياً فوراً ثم في الخادم؛ فشل الخادم لا يلغي الحفظ المحلي
+   */
+  const handleSave = async () => {
+    setIsSaving(true);
+
+    try {
+      if (conversation && !isSameProfile(conversationDraft, conversation.projectProfile ?? {})) {
+        useChatStore.getState().updateConversationProfile(conversation.id, conversationDraft);
+      }
+
+      if (!isSameProfile(userDraft, userProfile)) {
+        useProfileStore.getState().setProjectProfile(userDraft);
+
+        const { data: { user } } = await supabase.auth.getUser();
+        if (user) await saveProjectProfile(user.id, userDraft);
+      }
+
+      toast({ title: 'تم حفظ ملف المشروع' });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to save project profile:', error);
+      toast({
+        title: 'تعذر حفظ ملف المشروع في الخادم',
+        description: 'التغييرات محفوظة على هذا الجهاز فقط',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // RENDER
+  // ─────────────────────────────────────────────────────────────────────────
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg" dir="rtl">
+        <DialogHeader className="text-right sm:text-right">
+          <DialogTitle>ملف المشروع</DialogTitle>
+          <DialogDescription>
+            معلومات تُرسل مع كل سؤال حتى تطابق الإجابات أسلوب مشروعك
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={scope} onValueChange={(value) => setScope(value as ProfileScope)} dir="rtl">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="user">عام</TabsTrigger>
+            <TabsTrigger value="conversation" disabled={!conversation}>
+              هذه المحادثة
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="user" className="mt-4">
+            <ProfileFields
+              idPrefix="profile-user"
+              value={userDraft}
+              onChange={setUserDraft}
+              unsetLabel="بدون تفضيل"
+            />
+          </TabsContent>
+
+          <TabsContent value="conversation" className="mt-4 space-y-3">
+            <p className="text-xs text-muted-foreground">
+              الحقول المحددة هنا تطغى على الملف العام في هذه المحادثة فقط، والفارغة تبقى كما هي
+            </p>
+            <ProfileFields
+              idPrefix="profile-conversation"
+              value={conversationDraft}
+              onChange={setConversationDraft}
+              unsetLabel="حسب الملف العام"
+            />
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => setConversationDraft({})}
+            >
+              إزالة التخصيص
+            </Button>
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            إلغاء
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'جاري الحفظ...' : 'حفظ'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,258 @@
+/**
+ * @fileoverview نافذة قوالب المستخدم - Prompt Templates Dialog
+ *
+ * @description
+ * إنشاء وتعديل وحذف قوالب الرسائل الخاصة بالمستخدم (أوامر "/").
+ * القوالب المدمجة تُعرض في قائمة "/" فقط ولا تُعدّل هنا.
+ *
+ * @dependencies
+ * - useProfileStore: النسخة المحلية
+ * - supabaseProfile: الحفظ في profiles.prompt_templates
+ *
+ * @usedBy
+ * - ChatInput (عنصر "إدارة القوالب" في قائمة "/")
+ */
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useProfileStore } from '@/stores/profileStore';
+import { savePromptTemplates } from '@/lib/supabaseProfile';
+import { useToast } from '@/hooks/use-toast';
+import {
+  BUILT_IN_TEMPLATES,
+  PROMPT_TEMPLATE_LIMITS,
+  toTemplateCommand,
+  type PromptTemplate,
+} from '@/lib/promptTemplates';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface PromptTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EMPTY_DRAFT: PromptTemplate = { id: '', command: '', title: '', body: '' };
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * @example
+ * ```tsx
+ * <PromptTemplatesDialog open={open} onOpenChange={setOpen} />
+ * ```
+ */
+export const PromptTemplatesDialog = ({ open, onOpenChange }: PromptTemplatesDialogProps) => {
+  // ─────────────────────────────────────────────────────────────────────────
+  // STATE
+  // ─────────────────────────────────────────────────────────────────────────
+
+  const templates = useProfileStore((state) => state.promptTemplates);
+  const { toast } = useToast();
+
+  /** القالب قيد التعديل (null = عرض القائمة) */
+  const [draft, setDraft] = useState<PromptTemplate | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setDraft(null);
+  }, [open]);
+
+  const command = draft ? toTemplateCommand(draft.command) : '';
+  const commandTaken =
+    !!command &&
+    [...BUILT_IN_TEMPLATES, ...templates].some(
+      (template) => template.command === command && template.id !== draft?.id
+    );
+  const isFull = templates.length >= PROMPT_TEMPLATE_LIMITS.templates;
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // HANDLERS
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * حفظ القائمة محلياً ثم في الخادم
+   *
+   * @behavior
+   * فشل الخادم لا يلغي الحفظ المحلي (مثل ملف المشروع)
+   */
+  const persist = async (next: PromptTemplate[]) => {
+    setIsSaving(true);
+    useProfileStore.getState().setPromptTemplates(next);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) await savePromptTemplates(user.id, useProfileStore.getState().promptTemplates);
+    } catch (error) {
+      console.error('Failed to save prompt templates:', error);
+      toast({
+        title: 'تعذر حفظ القوالب في الخادم',
+        description: 'التغييرات محفوظة على هذا الجهاز فقط',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!draft || !command || commandTaken || !draft.body.trim()) return;
+
+    const saved = { ...draft, id: draft.id || crypto.randomUUID(), command };
+    await persist(
+      draft.id
+        ? templates.map((template) => (template.id === draft.id ? saved : template))
+        : [...templates, saved]
+    );
+    setDraft(null);
+  };
+
+  const handleDelete = (id: string) =>
+    persist(templates.filter((template) => template.id !== id));
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // RENDER
+  // ─────────────────────────────────────────────────────────────────────────
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg" dir="rtl">
+        <DialogHeader className="text-right sm:text-right">
+          <DialogTitle>{draft ? (draft.id ? 'تعديل قالب' : 'قالب جديد') : 'قوالبي'}</DialogTitle>
+          <DialogDescription>
+            اكتب "/" في بداية الرسالة لاستخدام القالب. الحقول تُكتب بين {'{{'} و {'}}'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft ? (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-1.5">
+              <Label htmlFor="template-command">الأمر</Label>
+              <Input
+                id="template-command"
+                dir="ltr"
+                value={draft.command}
+                maxLength={PROMPT_TEMPLATE_LIMITS.command + 1}
+                onChange={(e) => setDraft({ ...draft, command: e.target.value })}
+                placeholder="/tween-ui"
+                autoFocus
+              />
+              {commandTaken && (
+                <p className="text-xs text-destructive">الأمر /{command} مستخدم في قالب آخر</p>
+              )}
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="template-title">الوصف</Label>
+              <Input
+                id="template-title"
+                dir="auto"
+                value={draft.title}
+                maxLength={PROMPT_TEMPLATE_LIMITS.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                placeholder="مثال: حركة واجهة بـ TweenService"
+              />
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="template-body">نص الرسالة</Label>
+              <Textarea
+                id="template-body"
+                dir="auto"
+                rows={6}
+                value={draft.body}
+                maxLength={PROMPT_TEMPLATE_LIMITS.body}
+                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+                placeholder={'اكتب tween لـ {{اسم العنصر}} مدته {{المدة}} ثانية'}
+              />
+              <p className="text-xs text-muted-foreground">
+                الحقل الذي يقع وحده في سطر يُعرض كمربع نص كبير (للكود أو الأخطاء)
+              </p>
+            </div>
+
+            <DialogFooter className="gap-2 sm:justify-start">
+              <Button type="submit" disabled={isSaving || !command || commandTaken || !draft.body.trim()}>
+                {isSaving ? 'جاري الحفظ...' : 'حفظ'}
+              </Button>
+              <Button type="button" variant="ghost" onClick={() => setDraft(null)} disabled={isSaving}>
+                رجوع
+              </Button>
+            </DialogFooter>
+          </form>
+        ) : (
+          <div className="space-y-3">
+            {templates.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">لا توجد قوالب بعد</p>
+            ) : (
+              <ul className="divide-y divide-border rounded-lg border border-border">
+                {templates.map((template) => (
+                  <li key={template.id} className="flex items-center gap-2 px-3 py-2">
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate font-mono text-sm" dir="ltr">/{template.command}</p>
+                      {template.title && (
+                        <p className="truncate text-xs text-muted-foreground" dir="auto">
+                          {template.title}
+                        </p>
+                      )}
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label={`تعديل /${template.command}`}
+                      onClick={() => setDraft(template)}
+                      disabled={isSaving}
+                    >
+                      <Pencil className="h-3.5 w-3.5" strokeWidth={2} />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      aria-label={`حذف /${template.command}`}
+                      onClick={() => handleDelete(template.id)}
+                      disabled={isSaving}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" strokeWidth={2} />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full gap-2"
+              onClick={() => setDraft(EMPTY_DRAFT)}
+              disabled={isFull || isSaving}
+            >
+              <Plus className="h-4 w-4" strokeWidth={2} />
+              {isFull ? `الحد الأقصى ${PROMPT_TEMPLATE_LIMITS.templates} قالباً` : 'قالب جديد'}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
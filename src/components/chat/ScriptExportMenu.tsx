@@ -0,0 +1,116 @@
+/**
+ * @fileoverview قائمة تصدير السكربتات - Script Export Menu
+ *
+ * @description
+ * تنزيل كتل Luau كنموذج Roblox (.rbxmx) أو مشروع Rojo (.zip)
+ * نوع السكربت ومكانه من سطر المسار في أعلى كل كتلة
+ *
+ * @dependencies
+ * - @/lib/robloxScripts: الاستنتاج وبناء الملفات
+ *
+ * @usedBy
+ * - StreamingText (CodeBlock: كتلة واحدة)
+ * - ChatMessage (كل كتل Luau في الرد)
+ */
+
+import { useMemo } from 'react';
+import { Boxes, FolderTree, PackageOpen } from 'lucide-react';
+import { collectScripts, exportScripts, type ScriptExportFormat } from '@/lib/robloxScripts';
+import { downloadBlob } from '@/lib/conversationExport';
+import { cn } from '@/lib/utils';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { toast } from 'sonner';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface ScriptExportMenuProps {
+  /** كود كتل Luau بترتيبها */
+  sources: string[];
+  /** compact: رأس كتلة الكود | action: شريط أزرار الرسالة */
+  variant?: 'compact' | 'action';
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const FORMAT_OPTIONS: { format: ScriptExportFormat; label: string; icon: typeof Boxes }[] = [
+  { format: 'rbxmx', label: 'نموذج Roblox (.rbxmx)', icon: Boxes },
+  { format: 'rojo', label: 'مشروع Rojo (.zip)', icon: FolderTree },
+];
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * @example
+ * ```tsx
+ * <ScriptExportMenu sources={[code]} variant="compact" />
+ * ```
+ */
+export const ScriptExportMenu = ({ sources, variant = 'compact' }: ScriptExportMenuProps) => {
+  const scripts = useMemo(() => collectScripts(sources), [sources]);
+
+  const handleExport = (format: ScriptExportFormat) => {
+    try {
+      const { blob, fileName } = exportScripts(scripts, format);
+      downloadBlob(blob, fileName);
+    } catch (error) {
+      console.error('Script export error:', error);
+      toast.error('تعذر تصدير السكربتات');
+    }
+  };
+
+  if (scripts.length === 0) return null;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          type="button"
+          aria-label="تصدير إلى Studio"
+          className={cn(
+            'flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors',
+            'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+            variant === 'action' ? 'px-2.5 py-1.5 rounded-lg hover:bg-muted/50 duration-200' : 'rounded'
+          )}
+        >
+          <PackageOpen className="h-3.5 w-3.5" strokeWidth={2} />
+          <span>{variant === 'action' && scripts.length > 1 ? `تصدير (${scripts.length})` : 'تصدير'}</span>
+        </button>
+      </DropdownMenuTrigger>
+
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel className="text-xs text-muted-foreground font-normal space-y-0.5">
+          {scripts.slice(0, 5).map((script, index) => (
+            <div key={index} className="truncate font-mono" dir="ltr">
+              {[...script.parent, script.name].join('/')} · {script.className}
+            </div>
+          ))}
+          {scripts.length > 5 && <div>و{scripts.length - 5} أخرى</div>}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {FORMAT_OPTIONS.map(({ format, label, icon: Icon }) => (
+          <DropdownMenuItem
+            key={format}
+            onSelect={() => handleExport(format)}
+            className="gap-2 cursor-pointer"
+          >
+            <Icon className="h-4 w-4" strokeWidth={2} />
+            <span>{label}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
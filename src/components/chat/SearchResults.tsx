@@ -0,0 +1,94 @@
+/**
+ * @fileoverview نتائج البحث في الرسائل - Message Search Results
+ *
+ * @description
+ * قائمة الرسائل المطابقة (الأعلى ترتيباً أولاً) مع عنوان المحادثة
+ * ومقتطف مظلل. اختيار نتيجة يفتح المحادثة عند الرسالة.
+ *
+ * @usedBy
+ * - ConversationSidebar أثناء البحث
+ */
+
+import type { ReactNode } from 'react';
+import { Bot, User } from 'lucide-react';
+import type { SearchHit, SearchSnippet } from '@/lib/searchIndex';
+import { formatRelativeDate } from '@/lib/dateUtils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SearchResultsProps {
+  hits: SearchHit[];
+  /** عنوان كل محادثة حسب معرفها */
+  titles: Map<string, string>;
+  onSelect: (hit: SearchHit) => void;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * المقتطف مع <mark> حول المواضع المطابقة
+ */
+const HighlightedSnippet = ({ snippet }: { snippet: SearchSnippet }) => {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+
+  snippet.highlights.forEach(([start, end], index) => {
+    if (start > cursor) parts.push(<span key={`t${index}`}>{snippet.text.slice(cursor, start)}</span>);
+    parts.push(
+      <mark key={`m${index}`} className="rounded-sm bg-primary/20 text-foreground">
+        {snippet.text.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < snippet.text.length) parts.push(<span key="rest">{snippet.text.slice(cursor)}</span>);
+
+  return <>{parts}</>;
+};
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const SearchResults = ({ hits, titles, onSelect }: SearchResultsProps) => {
+  if (hits.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground text-sm">
+        لا توجد نتائج للبحث
+      </div>
+    );
+  }
+
+  return (
+    <ul aria-label="نتائج البحث" className="space-y-1 pb-4">
+      {hits.map((hit) => {
+        const RoleIcon = hit.role === 'user' ? User : Bot;
+
+        return (
+          <li key={hit.messageId}>
+            <button
+              type="button"
+              onClick={() => onSelect(hit)}
+              className="w-full rounded-lg p-2.5 text-right text-foreground hover:bg-muted transition-colors duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+            >
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <RoleIcon className="h-3.5 w-3.5 flex-shrink-0" strokeWidth={2} />
+                <span dir="auto" className="truncate flex-1 font-medium text-foreground">
+                  {titles.get(hit.conversationId) ?? ''}
+                </span>
+                <span className="text-[10px] flex-shrink-0">{formatRelativeDate(hit.timestamp)}</span>
+              </div>
+              <p dir="auto" className="mt-1 text-xs text-muted-foreground line-clamp-3 break-words">
+                <HighlightedSnippet snippet={hit.snippet} />
+              </p>
+            </button>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -0,0 +1,253 @@
+/**
+ * @fileoverview نافذة مشاركة المحادثة - Share Dialog
+ *
+ * @description
+ * رابط للقراءة فقط للمحادثة الحالية:
+ * - إنشاء رابط بلقطة من الفرع المعروض
+ * - نسخ الرابط
+ * - تحديث اللقطة (نفس الرابط، الرسائل الجديدة تظهر)
+ * - إلغاء الرابط
+ *
+ * @dependencies
+ * - @/lib/supabaseShares: جدول conversation_shares
+ *
+ * @usedBy
+ * - ChatHeader
+ *
+ * @note
+ * الرسائل اللاحقة لا تظهر في الرابط حتى "تحديث اللقطة"
+ */
+
+import { useEffect, useState } from 'react';
+import { Check, Copy, Link2Off, Loader2, RefreshCw, Share2 } from 'lucide-react';
+import { useChatStore } from '@/stores/chatStore';
+import { getShareUrl } from '@/lib/conversationShare';
+import {
+  createShare,
+  fetchActiveShare,
+  refreshShare,
+  revokeShare,
+  type ConversationShare,
+} from '@/lib/supabaseShares';
+import { formatExportDate } from '@/lib/conversationExport';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { toast } from 'sonner';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * العملية الجارية
+ *
+ * @value 'loading' - جلب الرابط الحالي عند الفتح
+ */
+type ShareAction = 'loading' | 'create' | 'refresh' | 'revoke';
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * زر المشاركة ونافذته
+ *
+ * @example
+ * ```tsx
+ * <ShareDialog />
+ * ```
+ */
+export const ShareDialog = () => {
+  const conversationId = useChatStore((state) => state.currentConversationId);
+  const hasMessages = useChatStore((state) => (state.getCurrentConversation()?.messages.length ?? 0) > 0);
+  const [open, setOpen] = useState(false);
+  const [share, setShare] = useState<ConversationShare | null>(null);
+  const [action, setAction] = useState<ShareAction | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // LOAD ACTIVE SHARE
+  // ─────────────────────────────────────────────────────────────────────────
+
+  useEffect(() => {
+    if (!open || !conversationId) return;
+
+    let cancelled = false;
+    setShare(null);
+    setCopied(false);
+    setAction('loading');
+
+    fetchActiveShare(conversationId)
+      .then((active) => {
+        if (!cancelled) setShare(active);
+      })
+      .catch((error) => {
+        console.error('Share fetch error:', error);
+        if (!cancelled) toast.error('تعذر جلب رابط المشاركة');
+      })
+      .finally(() => {
+        if (!cancelled) setAction(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, conversationId]);
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // ACTIONS
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * تنفيذ عملية على الرابط مع مؤشر انتظار
+   */
+  const run = async (next: ShareAction, task: () => Promise<void>, errorMessage: string) => {
+    setAction(next);
+    try {
+      await task();
+    } catch (error) {
+      console.error('Share error:', error);
+      toast.error(errorMessage);
+    } finally {
+      setAction(null);
+    }
+  };
+
+  const handleCreate = () => {
+    const conversation = useChatStore.getState().getCurrentConversation();
+    if (!conversation) return;
+
+    run('create', async () => {
+      setShare(await createShare(conversation));
+    }, 'تعذر إنشاء رابط المشاركة');
+  };
+
+  const handleRefresh = () => {
+    const conversation = useChatStore.getState().getCurrentConversation();
+    if (!conversation || !share) return;
+
+    run('refresh', async () => {
+      setShare(await refreshShare(share.slug, conversation));
+      toast.success('تم تحديث اللقطة');
+    }, 'تعذر تحديث اللقطة');
+  };
+
+  const handleRevoke = () => {
+    if (!share) return;
+
+    run('revoke', async () => {
+      await revokeShare(share.slug);
+      setShare(null);
+      toast.success('تم إلغاء الرابط');
+    }, 'تعذر إلغاء الرابط');
+  };
+
+  const handleCopy = async () => {
+    if (!share) return;
+    try {
+      await navigator.clipboard.writeText(getShareUrl(share.slug));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Copy error:', error);
+      toast.error('تعذر نسخ الرابط');
+    }
+  };
+
+  const isBusy = action !== null;
+  const spinner = (name: ShareAction) =>
+    action === name ? <Loader2 className="h-4 w-4 animate-spin" strokeWidth={2} /> : null;
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="icon"
+        disabled={!hasMessages}
+        onClick={() => setOpen(true)}
+        aria-label="مشاركة المحادثة"
+        className="h-10 w-10 text-muted-foreground hover:text-foreground transition-colors"
+      >
+        <Share2 className="h-5 w-5" strokeWidth={2} />
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md" dir="rtl">
+          <DialogHeader className="text-right sm:text-right">
+            <DialogTitle>مشاركة المحادثة</DialogTitle>
+            <DialogDescription>
+              {share
+                ? `أي شخص لديه الرابط يمكنه قراءة المحادثة كما كانت في ${formatExportDate(share.updatedAt)}.`
+                : 'يُنشأ رابط للقراءة فقط بلقطة من الفرع المعروض الآن. المرفقات تظهر بأسمائها فقط.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {action === 'loading' ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" strokeWidth={2} />
+            </div>
+          ) : share ? (
+            <div className="flex items-center gap-2">
+              <Input
+                value={getShareUrl(share.slug)}
+                readOnly
+                dir="ltr"
+                aria-label="رابط المشاركة"
+                onFocus={(e) => e.target.select()}
+                className="font-mono text-xs"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                size="icon"
+                onClick={handleCopy}
+                aria-label={copied ? 'تم النسخ' : 'نسخ الرابط'}
+                className="shrink-0"
+              >
+                {copied ? (
+                  <Check className="h-4 w-4" strokeWidth={2} />
+                ) : (
+                  <Copy className="h-4 w-4" strokeWidth={2} />
+                )}
+              </Button>
+            </div>
+          ) : null}
+
+          <DialogFooter className="gap-2 sm:justify-start">
+            {share ? (
+              <>
+                <Button type="button" onClick={handleRefresh} disabled={isBusy} className="gap-2">
+                  {spinner('refresh') ?? <RefreshCw className="h-4 w-4" strokeWidth={2} />}
+                  تحديث اللقطة
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={handleRevoke}
+                  disabled={isBusy}
+                  className="gap-2 text-destructive hover:text-destructive"
+                >
+                  {spinner('revoke') ?? <Link2Off className="h-4 w-4" strokeWidth={2} />}
+                  إلغاء الرابط
+                </Button>
+              </>
+            ) : (
+              <Button type="button" onClick={handleCreate} disabled={isBusy} className="gap-2">
+                {spinner('create') ?? <Share2 className="h-4 w-4" strokeWidth={2} />}
+                إنشاء رابط
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
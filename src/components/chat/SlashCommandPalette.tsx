@@ -0,0 +1,113 @@
+/**
+ * @fileoverview قائمة أوامر "/" - Slash Command Palette
+ *
+ * @description
+ * تظهر فوق حقل الإدخال عندما يبدأ النص بـ "/". التركيز يبقى في حقل
+ * الإدخال: ChatInput يحرك الاختيار بالأسهم ويختار بـ Enter أو Tab،
+ * والقائمة تعرض النتائج وتستقبل النقر فقط.
+ *
+ * @dependencies
+ * - components/ui/command (cmdk) بدون تصفية داخلية: النتائج مرتبة مسبقاً
+ *
+ * @usedBy
+ * - ChatInput
+ */
+
+import { Settings2 } from 'lucide-react';
+import { isBuiltInTemplate, type PromptTemplate } from '@/lib/promptTemplates';
+import {
+  Command,
+  CommandItem,
+  CommandList,
+  CommandSeparator,
+} from '@/components/ui/command';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface SlashCommandPaletteProps {
+  /** القوالب المطابقة بالترتيب المعروض */
+  templates: PromptTemplate[];
+  /** قيمة العنصر المحدد: "/command" أو manageValue */
+  activeValue: string;
+  onActiveValueChange: (value: string) => void;
+  /** قيمة عنصر "إدارة القوالب" (آخر عنصر في القائمة) */
+  manageValue: string;
+  onSelect: (template: PromptTemplate) => void;
+  onManage: () => void;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * @example
+ * ```tsx
+ * <SlashCommandPalette
+ *   templates={matches}
+ *   activeValue={activeValue}
+ *   onActiveValueChange={setActiveValue}
+ *   manageValue="manage"
+ *   onSelect={handleTemplateSelect}
+ *   onManage={() => setIsManageOpen(true)}
+ * />
+ * ```
+ */
+export const SlashCommandPalette = ({
+  templates,
+  activeValue,
+  onActiveValueChange,
+  manageValue,
+  onSelect,
+  onManage,
+}: SlashCommandPaletteProps) => (
+  <Command
+    shouldFilter={false}
+    value={activeValue}
+    onValueChange={onActiveValueChange}
+    loop
+    className="absolute inset-x-0 bottom-full mb-2 h-auto rounded-xl border border-border shadow-lg"
+    aria-label="قوالب الرسائل"
+  >
+    <CommandList id="slash-command-list">
+      {/* CommandEmpty لا يظهر هنا: عنصر الإدارة موجود دائماً */}
+      {templates.length === 0 && (
+        <p className="py-4 text-center text-sm text-muted-foreground">لا يوجد قالب بهذا الاسم</p>
+      )}
+      {templates.map((template) => (
+        <CommandItem
+          key={template.id}
+          value={`/${template.command}`}
+          onSelect={() => onSelect(template)}
+          // الحفاظ على التركيز في حقل الإدخال عند النقر
+          onMouseDown={(e) => e.preventDefault()}
+          className="gap-3"
+        >
+          <span className="font-mono text-sm" dir="ltr">/{template.command}</span>
+          <span className="min-w-0 flex-1 truncate text-xs text-muted-foreground" dir="auto">
+            {template.title}
+          </span>
+          {!isBuiltInTemplate(template) && (
+            <span className="rounded-full border border-border px-1.5 text-[10px] text-muted-foreground">
+              قالبي
+            </span>
+          )}
+        </CommandItem>
+      ))}
+    </CommandList>
+    <CommandSeparator />
+    <div className="p-1">
+      <CommandItem
+        value={manageValue}
+        onSelect={onManage}
+        onMouseDown={(e) => e.preventDefault()}
+        className="gap-2 text-muted-foreground"
+      >
+        <Settings2 className="h-3.5 w-3.5" strokeWidth={2} />
+        إدارة قوالبي
+      </CommandItem>
+    </div>
+  </Command>
+);
@@ -8,10 +8,14 @@
  * - Code blocks with syntax highlighting
  * - نسخ الكود
  * - مؤشر كتابة وامض أثناء البث
+ * - تشخيصات Luau تحت كتل ```lua بعد اكتمال الرد
+ * - زر "إصلاح" يرسل الكتلة مع ملاحظاتها، والرد يُعرض كمقارنة مع الأصل
  * 
  * @dependencies
  * - react-markdown: تحويل Markdown إلى React
  * - react-syntax-highlighter: تلوين الكود
+ * - @/lib/luauAnalyzer: الفحص الثابت لكتل Luau
+ * - @/lib/codeFix: الكود المصلح في رد طلب الإصلاح
  * 
  * @performance
  * - يستخدم memo لتجنب re-renders غير ضرورية
@@ -28,11 +32,25 @@
  * ```
  */
 
-import { useState, useEffect, useRef, memo } from 'react';
+import { useState, useEffect, useRef, useMemo, memo } from 'react';
 import ReactMarkdown from 'react-markdown';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { oneDark } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { Copy, Check } from 'lucide-react';
+import { Copy, Check, AlertCircle, AlertTriangle, Info, Wrench } from 'lucide-react';
+import {
+  LUAU_LANGUAGES,
+  analyzeLuau,
+  type LuauDiagnostic,
+  type LuauDiagnosticSeverity,
+} from '@/lib/luauAnalyzer';
+import { checkLuauApi } from '@shared/luauApiCheck';
+import { getLoadedApiIndex, loadApiIndex, mergeDiagnostics } from '@/lib/apiCheck';
+import { extractFixedCode, type CodeFixInput } from '@/lib/codeFix';
+import type { CodeFixRequest } from '@/stores/chatStore';
+import { cn } from '@/lib/utils';
+import { CodeFixDialog } from './CodeFixDialog';
+import { CodeDiff } from './CodeDiff';
+import { ScriptExportMenu } from './ScriptExportMenu';
 
 // ============================================================================
 // TYPES
@@ -43,12 +61,65 @@ interface StreamingTextProps {
   content: string;
   /** هل النص قيد البث؟ */
   isStreaming: boolean;
+  /** إرسال كتلة للإصلاح (بدونه لا يظهر زر "إصلاح") */
+  onFixCode?: (input: CodeFixInput) => void;
+  /** طلب الإصلاح الذي يجيب عليه هذا الرد (كتلته تُعرض كمقارنة) */
+  fixRequest?: CodeFixRequest;
 }
 
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SEVERITY_STYLES: Record<LuauDiagnosticSeverity, { icon: typeof Info; className: string; line: string }> = {
+  error: { icon: AlertCircle, className: 'text-destructive', line: 'hsl(var(--destructive) / 0.15)' },
+  warning: { icon: AlertTriangle, className: 'text-foreground', line: 'hsl(var(--foreground) / 0.06)' },
+  info: { icon: Info, className: 'text-muted-foreground', line: 'transparent' },
+};
+
 // ============================================================================
 // SUB-COMPONENTS
 // ============================================================================
 
+/**
+ * قائمة تشخيصات Luau تحت كتلة الكود
+ */
+const DiagnosticsList = ({ diagnostics }: { diagnostics: LuauDiagnostic[] }) => (
+  <ul
+    className="border-t border-border bg-background/50 px-4 py-2 space-y-1.5 text-xs"
+    aria-label={`ملاحظات الفحص: ${diagnostics.length}`}
+    dir="rtl"
+  >
+    {diagnostics.map((diagnostic, index) => {
+      const { icon: Icon, className } = SEVERITY_STYLES[diagnostic.severity];
+      return (
+        <li key={`${diagnostic.rule}-${diagnostic.line}-${index}`} className="flex items-start gap-2">
+          <Icon className={cn('h-3.5 w-3.5 mt-0.5 shrink-0', className)} strokeWidth={2} />
+          <span className="font-mono text-muted-foreground shrink-0 tabular-nums">
+            سطر {diagnostic.line}
+          </span>
+          <span className="text-foreground/90">
+            {diagnostic.message}
+            {diagnostic.suggestion && (
+              <code className="mr-1.5 px-1 py-0.5 rounded bg-muted font-mono" dir="ltr">
+                {diagnostic.suggestion}
+              </code>
+            )}
+          </span>
+        </li>
+      );
+    })}
+  </ul>
+);
+
+interface CodeBlockProps {
+  language: string;
+  children: string;
+  /** تشغيل فحص Luau (فقط بعد اكتمال الرد) */
+  analyze?: boolean;
+  onFix?: (input: CodeFixInput) => void;
+}
+
 /**
  * مكون عرض كتلة الكود
  * 
@@ -57,11 +128,47 @@ interface StreamingTextProps {
  * - أرقام الأسطر
  * - زر نسخ
  * - عرض اسم اللغة
+ * - تشخيصات Luau مع تظليل الأسطر المعنية (+ فحص Roblox API بعد تحميل الفهرس)
+ * - زر إصلاح لكتل Luau المكتملة
+ * - تصدير كتل Luau المكتملة إلى Studio أو Rojo
  * 
  * @memoized لتجنب re-renders عند تحديث النص المحيط
  */
-const CodeBlock = memo(({ language, children }: { language: string; children: string }) => {
+const CodeBlock = memo(({ language, children, analyze = false, onFix }: CodeBlockProps) => {
   const [copied, setCopied] = useState(false);
+  const [isFixOpen, setIsFixOpen] = useState(false);
+  const isCompleteLuau = analyze && LUAU_LANGUAGES.has(language);
+  const canFix = !!onFix && isCompleteLuau;
+
+  const [apiIndex, setApiIndex] = useState(getLoadedApiIndex);
+
+  useEffect(() => {
+    if (!isCompleteLuau || apiIndex) return;
+    let cancelled = false;
+    loadApiIndex()
+      .then((index) => {
+        if (!cancelled) setApiIndex(index);
+      })
+      .catch((error) => console.error('Failed to load API dump:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isCompleteLuau, apiIndex]);
+
+  const diagnostics = useMemo(() => {
+    if (!isCompleteLuau) return [];
+    const analyzed = analyzeLuau(children);
+    return apiIndex ? mergeDiagnostics(analyzed, checkLuauApi(apiIndex, children)) : analyzed;
+  }, [isCompleteLuau, apiIndex, children]);
+
+  /** أعلى خطورة لكل سطر (لتظليله) */
+  const lineSeverity = useMemo(() => {
+    const lines = new Map<number, LuauDiagnosticSeverity>();
+    for (const { line, severity } of diagnostics) {
+      if (!lines.has(line)) lines.set(line, severity);
+    }
+    return lines;
+  }, [diagnostics]);
 
   /**
    * نسخ الكود للحافظة
@@ -82,28 +189,40 @@ const CodeBlock = memo(({ language, children }: { language: string; children: st
   return (
     <div className="group relative my-4 rounded-lg border border-border bg-muted overflow-hidden">
       {/* ─────────────────────────────────────────────────────────────────────
-          HEADER: Language name + Copy button
+          HEADER: Language name + Export + Fix + Copy buttons
           ───────────────────────────────────────────────────────────────────── */}
       <div className="flex items-center justify-between px-4 py-2 border-b border-border bg-background/50">
         <span className="text-xs font-mono text-muted-foreground uppercase tracking-wider">
           {displayLanguage || 'code'}
         </span>
-        <button
-          onClick={handleCopy}
-          className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
-        >
-          {copied ? (
-            <>
-              <Check className="h-3.5 w-3.5" />
-              <span>تم النسخ</span>
-            </>
-          ) : (
-            <>
-              <Copy className="h-3.5 w-3.5" />
-              <span>نسخ</span>
-            </>
+        <div className="flex items-center gap-3">
+          {isCompleteLuau && <ScriptExportMenu sources={[children]} />}
+          {canFix && (
+            <button
+              onClick={() => setIsFixOpen(true)}
+              className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring rounded"
+            >
+              <Wrench className="h-3.5 w-3.5" strokeWidth={2} />
+              <span>إصلاح</span>
+            </button>
           )}
-        </button>
+          <button
+            onClick={handleCopy}
+            className="flex items-center gap-1.5 text-xs text-muted-foreground hover:text-foreground transition-colors"
+          >
+            {copied ? (
+              <>
+                <Check className="h-3.5 w-3.5" />
+                <span>تم النسخ</span>
+              </>
+            ) : (
+              <>
+                <Copy className="h-3.5 w-3.5" />
+                <span>نسخ</span>
+              </>
+            )}
+          </button>
+        </div>
       </div>
       
       {/* ─────────────────────────────────────────────────────────────────────
@@ -124,9 +243,27 @@ const CodeBlock = memo(({ language, children }: { language: string; children: st
           opacity: 0.4,
           minWidth: '2.5em',
         }}
+        wrapLines={lineSeverity.size > 0}
+        lineProps={(lineNumber: number) => {
+          const severity = lineSeverity.get(lineNumber);
+          return severity
+            ? { style: { display: 'block', background: SEVERITY_STYLES[severity].line } }
+            : {};
+        }}
       >
         {children}
       </SyntaxHighlighter>
+
+      {diagnostics.length > 0 && <DiagnosticsList diagnostics={diagnostics} />}
+
+      {canFix && (
+        <CodeFixDialog
+          open={isFixOpen}
+          onOpenChange={setIsFixOpen}
+          diagnostics={diagnostics}
+          onSubmit={(studioOutput) => onFix({ language, code: children, diagnostics, studioOutput })}
+        />
+      )}
     </div>
   );
 });
@@ -151,7 +288,7 @@ CodeBlock.displayName = 'CodeBlock';
  * <StreamingText content={message.content} isStreaming={message.isStreaming} />
  * ```
  */
-export const StreamingText = memo(({ content, isStreaming }: StreamingTextProps) => {
+export const StreamingText = memo(({ content, isStreaming, onFixCode, fixRequest }: StreamingTextProps) => {
   // ─────────────────────────────────────────────────────────────────────────
   // STATE & REFS
   // ─────────────────────────────────────────────────────────────────────────
@@ -278,11 +415,21 @@ export const StreamingText = memo(({ content, isStreaming }: StreamingTextProps)
   // MARKDOWN COMPONENTS CONFIGURATION
   // ─────────────────────────────────────────────────────────────────────────
 
+  /** اكتمل البث والكشف: الكتل نهائية ويمكن فحصها */
+  const isComplete = !isStreaming && !!content && displayedContent.length >= content.length;
+
+  /** الكتلة التي تُعرض كمقارنة في رد على طلب إصلاح */
+  const fixedCode = useMemo(
+    () => (isComplete && fixRequest ? extractFixedCode(content, fixRequest) : null),
+    [isComplete, fixRequest, content]
+  );
+
   /**
    * تكوين مكونات ReactMarkdown
    * 
    * @note
-   * يتم استخدام نفس التكوين لكلا الحالتين (streaming/complete)
+   * يتم استخدام نفس التكوين لكلا الحالتين (streaming/complete)؛
+   * فحص Luau يُفعّل فقط بعد الاكتمال
    */
   const markdownComponents = {
     code({ className, children, ...props }: any) {
@@ -300,9 +447,26 @@ export const StreamingText = memo(({ content, isStreaming }: StreamingTextProps)
         );
       }
 
+      const language = match ? match[1] : '';
+      const code = String(children).replace(/\n$/, '');
+
+      if (fixRequest && code === fixedCode) {
+        return (
+          <CodeDiff
+            original={fixRequest.code}
+            fixed={code}
+            renderCode={(result) => (
+              <CodeBlock language={language} analyze onFix={onFixCode}>
+                {result}
+              </CodeBlock>
+            )}
+          />
+        );
+      }
+
       return (
-        <CodeBlock language={match ? match[1] : ''}>
-          {String(children).replace(/\n$/, '')}
+        <CodeBlock language={language} analyze={isComplete} onFix={onFixCode}>
+          {code}
         </CodeBlock>
       );
     },
@@ -334,7 +498,7 @@ export const StreamingText = memo(({ content, isStreaming }: StreamingTextProps)
   // ─────────────────────────────────────────────────────────────────────────
 
   // المحتوى المكتمل (بدون مؤشر)
-  if (!isStreaming && content && displayedContent.length >= content.length) {
+  if (isComplete) {
     return (
       <div className="prose prose-invert prose-sm max-w-none streaming-text">
         <ReactMarkdown components={markdownComponents}>
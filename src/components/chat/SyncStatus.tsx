@@ -0,0 +1,53 @@
+/**
+ * @fileoverview حالة المزامنة - Sync Status
+ *
+ * @description
+ * يظهر فقط عندما توجد تعديلات فشلت كتابتها على الخادم (pendingSync):
+ * التعديلات محفوظة محلياً وتُعاد تلقائياً عند عودة الاتصال، والنقر
+ * يعيد المحاولة فوراً.
+ *
+ * @usedBy
+ * - ChatHeader
+ */
+
+import { CloudOff } from 'lucide-react';
+import { useChatStore } from '@/stores/chatStore';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * @example
+ * ```tsx
+ * <SyncStatus />
+ * ```
+ */
+export const SyncStatus = () => {
+  const pendingCount = useChatStore((state) => state.pendingSync.length);
+
+  if (pendingCount === 0) return null;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <button
+          type="button"
+          onClick={() => useChatStore.getState().retryPendingSync()}
+          className="flex items-center gap-1 text-xs text-destructive rounded-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          aria-label={`${pendingCount} تعديل لم يُحفظ على الخادم، إعادة المحاولة`}
+        >
+          <CloudOff className="h-3.5 w-3.5" strokeWidth={2} />
+          <span className="tabular-nums" dir="ltr">{pendingCount}</span>
+        </button>
+      </TooltipTrigger>
+      <TooltipContent side="bottom" className="max-w-xs text-right" dir="rtl">
+        <p>{pendingCount.toLocaleString('ar')} تعديل لم يُحفظ على الخادم بعد</p>
+        <p className="text-muted-foreground">
+          محفوظ على هذا الجهاز ويُعاد تلقائياً عند عودة الاتصال. انقر لإعادة المحاولة الآن
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+};
@@ -0,0 +1,139 @@
+/**
+ * @fileoverview إدارة الوسوم - Tag Manager Dialog
+ *
+ * @description
+ * إنشاء وسوم ملونة وحذفها. حذف وسم يزيله من كل المحادثات.
+ *
+ * @usedBy
+ * - ConversationSidebar
+ */
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { Trash2 } from 'lucide-react';
+import { useChatStore, TAG_COLORS, type TagColor } from '@/stores/chatStore';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { TAG_COLOR_CLASSES, TAG_COLOR_LABELS } from '@/lib/tagColors';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * الحد الأقصى لطول اسم الوسم
+ * @value 30 حرف
+ */
+const MAX_TAG_NAME_LENGTH = 30;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface TagManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+export const TagManagerDialog = ({ open, onOpenChange }: TagManagerDialogProps) => {
+  const tags = useChatStore((state) => state.tags);
+  const { createTag, deleteTag } = useChatStore.getState();
+
+  const [name, setName] = useState('');
+  const [color, setColor] = useState<TagColor>('blue');
+
+  useEffect(() => {
+    if (open) setName('');
+  }, [open]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    createTag(trimmed, color);
+    setName('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm" dir="rtl">
+        <DialogHeader className="text-right sm:text-right">
+          <DialogTitle>الوسوم</DialogTitle>
+          <DialogDescription>
+            أرفق الوسوم بالمحادثات من قائمة كل محادثة، واضغط الوسم في الشريط الجانبي للتصفية
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* ─────────────────────────────────────────────────────────────────
+            EXISTING TAGS
+            ───────────────────────────────────────────────────────────────── */}
+        {tags.length > 0 && (
+          <ul className="space-y-1" aria-label="الوسوم الحالية">
+            {tags.map((tag) => (
+              <li key={tag.id} className="flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-muted">
+                <span className={cn('h-2.5 w-2.5 rounded-full flex-shrink-0', TAG_COLOR_CLASSES[tag.color])} />
+                <span dir="auto" className="flex-1 truncate text-sm">{tag.name}</span>
+                <button
+                  type="button"
+                  onClick={() => deleteTag(tag.id)}
+                  aria-label={`حذف الوسم ${tag.name}`}
+                  className="p-1 rounded hover:bg-destructive/20 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-destructive"
+                >
+                  <Trash2 className="h-3.5 w-3.5 text-destructive" strokeWidth={2} />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* ─────────────────────────────────────────────────────────────────
+            NEW TAG
+            ───────────────────────────────────────────────────────────────── */}
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="وسم جديد"
+              aria-label="اسم الوسم"
+              maxLength={MAX_TAG_NAME_LENGTH}
+              dir="auto"
+            />
+            <Button type="submit" disabled={!name.trim()}>
+              إضافة
+            </Button>
+          </div>
+
+          <div role="radiogroup" aria-label="لون الوسم" className="flex flex-wrap gap-2">
+            {TAG_COLORS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={color === option}
+                aria-label={TAG_COLOR_LABELS[option]}
+                onClick={() => setColor(option)}
+                className={cn(
+                  'h-6 w-6 rounded-full transition-transform focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2',
+                  TAG_COLOR_CLASSES[option],
+                  color === option ? 'ring-2 ring-foreground ring-offset-2 ring-offset-background scale-110' : 'opacity-70'
+                )}
+              />
+            ))}
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
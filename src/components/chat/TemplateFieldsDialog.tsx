@@ -0,0 +1,121 @@
+/**
+ * @fileoverview نافذة حقول القالب - Template Fields Dialog
+ *
+ * @description
+ * تُفتح بعد اختيار قالب فيه حقول {{...}} من قائمة "/"، وتدرج النص
+ * المملوء في حقل الإدخال (لا ترسله) حتى يراجعه المستخدم أولاً.
+ *
+ * @usedBy
+ * - ChatInput
+ */
+
+import { useEffect, useMemo, useState, type FormEvent } from 'react';
+import {
+  fillTemplate,
+  parseTemplateFields,
+  type PromptTemplate,
+} from '@/lib/promptTemplates';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface TemplateFieldsDialogProps {
+  /** القالب المختار (null = النافذة مغلقة) */
+  template: PromptTemplate | null;
+  onOpenChange: (open: boolean) => void;
+  /** النص بعد ملء الحقول */
+  onSubmit: (text: string) => void;
+}
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * @example
+ * ```tsx
+ * <TemplateFieldsDialog template={selected} onOpenChange={close} onSubmit={insertText} />
+ * ```
+ */
+export const TemplateFieldsDialog = ({ template, onOpenChange, onSubmit }: TemplateFieldsDialogProps) => {
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const fields = useMemo(() => (template ? parseTemplateFields(template.body) : []), [template]);
+
+  useEffect(() => {
+    if (template) setValues({});
+  }, [template]);
+
+  const isComplete = fields.every((field) => values[field.name]?.trim());
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!template || !isComplete) return;
+    onSubmit(fillTemplate(template.body, values));
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={!!template} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg" dir="rtl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader className="text-right sm:text-right">
+            <DialogTitle>
+              <span dir="ltr">/{template?.command}</span>
+            </DialogTitle>
+            <DialogDescription>{template?.title}</DialogDescription>
+          </DialogHeader>
+
+          {fields.map((field, index) => {
+            const id = `template-field-${index}`;
+            const props = {
+              id,
+              dir: 'auto',
+              value: values[field.name] ?? '',
+              autoFocus: index === 0,
+            };
+            const update = (value: string) => setValues((prev) => ({ ...prev, [field.name]: value }));
+
+            return (
+              <div key={field.name} className="space-y-1.5">
+                <Label htmlFor={id}>{field.name}</Label>
+                {field.multiline ? (
+                  <Textarea
+                    {...props}
+                    rows={5}
+                    className="font-mono text-xs"
+                    onChange={(e) => update(e.target.value)}
+                  />
+                ) : (
+                  <Input {...props} onChange={(e) => update(e.target.value)} />
+                )}
+              </div>
+            );
+          })}
+
+          <DialogFooter className="gap-2 sm:justify-start">
+            <Button type="submit" disabled={!isComplete}>
+              إدراج في الرسالة
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              إلغاء
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
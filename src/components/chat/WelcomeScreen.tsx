@@ -1,3 +1,256 @@
-export const WelcomeScreen = () => {
-  return <div className="h-full" />;
+/**
+ * @fileoverview شاشة الترحيب - Welcome Screen
+ *
+ * @description
+ * تظهر في المحادثة الفارغة بدل المساحة الخالية:
+ * - أسئلة بداية مصنفة (حفظ البيانات، القتال، حركة الواجهات، مكافحة الغش)
+ *   تُرسل مباشرة عند النقر
+ * - آخر ثلاث محادثات للعودة إليها
+ * - بطاقات مختصرة بما يستطيعه المساعد
+ *
+ * النصوص بلغة ملف المشروع أو لغة المتصفح (welcomeContent).
+ *
+ * @usedBy
+ * - ChatContainer (عندما لا توجد رسائل)
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  Code2,
+  Database,
+  FileDown,
+  LibraryBig,
+  MessageSquare,
+  PanelsTopLeft,
+  ShieldCheck,
+  Slash,
+  Swords,
+  type LucideIcon,
+} from 'lucide-react';
+import { useChatStore } from '@/stores/chatStore';
+import { useProfileStore } from '@/stores/profileStore';
+import { getActivePath } from '@/lib/messageTree';
+import {
+  WELCOME_CONTENT,
+  detectWelcomeLanguage,
+  formatRecentDate,
+  getRecentConversations,
+  type CapabilityId,
+  type StarterCategoryId,
+} from '@/lib/welcomeContent';
+import { cn } from '@/lib/utils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface WelcomeScreenProps {
+  /** إرسال سؤال البداية (عبر useChat.sendMessage) */
+  onSendPrompt: (prompt: string) => void;
+  /** أثناء توليد رد: الأسئلة معطلة */
+  disabled?: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CATEGORY_ICONS: Record<StarterCategoryId, LucideIcon> = {
+  data: Database,
+  combat: Swords,
+  ui: PanelsTopLeft,
+  security: ShieldCheck,
+};
+
+const CAPABILITY_ICONS: Record<CapabilityId, LucideIcon> = {
+  analysis: Code2,
+  api: LibraryBig,
+  export: FileDown,
+  templates: Slash,
+};
+
+/**
+ * طول معاينة آخر رسالة في بطاقة المحادثة
+ * @value 90 حرف
+ */
+const PREVIEW_LENGTH = 90;
+
+const tileClassName = cn(
+  'rounded-xl border border-border bg-card/50 transition-colors duration-200',
+  'hover:bg-muted/60',
+  'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+  'disabled:opacity-50 disabled:cursor-not-allowed'
+);
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+/**
+ * @example
+ * ```tsx
+ * <WelcomeScreen onSendPrompt={(prompt) => sendMessage(prompt)} disabled={isLoading} />
+ * ```
+ */
+export const WelcomeScreen = ({ onSendPrompt, disabled }: WelcomeScreenProps) => {
+  // ─────────────────────────────────────────────────────────────────────────
+  // STATE
+  // ─────────────────────────────────────────────────────────────────────────
+
+  const conversations = useChatStore((state) => state.conversations);
+  const currentConversationId = useChatStore((state) => state.currentConversationId);
+  const preferredLanguage = useProfileStore((state) => state.projectProfile.responseLanguage);
+
+  const [categoryId, setCategoryId] = useState<StarterCategoryId>('data');
+
+  const language = detectWelcomeLanguage(preferredLanguage, navigator.languages ?? [navigator.language]);
+  const content = WELCOME_CONTENT[language];
+  const category = content.categories.find((item) => item.id === categoryId) ?? content.categories[0];
+
+  const recent = useMemo(
+    () =>
+      getRecentConversations(conversations, currentConversationId).map((conversation) => {
+        const path = getActivePath(conversation);
+        const lastMessage = path[path.length - 1];
+        const preview = lastMessage?.content.replace(/\s+/g, ' ').trim() ?? '';
+        return {
+          conversation,
+          preview: preview.length > PREVIEW_LENGTH ? `${preview.slice(0, PREVIEW_LENGTH)}…` : preview,
+        };
+      }),
+    [conversations, currentConversationId]
+  );
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // RENDER
+  // ─────────────────────────────────────────────────────────────────────────
+
+  return (
+    <div
+      className="mx-auto flex w-full max-w-2xl flex-col gap-8 px-4 py-10"
+      dir={language === 'ar' ? 'rtl' : 'ltr'}
+      lang={language}
+    >
+      {/* ═══════════════════════════════════════════════════════════════════
+          HEADER
+          ═══════════════════════════════════════════════════════════════════ */}
+      <header className="space-y-2 text-center">
+        <h1 className="text-2xl font-semibold text-foreground">{content.title}</h1>
+        <p className="text-sm text-muted-foreground">{content.subtitle}</p>
+      </header>
+
+      {/* ═══════════════════════════════════════════════════════════════════
+          STARTER PROMPTS
+          ═══════════════════════════════════════════════════════════════════ */}
+      <section aria-labelledby="welcome-starters" className="space-y-3">
+        <h2 id="welcome-starters" className="text-xs font-medium text-muted-foreground">
+          {content.startersHeading}
+        </h2>
+
+        <div className="flex flex-wrap gap-1.5" role="group" aria-label={content.startersHeading}>
+          {content.categories.map((item) => {
+            const Icon = CATEGORY_ICONS[item.id];
+            const selected = item.id === category.id;
+            return (
+              <button
+                key={item.id}
+                type="button"
+                onClick={() => setCategoryId(item.id)}
+                aria-pressed={selected}
+                className={cn(
+                  'flex items-center gap-1.5 rounded-full border px-3 py-1 text-xs transition-colors duration-200',
+                  'focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                  selected
+                    ? 'border-primary bg-primary text-primary-foreground'
+                    : 'border-border text-muted-foreground hover:bg-muted/50'
+                )}
+              >
+                <Icon className="h-3.5 w-3.5" strokeWidth={2} />
+                {item.label}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="grid gap-2">
+          {category.prompts.map((prompt) => (
+            <button
+              key={prompt}
+              type="button"
+              onClick={() => onSendPrompt(prompt)}
+              disabled={disabled}
+              dir="auto"
+              className={cn(tileClassName, 'px-4 py-3 text-start text-sm text-foreground')}
+            >
+              {prompt}
+            </button>
+          ))}
+        </div>
+      </section>
+
+      {/* ═══════════════════════════════════════════════════════════════════
+          RECENT CONVERSATIONS
+          ═══════════════════════════════════════════════════════════════════ */}
+      {recent.length > 0 && (
+        <section aria-labelledby="welcome-recent" className="space-y-3">
+          <h2 id="welcome-recent" className="text-xs font-medium text-muted-foreground">
+            {content.recentHeading}
+          </h2>
+
+          <div className="grid gap-2 sm:grid-cols-3">
+            {recent.map(({ conversation, preview }) => (
+              <button
+                key={conversation.id}
+                type="button"
+                onClick={() => useChatStore.getState().setCurrentConversation(conversation.id)}
+                className={cn(tileClassName, 'flex flex-col gap-1 p-3 text-start')}
+              >
+                <span className="flex w-full items-center gap-2">
+                  <MessageSquare className="h-3.5 w-3.5 flex-shrink-0 text-muted-foreground" strokeWidth={2} />
+                  <span dir="auto" className="min-w-0 flex-1 truncate text-sm font-medium">
+                    {conversation.title}
+                  </span>
+                </span>
+                {preview && (
+                  <span dir="auto" className="line-clamp-2 text-xs text-muted-foreground">
+                    {preview}
+                  </span>
+                )}
+                <span className="text-[10px] text-muted-foreground">
+                  {formatRecentDate(conversation.updatedAt, language)}
+                </span>
+              </button>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* ═══════════════════════════════════════════════════════════════════
+          CAPABILITIES
+          ═══════════════════════════════════════════════════════════════════ */}
+      <section aria-labelledby="welcome-capabilities" className="space-y-3">
+        <h2 id="welcome-capabilities" className="text-xs font-medium text-muted-foreground">
+          {content.capabilitiesHeading}
+        </h2>
+
+        <ul className="grid gap-2 sm:grid-cols-2">
+          {content.capabilities.map((capability) => {
+            const Icon = CAPABILITY_ICONS[capability.id];
+            return (
+              <li
+                key={capability.id}
+                className="flex items-start gap-3 rounded-xl border border-dashed border-border p-3"
+              >
+                <Icon className="mt-0.5 h-4 w-4 flex-shrink-0 text-muted-foreground" strokeWidth={2} />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-foreground">{capability.title}</p>
+                  <p className="text-xs text-muted-foreground">{capability.description}</p>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+    </div>
+  );
 };
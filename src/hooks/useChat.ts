@@ -3,18 +3,60 @@
  * 
  * @description
  * يدير إرسال الرسائل مع المرفقات واستقبال الردود بتقنية Streaming (SSE)
- * مع دعم إعادة التوليد
+ * مع دعم إعادة التوليد والإيقاف والاستكمال وطابور الإرسال عند انقطاع الاتصال (Outbox)
+ * وتعديل الرسائل السابقة كفروع جديدة
+ * 
+ * @dependencies
+ * - @/lib/chatStream: الطلب وقراءة SSE
+ * - @/lib/continuation: دمج استكمال الردود المقطوعة
+ * - @/lib/messageTree: مسار الفرع حتى رسالة معينة
+ * - @/lib/contextBuilder: نافذة السياق وتلخيص الرسائل القديمة
+ * - @/lib/conversationTitle: عنوان المحادثة بعد أول رد
+ * - @/lib/codeFix: رسالة "إصلاح" كتلة كود
+ * - @/lib/studioOutput: سجل Output الملصق في المحتوى والطلب
+ * - useChatStore: الرسائل والطابور
+ * - useProfileStore: ملف المشروع المرفق بكل طلب
  */
 
 import { useCallback } from 'react';
-import { useChatStore, Attachment } from '@/stores/chatStore';
+import {
+  useChatStore,
+  Attachment,
+  Conversation,
+  Message,
+  MessageUsage,
+} from '@/stores/chatStore';
+import { useProfileStore } from '@/stores/profileStore';
+import {
+  ChatApiMessage,
+  ChatProfilePayload,
+  ChatContentPart,
+  ChatStreamUsage,
+  RateLimitError,
+  isAbortError,
+  isNetworkError,
+  readChatStream,
+  requestChatCompletion,
+} from '@/lib/chatStream';
+import { buildContinuationPrompt, mergeContinuation } from '@/lib/continuation';
+import { getPathTo } from '@/lib/messageTree';
+import {
+  SUMMARY_BATCH_SIZE,
+  buildSummaryMessage,
+  buildSummarizeRequest,
+  planContext,
+  toHistoryMessages,
+} from '@/lib/contextBuilder';
+import { buildTitleRequest, cleanGeneratedTitle } from '@/lib/conversationTitle';
+import { buildCodeFixPrompt, type CodeFixInput } from '@/lib/codeFix';
+import { toStudioOutputPayload, withStudioOutput } from '@/lib/studioOutput';
+import { resolveGenerationSettings } from '@shared/models';
 import { toast } from 'sonner';
 
 // ============================================================================
 // CONSTANTS
 // ============================================================================
 
-const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`;
 const MAX_FILE_CONTENT_CHARS = 4000;
 const MAX_FILE_DECODE_BYTES = 200 * 1024;
 
@@ -67,18 +109,615 @@ const formatBytes = (bytes?: number) => {
 };
 
 // ============================================================================
-// TYPES
+// PAYLOAD BUILDERS
 // ============================================================================
 
-interface ChatMessage {
-  role: 'user' | 'assistant' | 'system';
-  content: string | Array<{ 
-    type: string; 
-    text?: string; 
-    image_url?: { url: string } 
-  }>;
+/**
+ * بناء محتوى رسالة المستخدم مع المرفقات
+ * 
+ * @description
+ * - الصور: تُرسل كـ image_url بتنسيق data URL
+ * - الملفات النصية: يُضمّن محتواها (مع حد أقصى للحجم)
+ * - الملفات الثنائية: تُرسل البيانات الوصفية فقط
+ */
+const buildUserContent = (content: string, attachments: Attachment[]): ChatApiMessage['content'] => {
+  if (attachments.length === 0) {
+    return content;
+  }
+
+  const contentParts: ChatContentPart[] = [];
+  
+  if (content.trim()) {
+    contentParts.push({ type: 'text', text: content });
+  }
+  
+  attachments.forEach((attachment) => {
+    if (attachment.type === 'image' && attachment.base64 && attachment.mimeType) {
+      contentParts.push({
+        type: 'image_url',
+        image_url: {
+          url: `data:${attachment.mimeType};base64,${attachment.base64}`,
+        },
+      });
+      return;
+    }
+
+    if (attachment.type !== 'file') {
+      return;
+    }
+
+    const sizeLabel = formatBytes(attachment.size);
+    const metadata = [
+      `Attached file: ${attachment.name}`,
+      attachment.mimeType ? `type: ${attachment.mimeType}` : null,
+      sizeLabel ? `size: ${sizeLabel}` : null,
+    ]
+      .filter(Boolean)
+      .join(' | ');
+
+    if (attachment.base64 && isTextFile(attachment)) {
+      const attachmentSize = attachment.size ?? estimateBase64Bytes(attachment.base64);
+      if (attachmentSize > MAX_FILE_DECODE_BYTES) {
+        contentParts.push({
+          type: 'text',
+          text: `${metadata}\n\n[Text file too large to include. Size limit: ${formatBytes(MAX_FILE_DECODE_BYTES)}]`,
+        });
+        return;
+      }
+      const decodedText = decodeBase64ToText(attachment.base64);
+      if (decodedText) {
+        const trimmed = decodedText.trim();
+        const contentSlice = trimmed.slice(0, MAX_FILE_CONTENT_CHARS);
+        const truncated = trimmed.length > MAX_FILE_CONTENT_CHARS;
+        contentParts.push({
+          type: 'text',
+          text: `${metadata}\n\n${contentSlice}${truncated ? '\n\n[Content truncated]' : ''}`,
+        });
+        return;
+      }
+    }
+
+    contentParts.push({
+      type: 'text',
+      text: `${metadata}\n\n[Binary file attached. Content not included.]`,
+    });
+  });
+  
+  return contentParts;
+};
+
+/**
+ * إلحاق رسالة المستخدم (مع مرفقاتها وسجل Output الملصق) بالسياق
+ * 
+ * @note
+ * الرسائل السابقة تُرسل كنص فقط، والمرفقات تُضمّن لرسالة المستخدم الأخيرة
+ */
+const buildApiMessages = (context: ChatApiMessage[], userMessage: Message): ChatApiMessage[] => [
+  ...context,
+  {
+    role: 'user',
+    content: buildUserContent(withStudioOutput(userMessage, { clip: true }), userMessage.attachments ?? []),
+  },
+];
+
+/**
+ * تجهيز السجل ضمن نافذة السياق
+ * 
+ * @description
+ * إذا تجاوز السجل الميزانية تُلخص الرسائل القديمة على دفعات ويُحفظ
+ * الملخص في المحادثة، ثم يُرسل الملخص + آخر الرسائل كما هي.
+ * 
+ * @param history - مسار الفرع قبل رسالة المستخدم الحالية
+ * @returns رسائل السياق (بدون رسالة المستخدم الحالية)
+ * 
+ * @throws الإلغاء وانقطاع الشبكة وتجاوز الحدود تُمرر كما هي؛
+ *   باقي أخطاء التلخيص لا توقف الرد (يُرسل آخر جزء من المحادثة فقط)
+ */
+const prepareContext = async (
+  conversation: Conversation | undefined,
+  history: Message[],
+  signal: AbortSignal
+): Promise<ChatApiMessage[]> => {
+  const plan = planContext(history, conversation?.summary);
+  let summary = plan.summary;
+  let pending = plan.toSummarize;
+
+  try {
+    while (pending.length > 0) {
+      const batch = pending.slice(0, SUMMARY_BATCH_SIZE);
+      const response = await requestChatCompletion(buildSummarizeRequest(summary, batch), {
+        signal,
+        mode: 'summarize',
+      });
+      const { content } = await readChatStream(response, () => {});
+      if (!content.trim()) {
+        throw new Error('Empty summary');
+      }
+
+      summary = {
+        content: content.trim(),
+        upToMessageId: batch[batch.length - 1].id,
+        messageCount: (summary?.messageCount ?? 0) + batch.length,
+      };
+      if (conversation) {
+        useChatStore.getState().updateConversationSummary(conversation.id, summary);
+      }
+      pending = pending.slice(batch.length);
+    }
+  } catch (error) {
+    if (isAbortError(error) || isNetworkError(error) || error instanceof RateLimitError) {
+      throw error;
+    }
+    console.error('Summarization error:', error);
+    toast.warning('تعذر تلخيص الرسائل القديمة، سيُرسل آخر جزء من المحادثة فقط');
+  }
+
+  return [
+    ...(summary ? [buildSummaryMessage(summary)] : []),
+    ...toHistoryMessages(plan.recent),
+  ];
+};
+
+/**
+ * ملف المشروع للطلب: الملف العام + تخصيص المحادثة
+ * 
+ * @returns undefined إذا لم يحدد المستخدم أي شيء (لا يُرسل الحقل)
+ */
+const buildProfilePayload = (conversation?: Conversation): ChatProfilePayload | undefined => {
+  const user = useProfileStore.getState().projectProfile;
+  const hasUserProfile = Object.keys(user).length > 0;
+  if (!hasUserProfile && !conversation?.projectProfile) return undefined;
+
+  return {
+    user: hasUserProfile ? user : undefined,
+    conversation: conversation?.projectProfile,
+  };
+};
+
+/**
+ * تحويل استهلاك الطلب إلى استهلاك الرسالة
+ * 
+ * @param previous - استهلاك سابق للرسالة نفسها (الاستكمال يُضاف إليه)
+ */
+const toMessageUsage = (
+  usage: ChatStreamUsage,
+  conversation?: Conversation,
+  previous?: MessageUsage
+): MessageUsage => ({
+  promptTokens: (previous?.promptTokens ?? 0) + usage.promptTokens,
+  completionTokens: (previous?.completionTokens ?? 0) + usage.completionTokens,
+  model: resolveGenerationSettings(conversation?.settings).model,
+});
+
+/**
+ * توليد عنوان المحادثة في الخلفية بعد أول تبادل
+ * 
+ * @behavior
+ * - لا يُنتظر ولا يظهر أي خطأ للمستخدم (يبقى العنوان المبدئي)
+ * - يُعاد فحص مصدر العنوان قبل التطبيق: إعادة التسمية أثناء الطلب تفوز
+ */
+const generateConversationTitle = async (
+  conversationId: string,
+  userContent: string,
+  assistantContent: string
+) => {
+  try {
+    const response = await requestChatCompletion(buildTitleRequest(userContent, assistantContent), {
+      mode: 'title',
+    });
+    const { content } = await readChatStream(response, () => {});
+    const title = cleanGeneratedTitle(content);
+    if (!title) return;
+
+    const current = useChatStore.getState().conversations.find((c) => c.id === conversationId);
+    if (!current || current.titleSource) return;
+    useChatStore.getState().updateConversationTitle(conversationId, title, 'generated');
+  } catch (error) {
+    console.warn('Title generation failed:', error);
+  }
+};
+
+// ============================================================================
+// RATE LIMIT NOTICE
+// ============================================================================
+
+/** مؤقت العد التنازلي لتنبيه الحدود الحالي */
+let rateLimitTimer: ReturnType<typeof setInterval> | null = null;
+
+const RATE_LIMIT_TOAST_ID = 'rate-limit';
+
+/**
+ * تنسيق مدة الانتظار (ث، د:ث، أو س:د:ث)
+ */
+const formatCountdown = (totalSeconds: number) => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  if (hours > 0) return `${hours}:${pad(minutes)}:${pad(seconds)}`;
+  if (minutes > 0) return `${minutes}:${pad(seconds)}`;
+  return `${seconds} ث`;
+};
+
+const stopRateLimitTimer = () => {
+  if (rateLimitTimer) clearInterval(rateLimitTimer);
+  rateLimitTimer = null;
+};
+
+/**
+ * تنبيه الحدود مع عد تنازلي والرصيد المتبقي
+ * 
+ * @behavior
+ * - يُحدَّث التنبيه نفسه كل ثانية حتى انتهاء المهلة ثم يُبلغ بإمكانية الإرسال
+ * - إغلاق التنبيه يوقف العد
+ */
+const notifyRateLimited = (error: RateLimitError) => {
+  stopRateLimitTimer();
+
+  const quota = error.quota;
+  const description = quota
+    ? `المتبقي اليوم: ${quota.remainingTokens.toLocaleString('ar')} من ${quota.limitTokens.toLocaleString('ar')} token`
+    : undefined;
+
+  if (error.retryAfterSeconds === null) {
+    toast.error(error.message, { id: RATE_LIMIT_TOAST_ID, description });
+    return;
+  }
+
+  let remaining = error.retryAfterSeconds;
+  const render = () =>
+    toast.error(`${error.message} يمكنك الإرسال بعد ${formatCountdown(remaining)}`, {
+      id: RATE_LIMIT_TOAST_ID,
+      description,
+      duration: Infinity,
+      onDismiss: stopRateLimitTimer,
+    });
+
+  render();
+  rateLimitTimer = setInterval(() => {
+    remaining -= 1;
+    if (remaining > 0) {
+      render();
+      return;
+    }
+    stopRateLimitTimer();
+    toast.success('يمكنك الإرسال الآن', { id: RATE_LIMIT_TOAST_ID, duration: 4000 });
+  }, 1000);
+};
+
+// ============================================================================
+// ASSISTANT TURN
+// ============================================================================
+
+/**
+ * نتيجة تنفيذ دورة رد المساعد
+ * 
+ * @value 'completed' - اكتمل الرد
+ * @value 'stopped' - أوقف المستخدم التوليد (المحتوى الجزئي محفوظ)
+ * @value 'queued' - انقطعت الشبكة، أُعيدت رسالة المستخدم للطابور
+ * @value 'failed' - خطأ من الخادم أو الرسالة لم تعد موجودة
+ */
+export type AssistantTurnResult = 'completed' | 'stopped' | 'queued' | 'failed';
+
+interface AssistantTurnOptions {
+  /** هل الدورة إعادة إرسال من الطابور؟ */
+  fromOutbox?: boolean;
+  /** رسالة نجاح تظهر عند الاكتمال */
+  successMessage?: string;
+  /** إنشاء الرد كفرع أخ للردود الموجودة (إعادة التوليد) بدلاً من إدراجه */
+  branch?: boolean;
 }
 
+/**
+ * متحكم الإلغاء للرد الجاري حالياً
+ * 
+ * @note
+ * على مستوى الوحدة لأن الرد قد يبدأ من الطابور خارج أي مكون
+ */
+let activeController: AbortController | null = null;
+
+/**
+ * إيقاف الرد الجاري (إن وُجد)
+ * 
+ * @description
+ * يلغي الطلب وقراءة البث؛ runAssistantTurn يحفظ المحتوى الجزئي
+ * ويعلّم الرسالة بـ stopReason: 'stopped'
+ */
+export const stopGeneration = () => {
+  activeController?.abort();
+};
+
+/**
+ * توليد رد المساعد على رسالة مستخدم موجودة
+ * 
+ * @description
+ * المسار الموحد للإرسال وإعادة التوليد وإعادة الإرسال من الطابور.
+ * يُدرج الرد مباشرة بعد رسالة المستخدم (أو كفرع جديد) ويبثه تدريجياً.
+ * السياق المرسل هو فرع رسالة المستخدم فقط، لا الفروع الأخرى،
+ * والرسائل القديمة فيه تُستبدل بملخص عند تجاوز نافذة السياق.
+ * 
+ * @param conversationId - المحادثة المالكة
+ * @param userMessageId - رسالة المستخدم المراد الرد عليها
+ * @param options - خيارات إضافية
+ * @returns نتيجة الدورة
+ * 
+ * @sideEffects
+ * - انقطاع الشبكة قبل وصول أي محتوى: يُحذف رد المساعد وتُعاد الرسالة للطابور
+ * - فشل إعادة الإرسال من الطابور لسبب آخر: تُعلَّم الرسالة 'failed'
+ * - الإيقاف اليدوي: يبقى المحتوى الجزئي، أو يُحذف الرد إن كان فارغاً
+ * 
+ * ⚠️ WARNING: هذا الكود يتحكم في الاتصال بالخادم - أي تعديل قد يكسر الـ streaming
+ */
+export const runAssistantTurn = async (
+  conversationId: string,
+  userMessageId: string,
+  options: AssistantTurnOptions = {}
+): Promise<AssistantTurnResult> => {
+  const store = useChatStore.getState();
+  const conversation = store.conversations.find((c) => c.id === conversationId);
+  const path = conversation ? getPathTo(conversation.messages, userMessageId) : [];
+
+  if (path.length === 0) {
+    return 'failed';
+  }
+
+  const userMessage = path[path.length - 1];
+
+  store.setLoading(true);
+  store.setAssistantTyping(true);
+
+  const placeholder: Omit<Message, 'id' | 'timestamp'> = {
+    role: 'assistant',
+    content: '',
+    isStreaming: true,
+    status: 'sending',
+  };
+  const assistantId = options.branch
+    ? store.addBranch(placeholder, conversationId, userMessageId)
+    : store.addMessage(placeholder, conversationId, userMessageId);
+
+  let receivedContent = false;
+  let partialContent = '';
+
+  const controller = new AbortController();
+  activeController = controller;
+
+  try {
+    const context = await prepareContext(conversation, path.slice(0, -1), controller.signal);
+    const apiMessages = buildApiMessages(context, userMessage);
+
+    const response = await requestChatCompletion(apiMessages, {
+      signal: controller.signal,
+      settings: conversation?.settings,
+      profile: buildProfilePayload(conversation),
+      studioOutput: toStudioOutputPayload(userMessage.studioOutput),
+    });
+
+    const { content: fullContent, finishReason, usage } = await readChatStream(response, (content) => {
+      if (!receivedContent) {
+        receivedContent = true;
+        store.setAssistantTyping(false);
+      }
+      partialContent = content;
+      store.updateMessage(assistantId, content, 'delivered');
+    });
+
+    store.setMessageStreaming(assistantId, false);
+    store.updateMessage(assistantId, fullContent, 'read');
+
+    // قطع عند حد الـ tokens (يُعرض زر المتابعة) واستهلاك الرد
+    if (finishReason === 'length' || usage) {
+      store.patchMessage(assistantId, {
+        ...(finishReason === 'length' ? { stopReason: 'length' as const } : {}),
+        ...(usage ? { usage: toMessageUsage(usage, conversation) } : {}),
+      });
+    }
+
+    // الرسالة وصلت: إزالتها من الطابور وتحديث حالتها
+    store.dequeueMessage(userMessageId);
+    if (userMessage.status !== 'sent') {
+      store.updateMessage(userMessageId, userMessage.content, 'sent');
+    }
+
+    // أول تبادل في محادثة بعنوانها المبدئي: عنوان وصفي في الخلفية
+    if (path.length === 1 && !conversation?.titleSource && fullContent.trim()) {
+      generateConversationTitle(conversationId, withStudioOutput(userMessage, { clip: true }), fullContent);
+    }
+
+    if (options.successMessage) {
+      toast.success(options.successMessage);
+    }
+    return 'completed';
+    
+  } catch (error) {
+    // إيقاف يدوي: ليس خطأ، نحتفظ بما وصل
+    if (isAbortError(error) && controller.signal.aborted) {
+      if (receivedContent) {
+        store.setMessageStreaming(assistantId, false);
+        store.updateMessage(assistantId, partialContent, 'read');
+        store.patchMessage(assistantId, { stopReason: 'stopped' });
+      } else {
+        store.deleteMessage(assistantId);
+      }
+
+      store.dequeueMessage(userMessageId);
+      if (userMessage.status !== 'sent') {
+        store.updateMessage(userMessageId, userMessage.content, 'sent');
+      }
+      return 'stopped';
+    }
+
+    console.error('Chat error:', error);
+
+    // انقطاع الشبكة قبل وصول أي محتوى: الرسالة تنتظر عودة الاتصال
+    if (isNetworkError(error) && !receivedContent) {
+      store.deleteMessage(assistantId);
+      store.enqueueMessage(conversationId, userMessageId);
+      return 'queued';
+    }
+
+    // تجاوز الحدود: الرسالة تُعلَّم كفاشلة لتُعاد بزر المحاولة بعد انتهاء العد
+    if (error instanceof RateLimitError) {
+      store.deleteMessage(assistantId);
+      store.dequeueMessage(userMessageId);
+      store.updateMessage(userMessageId, userMessage.content, 'failed');
+      notifyRateLimited(error);
+      return 'failed';
+    }
+
+    const errorMessage = error instanceof Error 
+      ? error.message 
+      : 'حدث خطأ غير معروف';
+
+    // فشل إعادة الإرسال من الطابور: لا فائدة من إعادة المحاولة تلقائياً
+    if (options.fromOutbox) {
+      store.deleteMessage(assistantId);
+      store.dequeueMessage(userMessageId);
+      store.updateMessage(userMessageId, userMessage.content, 'failed');
+      toast.error(errorMessage);
+      return 'failed';
+    }
+    
+    store.updateMessage(assistantId, `عذراً، حدث خطأ: ${errorMessage}`);
+    store.setMessageStreaming(assistantId, false);
+    
+    toast.error(errorMessage);
+    return 'failed';
+    
+  } finally {
+    if (activeController === controller) {
+      activeController = null;
+    }
+    store.setLoading(false);
+    store.setAssistantTyping(false);
+  }
+};
+
+/**
+ * استكمال رد مساعد مقطوع داخل نفس الرسالة
+ * 
+ * @description
+ * يرسل السجل حتى الرد المقطوع ثم تعليمة استكمال، ويدمج الناتج
+ * مع المحتوى السابق أثناء البث (mergeContinuation يعالج كتلة الكود المفتوحة).
+ * 
+ * @param conversationId - المحادثة المالكة
+ * @param assistantMessageId - الرد المقطوع (stopReason موجود)
+ * @returns نتيجة الدورة
+ * 
+ * @sideEffects
+ * - النجاح: يُزال stopReason، أو يبقى 'length' إذا قُطع الاستكمال أيضاً
+ * - الفشل: يُعاد المحتوى الأصلي كما كان
+ */
+const runContinuation = async (
+  conversationId: string,
+  assistantMessageId: string
+): Promise<AssistantTurnResult> => {
+  const store = useChatStore.getState();
+  const conversation = store.conversations.find((c) => c.id === conversationId);
+  const messages = conversation ? getPathTo(conversation.messages, assistantMessageId) : [];
+  const assistantIndex = messages.length - 1;
+
+  let userIndex = -1;
+  for (let i = assistantIndex - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') {
+      userIndex = i;
+      break;
+    }
+  }
+
+  if (assistantIndex === -1 || userIndex === -1) {
+    return 'failed';
+  }
+
+  const previousContent = messages[assistantIndex].content;
+
+  store.setLoading(true);
+  store.patchMessage(assistantMessageId, { isStreaming: true, stopReason: undefined });
+
+  let mergedContent = previousContent;
+
+  const controller = new AbortController();
+  activeController = controller;
+
+  try {
+    const context = await prepareContext(
+      conversation,
+      messages.slice(0, userIndex),
+      controller.signal
+    );
+    const apiMessages: ChatApiMessage[] = [
+      ...buildApiMessages(context, messages[userIndex]),
+      ...toHistoryMessages(messages.slice(userIndex + 1, assistantIndex + 1)),
+      { role: 'user', content: buildContinuationPrompt(previousContent) },
+    ];
+
+    const response = await requestChatCompletion(apiMessages, {
+      signal: controller.signal,
+      settings: conversation?.settings,
+      profile: buildProfilePayload(conversation),
+    });
+
+    const { finishReason, usage } = await readChatStream(response, (content) => {
+      mergedContent = mergeContinuation(previousContent, content);
+      store.updateMessage(assistantMessageId, mergedContent, 'delivered');
+    });
+
+    store.setMessageStreaming(assistantMessageId, false);
+    store.updateMessage(assistantMessageId, mergedContent, 'read');
+    if (finishReason === 'length' || usage) {
+      store.patchMessage(assistantMessageId, {
+        ...(finishReason === 'length' ? { stopReason: 'length' as const } : {}),
+        ...(usage
+          ? { usage: toMessageUsage(usage, conversation, messages[assistantIndex].usage) }
+          : {}),
+      });
+    }
+    return 'completed';
+
+  } catch (error) {
+    store.setMessageStreaming(assistantMessageId, false);
+
+    if (isAbortError(error) && controller.signal.aborted) {
+      store.updateMessage(assistantMessageId, mergedContent, 'read');
+      store.patchMessage(assistantMessageId, { stopReason: 'stopped' });
+      return 'stopped';
+    }
+
+    console.error('Continue error:', error);
+
+    // الاحتفاظ بالرد كما كان ليمكن المحاولة مجدداً
+    const original = messages[assistantIndex];
+    store.updateMessage(assistantMessageId, previousContent, 'read');
+    store.patchMessage(assistantMessageId, { stopReason: original.stopReason });
+
+    if (error instanceof RateLimitError) {
+      notifyRateLimited(error);
+      return 'failed';
+    }
+
+    toast.error(
+      isNetworkError(error)
+        ? 'لا يوجد اتصال. حاول المتابعة عند عودة الاتصال'
+        : error instanceof Error ? error.message : 'حدث خطأ غير معروف'
+    );
+    return 'failed';
+
+  } finally {
+    if (activeController === controller) {
+      activeController = null;
+    }
+    store.setLoading(false);
+  }
+};
+
+/**
+ * رسالة إعلام المستخدم بأن رسالته في الطابور
+ */
+const notifyQueued = () => {
+  toast.info('لا يوجد اتصال. ستُرسل الرسالة تلقائياً عند عودة الاتصال');
+};
+
 // ============================================================================
 // HOOK IMPLEMENTATION
 // ============================================================================
@@ -91,384 +730,212 @@ export const useChat = () => {
   const isLoading = useChatStore((state) => state.isLoading);
   const messages = useChatStore((state) => state.getMessages());
 
-  // ─────────────────────────────────────────────────────────────────────────
-  // STORE ACTIONS (STABLE REFERENCES)
-  // ─────────────────────────────────────────────────────────────────────────
-  
-  const storeActions = useChatStore.getState();
-  const addMessage = storeActions.addMessage;
-  const updateMessage = storeActions.updateMessage;
-  const setMessageStreaming = storeActions.setMessageStreaming;
-  const setLoading = storeActions.setLoading;
-  const setAssistantTyping = storeActions.setAssistantTyping;
-  const getMessages = storeActions.getMessages;
-  const deleteMessage = storeActions.deleteMessage;
-
   // ─────────────────────────────────────────────────────────────────────────
   // SEND MESSAGE FUNCTION
   // ─────────────────────────────────────────────────────────────────────────
 
   const sendMessage = useCallback(
-    async (content: string, attachments: Attachment[] = []) => {
+    async (
+      content: string,
+      attachments: Attachment[] = [],
+      extras: Pick<Message, 'codeFix' | 'studioOutput'> = {}
+    ) => {
       if (!content.trim() && attachments.length === 0) {
         return;
       }
 
-      addMessage({
+      const { addMessage, enqueueMessage } = useChatStore.getState();
+
+      const userMessageId = addMessage({
         role: 'user',
         content,
         attachments: attachments.length > 0 ? attachments : undefined,
         status: 'sent',
+        ...extras,
       });
 
-      setLoading(true);
-      setAssistantTyping(true);
-
-      const currentMessages = getMessages();
-      
-      const apiMessages: ChatMessage[] = currentMessages.map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-      }));
+      const { currentConversationId, outbox } = useChatStore.getState();
+      if (!currentConversationId) return;
 
-      let userContent: ChatMessage['content'];
+      // الحفاظ على الترتيب: إذا كانت هناك رسائل منتظرة في المحادثة، تنضم للطابور
+      const hasQueuedMessages = outbox.some((entry) => entry.conversationId === currentConversationId);
       
-      if (attachments.length > 0) {
-        const contentParts: Array<{ 
-          type: string; 
-          text?: string; 
-          image_url?: { url: string } 
-        }> = [];
-        
-        if (content.trim()) {
-          contentParts.push({ type: 'text', text: content });
-        }
-        
-        attachments.forEach((attachment) => {
-          if (attachment.type === 'image' && attachment.base64 && attachment.mimeType) {
-            contentParts.push({
-              type: 'image_url',
-              image_url: {
-                url: `data:${attachment.mimeType};base64,${attachment.base64}`,
-              },
-            });
-            return;
-          }
-
-          if (attachment.type !== 'file') {
-            return;
-          }
-
-          const sizeLabel = formatBytes(attachment.size);
-          const metadata = [
-            `Attached file: ${attachment.name}`,
-            attachment.mimeType ? `type: ${attachment.mimeType}` : null,
-            sizeLabel ? `size: ${sizeLabel}` : null,
-          ]
-            .filter(Boolean)
-            .join(' | ');
-
-          if (attachment.base64 && isTextFile(attachment)) {
-            const attachmentSize = attachment.size ?? estimateBase64Bytes(attachment.base64);
-            if (attachmentSize > MAX_FILE_DECODE_BYTES) {
-              contentParts.push({
-                type: 'text',
-                text: `${metadata}\n\n[Text file too large to include. Size limit: ${formatBytes(MAX_FILE_DECODE_BYTES)}]`,
-              });
-              return;
-            }
-            const decodedText = decodeBase64ToText(attachment.base64);
-            if (decodedText) {
-              const trimmed = decodedText.trim();
-              const contentSlice = trimmed.slice(0, MAX_FILE_CONTENT_CHARS);
-              const truncated = trimmed.length > MAX_FILE_CONTENT_CHARS;
-              contentParts.push({
-                type: 'text',
-                text: `${metadata}\n\n${contentSlice}${truncated ? '\n\n[Content truncated]' : ''}`,
-              });
-              return;
-            }
-          }
-
-          contentParts.push({
-            type: 'text',
-            text: `${metadata}\n\n[Binary file attached. Content not included.]`,
-          });
-        });
-        
-        userContent = contentParts;
-      } else {
-        userContent = content;
+      if (!navigator.onLine || hasQueuedMessages) {
+        enqueueMessage(currentConversationId, userMessageId);
+        notifyQueued();
+        return;
       }
 
-      apiMessages.push({
-        role: 'user',
-        content: userContent,
-      });
-
-      const assistantId = addMessage({
-        role: 'assistant',
-        content: '',
-        isStreaming: true,
-        status: 'sending',
-      });
-
-      try {
-        const response = await fetch(CHAT_URL, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-          },
-          body: JSON.stringify({ messages: apiMessages }),
-        });
-
-        if (!response.ok) {
-          const error = await response.json().catch(() => ({}));
-          
-          if (response.status === 429) {
-            throw new Error('تم تجاوز الحد المسموح. يرجى الانتظار قليلاً (Rate Limit).');
-          }
-          
-          if (response.status === 402) {
-            throw new Error('نفدت الرصيد في بوابة الذكاء الاصطناعي (Payment Required).');
-          }
-          
-          throw new Error(error.error || 'فشل في الحصول على الرد من الخادم');
-        }
-
-        if (!response.body) {
-          throw new Error('لا يوجد رد');
-        }
-
-        const reader = response.body.getReader();
-        const decoder = new TextDecoder();
-        let textBuffer = '';
-        let fullContent = '';
-
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          textBuffer += decoder.decode(value, { stream: true });
-
-          let newlineIndex: number;
-          while ((newlineIndex = textBuffer.indexOf('\n')) !== -1) {
-            let line = textBuffer.slice(0, newlineIndex);
-            textBuffer = textBuffer.slice(newlineIndex + 1);
-
-            if (line.endsWith('\r')) line = line.slice(0, -1);
-            if (line.startsWith(':') || line.trim() === '') continue;
-            if (!line.startsWith('data: ')) continue;
-
-            const jsonStr = line.slice(6).trim();
-            if (jsonStr === '[DONE]') break;
-
-            try {
-              const parsed = JSON.parse(jsonStr);
-              const content = parsed.choices?.[0]?.delta?.content as string | undefined;
-              
-              if (content) {
-                if (fullContent === '') {
-                  setAssistantTyping(false);
-                }
-                
-                fullContent += content;
-                updateMessage(assistantId, fullContent, 'delivered');
-              }
-            } catch {
-              textBuffer = line + '\n' + textBuffer;
-              break;
-            }
-          }
-        }
-
-        if (textBuffer.trim()) {
-          for (let raw of textBuffer.split('\n')) {
-            if (!raw) continue;
-            if (raw.endsWith('\r')) raw = raw.slice(0, -1);
-            if (raw.startsWith(':') || raw.trim() === '') continue;
-            if (!raw.startsWith('data: ')) continue;
-            
-            const jsonStr = raw.slice(6).trim();
-            if (jsonStr === '[DONE]') continue;
-            
-            try {
-              const parsed = JSON.parse(jsonStr);
-              const content = parsed.choices?.[0]?.delta?.content as string | undefined;
-              if (content) {
-                fullContent += content;
-                updateMessage(assistantId, fullContent);
-              }
-            } catch {
-              // تجاهل الأخطاء
-            }
-          }
-        }
-
-        setMessageStreaming(assistantId, false);
-        updateMessage(assistantId, fullContent, 'read');
-        
-      } catch (error) {
-        console.error('Chat error:', error);
-        
-        const errorMessage = error instanceof Error 
-          ? error.message 
-          : 'حدث خطأ غير معروف';
-        
-        updateMessage(assistantId, `عذراً، حدث خطأ: ${errorMessage}`);
-        setMessageStreaming(assistantId, false);
-        
-        toast.error(errorMessage);
-        
-      } finally {
-        setLoading(false);
-        setAssistantTyping(false);
+      const result = await runAssistantTurn(currentConversationId, userMessageId);
+      if (result === 'queued') {
+        notifyQueued();
       }
     },
     []
   );
 
   // ─────────────────────────────────────────────────────────────────────────
-  // REGENERATE LAST MESSAGE
+  // FIX CODE BLOCK
   // ─────────────────────────────────────────────────────────────────────────
 
-  const regenerateLastMessage = useCallback(async () => {
+  /**
+   * طلب إصلاح كتلة كود كرسالة متابعة
+   * 
+   * @behavior
+   * الكود الأصلي يُحفظ في message.codeFix فيُعرض الكود في الرد كمقارنة معه
+   */
+  const fixCode = useCallback(
+    (input: CodeFixInput) => sendMessage(buildCodeFixPrompt(input), [], {
+      codeFix: { language: input.language, code: input.code },
+    }),
+    [sendMessage]
+  );
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // REGENERATE MESSAGE
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * إعادة توليد رد كفرع جديد
+   * 
+   * @param messageId - رد المساعد المراد إعادة توليده (الافتراضي: آخر رسالة معروضة)
+   * 
+   * @behavior
+   * الرد القديم يبقى كأخ ويمكن الرجوع إليه بأسهم الفروع
+   */
+  const regenerateMessage = useCallback(async (messageId?: string) => {
+    const { getMessages, currentConversationId, isLoading: busy } = useChatStore.getState();
     const currentMessages = getMessages();
-    
-    // البحث عن آخر رسالة من المستخدم
-    let lastUserMessageIndex = -1;
-    for (let i = currentMessages.length - 1; i >= 0; i--) {
-      if (currentMessages[i].role === 'user') {
-        lastUserMessageIndex = i;
-        break;
-      }
-    }
+    if (busy) return;
 
-    if (lastUserMessageIndex === -1) {
+    const target = messageId
+      ? currentMessages.find((m) => m.id === messageId)
+      : currentMessages[currentMessages.length - 1];
+
+    // الرد يُعاد توليده من رسالة المستخدم التي أجاب عليها
+    const userMessage = target?.role === 'assistant'
+      ? currentMessages.find((m) => m.id === target.parentId)
+      : target;
+
+    if (!userMessage || userMessage.role !== 'user' || !currentConversationId) {
       toast.error('لا توجد رسالة لإعادة توليدها');
       return;
     }
 
-    const lastUserMessage = currentMessages[lastUserMessageIndex];
-    
-    // حذف آخر رسالة من المساعد
-    const lastAssistantMessage = currentMessages[currentMessages.length - 1];
-    if (lastAssistantMessage?.role === 'assistant') {
-      deleteMessage(lastAssistantMessage.id);
+    const result = await runAssistantTurn(currentConversationId, userMessage.id, {
+      successMessage: 'تم إعادة التوليد بنجاح',
+      branch: target?.role === 'assistant',
+    });
+    if (result === 'queued') {
+      notifyQueued();
     }
+  }, []);
 
-    // إعادة إرسال رسالة المستخدم
-    setLoading(true);
-    setAssistantTyping(true);
-
-    // تحضير الرسائل (بدون آخر رسالة من المساعد)
-    const apiMessages: ChatMessage[] = currentMessages
-      .slice(0, lastUserMessageIndex + 1)
-      .map((msg) => ({
-        role: msg.role,
-        content: msg.content,
-      }));
-
-    const assistantId = addMessage({
-      role: 'assistant',
-      content: '',
-      isStreaming: true,
-      status: 'sending',
-    });
+  // ─────────────────────────────────────────────────────────────────────────
+  // EDIT MESSAGE
+  // ─────────────────────────────────────────────────────────────────────────
 
-    try {
-      const response = await fetch(CHAT_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY}`,
-        },
-        body: JSON.stringify({ messages: apiMessages }),
-      });
+  /**
+   * تعديل رسالة مستخدم سابقة كفرع جديد
+   * 
+   * @param messageId - رسالة المستخدم الأصلية
+   * @param content - النص الجديد
+   * 
+   * @behavior
+   * - الرسالة الأصلية وكل ما بعدها يبقى في فرعها
+   * - الرسالة المعدلة (مع نفس المرفقات وسجل Output) تصبح أخاً لها ويُولَّد رد جديد
+   */
+  const editMessage = useCallback(async (messageId: string, content: string) => {
+    const { conversations, isLoading: busy, addBranch, enqueueMessage } = useChatStore.getState();
+    if (busy || !content.trim()) return;
+
+    const conversation = conversations.find((c) => c.messages.some((m) => m.id === messageId));
+    const original = conversation?.messages.find((m) => m.id === messageId);
+    if (!conversation || !original || original.role !== 'user') return;
+
+    const editedId = addBranch(
+      {
+        role: 'user',
+        content: content.trim(),
+        attachments: original.attachments,
+        studioOutput: original.studioOutput,
+        status: 'sent',
+      },
+      conversation.id,
+      original.parentId ?? null
+    );
+
+    if (!navigator.onLine) {
+      enqueueMessage(conversation.id, editedId);
+      notifyQueued();
+      return;
+    }
 
-      if (!response.ok) {
-        const error = await response.json().catch(() => ({}));
-        
-        if (response.status === 429) {
-          throw new Error('تم تجاوز الحد المسموح. يرجى الانتظار قليلاً.');
-        }
-        
-        if (response.status === 402) {
-          throw new Error('نفدت الرصيد في بوابة الذكاء الاصطناعي.');
-        }
-        
-        throw new Error(error.error || 'فشل في إعادة التوليد');
-      }
+    const result = await runAssistantTurn(conversation.id, editedId);
+    if (result === 'queued') {
+      notifyQueued();
+    }
+  }, []);
 
-      if (!response.body) {
-        throw new Error('لا يوجد رد');
-      }
+  // ─────────────────────────────────────────────────────────────────────────
+  // SWITCH BRANCH
+  // ─────────────────────────────────────────────────────────────────────────
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let textBuffer = '';
-      let fullContent = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        textBuffer += decoder.decode(value, { stream: true });
-
-        let newlineIndex: number;
-        while ((newlineIndex = textBuffer.indexOf('\n')) !== -1) {
-          let line = textBuffer.slice(0, newlineIndex);
-          textBuffer = textBuffer.slice(newlineIndex + 1);
-
-          if (line.endsWith('\r')) line = line.slice(0, -1);
-          if (line.startsWith(':') || line.trim() === '') continue;
-          if (!line.startsWith('data: ')) continue;
-
-          const jsonStr = line.slice(6).trim();
-          if (jsonStr === '[DONE]') break;
-
-          try {
-            const parsed = JSON.parse(jsonStr);
-            const content = parsed.choices?.[0]?.delta?.content as string | undefined;
-            
-            if (content) {
-              if (fullContent === '') {
-                setAssistantTyping(false);
-              }
-              
-              fullContent += content;
-              updateMessage(assistantId, fullContent, 'delivered');
-            }
-          } catch {
-            textBuffer = line + '\n' + textBuffer;
-            break;
-          }
-        }
-      }
+  /**
+   * عرض فرع أخ لرسالة
+   * 
+   * @param messageId - الأخ المراد عرضه
+   */
+  const selectBranch = useCallback((messageId: string) => {
+    const { currentConversationId, isLoading: busy, switchBranch } = useChatStore.getState();
+    if (busy || !currentConversationId) return;
+    switchBranch(currentConversationId, messageId);
+  }, []);
 
-      setMessageStreaming(assistantId, false);
-      updateMessage(assistantId, fullContent, 'read');
-      toast.success('تم إعادة التوليد بنجاح');
-      
-    } catch (error) {
-      console.error('Regenerate error:', error);
-      
-      const errorMessage = error instanceof Error 
-        ? error.message 
-        : 'حدث خطأ غير معروف';
-      
-      updateMessage(assistantId, `عذراً، حدث خطأ: ${errorMessage}`);
-      setMessageStreaming(assistantId, false);
-      
-      toast.error(errorMessage);
-      
-    } finally {
-      setLoading(false);
-      setAssistantTyping(false);
+  // ─────────────────────────────────────────────────────────────────────────
+  // RETRY FAILED MESSAGE
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * إعادة محاولة رسالة فشل إرسالها من الطابور
+   * 
+   * @param messageId - رسالة المستخدم بحالة 'failed'
+   */
+  const retryMessage = useCallback(async (messageId: string) => {
+    const { conversations, isLoading: busy, updateMessage } = useChatStore.getState();
+    if (busy) return;
+
+    const conversation = conversations.find((c) => c.messages.some((m) => m.id === messageId));
+    const message = conversation?.messages.find((m) => m.id === messageId);
+    if (!conversation || !message) return;
+
+    updateMessage(messageId, message.content, 'sent');
+
+    const result = await runAssistantTurn(conversation.id, messageId);
+    if (result === 'queued') {
+      notifyQueued();
     }
   }, []);
 
+  // ─────────────────────────────────────────────────────────────────────────
+  // CONTINUE TRUNCATED MESSAGE
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /**
+   * متابعة رد مقطوع (حد الطول أو إيقاف يدوي)
+   * 
+   * @param messageId - رد المساعد المقطوع
+   */
+  const continueMessage = useCallback(async (messageId: string) => {
+    const { conversations, isLoading: busy } = useChatStore.getState();
+    if (busy) return;
+
+    const conversation = conversations.find((c) => c.messages.some((m) => m.id === messageId));
+    if (!conversation) return;
+
+    await runContinuation(conversation.id, messageId);
+  }, []);
+
   // ─────────────────────────────────────────────────────────────────────────
   // RETURN VALUE
   // ─────────────────────────────────────────────────────────────────────────
@@ -477,6 +944,12 @@ export const useChat = () => {
     messages,
     isLoading,
     sendMessage,
-    regenerateLastMessage,
+    fixCode,
+    regenerateMessage,
+    editMessage,
+    selectBranch,
+    retryMessage,
+    continueMessage,
+    stopGeneration,
   };
 };
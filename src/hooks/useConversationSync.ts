@@ -0,0 +1,132 @@
+/**
+ * @fileoverview Hook مزامنة المحادثات مع الخادم - Conversation Sync Hook
+ *
+ * @description
+ * يربط متجر الدردشة بـ Supabase طوال مدة الجلسة:
+ * 1. عند تسجيل الدخول: يربط البيانات المحلية بالمستخدم (بيانات حساب آخر تُمسح)
+ *    ثم يسجّل محول الكتابة (write-through)
+ * 2. يسحب سجل المستخدم ويدمجه مع المحادثات المحلية
+ * 3. يرفع المحادثات المحلية التي لم تصل للخادم بعد (synced)، ويحذف ما حُذف من جهاز آخر
+ * 4. يعيد الكتابات التي فشلت سابقاً (وعند عودة الاتصال)
+ * 5. يحمّل ملف المشروع العام وقوالب الرسائل للمستخدم
+ * 6. عند تسجيل الخروج: يعود للوضع المحلي فقط ويمسح ملف المشروع والقوالب
+ *    (المحادثات تبقى محلياً لصاحبها وتُمسح إذا سجل مستخدم آخر الدخول)
+ *
+ * @usedBy
+ * - ChatContainer (داخل AuthGuard)
+ */
+
+import { useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useChatStore } from '@/stores/chatStore';
+import { setChatSyncAdapter } from '@/stores/chatSync';
+import { useProfileStore } from '@/stores/profileStore';
+import { fetchProjectProfile, fetchPromptTemplates } from '@/lib/supabaseProfile';
+import {
+  createSupabaseChatSync,
+  fetchRemoteConversations,
+  pushConversationSnapshot,
+} from '@/lib/supabaseChatSync';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * سحب السجل ودمجه ثم رفع المحادثات المحلية فقط
+ *
+ * @param userId - معرف المستخدم المسجل
+ */
+const pullAndReconcile = async (userId: string) => {
+  const remote = await fetchRemoteConversations(userId);
+  const localOnly = useChatStore.getState().mergeRemoteConversations(remote);
+
+  await Promise.all(
+    localOnly.map((conversation) =>
+      pushConversationSnapshot(conversation, userId)
+        .then(() => useChatStore.getState().resolveSyncOperation({
+          kind: 'upsertConversation',
+          conversationId: conversation.id,
+        }))
+        .catch((error) => {
+          console.error('Failed to upload local conversation:', error);
+          useChatStore.getState().queueSyncRetry({
+            kind: 'upsertConversation',
+            conversationId: conversation.id,
+          });
+        })
+    )
+  );
+
+  // ما فشل في جلسة سابقة (ولم يُرفع مع المحادثات أعلاه)
+  useChatStore.getState().retryPendingSync();
+};
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export const useConversationSync = () => {
+  /** المستخدم الذي تمت مزامنته (لمنع السحب المكرر عند TOKEN_REFRESHED) */
+  const syncedUserIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const startSync = (userId: string) => {
+      if (syncedUserIdRef.current === userId) return;
+      syncedUserIdRef.current = userId;
+
+      useChatStore.getState().claimLocalData(userId);
+      setChatSyncAdapter(createSupabaseChatSync(userId, {
+        onWriteSucceeded: (operation) => useChatStore.getState().resolveSyncOperation(operation),
+        onWriteFailed: (operation) => useChatStore.getState().queueSyncRetry(operation),
+      }));
+      pullAndReconcile(userId).catch((error) => {
+        console.error('Failed to pull conversations:', error);
+      });
+      fetchProjectProfile(userId)
+        .then((profile) => useProfileStore.getState().setProjectProfile(profile))
+        .catch((error) => {
+          console.error('Failed to load project profile:', error);
+        });
+      fetchPromptTemplates(userId)
+        .then((templates) => useProfileStore.getState().setPromptTemplates(templates))
+        .catch((error) => {
+          console.error('Failed to load prompt templates:', error);
+        });
+    };
+
+    const stopSync = () => {
+      syncedUserIdRef.current = null;
+      setChatSyncAdapter(null);
+    };
+
+    /** إعادة الكتابات الفاشلة عند عودة الاتصال */
+    const handleOnline = () => {
+      if (syncedUserIdRef.current) useChatStore.getState().retryPendingSync();
+    };
+    window.addEventListener('online', handleOnline);
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (session?.user) startSync(session.user.id);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_OUT' || !session?.user) {
+        stopSync();
+        // الملف والقوالب قد تخص مستخدماً آخر يسجل الدخول لاحقاً من نفس المتصفح
+        if (event === 'SIGNED_OUT') {
+          useProfileStore.getState().setProjectProfile(null);
+          useProfileStore.getState().setPromptTemplates(null);
+        }
+        return;
+      }
+      startSync(session.user.id);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+      window.removeEventListener('online', handleOnline);
+      stopSync();
+    };
+  }, []);
+};
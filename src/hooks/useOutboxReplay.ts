@@ -0,0 +1,93 @@
+/**
+ * @fileoverview Hook إعادة إرسال الطابور - Outbox Replay Hook
+ *
+ * @description
+ * يعيد إرسال الرسائل المنتظرة في chatStore.outbox بالترتيب عند:
+ * - عودة الاتصال (حدث online)
+ * - فتح التطبيق وهو متصل
+ * - كل فترة زمنية ما دام الطابور غير فارغ (الخادم قد يكون غير متاح رغم الاتصال)
+ *
+ * @behavior
+ * - رسالة واحدة في كل مرة، بترتيب الإضافة للطابور
+ * - يتوقف عند أول انقطاع جديد ويكمل في المحاولة التالية
+ *
+ * @usedBy
+ * - ChatContainer
+ */
+
+import { useEffect } from 'react';
+import { useChatStore } from '@/stores/chatStore';
+import { runAssistantTurn } from './useChat';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * الفاصل بين محاولات الإعادة الدورية
+ * @value 30 ثانية
+ */
+const REPLAY_INTERVAL_MS = 30_000;
+
+// ============================================================================
+// REPLAY
+// ============================================================================
+
+/** منع تشغيل أكثر من عملية إعادة في نفس الوقت */
+let isReplaying = false;
+
+/**
+ * إعادة إرسال جميع رسائل الطابور بالترتيب
+ */
+export const replayOutbox = async () => {
+  if (isReplaying || !navigator.onLine) return;
+  isReplaying = true;
+
+  try {
+    while (true) {
+      const { outbox, isLoading, dequeueMessage } = useChatStore.getState();
+      const entry = outbox[0];
+
+      // الطابور فارغ أو يوجد رد قيد البث
+      if (!entry || isLoading) break;
+
+      const result = await runAssistantTurn(entry.conversationId, entry.messageId, {
+        fromOutbox: true,
+      });
+
+      // ما زال الاتصال منقطعاً: المحاولة لاحقاً
+      if (result === 'queued') break;
+
+      // ضمان التقدم حتى لو اختفت الرسالة
+      dequeueMessage(entry.messageId);
+    }
+  } finally {
+    isReplaying = false;
+  }
+};
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+export const useOutboxReplay = () => {
+  const queuedCount = useChatStore((state) => state.outbox.length);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      replayOutbox();
+    };
+
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  // كل رسالة جديدة في الطابور تعني محاولة فورية (إن كان الاتصال متاحاً)
+  useEffect(() => {
+    if (queuedCount === 0) return;
+
+    replayOutbox();
+    const interval = setInterval(replayOutbox, REPLAY_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [queuedCount]);
+};
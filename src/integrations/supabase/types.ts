@@ -14,13 +14,214 @@ export type Database = {
   }
   public: {
     Tables: {
-      [_ in never]: never
+      chat_usage: {
+        Row: {
+          completion_tokens: number
+          created_at: string
+          id: string
+          mode: string
+          model: string
+          prompt_tokens: number
+          user_id: string
+        }
+        Insert: {
+          completion_tokens?: number
+          created_at?: string
+          id?: string
+          mode?: string
+          model: string
+          prompt_tokens?: number
+          user_id: string
+        }
+        Update: {
+          completion_tokens?: number
+          created_at?: string
+          id?: string
+          mode?: string
+          model?: string
+          prompt_tokens?: number
+          user_id?: string
+        }
+        Relationships: []
+      }
+      conversation_shares: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          id: string
+          revoked_at: string | null
+          slug: string
+          snapshot: Json
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          id?: string
+          revoked_at?: string | null
+          slug: string
+          snapshot: Json
+          title: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          revoked_at?: string | null
+          slug?: string
+          snapshot?: Json
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      conversations: {
+        Row: {
+          created_at: string
+          id: string
+          metadata: Json
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          metadata?: Json
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          metadata?: Json
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      messages: {
+        Row: {
+          attachments: Json
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          metadata: Json
+          parent_id: string | null
+          role: string
+          status: string | null
+          user_id: string
+        }
+        Insert: {
+          attachments?: Json
+          content?: string
+          conversation_id: string
+          created_at?: string
+          id: string
+          metadata?: Json
+          parent_id?: string | null
+          role: string
+          status?: string | null
+          user_id: string
+        }
+        Update: {
+          attachments?: Json
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          metadata?: Json
+          parent_id?: string | null
+          role?: string
+          status?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          display_name: string | null
+          id: string
+          project_profile: Json
+          prompt_templates: Json
+          updated_at: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          display_name?: string | null
+          id: string
+          project_profile?: Json
+          prompt_templates?: Json
+          updated_at?: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          display_name?: string | null
+          id?: string
+          project_profile?: Json
+          prompt_templates?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_chat_request: {
+        Args: {
+          p_mode: string
+          p_model: string
+          p_now: string
+          p_requests_per_minute: number
+          p_tokens_per_day: number
+          p_user_id: string
+        }
+        Returns: {
+          event_id: string | null
+          request_times: string[]
+          tokens_today: number
+        }[]
+      }
+      get_daily_usage: {
+        Args: { p_since: string; p_time_zone: string }
+        Returns: {
+          completion_tokens: number
+          day: string
+          mode: string
+          prompt_tokens: number
+          requests: number
+        }[]
+      }
+      get_shared_conversation: {
+        Args: { share_slug: string }
+        Returns: {
+          snapshot: Json
+          title: string
+          updated_at: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
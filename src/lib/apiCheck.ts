@@ -0,0 +1,74 @@
+/**
+ * @fileoverview فحص Roblox API في الواجهة - API Check Loader
+ *
+ * @description
+ * يحمّل API-Dump.json (المشترك مع دالة chat) عند أول كتلة Luau مكتملة،
+ * ويدمج نتائج checkLuauApi مع تشخيصات analyzeLuau تحت الكتلة.
+ *
+ * @note
+ * - التحميل ديناميكي: الملف كبير ولا تحتاجه المحادثات بدون كود
+ * - القاعدتان deprecated-api و legacy-scheduler موجودتان في المحللين:
+ *   المكرر (نفس السطر ونفس البديل) يظهر مرة واحدة
+ *
+ * @usedBy
+ * - StreamingText (CodeBlock)
+ */
+
+import { createApiIndex, type ApiDump, type ApiIndex } from '@shared/robloxApi';
+import type { ApiCheckDiagnostic } from '@shared/luauApiCheck';
+import type { LuauDiagnostic } from '@/lib/luauAnalyzer';
+
+// ============================================================================
+// LOADER
+// ============================================================================
+
+let loadedIndex: ApiIndex | null = null;
+let loading: Promise<ApiIndex> | null = null;
+
+/** الفهرس إن كان محمّلاً (بدون انتظار) */
+export const getLoadedApiIndex = (): ApiIndex | null => loadedIndex;
+
+/** تحميل الفهرس مرة واحدة؛ الطلبات المتزامنة تنتظر نفس الوعد */
+export const loadApiIndex = (): Promise<ApiIndex> => {
+  if (!loading) {
+    loading = import('@shared/API-Dump.json')
+      .then((module) => {
+        loadedIndex = createApiIndex(module.default as ApiDump);
+        return loadedIndex;
+      })
+      .catch((error) => {
+        // فشل التحميل (شبكة): المحاولة التالية تعيد الطلب
+        loading = null;
+        throw error;
+      });
+  }
+  return loading;
+};
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+/**
+ * دمج تشخيصات المحللين مرتبة بالسطر
+ *
+ * @example
+ * mergeDiagnostics(analyzeLuau(code), checkLuauApi(index, code))
+ */
+export const mergeDiagnostics = (
+  diagnostics: LuauDiagnostic[],
+  apiDiagnostics: ApiCheckDiagnostic[]
+): LuauDiagnostic[] => {
+  const seen = new Set<string>();
+  const merged: LuauDiagnostic[] = [];
+
+  for (const diagnostic of [...diagnostics, ...apiDiagnostics]) {
+    const key = `${diagnostic.line}:${diagnostic.suggestion ?? diagnostic.message}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    merged.push(diagnostic);
+  }
+
+  // sort مستقر: ترتيب المحلل داخل السطر الواحد يبقى كما هو
+  return merged.sort((a, b) => a.line - b.line);
+};
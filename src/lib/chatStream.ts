@@ -0,0 +1,355 @@
+/**
+ * @fileoverview طبقة الاتصال بـ Edge Function الدردشة - Chat Stream Client
+ *
+ * @description
+ * يجمع منطق الشبكة المشترك بين الإرسال وإعادة التوليد وإعادة الإرسال من الطابور:
+ * - إرسال الطلب وتحويل أخطاء HTTP إلى رسائل عربية مفهومة
+ * - قراءة رد SSE وتجميع المحتوى المتدفق
+ * - تمييز أخطاء الشبكة (انقطاع الاتصال) عن أخطاء الخادم
+ *
+ * @impact
+ * ⚠️ WARNING: أي تعديل على قارئ SSE قد يكسر الـ streaming في جميع المسارات
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { GenerationSettings } from '@shared/models';
+import {
+  parseRateLimitHeaders,
+  type RateLimitReason,
+  type RateLimitStatus,
+} from '@shared/rateLimit';
+import type { ProjectProfile } from '@shared/projectProfile';
+import type { StudioOutputLog } from '@shared/studioOutput';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CHAT_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat`;
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ChatContentPart {
+  type: string;
+  text?: string;
+  image_url?: { url: string };
+}
+
+export interface ChatApiMessage {
+  role: 'user' | 'assistant' | 'system';
+  content: string | ChatContentPart[];
+}
+
+/**
+ * استهلاك الطلب كما ترسله البوابة في آخر chunk (stream_options.include_usage)
+ */
+export interface ChatStreamUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * نتيجة قراءة رد SSE
+ *
+ * @property content - المحتوى الكامل المتراكم
+ * @property finishReason - سبب انتهاء التوليد كما أرسله النموذج
+ *   ('stop' طبيعي، 'length' وصل لحد الـ tokens، null إذا لم يُرسل)
+ * @property usage - عدد الـ tokens، أو null إذا لم تُرسله البوابة
+ */
+export interface ChatStreamResult {
+  content: string;
+  finishReason: string | null;
+  usage: ChatStreamUsage | null;
+}
+
+/**
+ * ملف المشروع المرسل مع الطلب (الخادم يدمجهما ويتحقق من الحدود)
+ *
+ * @property user - الملف العام للمستخدم
+ * @property conversation - تخصيص المحادثة الحالية
+ */
+export interface ChatProfilePayload {
+  user?: ProjectProfile;
+  conversation?: ProjectProfile;
+}
+
+// ============================================================================
+// ERROR HELPERS
+// ============================================================================
+
+/**
+ * رفض الطلب بسبب حدود الاستخدام (429)
+ *
+ * @property reason - 'requests' طلبات كثيرة في دقيقة، 'tokens' نفدت حصة اليوم،
+ *   null إذا جاء الرفض من البوابة نفسها
+ * @property retryAfterSeconds - متى يمكن الإرسال مجدداً (إن عُرف)
+ * @property quota - الرصيد المتبقي كما أرسله الخادم
+ */
+export class RateLimitError extends Error {
+  readonly reason: RateLimitReason | null;
+  readonly retryAfterSeconds: number | null;
+  readonly quota: RateLimitStatus | null;
+
+  constructor(message: string, reason: RateLimitReason | null, quota: RateLimitStatus | null) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.reason = reason;
+    this.retryAfterSeconds = quota?.retryAfterSeconds ?? null;
+    this.quota = quota;
+  }
+}
+
+/**
+ * هل الخطأ ناتج عن إيقاف المستخدم للتوليد؟
+ *
+ * @description
+ * AbortController.abort() يرفض fetch و reader.read() بخطأ اسمه AbortError
+ */
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+/**
+ * هل الخطأ ناتج عن انقطاع الشبكة؟
+ *
+ * @description
+ * fetch يرفض بـ TypeError عندما لا يصل الطلب للخادم أصلاً
+ * (لا إنترنت، DNS، انقطاع أثناء القراءة). أخطاء HTTP لا تدخل هنا.
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return error instanceof TypeError;
+};
+
+// ============================================================================
+// REQUEST
+// ============================================================================
+
+/**
+ * توكن جلسة المستخدم الحالية
+ *
+ * @description
+ * الخادم يرفض المفتاح العام؛ getSession يجدد التوكن المنتهي تلقائياً
+ *
+ * @throws {Error} إذا لم يكن المستخدم مسجلاً
+ */
+const getAccessToken = async (): Promise<string> => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new Error('يجب تسجيل الدخول لإرسال الرسائل.');
+  }
+  return session.access_token;
+};
+
+/**
+ * نوع الطلب
+ *
+ * @value 'chat' - رد المساعد الخبير (الافتراضي)
+ * @value 'summarize' - تلخيص رسائل قديمة لإدارة نافذة السياق
+ * @value 'title' - عنوان قصير للمحادثة بعد أول تبادل
+ */
+export type ChatRequestMode = 'chat' | 'summarize' | 'title';
+
+/**
+ * خيارات طلب الدردشة
+ *
+ * @property signal - إشارة الإلغاء (زر الإيقاف)
+ * @property settings - النموذج وإعدادات التوليد للمحادثة (الخادم يتحقق منها)
+ * @property profile - ملف المشروع المُلحق برسالة النظام
+ * @property mode - نوع الطلب
+ * @property studioOutput - أخطاء Output الملصقة مع رسالة المستخدم الحالية (تعليمات تشخيص)
+ */
+export interface ChatRequestOptions {
+  signal?: AbortSignal;
+  settings?: GenerationSettings;
+  profile?: ChatProfilePayload;
+  mode?: ChatRequestMode;
+  studioOutput?: Pick<StudioOutputLog, 'errors'>;
+}
+
+/**
+ * إرسال طلب الدردشة
+ *
+ * @param messages - الرسائل بتنسيق OpenAI
+ * @param options - الإلغاء والإعدادات وملف المشروع ونوع الطلب وأخطاء Output
+ * @returns الرد الناجح (يحتوي body قابل للقراءة)
+ *
+ * @throws {DOMException} AbortError عند الإلغاء
+ * @throws {TypeError} عند فشل الشبكة (يُمرر كما هو ليُكتشف بـ isNetworkError)
+ * @throws {RateLimitError} عند 429 (حدود المستخدم أو البوابة)
+ * @throws {Error} برسالة عربية عند أخطاء HTTP أو عدم تسجيل الدخول
+ */
+export const requestChatCompletion = async (
+  messages: ChatApiMessage[],
+  { signal, settings, profile, mode, studioOutput }: ChatRequestOptions = {}
+): Promise<Response> => {
+  const accessToken = await getAccessToken();
+
+  const response = await fetch(CHAT_URL, {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+      Authorization: `Bearer ${accessToken}`,
+    },
+    body: JSON.stringify({ messages, settings, profile, mode, studioOutput }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+
+    if (response.status === 401) {
+      throw new Error('انتهت الجلسة. يرجى تسجيل الدخول مرة أخرى.');
+    }
+
+    if (response.status === 429) {
+      const reason: RateLimitReason | null =
+        error.reason === 'requests' || error.reason === 'tokens' ? error.reason : null;
+      throw new RateLimitError(
+        reason === 'tokens'
+          ? 'نفدت حصتك اليومية من الـ tokens.'
+          : 'تم تجاوز الحد المسموح. يرجى الانتظار قليلاً (Rate Limit).',
+        reason,
+        parseRateLimitHeaders(response.headers, reason)
+      );
+    }
+
+    if (response.status === 402) {
+      throw new Error('نفدت الرصيد في بوابة الذكاء الاصطناعي (Payment Required).');
+    }
+
+    throw new Error(error.error || 'فشل في الحصول على الرد من الخادم');
+  }
+
+  if (!response.body) {
+    throw new Error('لا يوجد رد');
+  }
+
+  return response;
+};
+
+// ============================================================================
+// SSE READER
+// ============================================================================
+
+/**
+ * استخراج المحتوى من سطر SSE واحد
+ *
+ * @returns null للأسطر غير المفيدة، 'done' عند [DONE]، أو الـ chunk المحلل
+ * @throws {SyntaxError} إذا كان JSON غير مكتمل (سطر مقطوع)
+ */
+const parseSseLine = (
+  rawLine: string
+): { delta?: string; finishReason?: string; usage?: ChatStreamUsage } | 'done' | null => {
+  let line = rawLine;
+  if (line.endsWith('\r')) line = line.slice(0, -1);
+  if (line.startsWith(':') || line.trim() === '') return null;
+  if (!line.startsWith('data: ')) return null;
+
+  const jsonStr = line.slice(6).trim();
+  if (jsonStr === '[DONE]') return 'done';
+
+  const parsed = JSON.parse(jsonStr);
+  const choice = parsed.choices?.[0];
+  return {
+    delta: choice?.delta?.content as string | undefined,
+    finishReason: (choice?.finish_reason as string | null | undefined) ?? undefined,
+    usage: parsed.usage
+      ? {
+          promptTokens: Number(parsed.usage.prompt_tokens) || 0,
+          completionTokens: Number(parsed.usage.completion_tokens) || 0,
+        }
+      : undefined,
+  };
+};
+
+/**
+ * قراءة رد SSE كاملاً
+ *
+ * @param response - رد requestChatCompletion
+ * @param onContent - يُستدعى بالمحتوى الكامل المتراكم بعد كل جزء جديد
+ * @returns المحتوى النهائي الكامل وسبب الانتهاء والاستهلاك
+ *
+ * @throws {DOMException} AbortError إذا أُلغيت إشارة الطلب أثناء القراءة
+ *
+ * @algorithm
+ * - تقسيم البيانات على أسطر، مع الاحتفاظ بالسطر غير المكتمل في الـ buffer
+ * - JSON مقطوع يُعاد للـ buffer حتى يصل باقيه
+ * - بعد انتهاء القراءة تُعالج البقايا مرة أخيرة
+ */
+export const readChatStream = async (
+  response: Response,
+  onContent: (fullContent: string) => void
+): Promise<ChatStreamResult> => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let textBuffer = '';
+  let fullContent = '';
+  let finishReason: string | null = null;
+  let usage: ChatStreamUsage | null = null;
+  let streamDone = false;
+
+  while (!streamDone) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    textBuffer += decoder.decode(value, { stream: true });
+
+    let newlineIndex: number;
+    while ((newlineIndex = textBuffer.indexOf('\n')) !== -1) {
+      const line = textBuffer.slice(0, newlineIndex);
+      textBuffer = textBuffer.slice(newlineIndex + 1);
+
+      let parsed: ReturnType<typeof parseSseLine>;
+      try {
+        parsed = parseSseLine(line);
+      } catch {
+        textBuffer = line + '\n' + textBuffer;
+        break;
+      }
+
+      if (parsed === 'done') {
+        streamDone = true;
+        break;
+      }
+
+      if (parsed?.delta) {
+        fullContent += parsed.delta;
+        onContent(fullContent);
+      }
+      if (parsed?.finishReason) {
+        finishReason = parsed.finishReason;
+      }
+      if (parsed?.usage) {
+        usage = parsed.usage;
+      }
+    }
+  }
+
+  // معالجة البقايا
+  if (textBuffer.trim()) {
+    for (const raw of textBuffer.split('\n')) {
+      try {
+        const parsed = parseSseLine(raw);
+        if (parsed && parsed !== 'done') {
+          if (parsed.delta) {
+            fullContent += parsed.delta;
+            onContent(fullContent);
+          }
+          if (parsed.finishReason) {
+            finishReason = parsed.finishReason;
+          }
+          if (parsed.usage) {
+            usage = parsed.usage;
+          }
+        }
+      } catch {
+        // تجاهل الأخطاء
+      }
+    }
+  }
+
+  return { content: fullContent, finishReason, usage };
+};
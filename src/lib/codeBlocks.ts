@@ -0,0 +1,85 @@
+/**
+ * @fileoverview كتل الكود في Markdown - Markdown Code Blocks
+ *
+ * @description
+ * استخراج كتل ```lang من رد المساعد بنفس ترتيبها، واختيار علامة كتلة
+ * لا تتعارض مع النص المضمّن فيها
+ *
+ * @usedBy
+ * - codeFix (الكود المصلح في الرد ورسالة الإصلاح)
+ * - studioOutput (السجل الملصق في الرسالة)
+ */
+
+import { LUAU_LANGUAGES } from '@/lib/luauAnalyzer';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CodeBlock {
+  /** اللغة بعد علامة الفتح بأحرف صغيرة (فارغة إن لم تُذكر) */
+  language: string;
+  code: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** سطر فتح كتلة: ``` أو ~~~ (ثلاث علامات أو أكثر) ثم اللغة */
+const OPEN_FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+
+// ============================================================================
+// EXTRACTION
+// ============================================================================
+
+/**
+ * كل الكتل المغلقة في المحتوى
+ *
+ * @note الكتلة غير المغلقة في النهاية (رد مقطوع) لا تُعاد
+ *
+ * @example
+ * extractCodeBlocks('نص\n```lua\nprint(1)\n```') // [{ language: 'lua', code: 'print(1)' }]
+ */
+export const extractCodeBlocks = (content: string): CodeBlock[] => {
+  const blocks: CodeBlock[] = [];
+  let open: { marker: string; language: string; lines: string[] } | null = null;
+
+  for (const line of content.replace(/\r\n/g, '\n').split('\n')) {
+    if (!open) {
+      const match = OPEN_FENCE.exec(line);
+      if (match) open = { marker: match[1], language: match[2].toLowerCase(), lines: [] };
+      continue;
+    }
+
+    const trimmed = line.trim();
+    // الإغلاق: نفس نوع العلامة وبطول لا يقل عن علامة الفتح
+    if (trimmed.startsWith(open.marker) && /^(`+|~+)$/.test(trimmed) && trimmed[0] === open.marker[0]) {
+      blocks.push({ language: open.language, code: open.lines.join('\n') });
+      open = null;
+    } else {
+      open.lines.push(line);
+    }
+  }
+
+  return blocks;
+};
+
+/**
+ * هل اللغتان من نفس العائلة؟ (lua و luau واحدة)
+ */
+export const isSameLanguage = (a: string, b: string) =>
+  a === b || (LUAU_LANGUAGES.has(a) && LUAU_LANGUAGES.has(b));
+
+// ============================================================================
+// FENCES
+// ============================================================================
+
+/**
+ * أطول سلسلة ` في النص لاختيار علامة كتلة لا تتعارض معه
+ */
+export const fenceFor = (text: string) => {
+  const runs: string[] = text.match(/`+/g) ?? [];
+  const longest = runs.reduce((max, run) => Math.max(max, run.length), 0);
+  return '`'.repeat(Math.max(3, longest + 1));
+};
@@ -0,0 +1,90 @@
+/**
+ * @fileoverview طلب إصلاح كتلة كود - Code Fix Round Trip
+ *
+ * @description
+ * زر "إصلاح" في كتلة الكود يرسل الكود مع ملاحظات الفحص و/أو أخطاء
+ * Studio Output كرسالة متابعة منظمة، ثم يُعرض الكود في الرد كمقارنة
+ * مع الأصل:
+ *
+ * ```
+ * CodeBlock ──► CodeFixDialog ──► buildCodeFixPrompt ──► useChat.fixCode
+ *                                                          │ (message.codeFix = الأصل)
+ *                                                          ▼
+ * CodeDiff ◄── extractFixedCode(رد المساعد) ◄────────── الرد
+ * ```
+ *
+ * @usedBy
+ * - useChat (fixCode)
+ * - StreamingText (اختيار الكتلة التي تُعرض كمقارنة)
+ */
+
+import type { CodeFixRequest } from '@/stores/chatStore';
+import type { LuauDiagnostic } from '@/lib/luauAnalyzer';
+import { extractCodeBlocks, fenceFor, isSameLanguage } from '@/lib/codeBlocks';
+import { clipStudioOutputRaw } from '@/lib/studioOutput';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * ما يجمعه زر الإصلاح
+ *
+ * @property diagnostics - ملاحظات التحليل الثابت للكتلة
+ * @property studioOutput - أخطاء ملصقة من نافذة Output في Studio (يُرسل آخرها فقط، حيث الأحدث)
+ */
+export interface CodeFixInput extends CodeFixRequest {
+  diagnostics: LuauDiagnostic[];
+  studioOutput?: string;
+}
+
+// ============================================================================
+// PROMPT
+// ============================================================================
+
+/**
+ * رسالة المتابعة المرسلة للنموذج
+ *
+ * @example
+ * buildCodeFixPrompt({ language: 'lua', code: 'wait(1)', diagnostics: [...] })
+ * // 'أصلح هذا الكود...\n\n```lua\nwait(1)\n```\n\n**ملاحظات الفحص:**\n- سطر 1: ...'
+ */
+export const buildCodeFixPrompt = ({ language, code, diagnostics, studioOutput }: CodeFixInput): string => {
+  const codeFence = fenceFor(code);
+  const sections = [
+    'أصلح هذا الكود حسب الملاحظات التالية.',
+    `${codeFence}${language}\n${code}\n${codeFence}`,
+  ];
+
+  if (diagnostics.length > 0) {
+    const items = diagnostics.map((d) =>
+      `- سطر ${d.line}: ${d.message}${d.suggestion ? ` (\`${d.suggestion}\`)` : ''}`
+    );
+    sections.push(`**ملاحظات الفحص:**\n${items.join('\n')}`);
+  }
+
+  const output = clipStudioOutputRaw(studioOutput?.trim() ?? '');
+  if (output) {
+    const outputFence = fenceFor(output);
+    sections.push(`**أخطاء Studio Output:**\n${outputFence}text\n${output}\n${outputFence}`);
+  }
+
+  sections.push(
+    `أعد الكود كاملاً بعد الإصلاح في كتلة \`\`\`${language} واحدة، ثم اشرح التغييرات باختصار. ` +
+      'لا تغيّر ما لا يتعلق بالملاحظات.'
+  );
+
+  return sections.join('\n\n');
+};
+
+// ============================================================================
+// RESPONSE
+// ============================================================================
+
+/**
+ * الكود المصلح في رد المساعد: أول كتلة بنفس اللغة
+ *
+ * @returns null إذا لم يحتوِ الرد على كتلة مكتملة بنفس اللغة
+ */
+export const extractFixedCode = (content: string, request: CodeFixRequest): string | null =>
+  extractCodeBlocks(content).find((block) => isSameLanguage(block.language, request.language))?.code ?? null;
@@ -0,0 +1,216 @@
+/**
+ * @fileoverview بناء نافذة السياق - Context Window Builder
+ *
+ * @description
+ * يقرر أي رسائل تُرسل كما هي وأيها تُستبدل بملخص، حتى تستمر المحادثة
+ * بلا حد دون تجاوز حدود الخادم (100 رسالة و 50,000 حرف للرسالة):
+ *
+ * ```
+ * [ملخص محفوظ] [رسائل قديمة غير ملخصة] [آخر الرسائل كما هي] [رسالة المستخدم]
+ *       ↓                ↓                        ↓
+ *  system msg    تُضاف للملخص عند تجاوز الميزانية     تُرسل كما هي
+ * ```
+ *
+ * @algorithm
+ * - ما دام (الملخص + ما بعده) ضمن HISTORY_TOKEN_BUDGET يُرسل كل شيء
+ * - عند التجاوز تُحفظ آخر الرسائل ضمن RECENT_TOKEN_BUDGET، والباقي يُلخص
+ *   (نصف الميزانية فقط، حتى لا يتكرر التلخيص مع كل رسالة)
+ *
+ * @note
+ * تقدير الـ tokens تقريبي (حرف ≈ ربع token)، يكفي للميزانية لا للفوترة
+ *
+ * @usedBy
+ * - useChat: قبل كل طلب
+ * - ContextMeter: عرض نسبة الاستخدام
+ */
+
+import type { Conversation, ConversationSummary, Message } from '@/stores/chatStore';
+import type { ChatApiMessage } from '@/lib/chatStream';
+import { getActivePath } from '@/lib/messageTree';
+import { withStudioOutput } from '@/lib/studioOutput';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** ميزانية السجل (بدون رسالة النظام ورسالة المستخدم الحالية) */
+export const HISTORY_TOKEN_BUDGET = 32_000;
+
+/** ما يبقى كما هو بعد التلخيص */
+export const RECENT_TOKEN_BUDGET = 12_000;
+
+/** أقصى رسائل سجل في الطلب (الخادم يقبل 100 شاملة الملخص والرسالة الحالية) */
+export const MAX_HISTORY_MESSAGES = 80;
+
+/** أقصى رسائل تبقى كما هي بعد التلخيص */
+export const MAX_RECENT_MESSAGES = 40;
+
+/** أقصى رسائل في طلب تلخيص واحد */
+export const SUMMARY_BATCH_SIZE = 60;
+
+/** أقصى طول لرسالة واحدة (الخادم يرفض ما فوق 50,000) */
+export const MAX_MESSAGE_CHARS = 48_000;
+
+const TRUNCATION_MARKER = '\n\n[... تم اقتطاع باقي الرسالة لطولها ...]';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * خطة السياق لطلب واحد
+ *
+ * @property summary - الملخص الصالح لهذا الفرع (أو null)
+ * @property toSummarize - رسائل قديمة يجب إضافتها للملخص قبل الإرسال
+ * @property recent - رسائل تُرسل كما هي
+ */
+export interface ContextPlan {
+  summary: ConversationSummary | null;
+  toSummarize: Message[];
+  recent: Message[];
+}
+
+/**
+ * استخدام نافذة السياق للعرض
+ *
+ * @property usedTokens - تقدير ما سيُرسل (الملخص + الرسائل غير الملخصة)
+ * @property budget - HISTORY_TOKEN_BUDGET
+ * @property summarizedCount - عدد الرسائل داخل الملخص
+ */
+export interface ContextUsage {
+  usedTokens: number;
+  budget: number;
+  summarizedCount: number;
+}
+
+// ============================================================================
+// ESTIMATION
+// ============================================================================
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+const estimateMessageTokens = (message: Message): number =>
+  estimateTokens(truncateForContext(withStudioOutput(message, { clip: true })));
+
+const sumTokens = (messages: Message[]) =>
+  messages.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+
+/**
+ * اقتطاع رسالة أطول من حد الخادم
+ */
+export const truncateForContext = (content: string): string =>
+  content.length > MAX_MESSAGE_CHARS
+    ? content.slice(0, MAX_MESSAGE_CHARS - TRUNCATION_MARKER.length) + TRUNCATION_MARKER
+    : content;
+
+// ============================================================================
+// PLANNING
+// ============================================================================
+
+/**
+ * الملخص صالح لهذا السجل إذا كانت آخر رسالة يغطيها ضمنه
+ *
+ * @returns موضع آخر رسالة ملخصة، أو -1
+ */
+const findSummaryIndex = (history: Message[], summary?: ConversationSummary | null): number =>
+  summary ? history.findIndex((message) => message.id === summary.upToMessageId) : -1;
+
+/**
+ * تخطيط السياق لسجل (الرسائل قبل رسالة المستخدم الحالية)
+ *
+ * @param history - مسار الفرع حتى ما قبل الرسالة الحالية
+ * @param summary - ملخص المحادثة المحفوظ
+ */
+export const planContext = (
+  history: Message[],
+  summary?: ConversationSummary | null
+): ContextPlan => {
+  const summaryIndex = findSummaryIndex(history, summary);
+  const validSummary = summaryIndex >= 0 && summary ? summary : null;
+  const pending = history.slice(summaryIndex + 1);
+  const summaryTokens = validSummary ? estimateTokens(validSummary.content) : 0;
+
+  if (
+    summaryTokens + sumTokens(pending) <= HISTORY_TOKEN_BUDGET &&
+    pending.length <= MAX_HISTORY_MESSAGES
+  ) {
+    return { summary: validSummary, toSummarize: [], recent: pending };
+  }
+
+  let recentStart = pending.length;
+  let recentTokens = 0;
+  while (recentStart > 0) {
+    const tokens = estimateMessageTokens(pending[recentStart - 1]);
+    if (
+      pending.length - recentStart >= MAX_RECENT_MESSAGES ||
+      recentTokens + tokens > RECENT_TOKEN_BUDGET
+    ) {
+      break;
+    }
+    recentTokens += tokens;
+    recentStart--;
+  }
+
+  return {
+    summary: validSummary,
+    toSummarize: pending.slice(0, recentStart),
+    recent: pending.slice(recentStart),
+  };
+};
+
+/**
+ * استخدام نافذة السياق للفرع النشط
+ */
+export const getContextUsage = (conversation: Conversation): ContextUsage => {
+  const path = getActivePath(conversation);
+  const summaryIndex = findSummaryIndex(path, conversation.summary);
+  const summary = summaryIndex >= 0 ? conversation.summary : undefined;
+
+  return {
+    usedTokens:
+      (summary ? estimateTokens(summary.content) : 0) + sumTokens(path.slice(summaryIndex + 1)),
+    budget: HISTORY_TOKEN_BUDGET,
+    summarizedCount: summary?.messageCount ?? 0,
+  };
+};
+
+// ============================================================================
+// MESSAGES
+// ============================================================================
+
+/**
+ * رسالة الملخص التي تسبق السجل في الطلب
+ */
+export const buildSummaryMessage = (summary: ConversationSummary): ChatApiMessage => ({
+  role: 'system',
+  content: `ملخص الجزء الأقدم من هذه المحادثة (الرسائل الأصلية لم تعد مرفقة):\n\n${summary.content}`,
+});
+
+/**
+ * رسائل السجل كنص فقط (مع سجل Output الملصق واقتطاع الطويل)
+ */
+export const toHistoryMessages = (messages: Message[]): ChatApiMessage[] =>
+  messages.map((message) => ({
+    role: message.role,
+    content: truncateForContext(withStudioOutput(message, { clip: true })),
+  }));
+
+/**
+ * طلب تلخيص دفعة رسائل مع الملخص السابق
+ *
+ * @description
+ * الخادم في وضع 'summarize' يستخدم تعليمات تلخيص بدلاً من تعليمات الخبير
+ */
+export const buildSummarizeRequest = (
+  previous: ConversationSummary | null,
+  messages: Message[]
+): ChatApiMessage[] => [
+  ...(previous ? [buildSummaryMessage(previous)] : []),
+  ...toHistoryMessages(messages),
+  {
+    role: 'user',
+    content: previous
+      ? 'Update the summary above with the conversation that followed it.'
+      : 'Summarize the conversation above.',
+  },
+];
@@ -0,0 +1,174 @@
+/**
+ * @fileoverview استكمال الردود المقطوعة - Response Continuation
+ *
+ * @description
+ * عندما يتوقف الرد قبل اكتماله (حد الـ tokens أو إيقاف يدوي) نطلب من النموذج
+ * المتابعة ونلصق الناتج في نفس الرسالة. هذه الوحدة مسؤولة عن:
+ * - اكتشاف كتلة كود مفتوحة (```lua بدون إغلاق) في نهاية المحتوى
+ * - بناء تعليمة الاستكمال المناسبة
+ * - دمج الاستكمال مع المحتوى السابق بدون تكرار أو فتح كتلة جديدة
+ *
+ * @usedBy
+ * - useChat (continueMessage)
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * كتلة كود مفتوحة في نهاية المحتوى
+ *
+ * @property marker - علامة الفتح (``` أو ~~~ وقد تكون أطول)
+ * @property language - اللغة بعد العلامة (مثل lua) أو نص فارغ
+ */
+export interface OpenFence {
+  marker: string;
+  language: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** سطر فتح/إغلاق كتلة كود في Markdown */
+const FENCE_LINE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)[^`]*$/;
+
+/**
+ * أقصى طول للتداخل الذي نبحث عنه بين نهاية المحتوى وبداية الاستكمال
+ * @value 400 حرف
+ */
+const MAX_OVERLAP_CHARS = 400;
+
+/**
+ * أقل طول تداخل يُعتبر تكراراً حقيقياً وليس تطابقاً عرضياً
+ * @value 12 حرف
+ */
+const MIN_OVERLAP_CHARS = 12;
+
+// ============================================================================
+// FENCE DETECTION
+// ============================================================================
+
+/**
+ * البحث عن كتلة كود لم تُغلق
+ *
+ * @param content - محتوى Markdown
+ * @returns الكتلة المفتوحة أو null إذا كانت كل الكتل مغلقة
+ *
+ * @example
+ * findOpenFence('نص\n```lua\nprint(1)') // { marker: '```', language: 'lua' }
+ */
+export const findOpenFence = (content: string): OpenFence | null => {
+  let open: OpenFence | null = null;
+
+  for (const line of content.split('\n')) {
+    const match = FENCE_LINE.exec(line);
+    if (!match) continue;
+
+    const [, marker, language] = match;
+
+    if (!open) {
+      open = { marker, language };
+      continue;
+    }
+
+    // الإغلاق: نفس نوع العلامة وبطول لا يقل عن الفتح، وبدون لغة
+    if (marker[0] === open.marker[0] && marker.length >= open.marker.length && !language) {
+      open = null;
+    }
+  }
+
+  return open;
+};
+
+// ============================================================================
+// PROMPT
+// ============================================================================
+
+/**
+ * بناء تعليمة الاستكمال التي تُرسل كرسالة مستخدم بعد الرد المقطوع
+ *
+ * @param content - المحتوى المقطوع
+ */
+export const buildContinuationPrompt = (content: string): string => {
+  const fence = findOpenFence(content);
+
+  const fenceInstruction = fence
+    ? `You stopped inside an unclosed ${fence.marker}${fence.language} code block. ` +
+      'Continue the code directly from the exact character where it stopped, ' +
+      'without opening a new code block, then close the block normally.'
+    : 'Continue from the exact character where it stopped.';
+
+  return [
+    'Your previous answer was cut off before it finished.',
+    fenceInstruction,
+    'Do not repeat anything you already wrote, do not summarize, and do not add an introduction.',
+  ].join(' ');
+};
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+/**
+ * إزالة سطر فتح كتلة مكرر من بداية الاستكمال
+ *
+ * @description
+ * بعض النماذج تعيد فتح ```lua رغم التعليمات؛ إذا كان المحتوى السابق
+ * داخل كتلة مفتوحة فهذا السطر يكسر الكتلة ويجب حذفه.
+ */
+const stripReopenedFence = (continuation: string, fence: OpenFence): string => {
+  const trimmed = continuation.replace(/^\s*\n/, '');
+  const newlineIndex = trimmed.indexOf('\n');
+  const firstLine = newlineIndex === -1 ? trimmed : trimmed.slice(0, newlineIndex);
+  const match = FENCE_LINE.exec(firstLine);
+
+  if (!match || match[1][0] !== fence.marker[0]) return continuation;
+
+  // علامة بدون لغة هي إغلاق صحيح للكتلة السابقة، وليست فتحاً مكرراً
+  if (!match[2]) return continuation;
+
+  return newlineIndex === -1 ? '' : trimmed.slice(newlineIndex + 1);
+};
+
+/**
+ * حذف الجزء المكرر من بداية الاستكمال
+ *
+ * @algorithm
+ * أطول لاحقة من المحتوى السابق تطابق بادئة الاستكمال (بحد أدنى وأقصى)
+ */
+const stripOverlap = (previous: string, continuation: string): string => {
+  const maxLength = Math.min(MAX_OVERLAP_CHARS, previous.length, continuation.length);
+
+  for (let length = maxLength; length >= MIN_OVERLAP_CHARS; length--) {
+    if (continuation.startsWith(previous.slice(-length))) {
+      return continuation.slice(length);
+    }
+  }
+
+  return continuation;
+};
+
+/**
+ * دمج الاستكمال مع المحتوى المقطوع
+ *
+ * @param previous - المحتوى قبل الاستكمال
+ * @param continuation - النص المتراكم من رد الاستكمال (قد يكون جزئياً أثناء البث)
+ * @returns المحتوى المدمج
+ *
+ * @note
+ * تُستدعى مع كل جزء جديد أثناء البث، لذلك يجب أن تكون نقية وسريعة
+ */
+export const mergeContinuation = (previous: string, continuation: string): string => {
+  const fence = findOpenFence(previous);
+  let addition = fence ? stripReopenedFence(continuation, fence) : continuation;
+  addition = stripOverlap(previous, addition);
+
+  // المحتوى السابق انتهى بسطر كامل داخل كتلة: لا نلصق سطرين معاً
+  if (fence && previous.endsWith('\n')) {
+    addition = addition.replace(/^\n/, '');
+  }
+
+  return previous + addition;
+};
@@ -0,0 +1,331 @@
+/**
+ * @fileoverview تصدير المحادثات - Conversation Export
+ *
+ * @description
+ * يحول المحادثات إلى ملفات يمكن إرفاقها بمستندات التصميم:
+ *
+ * | التنسيق   | المحتوى                                 | الاستخدام                |
+ * |----------|-----------------------------------------|-------------------------|
+ * | Markdown | الفرع النشط، كتل ```lua كما هي            | مستندات، GitHub          |
+ * | JSON     | كل الفروع + الإعدادات (ConversationExportFile) | نسخ احتياطي واستيراد |
+ * | HTML     | صفحة مستقلة بتلوين الكود (بدون ملفات خارجية) | المشاركة والقراءة     |
+ * | ZIP      | كل المحادثات: JSON واحد + Markdown و HTML لكل محادثة |                  |
+ *
+ * @note
+ * - رابط المرفق (blob:) لا يعيش خارج الجلسة، لذا يُحذف ويبقى base64
+ * - HTML يُبنى بـ react-dom/server عند الطلب فقط (تحميل كسول)
+ *
+ * @usedBy
+ * - ExportMenu (ChatHeader)
+ */
+
+import type {
+  Attachment,
+  Conversation,
+  ConversationFolder,
+  ConversationTag,
+  Message,
+} from '@/stores/chatStore';
+import { getActivePath } from '@/lib/messageTree';
+import { findOpenFence } from '@/lib/continuation';
+import { withStudioOutput } from '@/lib/studioOutput';
+import { createZip, type ZipEntry } from '@/lib/zip';
+import { findChatModel, resolveGenerationSettings } from '@shared/models';
+
+// ============================================================================
+// SCHEMA (v1)
+// ============================================================================
+
+/** معرف تنسيق ملف التصدير (يميزه عن ملفات JSON الأخرى عند الاستيراد) */
+export const EXPORT_FORMAT = 'roblox-expert-conversations';
+
+/**
+ * إصدار المخطط
+ *
+ * @extensionPoint
+ * أي تغيير غير متوافق يرفع الإصدار، والاستيراد يحوّل الإصدارات القديمة
+ */
+export const EXPORT_VERSION = 1;
+
+export type ExportedAttachment = Omit<Attachment, 'url'>;
+
+/**
+ * @note
+ * حالة الإرسال والبث لا تُصدَّر: الرسالة المستوردة مكتملة دائماً
+ */
+export interface ExportedMessage extends Omit<Message, 'timestamp' | 'attachments' | 'isStreaming' | 'status'> {
+  timestamp: string;
+  attachments?: ExportedAttachment[];
+}
+
+export interface ExportedConversation
+  extends Omit<Conversation, 'messages' | 'createdAt' | 'updatedAt' | 'unreadCount' | 'draft' | 'synced'> {
+  createdAt: string;
+  updatedAt: string;
+  messages: ExportedMessage[];
+}
+
+export interface ExportedFolder extends Omit<ConversationFolder, 'createdAt' | 'collapsed'> {
+  createdAt: string;
+}
+
+/**
+ * ملف التصدير
+ *
+ * @property folders - تعريفات المجلدات المشار إليها في folderId
+ * @property tags - تعريفات الوسوم المشار إليها في tagIds
+ */
+export interface ConversationExportFile {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  exportedAt: string;
+  conversations: ExportedConversation[];
+  folders: ExportedFolder[];
+  tags: ConversationTag[];
+}
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+const toIso = (date: Date | string) => new Date(date).toISOString();
+
+const toExportedMessage = ({
+  timestamp,
+  attachments,
+  isStreaming: _isStreaming,
+  status: _status,
+  ...message
+}: Message): ExportedMessage => ({
+  ...message,
+  timestamp: toIso(timestamp),
+  ...(attachments?.length
+    ? { attachments: attachments.map(({ url: _url, ...attachment }) => attachment) }
+    : {}),
+});
+
+export const toExportedConversation = ({
+  messages,
+  createdAt,
+  updatedAt,
+  unreadCount: _unreadCount,
+  draft: _draft,
+  synced: _synced,
+  ...conversation
+}: Conversation): ExportedConversation => ({
+  ...conversation,
+  createdAt: toIso(createdAt),
+  updatedAt: toIso(updatedAt),
+  messages: messages.map(toExportedMessage),
+});
+
+/**
+ * بناء ملف التصدير
+ *
+ * @note
+ * يُضمّن فقط المجلدات والوسوم التي تستخدمها المحادثات المصدّرة
+ */
+export const buildExportFile = (
+  conversations: Conversation[],
+  { folders = [], tags = [] }: { folders?: ConversationFolder[]; tags?: ConversationTag[] } = {},
+  now: Date = new Date()
+): ConversationExportFile => {
+  const folderIds = new Set(conversations.map((c) => c.folderId).filter(Boolean));
+  const tagIds = new Set(conversations.flatMap((c) => c.tagIds ?? []));
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: now.toISOString(),
+    conversations: conversations.map(toExportedConversation),
+    folders: folders
+      .filter((folder) => folderIds.has(folder.id))
+      .map(({ id, name, createdAt }) => ({ id, name, createdAt: toIso(createdAt) })),
+    tags: tags.filter((tag) => tagIds.has(tag.id)),
+  };
+};
+
+export const conversationsToJson = (...args: Parameters<typeof buildExportFile>) =>
+  JSON.stringify(buildExportFile(...args), null, 2);
+
+// ============================================================================
+// MARKDOWN
+// ============================================================================
+
+export const ROLE_LABELS: Record<Message['role'], string> = {
+  user: 'المستخدم',
+  assistant: 'Roblox Expert',
+};
+
+export const formatExportDate = (date: Date | string) =>
+  new Date(date).toLocaleString('ar', { dateStyle: 'medium', timeStyle: 'short' });
+
+const formatBytes = (bytes?: number) => {
+  if (!bytes && bytes !== 0) return '';
+  if (bytes < 1024) return ` (${bytes} B)`;
+  const kb = bytes / 1024;
+  return kb < 1024 ? ` (${kb.toFixed(1)} KB)` : ` (${(kb / 1024).toFixed(1)} MB)`;
+};
+
+/**
+ * إغلاق كتلة كود تُركت مفتوحة (رد أُوقف أثناء الكود)
+ * حتى لا تبتلع الرسائل التالية في الملف
+ */
+export const closeOpenFence = (content: string) => {
+  const open = findOpenFence(content);
+  return open ? `${content.replace(/\n*$/, '')}\n${open.marker}` : content;
+};
+
+/**
+ * تصدير الفرع النشط كـ Markdown
+ *
+ * @example
+ * conversationToMarkdown(conversation)
+ * // # نظام حفظ البيانات
+ * // ...
+ * // ### المستخدم
+ * // كيف أحفظ البيانات؟
+ */
+export const conversationToMarkdown = (conversation: Conversation): string => {
+  const model = findChatModel(resolveGenerationSettings(conversation.settings).model);
+  const header = [
+    `# ${conversation.title}`,
+    '',
+    `> ${formatExportDate(conversation.createdAt)} · ${model?.label ?? ''}`.trimEnd(),
+  ];
+
+  const sections = getActivePath(conversation).map((message) => {
+    const attachments = (message.attachments ?? []).map(
+      (attachment) => `- 📎 ${attachment.name}${formatBytes(attachment.size)}`
+    );
+    return [
+      `### ${ROLE_LABELS[message.role]}`,
+      '',
+      closeOpenFence(withStudioOutput(message).trim()),
+      ...(attachments.length ? ['', ...attachments] : []),
+    ].join('\n');
+  });
+
+  return [header.join('\n'), ...sections].join('\n\n---\n\n') + '\n';
+};
+
+// ============================================================================
+// HTML
+// ============================================================================
+
+/**
+ * تصدير الفرع النشط كصفحة HTML مستقلة
+ *
+ * @note
+ * التلوين بأنماط مضمنة (inline styles) فلا تحتاج الصفحة أي CSS خارجي
+ */
+export const conversationToHtml = async (conversation: Conversation): Promise<string> => {
+  const [{ renderToStaticMarkup }, { createElement }, { ConversationDocument }] = await Promise.all([
+    import('react-dom/server'),
+    import('react'),
+    import('@/components/chat/ConversationDocument'),
+  ]);
+  return `<!DOCTYPE html>\n${renderToStaticMarkup(createElement(ConversationDocument, { conversation }))}`;
+};
+
+// ============================================================================
+// FILES
+// ============================================================================
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  html: 'html',
+};
+
+const EXPORT_MIME_TYPES: Record<ExportFormat, string> = {
+  markdown: 'text/markdown;charset=utf-8',
+  json: 'application/json;charset=utf-8',
+  html: 'text/html;charset=utf-8',
+};
+
+/**
+ * اسم ملف آمن من العنوان (يحتفظ بالحروف العربية)
+ *
+ * @example
+ * toFileName('نظام الحفظ: DataStore', 'md') // 'نظام-الحفظ-DataStore.md'
+ */
+export const toFileName = (title: string, extension: string) => {
+  const base = title
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return `${base || 'conversation'}.${extension}`;
+};
+
+/**
+ * محتوى محادثة واحدة بالتنسيق المطلوب
+ */
+export const exportConversation = async (
+  conversation: Conversation,
+  format: ExportFormat,
+  context: { folders?: ConversationFolder[]; tags?: ConversationTag[] } = {}
+): Promise<Blob> => {
+  const content =
+    format === 'markdown'
+      ? conversationToMarkdown(conversation)
+      : format === 'json'
+        ? conversationsToJson([conversation], context)
+        : await conversationToHtml(conversation);
+  return new Blob([content], { type: EXPORT_MIME_TYPES[format] });
+};
+
+/**
+ * أرشيف كل المحادثات
+ *
+ * @structure
+ * ```
+ * conversations.json         (كل المحادثات بكل فروعها)
+ * markdown/<title>.md
+ * html/<title>.html
+ * ```
+ */
+export const exportAllConversations = async (
+  conversations: Conversation[],
+  context: { folders?: ConversationFolder[]; tags?: ConversationTag[] } = {}
+): Promise<Blob> => {
+  const entries: ZipEntry[] = [
+    { name: 'conversations.json', content: conversationsToJson(conversations, context) },
+  ];
+
+  // عناوين متكررة تحصل على لاحقة رقمية
+  const usedNames = new Map<string, number>();
+  const uniqueName = (title: string) => {
+    const base = toFileName(title, '').slice(0, -1);
+    const count = usedNames.get(base) ?? 0;
+    usedNames.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count + 1}`;
+  };
+
+  for (const conversation of conversations) {
+    const name = uniqueName(conversation.title);
+    entries.push(
+      { name: `markdown/${name}.md`, content: conversationToMarkdown(conversation) },
+      { name: `html/${name}.html`, content: await conversationToHtml(conversation) }
+    );
+  }
+
+  return new Blob([createZip(entries)], { type: 'application/zip' });
+};
+
+/**
+ * تنزيل ملف في المتصفح
+ */
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // المتصفح يحتاج الرابط حتى يبدأ التنزيل
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,129 @@
+/**
+ * @fileoverview تجميع المحادثات في الشريط الجانبي - Conversation Grouping
+ *
+ * @description
+ * يحول القائمة المسطحة إلى أقسام العرض:
+ *
+ * ```
+ * 📌 مثبتة          (كل المحادثات المثبتة، أياً كان مجلدها)
+ * 📁 مجلد 1         (بترتيب إنشاء المجلدات)
+ * 📁 مجلد 2
+ * اليوم / أمس / ... (المحادثات بدون مجلد حسب تاريخ آخر تحديث)
+ * ```
+ *
+ * داخل كل قسم: الأحدث تحديثاً أولاً.
+ *
+ * @usedBy
+ * - ConversationSidebar
+ */
+
+import type { Conversation, ConversationFolder } from '@/stores/chatStore';
+import { DATE_BUCKET_LABELS, getDateBucket, type DateBucket } from '@/lib/dateUtils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface FolderGroup {
+  folder: ConversationFolder;
+  conversations: Conversation[];
+}
+
+export interface DateGroup {
+  bucket: DateBucket;
+  label: string;
+  conversations: Conversation[];
+}
+
+/**
+ * @property ungroupedTotal - عدد المحادثات بدون مجلد قبل الاقتطاع (لزر "تحميل المزيد")
+ */
+export interface ConversationGroups {
+  pinned: Conversation[];
+  folders: FolderGroup[];
+  dates: DateGroup[];
+  ungroupedTotal: number;
+}
+
+/**
+ * @property limit - أقصى عدد محادثات بدون مجلد تُعرض (المثبتة والمجلدات تُعرض كاملة)
+ * @property tagId - إظهار المحادثات التي تحمل هذا الوسم فقط
+ * @property now - التاريخ المرجعي لمجموعات التاريخ
+ */
+export interface GroupOptions {
+  limit?: number;
+  tagId?: string | null;
+  now?: Date;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const BUCKET_ORDER: DateBucket[] = ['today', 'yesterday', 'thisWeek', 'thisMonth', 'older'];
+
+// ============================================================================
+// GROUPING
+// ============================================================================
+
+const byUpdatedDesc = (a: Conversation, b: Conversation) =>
+  new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime();
+
+/**
+ * تجميع المحادثات للعرض
+ *
+ * @note
+ * محادثة في مجلد محذوف (أو غير معروف على هذا الجهاز) تُعامل كبدون مجلد
+ *
+ * @example
+ * const { pinned, folders, dates } = groupConversations(conversations, folders, { limit: 10 });
+ */
+export const groupConversations = (
+  conversations: Conversation[],
+  folders: ConversationFolder[],
+  { limit = Infinity, tagId = null, now = new Date() }: GroupOptions = {}
+): ConversationGroups => {
+  const folderIds = new Set(folders.map((folder) => folder.id));
+  const visible = (tagId
+    ? conversations.filter((c) => c.tagIds?.includes(tagId))
+    : conversations
+  ).slice().sort(byUpdatedDesc);
+
+  const pinned: Conversation[] = [];
+  const byFolder = new Map<string, Conversation[]>();
+  const ungrouped: Conversation[] = [];
+
+  for (const conversation of visible) {
+    if (conversation.pinned) {
+      pinned.push(conversation);
+    } else if (conversation.folderId && folderIds.has(conversation.folderId)) {
+      const list = byFolder.get(conversation.folderId) ?? [];
+      list.push(conversation);
+      byFolder.set(conversation.folderId, list);
+    } else {
+      ungrouped.push(conversation);
+    }
+  }
+
+  const byBucket = new Map<DateBucket, Conversation[]>();
+  for (const conversation of ungrouped.slice(0, limit)) {
+    const bucket = getDateBucket(conversation.updatedAt, now);
+    const list = byBucket.get(bucket) ?? [];
+    list.push(conversation);
+    byBucket.set(bucket, list);
+  }
+
+  return {
+    pinned,
+    folders: folders.map((folder) => ({
+      folder,
+      conversations: byFolder.get(folder.id) ?? [],
+    })),
+    dates: BUCKET_ORDER.filter((bucket) => byBucket.has(bucket)).map((bucket) => ({
+      bucket,
+      label: DATE_BUCKET_LABELS[bucket],
+      conversations: byBucket.get(bucket),
+    })),
+    ungroupedTotal: ungrouped.length,
+  };
+};
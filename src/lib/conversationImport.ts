@@ -0,0 +1,601 @@
+/**
+ * @fileoverview استيراد المحادثات - Conversation Import
+ *
+ * @description
+ * يقرأ ملفات JSON من مصدرين ويحولها لمحادثات جاهزة للمتجر:
+ *
+ * | المصدر          | الملف                                   |
+ * |----------------|-----------------------------------------|
+ * | أرشيف التطبيق    | ConversationExportFile (format + version) |
+ * | ChatGPT        | conversations.json من "Export data"      |
+ *
+ * ```
+ * نص الملف ──► parseImportFile ──► ParsedImport ──► prepareImport ──► importConversations (المتجر)
+ *              (zod لكل محادثة)                  (معرفات جديدة + إزالة المكرر)
+ * ```
+ *
+ * @note
+ * - محادثة غير صالحة تُتخطى وحدها ولا تُفشل الملف كاملاً
+ * - المكرر: نفس المعرف الأصلي، أو نفس التاريخ ونفس الرسائل (استيراد الملف مرتين)
+ * - المجلدات والوسوم تُطابق بالاسم مع الموجودة قبل إنشاء جديدة
+ *
+ * @usedBy
+ * - ExportMenu (استيراد محادثات)
+ * - SharedConversation (متابعة محادثة مشتركة عبر parseSharedSnapshot)
+ */
+
+import { z } from 'zod';
+import {
+  TAG_COLORS,
+  type Attachment,
+  type Conversation,
+  type ConversationFolder,
+  type ConversationTag,
+  type Message,
+} from '@/stores/chatStore';
+import {
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  type ExportedAttachment,
+  type ExportedConversation,
+  type ExportedFolder,
+} from '@/lib/conversationExport';
+import { findLatestLeaf } from '@/lib/messageTree';
+import { resolveGenerationSettings } from '@shared/models';
+import { isProjectProfileEmpty, normalizeProjectProfile } from '@shared/projectProfile';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ImportSource = 'archive' | 'chatgpt' | 'share';
+
+/**
+ * سبب تخطي محادثة
+ *
+ * @value 'invalid' - لا تطابق المخطط
+ * @value 'empty' - بلا رسائل مستخدم أو مساعد
+ * @value 'duplicate' - موجودة بالفعل (أو مكررة داخل الملف)
+ */
+export type ImportSkipReason = 'invalid' | 'empty' | 'duplicate';
+
+export interface ImportSkip {
+  title: string;
+  reason: ImportSkipReason;
+}
+
+/**
+ * الملف بعد التحقق (المعرفات ما زالت الأصلية)
+ */
+export interface ParsedImport {
+  source: ImportSource;
+  conversations: Conversation[];
+  folders: ConversationFolder[];
+  tags: ConversationTag[];
+  skipped: ImportSkip[];
+}
+
+/**
+ * ما يُضاف للمتجر
+ *
+ * @property folders - مجلدات جديدة فقط (المطابقة بالاسم تُعاد استخدامها)
+ * @property tags - وسوم جديدة فقط
+ */
+export interface PreparedImport {
+  conversations: Conversation[];
+  folders: ConversationFolder[];
+  tags: ConversationTag[];
+  skipped: ImportSkip[];
+}
+
+/** خطأ يمنع قراءة الملف كاملاً (ليس JSON أو تنسيق غير معروف) */
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+// ============================================================================
+// ARCHIVE SCHEMA (ConversationExportFile v1)
+// ============================================================================
+
+const dateString = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+const ArchiveAttachmentSchema = z.object({
+  id: z.string(),
+  type: z.enum(['image', 'file']),
+  name: z.string(),
+  base64: z.string().optional(),
+  mimeType: z.string().optional(),
+  size: z.number().optional(),
+});
+
+const ArchiveMessageSchema = z.object({
+  id: z.string().min(1),
+  role: z.enum(['user', 'assistant']),
+  content: z.string(),
+  timestamp: dateString,
+  attachments: z.array(ArchiveAttachmentSchema).optional(),
+  stopReason: z.enum(['stopped', 'length']).optional(),
+  parentId: z.string().nullable().optional(),
+  usage: z
+    .object({
+      promptTokens: z.number(),
+      completionTokens: z.number(),
+      model: z.string().optional(),
+    })
+    .optional(),
+  codeFix: z.object({ language: z.string(), code: z.string() }).optional(),
+  studioOutput: z
+    .object({
+      raw: z.string(),
+      errors: z.array(
+        z.object({
+          message: z.string(),
+          frames: z.array(
+            z.object({ path: z.string(), line: z.number(), function: z.string().optional() })
+          ),
+          count: z.number(),
+        })
+      ),
+    })
+    .optional(),
+});
+
+const ArchiveConversationSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  titleSource: z.enum(['generated', 'user']).optional(),
+  createdAt: dateString,
+  updatedAt: dateString,
+  messages: z.array(ArchiveMessageSchema),
+  activeLeafId: z.string().nullable().optional(),
+  // القيم تُضبط ضمن الحدود بعد التحقق (resolveGenerationSettings / normalizeProjectProfile)
+  settings: z
+    .object({ model: z.string(), temperature: z.number(), maxTokens: z.number() })
+    .partial()
+    .optional(),
+  projectProfile: z
+    .object({
+      gameGenre: z.string(),
+      frameworks: z.array(z.string()),
+      namingConventions: z.string(),
+      luauMode: z.enum(['strict', 'nonstrict']),
+      responseLanguage: z.enum(['ar', 'en']),
+      notes: z.string(),
+    })
+    .partial()
+    .optional(),
+  summary: z
+    .object({ content: z.string(), upToMessageId: z.string(), messageCount: z.number() })
+    .optional(),
+  pinned: z.boolean().optional(),
+  folderId: z.string().nullable().optional(),
+  tagIds: z.array(z.string()).optional(),
+});
+
+const ArchiveFileSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.literal(EXPORT_VERSION),
+  conversations: z.array(z.unknown()),
+  folders: z.array(z.object({ id: z.string(), name: z.string(), createdAt: dateString })).default([]),
+  tags: z.array(z.object({ id: z.string(), name: z.string(), color: z.enum(TAG_COLORS) })).default([]),
+});
+
+// ============================================================================
+// CHATGPT SCHEMA (conversations.json)
+// ============================================================================
+
+const ChatGptMessageSchema = z.object({
+  id: z.string(),
+  author: z.object({ role: z.string() }),
+  create_time: z.number().nullable().optional(),
+  content: z
+    .object({
+      content_type: z.string(),
+      parts: z.array(z.unknown()).optional(),
+      text: z.string().optional(),
+    })
+    .passthrough(),
+  metadata: z.record(z.unknown()).nullable().optional(),
+});
+
+const ChatGptNodeSchema = z.object({
+  id: z.string(),
+  message: ChatGptMessageSchema.nullable().optional(),
+  parent: z.string().nullable().optional(),
+  children: z.array(z.string()).default([]),
+});
+
+const ChatGptConversationSchema = z.object({
+  title: z.string().nullable().optional(),
+  create_time: z.number(),
+  update_time: z.number().nullable().optional(),
+  mapping: z.record(ChatGptNodeSchema),
+  current_node: z.string().nullable().optional(),
+  id: z.string().optional(),
+  conversation_id: z.string().optional(),
+});
+
+type ChatGptConversation = z.infer<typeof ChatGptConversationSchema>;
+type ChatGptMessage = z.infer<typeof ChatGptMessageSchema>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const UNTITLED = 'محادثة مستوردة';
+
+const titleOf = (value: unknown) => {
+  const title = value && typeof value === 'object' ? (value as { title?: unknown }).title : undefined;
+  return typeof title === 'string' && title.trim() ? title.trim() : UNTITLED;
+};
+
+const fromUnixSeconds = (seconds: number | null | undefined, fallback: Date) =>
+  typeof seconds === 'number' ? new Date(seconds * 1000) : fallback;
+
+const importedConversation = (
+  fields: Pick<Conversation, 'id' | 'title' | 'messages' | 'createdAt' | 'updatedAt'> & Partial<Conversation>
+): Conversation => ({
+  unreadCount: 0,
+  draft: '',
+  ...fields,
+});
+
+// ============================================================================
+// ARCHIVE PARSER
+// ============================================================================
+
+const toAttachment = (attachment: ExportedAttachment): Attachment => ({
+  ...attachment,
+  // رابط blob: لا يُصدَّر؛ الصورة تُعرض من base64
+  url: attachment.base64 && attachment.mimeType
+    ? `data:${attachment.mimeType};base64,${attachment.base64}`
+    : '',
+});
+
+const parseArchiveConversation = (data: ExportedConversation): Conversation => {
+  const projectProfile = data.projectProfile && !isProjectProfileEmpty(data.projectProfile)
+    ? normalizeProjectProfile(data.projectProfile)
+    : undefined;
+
+  return importedConversation({
+    ...data,
+    createdAt: new Date(data.createdAt),
+    updatedAt: new Date(data.updatedAt),
+    settings: data.settings ? resolveGenerationSettings(data.settings) : undefined,
+    projectProfile,
+    messages: data.messages.map((message) => ({
+      ...message,
+      timestamp: new Date(message.timestamp),
+      attachments: message.attachments?.map(toAttachment),
+      status: message.role === 'user' ? 'sent' : 'read',
+    })),
+  });
+};
+
+const parseArchive = (file: z.infer<typeof ArchiveFileSchema>): ParsedImport => {
+  const conversations: Conversation[] = [];
+  const skipped: ImportSkip[] = [];
+
+  for (const raw of file.conversations) {
+    const result = ArchiveConversationSchema.safeParse(raw);
+    if (result.success) {
+      // المخطط يطابق ExportedConversation (z.infer يجعل كل الحقول اختيارية بدون strict)
+      conversations.push(parseArchiveConversation(result.data as ExportedConversation));
+    } else {
+      skipped.push({ title: titleOf(raw), reason: 'invalid' });
+    }
+  }
+
+  return {
+    source: 'archive',
+    conversations,
+    folders: (file.folders as ExportedFolder[]).map((folder) => ({
+      ...folder,
+      createdAt: new Date(folder.createdAt),
+    })),
+    tags: file.tags as ConversationTag[],
+    skipped,
+  };
+};
+
+// ============================================================================
+// CHATGPT PARSER
+// ============================================================================
+
+/**
+ * نص رسالة ChatGPT
+ *
+ * @returns null للرسائل غير المعروضة (أدوات، تعليمات النظام، محتوى غير نصي)
+ */
+const chatGptText = (message: ChatGptMessage): string | null => {
+  const role = message.author.role;
+  if (role !== 'user' && role !== 'assistant') return null;
+  if (message.metadata?.is_visually_hidden_from_conversation) return null;
+
+  const { content } = message;
+  const text = content.content_type === 'code'
+    ? content.text && `\`\`\`\n${content.text}\n\`\`\``
+    : (content.parts ?? []).filter((part): part is string => typeof part === 'string').join('\n');
+
+  return text && text.trim() ? text : null;
+};
+
+/**
+ * تحويل شجرة ChatGPT إلى رسائل مرتبطة بـ parentId
+ *
+ * @algorithm
+ * العقد المتخطاة (الجذر، النظام، الأدوات) تُطوى: أبناؤها يرتبطون
+ * بأقرب سلف محفوظ، فتبقى الفروع (إعادة التوليد والتعديل) كما هي
+ */
+const parseChatGptConversation = (data: ChatGptConversation): Conversation => {
+  const createdAt = fromUnixSeconds(data.create_time, new Date());
+  const messages: Message[] = [];
+  const keptAncestor = new Map<string, string | null>();
+
+  const roots = Object.values(data.mapping).filter((node) => !node.parent || !data.mapping[node.parent]);
+  const stack = roots.map((node) => ({ id: node.id, parentId: null as string | null }));
+
+  while (stack.length > 0) {
+    const { id, parentId } = stack.pop();
+    const node = data.mapping[id];
+    if (!node || keptAncestor.has(id)) continue;
+
+    const text = node.message ? chatGptText(node.message) : null;
+    if (node.message && text !== null) {
+      messages.push({
+        id: node.id,
+        role: node.message.author.role as Message['role'],
+        content: text,
+        timestamp: fromUnixSeconds(node.message.create_time, createdAt),
+        parentId,
+        status: node.message.author.role === 'user' ? 'sent' : 'read',
+      });
+      keptAncestor.set(id, node.id);
+    } else {
+      keptAncestor.set(id, parentId);
+    }
+
+    const childParent = keptAncestor.get(id);
+    for (const childId of node.children) {
+      stack.push({ id: childId, parentId: childParent });
+    }
+  }
+
+  messages.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const currentLeaf = data.current_node ? keptAncestor.get(data.current_node) : undefined;
+
+  return importedConversation({
+    id: data.conversation_id ?? data.id ?? crypto.randomUUID(),
+    title: data.title?.trim() || UNTITLED,
+    createdAt,
+    updatedAt: fromUnixSeconds(data.update_time, createdAt),
+    messages,
+    activeLeafId: currentLeaf ?? findLatestLeaf(messages, null),
+  });
+};
+
+const parseChatGpt = (items: unknown[]): ParsedImport => {
+  const conversations: Conversation[] = [];
+  const skipped: ImportSkip[] = [];
+
+  for (const raw of items) {
+    const result = ChatGptConversationSchema.safeParse(raw);
+    if (result.success) {
+      conversations.push(parseChatGptConversation(result.data));
+    } else {
+      skipped.push({ title: titleOf(raw), reason: 'invalid' });
+    }
+  }
+
+  return { source: 'chatgpt', conversations, folders: [], tags: [], skipped };
+};
+
+// ============================================================================
+// ENTRY POINTS
+// ============================================================================
+
+/**
+ * قراءة ملف استيراد
+ *
+ * @throws ImportFormatError إذا لم يكن JSON أو لم يُعرف تنسيقه
+ *
+ * @example
+ * const parsed = parseImportFile(await file.text());
+ */
+export const parseImportFile = (text: string): ParsedImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportFormatError('الملف ليس JSON صالحاً');
+  }
+
+  if (Array.isArray(data)) {
+    return parseChatGpt(data);
+  }
+
+  const archive = ArchiveFileSchema.safeParse(data);
+  if (archive.success) {
+    return parseArchive(archive.data);
+  }
+
+  const format = data && typeof data === 'object' ? (data as { format?: unknown }).format : undefined;
+  if (format === EXPORT_FORMAT) {
+    throw new ImportFormatError('إصدار ملف التصدير غير مدعوم');
+  }
+  throw new ImportFormatError('تنسيق غير معروف: يُقبل ملف تصدير التطبيق أو conversations.json من ChatGPT');
+};
+
+/**
+ * قراءة لقطة رابط مشاركة (SharedConversationSnapshot)
+ *
+ * @description
+ * اللقطة محادثة واحدة بمخطط الأرشيف؛ النتيجة تمر بـ prepareImport
+ * مثل أي ملف، فتحصل النسخة على معرفات جديدة في متجر الزائر
+ *
+ * @throws ImportFormatError إذا لم تطابق اللقطة المخطط
+ */
+export const parseSharedSnapshot = (snapshot: unknown): ParsedImport => {
+  const result = ArchiveConversationSchema.safeParse(snapshot);
+  if (!result.success) {
+    throw new ImportFormatError('لقطة المحادثة المشتركة غير صالحة');
+  }
+
+  return {
+    source: 'share',
+    conversations: [parseArchiveConversation(result.data as ExportedConversation)],
+    folders: [],
+    tags: [],
+    skipped: [],
+  };
+};
+
+/**
+ * بصمة المحتوى لاكتشاف المكرر بعد تغيير المعرفات
+ */
+const fingerprint = (conversation: Conversation) => {
+  const body = [...conversation.messages]
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .map((m) => `${m.role}:${m.content}`)
+    .join('\u0000');
+  return `${new Date(conversation.createdAt).getTime()}|${body}`;
+};
+
+/**
+ * تجهيز المحادثات للإضافة
+ *
+ * @description
+ * - يتخطى الفارغة والمكررة (مع الموجودة أو داخل الملف)
+ * - يعطي كل محادثة ورسالة معرفاً جديداً ويعيد ربط parentId
+ *   و activeLeafId و summary.upToMessageId
+ * - يربط folderId و tagIds بمجلدات ووسوم المستخدم (بالاسم) أو بجديدة
+ */
+export const prepareImport = (
+  parsed: ParsedImport,
+  existing: { conversations: Conversation[]; folders: ConversationFolder[]; tags: ConversationTag[] }
+): PreparedImport => {
+  const skipped = [...parsed.skipped];
+  const seenIds = new Set(existing.conversations.map((c) => c.id));
+  const seenFingerprints = new Set(existing.conversations.map(fingerprint));
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // FOLDERS & TAGS (بالاسم)
+  // ─────────────────────────────────────────────────────────────────────────
+
+  const folders: ConversationFolder[] = [];
+  const folderIdMap = new Map<string, string>();
+  for (const folder of parsed.folders) {
+    const match = existing.folders.find((f) => f.name === folder.name);
+    if (match) {
+      folderIdMap.set(folder.id, match.id);
+    } else {
+      const created = { id: crypto.randomUUID(), name: folder.name, createdAt: folder.createdAt };
+      folders.push(created);
+      folderIdMap.set(folder.id, created.id);
+    }
+  }
+
+  const tags: ConversationTag[] = [];
+  const tagIdMap = new Map<string, string>();
+  for (const tag of parsed.tags) {
+    const match = existing.tags.find((t) => t.name === tag.name);
+    if (match) {
+      tagIdMap.set(tag.id, match.id);
+    } else {
+      const created = { ...tag, id: crypto.randomUUID() };
+      tags.push(created);
+      tagIdMap.set(tag.id, created.id);
+    }
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // CONVERSATIONS
+  // ─────────────────────────────────────────────────────────────────────────
+
+  const conversations: Conversation[] = [];
+  for (const conversation of parsed.conversations) {
+    if (conversation.messages.length === 0) {
+      skipped.push({ title: conversation.title, reason: 'empty' });
+      continue;
+    }
+
+    const key = fingerprint(conversation);
+    if (seenIds.has(conversation.id) || seenFingerprints.has(key)) {
+      skipped.push({ title: conversation.title, reason: 'duplicate' });
+      continue;
+    }
+    seenIds.add(conversation.id);
+    seenFingerprints.add(key);
+
+    const messageIdMap = new Map(conversation.messages.map((m) => [m.id, crypto.randomUUID()]));
+    const remap = (id: string | null | undefined) => (id ? messageIdMap.get(id) ?? null : null);
+    const tagIds = conversation.tagIds
+      ?.map((id) => tagIdMap.get(id))
+      .filter((id): id is string => !!id);
+
+    conversations.push({
+      ...conversation,
+      id: crypto.randomUUID(),
+      messages: conversation.messages.map((message) => ({
+        ...message,
+        id: messageIdMap.get(message.id),
+        parentId: remap(message.parentId),
+      })),
+      activeLeafId: remap(conversation.activeLeafId),
+      summary: conversation.summary && messageIdMap.has(conversation.summary.upToMessageId)
+        ? { ...conversation.summary, upToMessageId: messageIdMap.get(conversation.summary.upToMessageId) }
+        : undefined,
+      folderId: conversation.folderId ? folderIdMap.get(conversation.folderId) ?? null : undefined,
+      tagIds: tagIds?.length ? tagIds : undefined,
+    });
+  }
+
+  // وسوم ومجلدات لم تستخدمها أي محادثة مستوردة لا تُنشأ
+  const usedFolders = new Set(conversations.map((c) => c.folderId));
+  const usedTags = new Set(conversations.flatMap((c) => c.tagIds ?? []));
+
+  return {
+    conversations,
+    folders: folders.filter((folder) => usedFolders.has(folder.id)),
+    tags: tags.filter((tag) => usedTags.has(tag.id)),
+    skipped,
+  };
+};
+
+// ============================================================================
+// REPORT
+// ============================================================================
+
+const SKIP_REASON_LABELS: Record<ImportSkipReason, string> = {
+  duplicate: 'مكررة',
+  invalid: 'غير صالحة',
+  empty: 'فارغة',
+};
+
+/** أقصى عناوين تُذكر في ملخص المتخطاة */
+const MAX_SKIPPED_TITLES = 3;
+
+/**
+ * ملخص المحادثات المتخطاة للتنبيه
+ *
+ * @returns null إذا لم يُتخطَّ شيء
+ *
+ * @example
+ * describeSkipped([{ title: 'أ', reason: 'duplicate' }]) // 'تم تخطي 1 مكررة: أ'
+ */
+export const describeSkipped = (skipped: ImportSkip[]): string | null => {
+  if (skipped.length === 0) return null;
+
+  const counts = (Object.keys(SKIP_REASON_LABELS) as ImportSkipReason[])
+    .map((reason) => [reason, skipped.filter((skip) => skip.reason === reason).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([reason, count]) => `${count} ${SKIP_REASON_LABELS[reason]}`);
+
+  const titles = skipped.slice(0, MAX_SKIPPED_TITLES).map((skip) => skip.title);
+  const more = skipped.length > MAX_SKIPPED_TITLES ? ` و${skipped.length - MAX_SKIPPED_TITLES} أخرى` : '';
+
+  return `تم تخطي ${counts.join('، ')}: ${titles.join('، ')}${more}`;
+};
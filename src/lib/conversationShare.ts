@@ -0,0 +1,120 @@
+/**
+ * @fileoverview روابط المشاركة - Conversation Share Links
+ *
+ * @description
+ * رابط المشاركة لقطة للقراءة فقط من الفرع المعروض، تُحفظ في جدول
+ * conversation_shares وتُقرأ بالـ slug عبر get_shared_conversation:
+ *
+ * ```
+ * /share/:slug  ──► get_shared_conversation(slug) ──► SharedConversationSnapshot
+ *                                                        │
+ *                        "متابعة هذه المحادثة" ◄──────────┘ (نسخة في متجر الزائر)
+ * ```
+ *
+ * @security
+ * - الـ slug عشوائي 128 bit، لا يُشتق من معرف المحادثة
+ * - اللقطة لا تحمل المجلد أو الوسوم أو ملف المشروع أو الملخص
+ * - معرفات المحادثة والرسائل في اللقطة عشوائية، لا المعرفات الأصلية
+ * - محتوى المرفقات (base64) لا يُرفع؛ تظهر أسماؤها فقط
+ *
+ * @usedBy
+ * - ShareDialog: الإنشاء والتحديث والإلغاء
+ * - SharedConversation (صفحة /share/:slug)
+ */
+
+import type { Conversation } from '@/stores/chatStore';
+import { getActivePath } from '@/lib/messageTree';
+import { toExportedConversation, type ExportedConversation } from '@/lib/conversationExport';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * لقطة المحادثة المشتركة (نفس مخطط التصدير v1 لحقولها)
+ */
+export type SharedConversationSnapshot = Pick<
+  ExportedConversation,
+  'id' | 'title' | 'createdAt' | 'updatedAt' | 'messages' | 'activeLeafId' | 'settings'
+>;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** بايتات الـ slug العشوائية (22 حرف base64url) */
+const SLUG_BYTES = 16;
+
+// ============================================================================
+// SLUG & URL
+// ============================================================================
+
+/**
+ * إنشاء slug غير قابل للتخمين
+ *
+ * @example
+ * createShareSlug() // 'q3Jb0n2v8yX1hF5kLm9aQw'
+ */
+export const createShareSlug = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(SLUG_BYTES));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+};
+
+export const getShareUrl = (slug: string, origin: string = window.location.origin) =>
+  `${origin}/share/${slug}`;
+
+// ============================================================================
+// SNAPSHOT
+// ============================================================================
+
+/**
+ * لقطة الفرع المعروض للمشاركة
+ *
+ * @note
+ * الزائر يحصل على معرفات جديدة عند النسخ على أي حال (parseSharedSnapshot)
+ */
+export const buildShareSnapshot = (conversation: Conversation): SharedConversationSnapshot => {
+  const path = getActivePath(conversation);
+  const ids = new Map(path.map((message) => [message.id, crypto.randomUUID()]));
+  const exported = toExportedConversation({
+    ...conversation,
+    messages: path.map((message) => ({
+      ...message,
+      attachments: message.attachments?.map(({ base64: _base64, ...attachment }) => attachment),
+    })),
+  });
+
+  return {
+    id: crypto.randomUUID(),
+    title: exported.title,
+    createdAt: exported.createdAt,
+    updatedAt: exported.updatedAt,
+    messages: exported.messages.map((message) => ({
+      ...message,
+      id: ids.get(message.id),
+      parentId: message.parentId ? ids.get(message.parentId) ?? null : message.parentId,
+    })),
+    activeLeafId: path.length > 0 ? ids.get(path[path.length - 1].id) : null,
+    ...(exported.settings ? { settings: exported.settings } : {}),
+  };
+};
+
+/**
+ * المحادثة المحلية التي أُخذت منها اللقطة (أو نسخة سابقة منها)
+ *
+ * @description
+ * اللقطة لا تحمل معرف المحادثة، فتُطابق بوقت الإنشاء والعنوان
+ *
+ * @usedBy
+ * - SharedConversation: صاحب الرابط يفتح محادثته بدل نسخة جديدة
+ */
+export const findSharedOriginal = (
+  conversations: Conversation[],
+  snapshot: Pick<SharedConversationSnapshot, 'title' | 'createdAt'>
+): Conversation | undefined =>
+  conversations.find(
+    (c) => c.title === snapshot.title && new Date(c.createdAt).toISOString() === snapshot.createdAt
+  );
@@ -0,0 +1,92 @@
+/**
+ * @fileoverview توليد عناوين المحادثات - Conversation Titles
+ *
+ * @description
+ * العنوان المبدئي هو أول 40 حرفاً من رسالة المستخدم. بعد أول رد ناجح
+ * يُطلب من الخادم (mode: "title") عنوان وصفي قصير يحل محله.
+ *
+ * ```
+ * titleSource: undefined  → من أول رسالة (يُستبدل بالمولّد)
+ *              'generated' → مولّد (لا يُولّد مرة أخرى)
+ *              'user'      → أعاد المستخدم التسمية (مقفل)
+ * ```
+ *
+ * @usedBy
+ * - useChat: بعد اكتمال أول رد
+ */
+
+import type { ChatApiMessage } from '@/lib/chatStream';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** أقصى طول للعنوان المعروض */
+export const MAX_TITLE_LENGTH = 60;
+
+/** ما يُرسل من كل رسالة للتوليد (العنوان لا يحتاج الكود كاملاً) */
+const EXCERPT_CHARS = 1500;
+
+/** بادئات يضيفها النموذج أحياناً رغم التعليمات */
+const TITLE_PREFIX = /^(?:title|العنوان|عنوان)\s*[:：-]\s*/i;
+
+/** علامات الاقتباس والتنسيق قبل العنوان */
+const LEADING_CHARS = /^["'«»“”‘’`*#\s]+/;
+
+/** علامات الاقتباس والترقيم بعد العنوان (بأي ترتيب: "..."؟ أو "...؟") */
+const TRAILING_CHARS = /["'«»“”‘’`*\s.。!؟?؛;:,،…]+$/;
+
+// ============================================================================
+// REQUEST
+// ============================================================================
+
+const excerpt = (content: string) =>
+  content.length > EXCERPT_CHARS ? `${content.slice(0, EXCERPT_CHARS)}…` : content;
+
+/**
+ * رسائل طلب العنوان من أول تبادل
+ *
+ * @note
+ * التبادل يُرسل داخل رسالة مستخدم واحدة حتى لا "يجيب" النموذج عن السؤال
+ */
+export const buildTitleRequest = (
+  userContent: string,
+  assistantContent: string
+): ChatApiMessage[] => [
+  {
+    role: 'user',
+    content: `<user>\n${excerpt(userContent)}\n</user>\n\n<assistant>\n${excerpt(assistantContent)}\n</assistant>`,
+  },
+];
+
+// ============================================================================
+// CLEANUP
+// ============================================================================
+
+/**
+ * تنظيف العنوان المولّد
+ *
+ * @returns العنوان، أو null إذا لم يبق شيء صالح
+ *
+ * @example
+ * cleanGeneratedTitle('Title: "DataStore Saving Errors."') // 'DataStore Saving Errors'
+ */
+export const cleanGeneratedTitle = (raw: string): string | null => {
+  const firstLine = raw.split('\n').find((line) => line.trim()) ?? '';
+  let title = firstLine
+    .replace(LEADING_CHARS, '')
+    .replace(TITLE_PREFIX, '')
+    .replace(LEADING_CHARS, '')
+    .replace(TRAILING_CHARS, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (!title) return null;
+
+  if (title.length > MAX_TITLE_LENGTH) {
+    const cut = title.slice(0, MAX_TITLE_LENGTH);
+    const lastSpace = cut.lastIndexOf(' ');
+    title = `${lastSpace > MAX_TITLE_LENGTH / 2 ? cut.slice(0, lastSpace) : cut}...`;
+  }
+  return title;
+};
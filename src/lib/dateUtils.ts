@@ -51,6 +51,48 @@ export const formatRelativeDate = (date: Date | string): string => {
   return d.toLocaleDateString('ar-SA');
 };
 
+/**
+ * مجموعة التاريخ في الشريط الجانبي
+ */
+export type DateBucket = 'today' | 'yesterday' | 'thisWeek' | 'thisMonth' | 'older';
+
+export const DATE_BUCKET_LABELS: Record<DateBucket, string> = {
+  today: 'اليوم',
+  yesterday: 'أمس',
+  thisWeek: 'هذا الأسبوع',
+  thisMonth: 'هذا الشهر',
+  older: 'أقدم',
+};
+
+/**
+ * تحديد مجموعة التاريخ حسب الأيام التقويمية المحلية
+ * 
+ * @param date - التاريخ المراد تصنيفه
+ * @param now - التاريخ المرجعي (للاختبار)
+ * 
+ * @note
+ * بخلاف formatRelativeDate تُحسب الأيام من منتصف الليل،
+ * فرسالة الساعة 11 مساءً أمس تقع في "أمس" حتى لو مرت أقل من 24 ساعة
+ * 
+ * @example
+ * ```ts
+ * getDateBucket(new Date()) // "today"
+ * getDateBucket(threeDaysAgo) // "thisWeek"
+ * ```
+ */
+export const getDateBucket = (date: Date | string, now: Date = new Date()): DateBucket => {
+  const d = new Date(date);
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+  const startOfDay = new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+  const diffDays = Math.round((startOfToday - startOfDay) / (1000 * 60 * 60 * 24));
+  
+  if (diffDays <= 0) return 'today';
+  if (diffDays === 1) return 'yesterday';
+  if (diffDays < 7) return 'thisWeek';
+  if (diffDays < 30) return 'thisMonth';
+  return 'older';
+};
+
 /**
  * تنسيق الوقت
  * 
@@ -0,0 +1,170 @@
+/**
+ * @fileoverview مقارنة الأسطر - Line Diff
+ *
+ * @description
+ * يقارن نسختين من الكود سطراً بسطر ويجمع التغييرات في hunks يمكن
+ * قبول أو رفض كل منها على حدة:
+ *
+ * ```
+ * before ──► diffLines ──► DiffHunk[] ──► applyHunks(before, hunks, accepted) ──► الناتج
+ *            (LCS)          (حذف + إضافة      (المرفوض يبقى كما في before)
+ *                            متجاورة)
+ * ```
+ *
+ * @usedBy
+ * - CodeDiff: مقارنة رد "إصلاح" بالكود الأصلي
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * تغيير متصل واحد
+ *
+ * @property oldStart - موضع أول سطر متأثر في before (يبدأ من 0)
+ * @property removed - الأسطر المحذوفة من before
+ * @property added - الأسطر البديلة
+ * @property context - أسطر غير متغيرة قبل التغيير (للعرض فقط)
+ */
+export interface DiffHunk {
+  oldStart: number;
+  removed: string[];
+  added: string[];
+  context: string[];
+}
+
+type DiffOp = 'equal' | 'remove' | 'add';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** أسطر السياق المعروضة قبل كل تغيير */
+const CONTEXT_LINES = 2;
+
+/**
+ * أقصى حجم لجدول LCS
+ *
+ * @note فوقه تُعرض الكتلة المختلفة كتغيير واحد
+ */
+const MAX_LCS_CELLS = 4_000_000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export const splitLines = (text: string) => text.replace(/\r\n/g, '\n').split('\n');
+
+/**
+ * عمليات تحويل a إلى b بأطول تسلسل مشترك
+ */
+const lcsOps = (a: string[], b: string[]): DiffOp[] => {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  if (rows * cols > MAX_LCS_CELLS) {
+    return [...a.map((): DiffOp => 'remove'), ...b.map((): DiffOp => 'add')];
+  }
+
+  // lengths[i * cols + j] = طول LCS لـ a[i..] و b[j..]
+  const lengths = new Uint32Array(rows * cols);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] = a[i] === b[j]
+        ? lengths[(i + 1) * cols + j + 1] + 1
+        : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const ops: DiffOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      ops.push('equal');
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1])) {
+      ops.push('remove');
+      i++;
+    } else {
+      ops.push('add');
+      j++;
+    }
+  }
+  return ops;
+};
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * التغييرات بين نسختين
+ *
+ * @returns [] إذا كانت النسختان متطابقتين
+ *
+ * @example
+ * diffLines('a\nb\nc', 'a\nB\nc')
+ * // [{ oldStart: 1, removed: ['b'], added: ['B'], context: ['a'] }]
+ */
+export const diffLines = (before: string, after: string): DiffHunk[] => {
+  const a = splitLines(before);
+  const b = splitLines(after);
+  const ops = lcsOps(a, b);
+
+  const hunks: DiffHunk[] = [];
+  let oldIndex = 0;
+  let newIndex = 0;
+  let lastChangeEnd = 0;
+  let current: DiffHunk | null = null;
+
+  for (const op of ops) {
+    if (op === 'equal') {
+      if (current) {
+        hunks.push(current);
+        lastChangeEnd = oldIndex;
+        current = null;
+      }
+      oldIndex++;
+      newIndex++;
+      continue;
+    }
+
+    if (!current) {
+      const contextStart = Math.max(lastChangeEnd, oldIndex - CONTEXT_LINES);
+      current = { oldStart: oldIndex, removed: [], added: [], context: a.slice(contextStart, oldIndex) };
+    }
+
+    if (op === 'remove') {
+      current.removed.push(a[oldIndex]);
+      oldIndex++;
+    } else {
+      current.added.push(b[newIndex]);
+      newIndex++;
+    }
+  }
+
+  if (current) hunks.push(current);
+  return hunks;
+};
+
+/**
+ * بناء الناتج من التغييرات المقبولة فقط
+ *
+ * @param accepted - لكل hunk (بنفس الترتيب): true = يُطبق
+ */
+export const applyHunks = (before: string, hunks: DiffHunk[], accepted: boolean[]): string => {
+  const lines = splitLines(before);
+  const result: string[] = [];
+  let index = 0;
+
+  hunks.forEach((hunk, i) => {
+    result.push(...lines.slice(index, hunk.oldStart));
+    result.push(...(accepted[i] ? hunk.added : hunk.removed));
+    index = hunk.oldStart + hunk.removed.length;
+  });
+
+  result.push(...lines.slice(index));
+  return result.join('\n');
+};
@@ -0,0 +1,635 @@
+/**
+ * @fileoverview تحليل Luau الثابت - Luau Static Analyzer
+ *
+ * @description
+ * يفحص كتل ```lua في ردود المساعد قبل لصقها في Studio، ويرصد الأخطاء
+ * الشائعة التي يحذر منها الـ system prompt نفسه:
+ *
+ * | القاعدة              | الخطورة  | المثال                                      |
+ * |---------------------|---------|---------------------------------------------|
+ * | syntax              | error   | نص أو تعليق غير مغلق                         |
+ * | unbalanced-end      | error   | if بدون end، أو end زائدة                    |
+ * | unvalidated-remote  | warning | OnServerEvent يستخدم وسائط العميل دون تحقق     |
+ * | legacy-scheduler    | warning | wait() / spawn() / delay() بدل مكتبة task     |
+ * | deprecated-api      | warning | :connect() / Game / tick() / :Remove()        |
+ * | find-in-loop        | warning | FindFirstChild داخل حلقة أو Heartbeat         |
+ * | missing-strict      | info    | سكربت كامل بدون --!strict                     |
+ *
+ * ```
+ * source ──► tokenize ──► Token[] ──► walk (كتل + قواعد) ──► LuauDiagnostic[]
+ *             (تعليقات ونصوص                │
+ *              لا تُفحص)                    └──► checkRemoteHandlers (بعد معرفة نهاية كل دالة)
+ * ```
+ *
+ * @note
+ * - ليس محللاً كاملاً لـ Luau: قواعد على مستوى الـ tokens تكفي للأنماط أعلاه
+ * - if المستخدمة كتعبير (local x = if a then b else c) لا تحتاج end
+ * - لا يُشغّل أثناء البث: الكتلة غير المكتملة تبدو دائماً ناقصة end
+ *
+ * @usedBy
+ * - StreamingText (CodeBlock): التشخيصات تحت الكتلة
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type LuauDiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type LuauRule =
+  | 'syntax'
+  | 'unbalanced-end'
+  | 'unvalidated-remote'
+  | 'legacy-scheduler'
+  | 'deprecated-api'
+  | 'find-in-loop'
+  | 'missing-strict'
+  // من _shared/luauApiCheck (تحتاج فهرس API)
+  | 'unknown-member'
+  | 'instance-new-parent'
+  | 'raycast-filter';
+
+export interface LuauDiagnostic {
+  rule: LuauRule;
+  severity: LuauDiagnosticSeverity;
+  /** رقم السطر (يبدأ من 1) */
+  line: number;
+  message: string;
+  /** البديل المقترح (كود) */
+  suggestion?: string;
+}
+
+type TokenType = 'name' | 'keyword' | 'string' | 'number' | 'symbol' | 'comment';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+}
+
+type BlockKind = 'function' | 'if' | 'loop' | 'do' | 'repeat';
+
+interface Block {
+  kind: BlockKind;
+  /** موضع الـ token الذي فتح الكتلة */
+  index: number;
+  line: number;
+  /** دالة تُستدعى كل إطار (Heartbeat:Connect(function ...)) */
+  perFrame?: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** أسماء اللغة في كتل Markdown التي تُحلل */
+export const LUAU_LANGUAGES = new Set(['lua', 'luau']);
+
+/** أقل عدد أسطر كود ليُعتبر سكربتاً كاملاً (لقاعدة --!strict) */
+const MIN_SCRIPT_LINES = 5;
+
+const KEYWORDS = new Set([
+  'and', 'break', 'do', 'else', 'elseif', 'end', 'false', 'for', 'function', 'if',
+  'in', 'local', 'nil', 'not', 'or', 'repeat', 'return', 'then', 'true', 'until', 'while',
+]);
+
+/** الرموز متعددة الأحرف (الأطول أولاً) */
+const MULTI_CHAR_SYMBOLS = [
+  '...', '..=', '//=', '==', '~=', '<=', '>=', '+=', '-=', '*=', '/=', '%=', '^=', '..', '//', '->', '::',
+];
+
+const NAME_PATTERN = /[A-Za-z_][A-Za-z0-9_]*/y;
+const NUMBER_PATTERN = /0[xX][0-9a-fA-F_]+|0[bB][01_]+|(?:[0-9][0-9_]*(?:\.[0-9_]*)?|\.[0-9][0-9_]*)(?:[eE][+-]?[0-9]+)?/y;
+const DIRECTIVE_PATTERN = /^--!(strict|nonstrict|nocheck)\b/;
+
+/**
+ * tokens يأتي بعدها تعبير؛ if بعدها تعبير شرطي لا كتلة
+ */
+const EXPRESSION_CONTEXT = new Set([
+  '=', '(', ',', '{', '[', 'return', 'and', 'or', 'not', '..', '+', '-', '*', '/', '//', '%', '^',
+  '==', '~=', '<', '>', '<=', '>=', '+=', '-=', '*=', '/=', '//=', '%=', '^=', '..=',
+]);
+
+const LEGACY_SCHEDULER: Record<string, string> = {
+  wait: 'task.wait',
+  spawn: 'task.spawn',
+  delay: 'task.delay',
+};
+
+/** دوال عامة متقادمة → البديل */
+const DEPRECATED_GLOBALS: Record<string, string> = {
+  Game: 'game',
+  Workspace: 'workspace',
+  ypcall: 'pcall',
+  tick: 'os.clock',
+  elapsedTime: 'os.clock',
+};
+
+/** methods متقادمة (بعد :) → البديل */
+const DEPRECATED_METHODS: Record<string, string> = {
+  connect: 'Connect',
+  disconnect: 'Disconnect',
+  wait: 'Wait',
+  findFirstChild: 'FindFirstChild',
+  getChildren: 'GetChildren',
+  children: 'GetChildren',
+  clone: 'Clone',
+  destroy: 'Destroy',
+  remove: 'Destroy',
+  Remove: 'Destroy',
+  isA: 'IsA',
+  service: 'GetService',
+  getService: 'GetService',
+};
+
+/** بحث في الشجرة يُفضل تخزين نتيجته خارج الحلقة */
+const TREE_LOOKUPS = new Set([
+  'FindFirstChild',
+  'FindFirstChildOfClass',
+  'FindFirstChildWhichIsA',
+  'FindFirstAncestor',
+  'FindFirstAncestorOfClass',
+  'FindFirstAncestorWhichIsA',
+  'WaitForChild',
+]);
+
+/** أحداث تعمل كل إطار */
+const PER_FRAME_EVENTS = new Set([
+  'Heartbeat',
+  'RenderStepped',
+  'Stepped',
+  'PreRender',
+  'PreAnimation',
+  'PreSimulation',
+  'PostSimulation',
+]);
+
+/** دوال يُعتبر تمرير وسيط العميل إليها تحققاً منه */
+const VALIDATOR_CALLS = new Set(['typeof', 'type', 'tonumber', 'assert', 'clamp', 'find']);
+
+/** methods على الوسيط نفسه تُعتبر تحققاً */
+const VALIDATOR_METHODS = new Set(['IsA', 'IsDescendantOf']);
+
+/** tokens تبدأ عندها عبارة جديدة (حدود البحث عن شرط) */
+const STATEMENT_BOUNDARIES = new Set([
+  'then', 'do', 'end', 'else', 'local', 'return', 'function', 'repeat',
+  '=', '+=', '-=', '*=', '/=', '//=', '%=', '^=', '..=', ';',
+]);
+
+const CONDITION_KEYWORDS = new Set(['if', 'elseif', 'while', 'until']);
+
+const BLOCK_LABELS: Record<BlockKind, string> = {
+  function: 'function',
+  if: 'if',
+  loop: 'الحلقة',
+  do: 'do',
+  repeat: 'repeat',
+};
+
+const SEVERITY_ORDER: Record<LuauDiagnosticSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+// ============================================================================
+// TOKENIZER
+// ============================================================================
+
+/**
+ * مستوى القوس الطويل ([[ أو [==[) عند الموضع
+ *
+ * @returns عدد علامات = أو -1 إذا لم يكن قوساً طويلاً
+ */
+const longBracketLevel = (source: string, index: number): number => {
+  if (source[index] !== '[') return -1;
+  let level = 0;
+  while (source[index + 1 + level] === '=') level++;
+  return source[index + 1 + level] === '[' ? level : -1;
+};
+
+const countNewlines = (text: string) => {
+  let count = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') count++;
+  }
+  return count;
+};
+
+const tokenize = (source: string) => {
+  const tokens: Token[] = [];
+  const diagnostics: LuauDiagnostic[] = [];
+  let i = 0;
+  let line = 1;
+
+  /** نص بين قوسين طويلين (تعليق أو string) */
+  const readLong = (start: number, bracketAt: number, type: TokenType, label: string) => {
+    const level = longBracketLevel(source, bracketAt);
+    const close = `]${'='.repeat(level)}]`;
+    const end = source.indexOf(close, bracketAt);
+    if (end === -1) {
+      diagnostics.push({ rule: 'syntax', severity: 'error', line, message: `${label} غير مغلق` });
+    }
+    const value = source.slice(start, end === -1 ? source.length : end + close.length);
+    tokens.push({ type, value, line });
+    line += countNewlines(value);
+    i = start + value.length;
+  };
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (ch === '\n') {
+      line++;
+      i++;
+      continue;
+    }
+    if (ch === ' ' || ch === '\t' || ch === '\r') {
+      i++;
+      continue;
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // COMMENTS & STRINGS
+    // ─────────────────────────────────────────────────────────────────────────
+
+    if (source.startsWith('--', i)) {
+      if (longBracketLevel(source, i + 2) >= 0) {
+        readLong(i, i + 2, 'comment', 'تعليق متعدد الأسطر');
+      } else {
+        const end = source.indexOf('\n', i);
+        const value = source.slice(i, end === -1 ? source.length : end);
+        tokens.push({ type: 'comment', value, line });
+        i += value.length;
+      }
+      continue;
+    }
+
+    if (ch === '[' && longBracketLevel(source, i) >= 0) {
+      readLong(i, i, 'string', 'نص متعدد الأسطر');
+      continue;
+    }
+
+    if (ch === '"' || ch === "'" || ch === '`') {
+      let j = i + 1;
+      while (j < source.length && source[j] !== ch && source[j] !== '\n') {
+        j += source[j] === '\\' ? 2 : 1;
+      }
+      if (source[j] !== ch) {
+        diagnostics.push({ rule: 'syntax', severity: 'error', line, message: 'نص غير مغلق' });
+      }
+      tokens.push({ type: 'string', value: source.slice(i, j + 1), line });
+      i = source[j] === ch ? j + 1 : j;
+      continue;
+    }
+
+    // ─────────────────────────────────────────────────────────────────────────
+    // NAMES, NUMBERS & SYMBOLS
+    // ─────────────────────────────────────────────────────────────────────────
+
+    NAME_PATTERN.lastIndex = i;
+    const name = NAME_PATTERN.exec(source);
+    if (name) {
+      tokens.push({ type: KEYWORDS.has(name[0]) ? 'keyword' : 'name', value: name[0], line });
+      i += name[0].length;
+      continue;
+    }
+
+    NUMBER_PATTERN.lastIndex = i;
+    const number = NUMBER_PATTERN.exec(source);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], line });
+      i += number[0].length;
+      continue;
+    }
+
+    const symbol = MULTI_CHAR_SYMBOLS.find((s) => source.startsWith(s, i)) ?? ch;
+    tokens.push({ type: 'symbol', value: symbol, line });
+    i += symbol.length;
+  }
+
+  return { tokens, diagnostics };
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * if في موضع تعبير (local x = if a then b else c)
+ */
+const isIfExpression = (code: Token[], index: number) => {
+  const prev = code[index - 1];
+  return !!prev && EXPRESSION_CONTEXT.has(prev.value);
+};
+
+/**
+ * function ممررة لحدث يعمل كل إطار: RunService.Heartbeat:Connect(function
+ */
+const isPerFrameCallback = (code: Token[], index: number) =>
+  code[index - 1]?.value === '(' &&
+  code[index - 2]?.value === 'Connect' &&
+  code[index - 3]?.value === ':' &&
+  PER_FRAME_EVENTS.has(code[index - 4]?.value);
+
+const isMemberAccess = (code: Token[], index: number) => {
+  const prev = code[index - 1]?.value;
+  return prev === '.' || prev === ':';
+};
+
+const isCallAt = (code: Token[], index: number) => {
+  const next = code[index + 1];
+  return !!next && (next.value === '(' || next.value === '{' || next.type === 'string');
+};
+
+/**
+ * أسماء المعاملات بين ( و ) مع تجاهل الأنواع
+ *
+ * @returns الأسماء وموضع ) أو null إذا لم تبدأ بـ (
+ */
+const readParams = (code: Token[], open: number) => {
+  if (code[open]?.value !== '(') return null;
+
+  const names: string[] = [];
+  let depth = 0;
+  let expectName = true;
+  for (let i = open + 1; i < code.length; i++) {
+    const token = code[i];
+    if (token.value === '(' || token.value === '{') depth++;
+    else if (token.value === ')' || token.value === '}') {
+      if (depth === 0) return { names, close: i };
+      depth--;
+    } else if (depth === 0 && token.value === ',') {
+      expectName = true;
+    } else if (depth === 0 && expectName && (token.type === 'name' || token.value === '...')) {
+      names.push(token.value);
+      expectName = false;
+    }
+  }
+  return null;
+};
+
+// ============================================================================
+// REMOTE HANDLERS
+// ============================================================================
+
+/**
+ * موضع function التي تعالج OnServerEvent / OnServerInvoke
+ *
+ * @example
+ * remote.OnServerEvent:Connect(function(player, amount) ... end)
+ * remote.OnServerEvent:Connect(onPurchase)   -- تُبحث local function onPurchase
+ * remote.OnServerInvoke = function(player, id) ... end
+ */
+const findRemoteHandlers = (code: Token[]) => {
+  const handlers: { functionIndex: number; line: number }[] = [];
+
+  const findNamedFunction = (name: string) =>
+    code.findIndex((token, i) => token.value === 'function' && code[i + 1]?.value === name && code[i + 2]?.value === '(');
+
+  code.forEach((token, i) => {
+    let target = -1;
+    if (token.value === 'OnServerEvent' && code[i + 1]?.value === ':' && code[i + 2]?.value === 'Connect' && code[i + 3]?.value === '(') {
+      target = i + 4;
+    } else if (token.value === 'OnServerInvoke' && code[i + 1]?.value === '=') {
+      target = i + 2;
+    }
+    if (target === -1 || !code[target]) return;
+
+    if (code[target].value === 'function') {
+      handlers.push({ functionIndex: target, line: token.line });
+    } else if (code[target].type === 'name') {
+      const named = findNamedFunction(code[target].value);
+      if (named !== -1) handlers.push({ functionIndex: named, line: token.line });
+    }
+  });
+
+  return handlers;
+};
+
+/**
+ * هل الوسيط عند الموضع داخل تحقق؟
+ *
+ * @description
+ * تحقق = شرط if/elseif/while/until، أو وسيط مباشر لـ typeof/type/tonumber/
+ * assert/math.clamp/table.find، أو arg:IsA(...)
+ */
+const isGuarded = (code: Token[], index: number, bodyStart: number) => {
+  if (code[index + 1]?.value === ':' && VALIDATOR_METHODS.has(code[index + 2]?.value)) return true;
+
+  let depth = 0;
+  for (let i = index - 1; i > bodyStart; i--) {
+    const { value } = code[i];
+    if (value === ')') {
+      depth++;
+    } else if (value === '(') {
+      if (depth === 0 && VALIDATOR_CALLS.has(code[i - 1]?.value)) return true;
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0 && CONDITION_KEYWORDS.has(value)) {
+      return true;
+    } else if (depth === 0 && STATEMENT_BOUNDARIES.has(value)) {
+      return false;
+    }
+  }
+  return false;
+};
+
+const checkRemoteHandlers = (code: Token[], blockEnds: Map<number, number>): LuauDiagnostic[] => {
+  const diagnostics: LuauDiagnostic[] = [];
+
+  for (const { functionIndex, line } of findRemoteHandlers(code)) {
+    const open = code[functionIndex + 1]?.value === '(' ? functionIndex + 1 : functionIndex + 2;
+    const params = readParams(code, open);
+    if (!params) continue;
+
+    // المعامل الأول هو اللاعب (يضيفه المحرك ولا يمكن تزويره)
+    const clientArgs = params.names.slice(1);
+    const bodyEnd = blockEnds.get(functionIndex) ?? code.length;
+
+    const unchecked = clientArgs.filter((arg) => {
+      let used = false;
+      for (let i = params.close + 1; i < bodyEnd; i++) {
+        if (code[i].value !== arg || isMemberAccess(code, i)) continue;
+        if (isGuarded(code, i, params.close)) return false;
+        used = true;
+      }
+      return used;
+    });
+
+    if (unchecked.length > 0) {
+      diagnostics.push({
+        rule: 'unvalidated-remote',
+        severity: 'warning',
+        line,
+        message: `وسائط العميل تُستخدم دون تحقق: ${unchecked.join(', ')}. أي لاعب يستطيع إرسال أي قيمة`,
+        suggestion: `if typeof(${unchecked[0]}) ~= "number" then return end`,
+      });
+    }
+  }
+
+  return diagnostics;
+};
+
+// ============================================================================
+// ANALYZER
+// ============================================================================
+
+/**
+ * تحليل كود Luau
+ *
+ * @returns التشخيصات مرتبة بالسطر ثم الخطورة
+ *
+ * @example
+ * analyzeLuau('while true do\n  wait(1)\nend')
+ * // [{ rule: 'legacy-scheduler', severity: 'warning', line: 2, ... }]
+ */
+export const analyzeLuau = (source: string): LuauDiagnostic[] => {
+  const { tokens, diagnostics } = tokenize(source);
+  const code = tokens.filter((token) => token.type !== 'comment');
+  if (code.length === 0) return diagnostics;
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // DIRECTIVE (--!strict)
+  // ─────────────────────────────────────────────────────────────────────────
+
+  const leadingComments = tokens.slice(0, tokens.indexOf(code[0]));
+  const hasDirective = leadingComments.some((token) => DIRECTIVE_PATTERN.test(token.value));
+  const codeLines = new Set(code.map((token) => token.line)).size;
+  if (!hasDirective && codeLines >= MIN_SCRIPT_LINES) {
+    diagnostics.push({
+      rule: 'missing-strict',
+      severity: 'info',
+      line: 1,
+      message: 'السكربت لا يبدأ بـ --!strict؛ فحص الأنواع في Studio معطل',
+      suggestion: '--!strict',
+    });
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // WALK
+  // ─────────────────────────────────────────────────────────────────────────
+
+  const stack: Block[] = [];
+  const blockEnds = new Map<number, number>();
+  const declared = new Set<string>();
+  const loopLookupLines = new Set<number>();
+  let pendingLoopDo = false;
+
+  const isInLoop = () => stack.some((block) => block.kind === 'loop' || block.kind === 'repeat' || block.perFrame);
+
+  code.forEach((token, i) => {
+    const prev = code[i - 1];
+
+    if (token.type === 'keyword') {
+      switch (token.value) {
+        case 'function':
+          stack.push({ kind: 'function', index: i, line: token.line, perFrame: isPerFrameCallback(code, i) });
+          break;
+        case 'if':
+          if (!isIfExpression(code, i)) stack.push({ kind: 'if', index: i, line: token.line });
+          break;
+        case 'while':
+        case 'for':
+          stack.push({ kind: 'loop', index: i, line: token.line });
+          pendingLoopDo = true;
+          break;
+        case 'do':
+          if (pendingLoopDo) {
+            pendingLoopDo = false;
+          } else {
+            stack.push({ kind: 'do', index: i, line: token.line });
+          }
+          break;
+        case 'repeat':
+          stack.push({ kind: 'repeat', index: i, line: token.line });
+          break;
+        case 'until': {
+          const top = stack[stack.length - 1];
+          if (top?.kind === 'repeat') {
+            blockEnds.set(stack.pop().index, i);
+          } else {
+            diagnostics.push({ rule: 'unbalanced-end', severity: 'error', line: token.line, message: 'until بدون repeat مفتوحة' });
+          }
+          break;
+        }
+        case 'end': {
+          const top = stack[stack.length - 1];
+          if (top && top.kind !== 'repeat') {
+            blockEnds.set(stack.pop().index, i);
+          } else {
+            diagnostics.push({
+              rule: 'unbalanced-end',
+              severity: 'error',
+              line: token.line,
+              message: top ? 'end داخل repeat؛ الحلقة تُغلق بـ until' : 'end زائدة لا تغلق أي كتلة',
+            });
+          }
+          break;
+        }
+      }
+      return;
+    }
+
+    if (token.type !== 'name') return;
+
+    // local wait = task.wait / local function spawn() تُخفي الاسم العام
+    if (prev?.value === 'local' || prev?.value === 'function') {
+      declared.add(token.value);
+      return;
+    }
+
+    if (!isMemberAccess(code, i)) {
+      if (LEGACY_SCHEDULER[token.value] && isCallAt(code, i) && !declared.has(token.value)) {
+        diagnostics.push({
+          rule: 'legacy-scheduler',
+          severity: 'warning',
+          line: token.line,
+          message: `${token.value}() متقادمة ومقيدة بـ 30Hz؛ استخدم ${LEGACY_SCHEDULER[token.value]}()`,
+          suggestion: LEGACY_SCHEDULER[token.value],
+        });
+      } else if (DEPRECATED_GLOBALS[token.value] && !declared.has(token.value)) {
+        diagnostics.push({
+          rule: 'deprecated-api',
+          severity: 'warning',
+          line: token.line,
+          message: `${token.value} متقادمة؛ استخدم ${DEPRECATED_GLOBALS[token.value]}`,
+          suggestion: DEPRECATED_GLOBALS[token.value],
+        });
+      }
+      return;
+    }
+
+    if (prev.value !== ':') return;
+
+    if (DEPRECATED_METHODS[token.value]) {
+      diagnostics.push({
+        rule: 'deprecated-api',
+        severity: 'warning',
+        line: token.line,
+        message: `:${token.value}() متقادمة؛ استخدم :${DEPRECATED_METHODS[token.value]}()`,
+        suggestion: `:${DEPRECATED_METHODS[token.value]}(`,
+      });
+    } else if (TREE_LOOKUPS.has(token.value) && isInLoop() && !loopLookupLines.has(token.line)) {
+      loopLookupLines.add(token.line);
+      diagnostics.push({
+        rule: 'find-in-loop',
+        severity: 'warning',
+        line: token.line,
+        message: `:${token.value}() داخل حلقة تُنفذ كل مرة؛ خزّن المرجع في متغير قبل الحلقة`,
+      });
+    }
+  });
+
+  for (const block of stack) {
+    diagnostics.push({
+      rule: 'unbalanced-end',
+      severity: 'error',
+      line: block.line,
+      message: block.kind === 'repeat'
+        ? 'repeat بدون until'
+        : `${BLOCK_LABELS[block.kind]} في السطر ${block.line} بدون end`,
+    });
+  }
+
+  diagnostics.push(...checkRemoteHandlers(code, blockEnds));
+
+  return diagnostics.sort(
+    (a, b) => a.line - b.line || SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]
+  );
+};
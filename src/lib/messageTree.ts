@@ -0,0 +1,193 @@
+/**
+ * @fileoverview شجرة الرسائل والفروع - Message Tree
+ *
+ * @description
+ * كل محادثة تخزن رسائلها كعقد شجرة: كل رسالة تشير لأبيها عبر parentId.
+ * تعديل رسالة مستخدم أو إعادة توليد رد ينشئ أخاً جديداً (فرعاً)،
+ * والفرع المعروض يحدده activeLeafId في المحادثة.
+ *
+ * ```
+ * user A ─┬─ assistant 1
+ *         └─ assistant 2 ── user B ── assistant 3   ← activeLeafId
+ * ```
+ *
+ * @dependencies
+ * - @/stores/chatStore: الأنواع فقط
+ *
+ * @performance
+ * getActivePath مخزنة مؤقتاً حسب مرجع صفيف الرسائل حتى تعيد
+ * selectors المتجر نفس المرجع (منع re-renders في Zustand).
+ */
+
+import type { Conversation, Message } from '@/stores/chatStore';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * موقع الرسالة بين إخوتها
+ *
+ * @property index - ترتيبها بين الإخوة (يبدأ من 0)
+ * @property count - عدد الإخوة (شاملاً الرسالة نفسها)
+ * @property previousId - الأخ السابق (إن وُجد)
+ * @property nextId - الأخ التالي (إن وُجد)
+ */
+export interface SiblingPosition {
+  index: number;
+  count: number;
+  previousId?: string;
+  nextId?: string;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const toTime = (date: Date | string) => new Date(date).getTime();
+
+const byTimestamp = (a: Message, b: Message) => toTime(a.timestamp) - toTime(b.timestamp);
+
+/** نفس الأب، مع اعتبار undefined و null جذراً */
+const sameParent = (a: string | null | undefined, b: string | null | undefined) =>
+  (a ?? null) === (b ?? null);
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * أبناء رسالة (أو الجذور عند parentId = null) مرتبين زمنياً
+ */
+export const getChildren = (messages: Message[], parentId: string | null): Message[] =>
+  messages.filter((m) => sameParent(m.parentId, parentId)).sort(byTimestamp);
+
+/**
+ * المسار من الجذر حتى رسالة محددة (شاملاً إياها)
+ *
+ * @returns صفيف فارغ إذا لم تُوجد الرسالة
+ */
+export const getPathTo = (messages: Message[], messageId: string): Message[] => {
+  const byId = new Map(messages.map((m) => [m.id, m]));
+  const path: Message[] = [];
+  const visited = new Set<string>();
+
+  let current = byId.get(messageId);
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path.reverse();
+};
+
+/**
+ * أحدث ورقة تحت رسالة (باتباع أحدث ابن في كل مستوى)
+ *
+ * @param fromId - نقطة البداية، أو null للبدء من أحدث جذر
+ * @returns معرف الورقة، أو null إذا كانت المحادثة فارغة
+ *
+ * @usedBy
+ * - التبديل بين الفروع: الانتقال لأحدث نقطة في الفرع المختار
+ */
+export const findLatestLeaf = (messages: Message[], fromId: string | null): string | null => {
+  let currentId = fromId;
+
+  while (true) {
+    const children = getChildren(messages, currentId);
+    if (children.length === 0) return currentId;
+    currentId = children[children.length - 1].id;
+  }
+};
+
+/**
+ * مواقع رسائل المسار بين إخوتها (للتنقل "2 / 3")
+ *
+ * @param messages - كل عقد المحادثة
+ * @param path - الرسائل المعروضة
+ * @returns خريطة من معرف الرسالة إلى موقعها
+ *
+ * @performance
+ * تجميع واحد حسب الأب بدلاً من فلترة كل العقد لكل رسالة
+ * (تُستدعى مع كل تحديث أثناء البث)
+ */
+export const getSiblingPositions = (
+  messages: Message[],
+  path: Message[]
+): Map<string, SiblingPosition> => {
+  const byParent = new Map<string | null, Message[]>();
+  for (const message of messages) {
+    const key = message.parentId ?? null;
+    const group = byParent.get(key);
+    if (group) group.push(message);
+    else byParent.set(key, [message]);
+  }
+  byParent.forEach((group) => group.sort(byTimestamp));
+
+  const positions = new Map<string, SiblingPosition>();
+  for (const message of path) {
+    const siblings = byParent.get(message.parentId ?? null) ?? [message];
+    const index = siblings.findIndex((m) => m.id === message.id);
+    positions.set(message.id, {
+      index,
+      count: siblings.length,
+      previousId: siblings[index - 1]?.id,
+      nextId: siblings[index + 1]?.id,
+    });
+  }
+
+  return positions;
+};
+
+// ============================================================================
+// ACTIVE PATH
+// ============================================================================
+
+/** ذاكرة مؤقتة: صفيف الرسائل → (الورقة النشطة → المسار) */
+const activePathCache = new WeakMap<Message[], { leafId: string | null; path: Message[] }>();
+
+/**
+ * الرسائل المعروضة في المحادثة (الفرع النشط)
+ *
+ * @param conversation - المحادثة
+ * @returns نفس المرجع طالما لم تتغير الرسائل أو الفرع النشط
+ *
+ * @behavior
+ * - activeLeafId غير محدد أو محذوف: أحدث ورقة في الشجرة
+ */
+export const getActivePath = (conversation: Conversation): Message[] => {
+  const { messages } = conversation;
+  const requestedLeaf = conversation.activeLeafId ?? null;
+
+  const cached = activePathCache.get(messages);
+  if (cached && cached.leafId === requestedLeaf) return cached.path;
+
+  const leafExists = requestedLeaf !== null && messages.some((m) => m.id === requestedLeaf);
+  const leafId = leafExists ? requestedLeaf : findLatestLeaf(messages, null);
+  const path = leafId ? getPathTo(messages, leafId) : [];
+
+  activePathCache.set(messages, { leafId: requestedLeaf, path });
+  return path;
+};
+
+// ============================================================================
+// MIGRATION
+// ============================================================================
+
+/**
+ * تحويل قائمة رسائل خطية قديمة (بدون parentId) إلى سلسلة
+ *
+ * @description
+ * البيانات المحفوظة قبل دعم الفروع (localStorage أو صفوف الخادم)
+ * لا تحمل parentId؛ نربط كل رسالة بالتي قبلها بالترتيب الزمني.
+ * القوائم التي تحمل parentId بالفعل تُعاد كما هي.
+ */
+export const linkLinearMessages = (messages: Message[]): Message[] => {
+  if (messages.length < 2 || messages.some((m) => m.parentId)) return messages;
+
+  return [...messages].sort(byTimestamp).map((message, index, sorted) => ({
+    ...message,
+    parentId: index === 0 ? null : sorted[index - 1].id,
+  }));
+};
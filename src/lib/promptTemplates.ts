@@ -0,0 +1,260 @@
+/**
+ * @fileoverview قوالب الرسائل وأوامر "/" - Prompt Templates
+ *
+ * @description
+ * كتابة "/" في أول حقل الإدخال تفتح قائمة قوالب جاهزة (مدمجة + قوالب المستخدم).
+ * القالب نص فيه حقول {{اسم الحقل}} تُملأ قبل إدراجه في الحقل:
+ *
+ * ```
+ * /optimize ──► parseTemplateFields ──► TemplateFieldsDialog ──► fillTemplate ──► حقل الإدخال
+ * ```
+ *
+ * - الحقل الذي يقع وحده في سطره (كود، نص خطأ) يُعرض كمربع نص متعدد الأسطر
+ * - الحقل داخل جملة يُعرض كحقل سطر واحد
+ *
+ * @usedBy
+ * - ChatInput (الاختيار والإدراج)
+ * - PromptTemplatesDialog (إنشاء وتعديل قوالب المستخدم)
+ * - profileStore / supabaseProfile (التنظيف قبل الحفظ وبعد الجلب)
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * قالب رسالة
+ *
+ * @property command - اسم الأمر بدون "/" (أحرف إنجليزية صغيرة وأرقام و -)
+ * @property title - وصف قصير يظهر في القائمة
+ * @property body - نص الرسالة مع حقول {{...}}
+ */
+export interface PromptTemplate {
+  id: string;
+  command: string;
+  title: string;
+  body: string;
+}
+
+/**
+ * حقل يملؤه المستخدم
+ *
+ * @property multiline - الحقل وحده في سطره (كود، نص خطأ)
+ */
+export interface TemplateField {
+  name: string;
+  multiline: boolean;
+}
+
+// ============================================================================
+// LIMITS
+// ============================================================================
+
+export const PROMPT_TEMPLATE_LIMITS = {
+  templates: 30,
+  command: 32,
+  title: 80,
+  body: 4000,
+} as const;
+
+const COMMAND_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+const FIELD_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// ============================================================================
+// BUILT-IN TEMPLATES
+// ============================================================================
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'builtin:datastore',
+    command: 'datastore',
+    title: 'نظام حفظ بيانات اللاعبين',
+    body: [
+      'اكتب نظام حفظ بيانات باستخدام DataStoreService لـ {{ما الذي يُحفظ}}.',
+      'المطلوب: UpdateAsync داخل pcall مع إعادة المحاولة، الحفظ عند PlayerRemoving و BindToClose، وقفل الجلسة لمنع تكرار البيانات.',
+      'القيم الافتراضية للاعب الجديد:',
+      '{{الحقول وقيمها الافتراضية}}',
+    ].join('\n'),
+  },
+  {
+    id: 'builtin:remote-validate',
+    command: 'remote-validate',
+    title: 'تحقق الخادم من RemoteEvent',
+    body: [
+      'اكتب معالج OnServerEvent للـ RemoteEvent "{{اسم الـ Remote}}" الذي يرسل فيه العميل: {{الوسائط المرسلة}}.',
+      'تحقق من كل قيمة في الخادم: النوع، الحدود، المسافة من الشخصية، ومعدل الطلبات لكل لاعب. لا تثق بأي شيء من العميل.',
+    ].join('\n'),
+  },
+  {
+    id: 'builtin:explain-error',
+    command: 'explain-error',
+    title: 'شرح خطأ من نافذة Output',
+    body: [
+      'ظهر هذا الخطأ في Output أثناء {{ما الذي كنت تفعله}}:',
+      '```',
+      '{{نص الخطأ}}',
+      '```',
+      'اشرح سببه وأين أبحث عنه في الكود وكيف أصلحه.',
+    ].join('\n'),
+  },
+  {
+    id: 'builtin:optimize',
+    command: 'optimize',
+    title: 'تحسين أداء كود',
+    body: [
+      'حسّن أداء هذا الكود. المشكلة الملاحظة: {{المشكلة (تقطيع، ذاكرة، ...)}}.',
+      '```lua',
+      '{{الكود}}',
+      '```',
+      'اشرح كل تغيير وسبب تأثيره على الأداء.',
+    ].join('\n'),
+  },
+  {
+    id: 'builtin:convert-to-strict',
+    command: 'convert-to-strict',
+    title: 'تحويل سكربت إلى --!strict',
+    body: [
+      'حوّل هذا السكربت إلى --!strict: أضف type annotations للمتغيرات والدوال، وعرّف export type للجداول، وأصلح أي تحذيرات أنواع.',
+      '```lua',
+      '{{الكود}}',
+      '```',
+    ].join('\n'),
+  },
+];
+
+const BUILT_IN_COMMANDS = new Set(BUILT_IN_TEMPLATES.map((template) => template.command));
+
+export const isBuiltInTemplate = (template: PromptTemplate): boolean =>
+  template.id.startsWith('builtin:');
+
+// ============================================================================
+// FIELDS
+// ============================================================================
+
+/**
+ * حقول القالب بترتيب ظهورها (الاسم المكرر حقل واحد)
+ *
+ * @example
+ * parseTemplateFields('اشرح {{الخطأ}}\n{{الكود}}')
+ * // → [{ name: 'الخطأ', multiline: false }, { name: 'الكود', multiline: true }]
+ */
+export const parseTemplateFields = (body: string): TemplateField[] => {
+  const fields = new Map<string, TemplateField>();
+
+  for (const line of body.split('\n')) {
+    const standalone = /^\s*\{\{[^{}]+\}\}\s*$/.test(line);
+    for (const match of line.matchAll(FIELD_PATTERN)) {
+      const name = match[1];
+      const existing = fields.get(name);
+      if (existing) {
+        if (standalone) existing.multiline = true;
+      } else {
+        fields.set(name, { name, multiline: standalone });
+      }
+    }
+  }
+
+  return [...fields.values()];
+};
+
+/**
+ * استبدال الحقول بالقيم (الحقل بلا قيمة يبقى كما هو ليراه المستخدم)
+ */
+export const fillTemplate = (body: string, values: Record<string, string>): string =>
+  body.replace(FIELD_PATTERN, (placeholder, name: string) => {
+    const value = values[name]?.trim();
+    return value ? value : placeholder;
+  });
+
+// ============================================================================
+// SLASH COMMANDS
+// ============================================================================
+
+/**
+ * نص البحث إذا كان الحقل كله أمر "/" قيد الكتابة
+ *
+ * @returns ما بعد "/" (قد يكون '')، أو null إذا لم يكن أمراً
+ *
+ * @example
+ * getSlashQuery('/opt')      // → 'opt'
+ * getSlashQuery('/opt code') // → null (المستخدم يكتب رسالة عادية)
+ */
+export const getSlashQuery = (input: string): string | null => {
+  const match = /^\/([a-z0-9-]*)$/i.exec(input);
+  return match ? match[1].toLowerCase() : null;
+};
+
+/**
+ * القوالب المطابقة: بداية اسم الأمر أولاً ثم ما يحتويه في الاسم أو الوصف
+ */
+export const matchTemplates = (templates: PromptTemplate[], query: string): PromptTemplate[] => {
+  if (!query) return templates;
+
+  const prefix: PromptTemplate[] = [];
+  const contains: PromptTemplate[] = [];
+  for (const template of templates) {
+    if (template.command.startsWith(query)) prefix.push(template);
+    else if (template.command.includes(query) || template.title.toLowerCase().includes(query)) {
+      contains.push(template);
+    }
+  }
+  return [...prefix, ...contains];
+};
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+/**
+ * تحويل ما يكتبه المستخدم إلى اسم أمر صالح
+ *
+ * @example
+ * toTemplateCommand('/My Tween') // → 'my-tween'
+ */
+export const toTemplateCommand = (input: string): string =>
+  input
+    .trim()
+    .toLowerCase()
+    .replace(/^\/+/, '')
+    .replace(/[\s_]+/g, '-')
+    .replace(/[^a-z0-9-]/g, '')
+    .replace(/^-+/, '')
+    .slice(0, PROMPT_TEMPLATE_LIMITS.command);
+
+/**
+ * تنظيف قوالب المستخدم (من الخادم أو قبل الحفظ)
+ *
+ * @behavior
+ * - يحذف القوالب الناقصة أو ذات الأمر غير الصالح
+ * - يحذف القالب الذي يستخدم أمر قالب مدمج، والأمر المكرر يبقى أوله فقط
+ * - يطبق حدود الطول والعدد
+ */
+export const normalizePromptTemplates = (input: unknown): PromptTemplate[] => {
+  if (!Array.isArray(input)) return [];
+
+  const commands = new Set(BUILT_IN_COMMANDS);
+  const templates: PromptTemplate[] = [];
+
+  for (const item of input) {
+    if (templates.length >= PROMPT_TEMPLATE_LIMITS.templates) break;
+    if (!item || typeof item !== 'object') continue;
+
+    const { id, command, title, body } = item as Partial<PromptTemplate>;
+    if (typeof id !== 'string' || typeof command !== 'string' || typeof body !== 'string') continue;
+
+    const cleanCommand = command.slice(0, PROMPT_TEMPLATE_LIMITS.command);
+    const cleanBody = body.trim().slice(0, PROMPT_TEMPLATE_LIMITS.body);
+    if (!COMMAND_PATTERN.test(cleanCommand) || commands.has(cleanCommand) || !cleanBody) continue;
+
+    commands.add(cleanCommand);
+    templates.push({
+      id,
+      command: cleanCommand,
+      title: (typeof title === 'string' ? title.trim() : '').slice(0, PROMPT_TEMPLATE_LIMITS.title),
+      body: cleanBody,
+    });
+  }
+
+  return templates;
+};
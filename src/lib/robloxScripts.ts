@@ -0,0 +1,346 @@
+/**
+ * @fileoverview تصدير السكربتات لـ Roblox - Roblox Script Export
+ *
+ * @description
+ * يحوّل كتل ```lua في رد المساعد إلى ملفات تُفتح مباشرة:
+ *
+ * | التنسيق   | الناتج                                                         |
+ * |----------|----------------------------------------------------------------|
+ * | rbxmx    | نموذج XML يُسحب إلى Studio (Folder لكل خدمة وبداخله السكربتات)    |
+ * | rojo     | ZIP فيه default.project.json و src/<Service>/<Name>.server.lua   |
+ *
+ * نوع السكربت ومكانه يُقرآن من سطر المسار الذي يطلبه الـ system prompt
+ * في أعلى كل سكربت:
+ *
+ * ```lua
+ * --!strict
+ * -- ServerScriptService/Systems/DataManager.server.lua
+ * ```
+ *
+ * @algorithm
+ * 1. المسار: أول خدمة معروفة في تعليقات الرأس وما بعدها (/ أو > أو .)
+ * 2. النوع: لاحقة .server.lua / .client.lua / .lua، أو كلمة Script / LocalScript /
+ *    ModuleScript في الرأس، أو الخدمة، أو الكود نفسه (return في النهاية = ModuleScript)
+ * 3. الخدمة إن لم تُذكر: حسب النوع
+ *
+ * @usedBy
+ * - ScriptExportMenu (كتلة واحدة أو كل كتل الرسالة)
+ */
+
+import { createZip, type ZipEntry } from '@/lib/zip';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RobloxScriptClass = 'Script' | 'LocalScript' | 'ModuleScript';
+
+export type ScriptExportFormat = 'rbxmx' | 'rojo';
+
+/**
+ * سكربت جاهز للتصدير
+ *
+ * @property parent - المسار من الخدمة (مثل ['ServerScriptService', 'Systems'])
+ */
+export interface RobloxScript {
+  className: RobloxScriptClass;
+  name: string;
+  parent: string[];
+  source: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SERVICES = [
+  'ServerScriptService',
+  'ServerStorage',
+  'ReplicatedStorage',
+  'ReplicatedFirst',
+  'StarterPlayerScripts',
+  'StarterCharacterScripts',
+  'StarterPlayer',
+  'StarterGui',
+  'StarterPack',
+  'Workspace',
+];
+
+/** خدمة ثم أجزاء المسار؛ اللاحقة (.server.lua) تُلتقط كأجزاء ثم تُفصل */
+const HEADER_PATH = new RegExp(
+  `\\b(?:${SERVICES.join('|')})\\b(?:\\s*(?:/|>|\\.)\\s*[A-Za-z_][A-Za-z0-9_]*)*`
+);
+
+const PATH_SUFFIX = /\.(server|client)\.luau?$|\.luau?$/;
+const HEADER_CLASS = /\b(LocalScript|ModuleScript|Script)\b/;
+
+/** حاويات داخل StarterPlayer */
+const STARTER_PLAYER_CHILDREN = new Set(['StarterPlayerScripts', 'StarterCharacterScripts']);
+
+const CLASS_BY_SERVICE: Record<string, RobloxScriptClass> = {
+  ServerScriptService: 'Script',
+  Workspace: 'Script',
+  ServerStorage: 'ModuleScript',
+  ReplicatedStorage: 'ModuleScript',
+  ReplicatedFirst: 'LocalScript',
+  StarterPlayer: 'LocalScript',
+  StarterGui: 'LocalScript',
+  StarterPack: 'LocalScript',
+};
+
+const PARENT_BY_CLASS: Record<RobloxScriptClass, string[]> = {
+  Script: ['ServerScriptService'],
+  LocalScript: ['StarterPlayer', 'StarterPlayerScripts'],
+  ModuleScript: ['ReplicatedStorage'],
+};
+
+const ROJO_EXTENSIONS: Record<RobloxScriptClass, string> = {
+  Script: '.server.lua',
+  LocalScript: '.client.lua',
+  ModuleScript: '.lua',
+};
+
+/** كود يعمل على العميل فقط */
+const CLIENT_ONLY = /\b(LocalPlayer|PlayerGui|UserInputService|ContextActionService)\b/;
+
+/** ModuleScript يعيد جدولاً في آخر سطر */
+const MODULE_RETURN = /^\s*return\s+([A-Za-z_][A-Za-z0-9_]*)\s*;?\s*$/;
+
+// ============================================================================
+// INFERENCE
+// ============================================================================
+
+/**
+ * تعليقات أعلى السكربت (بعد --!strict)
+ */
+const headerLines = (source: string) => {
+  const lines: string[] = [];
+  for (const line of source.split('\n')) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('--!')) continue;
+    if (!trimmed.startsWith('--')) break;
+    lines.push(trimmed.replace(/^--+\s*/, ''));
+  }
+  return lines;
+};
+
+const lastCodeLine = (source: string) => {
+  const lines = source.trimEnd().split('\n');
+  return lines[lines.length - 1] ?? '';
+};
+
+/**
+ * قراءة نوع السكربت ومكانه
+ *
+ * @returns السكربت و hasHeader إذا وُجد مسار صريح
+ *
+ * @example
+ * inferScript('-- ServerScriptService/Main.server.lua\nprint(1)')
+ * // { script: { className: 'Script', name: 'Main', parent: ['ServerScriptService'], ... }, hasHeader: true }
+ */
+export const inferScript = (source: string): { script: RobloxScript; hasHeader: boolean } => {
+  const header = headerLines(source);
+  let segments: string[] = [];
+  let className: RobloxScriptClass | undefined;
+
+  for (const line of header) {
+    const path = HEADER_PATH.exec(line)?.[0];
+    if (!path) continue;
+
+    const suffix = PATH_SUFFIX.exec(path);
+    if (suffix) {
+      className = suffix[1] === 'server' ? 'Script' : suffix[1] === 'client' ? 'LocalScript' : 'ModuleScript';
+    }
+    segments = path.slice(0, suffix ? suffix.index : path.length).split(/\s*(?:\/|>|\.)\s*/).filter(Boolean);
+    break;
+  }
+
+  const hasHeader = segments.length > 0;
+  className ??= header.map((line) => HEADER_CLASS.exec(line)?.[1]).find(Boolean) as RobloxScriptClass | undefined;
+
+  // StarterPlayerScripts/X → StarterPlayer/StarterPlayerScripts/X
+  if (STARTER_PLAYER_CHILDREN.has(segments[0])) segments.unshift('StarterPlayer');
+
+  const moduleName = MODULE_RETURN.exec(lastCodeLine(source))?.[1];
+  className ??= hasHeader
+    ? CLASS_BY_SERVICE[segments[0]]
+    : moduleName ? 'ModuleScript' : CLIENT_ONLY.test(source) ? 'LocalScript' : 'Script';
+  className ??= 'Script';
+
+  // آخر جزء هو الاسم، إلا إذا كان المسار خدمة/حاوية فقط
+  const isContainerOnly = segments.length === 1 || (segments[0] === 'StarterPlayer' && segments.length === 2);
+  const name = hasHeader && !isContainerOnly ? segments.pop() : moduleName ?? className;
+  const parent = hasHeader ? segments : PARENT_BY_CLASS[className];
+
+  return { script: { className, name, parent, source }, hasHeader };
+};
+
+/**
+ * السكربتات من كتل Luau
+ *
+ * @description
+ * إذا حملت بعض الكتل سطر مسار، فالبقية أمثلة استخدام ولا تُصدَّر
+ * الأسماء المكررة في نفس المكان تحصل على لاحقة رقمية
+ */
+export const collectScripts = (sources: string[]): RobloxScript[] => {
+  const inferred = sources.filter((source) => source.trim()).map(inferScript);
+  const selected = inferred.some((item) => item.hasHeader)
+    ? inferred.filter((item) => item.hasHeader)
+    : inferred;
+
+  const used = new Map<string, number>();
+  return selected.map(({ script }) => {
+    const key = [...script.parent, script.name].join('/');
+    const count = used.get(key) ?? 0;
+    used.set(key, count + 1);
+    return count === 0 ? script : { ...script, name: `${script.name}${count + 1}` };
+  });
+};
+
+// ============================================================================
+// RBXMX
+// ============================================================================
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** ]]> لا يمكن أن تظهر داخل CDATA فتُقسم */
+const toCdata = (text: string) => `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+
+interface FolderNode {
+  folders: Map<string, FolderNode>;
+  scripts: RobloxScript[];
+}
+
+/**
+ * نموذج .rbxmx
+ *
+ * @description
+ * سكربت واحد يكون جذر النموذج؛ عدة سكربتات تُرتب في Folders بأسماء
+ * الخدمات والمجلدات لتُنقل لمكانها بعد الإدراج في Studio
+ */
+export const toRbxmx = (scripts: RobloxScript[]): string => {
+  let referent = 0;
+  const indent = (depth: number) => '  '.repeat(depth);
+
+  const item = (className: string, name: string, depth: number, body: string[], source?: string) => {
+    const ref = `RBX${(referent++).toString(16).toUpperCase().padStart(8, '0')}`;
+    return [
+      `${indent(depth)}<Item class="${className}" referent="${ref}">`,
+      `${indent(depth + 1)}<Properties>`,
+      `${indent(depth + 2)}<string name="Name">${escapeXml(name)}</string>`,
+      ...(source !== undefined
+        ? [`${indent(depth + 2)}<ProtectedString name="Source">${toCdata(source)}</ProtectedString>`]
+        : []),
+      `${indent(depth + 1)}</Properties>`,
+      ...body,
+      `${indent(depth)}</Item>`,
+    ].join('\n');
+  };
+
+  const scriptItem = (script: RobloxScript, depth: number) =>
+    item(script.className, script.name, depth, [], script.source);
+
+  const folderItems = (node: FolderNode, depth: number): string[] => [
+    ...[...node.folders].map(([name, child]) => item('Folder', name, depth, folderItems(child, depth + 1))),
+    ...node.scripts.map((script) => scriptItem(script, depth)),
+  ];
+
+  let body: string[];
+  if (scripts.length === 1) {
+    body = [scriptItem(scripts[0], 1)];
+  } else {
+    const root: FolderNode = { folders: new Map(), scripts: [] };
+    for (const script of scripts) {
+      let node = root;
+      for (const segment of script.parent) {
+        if (!node.folders.has(segment)) node.folders.set(segment, { folders: new Map(), scripts: [] });
+        node = node.folders.get(segment);
+      }
+      node.scripts.push(script);
+    }
+    body = folderItems(root, 1);
+  }
+
+  return [
+    '<roblox xmlns:xmime="http://www.w3.org/2005/05/xmlmime" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:noNamespaceSchemaLocation="http://www.roblox.com/roblox.xsd" version="4">',
+    ...body,
+    '</roblox>',
+    '',
+  ].join('\n');
+};
+
+// ============================================================================
+// ROJO
+// ============================================================================
+
+const toFileSegment = (name: string) => name.replace(/[^A-Za-z0-9_-]+/g, '_') || 'Script';
+
+/**
+ * ملفات مشروع Rojo
+ *
+ * @structure
+ * ```
+ * default.project.json
+ * src/ServerScriptService/Main.server.lua
+ * src/StarterPlayer/StarterPlayerScripts/Input.client.lua
+ * src/ReplicatedStorage/Config.lua
+ * ```
+ *
+ * @note
+ * حاويات StarterPlayer موجودة مسبقاً فتُربط كل واحدة بـ $path وحدها
+ */
+export const toRojoEntries = (scripts: RobloxScript[], projectName: string): ZipEntry[] => {
+  const tree: Record<string, unknown> = { $className: 'DataModel' };
+
+  for (const { parent } of scripts) {
+    const [service, child] = parent;
+    if (service === 'StarterPlayer' && STARTER_PLAYER_CHILDREN.has(child)) {
+      const starterPlayer = (tree.StarterPlayer ??= {}) as Record<string, unknown>;
+      starterPlayer[child] = { $path: `src/StarterPlayer/${child}` };
+    } else {
+      tree[service] ??= { $path: `src/${service}` };
+    }
+  }
+
+  const project = { name: projectName, tree };
+
+  return [
+    { name: 'default.project.json', content: `${JSON.stringify(project, null, 2)}\n` },
+    ...scripts.map((script) => ({
+      name: [
+        'src',
+        ...script.parent.map(toFileSegment),
+        `${toFileSegment(script.name)}${ROJO_EXTENSIONS[script.className]}`,
+      ].join('/'),
+      content: script.source.endsWith('\n') ? script.source : `${script.source}\n`,
+    })),
+  ];
+};
+
+// ============================================================================
+// ENTRY POINT
+// ============================================================================
+
+/**
+ * ملف التصدير
+ *
+ * @description
+ * الاسم من السكربت إذا كان وحيداً، وإلا RobloxScripts (وهو أيضاً اسم مشروع Rojo)
+ */
+export const exportScripts = (
+  scripts: RobloxScript[],
+  format: ScriptExportFormat
+): { blob: Blob; fileName: string } => {
+  const baseName = scripts.length === 1 ? toFileSegment(scripts[0].name) : 'RobloxScripts';
+
+  return format === 'rbxmx'
+    ? {
+        blob: new Blob([toRbxmx(scripts)], { type: 'application/xml' }),
+        fileName: `${baseName}.rbxmx`,
+      }
+    : {
+        blob: new Blob([createZip(toRojoEntries(scripts, baseName))], { type: 'application/zip' }),
+        fileName: `${baseName}-rojo.zip`,
+      };
+};
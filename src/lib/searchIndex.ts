@@ -0,0 +1,362 @@
+/**
+ * @fileoverview فهرس البحث في الرسائل - Message Search Index
+ *
+ * @description
+ * فهرس مقلوب (token → رسائل) يُحدَّث تدريجياً مع كل تعديل في المتجر،
+ * بدلاً من المرور على كل الرسائل مع كل ضغطة مفتاح.
+ *
+ * ```
+ * chatStore.addMessage / updateMessage / deleteMessage ...
+ *        ↓
+ * searchIndex.indexMessage / removeMessage
+ *        ↓
+ * search("كود") → [{ conversationId, messageId, score, snippet }]
+ * ```
+ *
+ * @normalization
+ * - إزالة التشكيل والتطويل
+ * - أ إ آ ٱ → ا
+ * - ى ی → ي، ة → ه
+ * - أحرف لاتينية صغيرة
+ *
+ * @algorithm
+ * - كل كلمة في البحث تطابق بداية كلمة في الرسالة (بحث أثناء الكتابة)
+ * - يجب أن تطابق الرسالة كل كلمات البحث
+ * - الترتيب: tf-idf مع وزن أعلى للمطابقة الكاملة، ثم الأحدث
+ *
+ * @usedBy
+ * - chatStore: تحديث الفهرس
+ * - ConversationSidebar: نتائج البحث
+ */
+
+import type { Message } from '@/stores/chatStore';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** التشكيل وعلامات المصحف والتطويل */
+const IGNORED_CHARS = /[\u0610-\u061A\u064B-\u065F\u0670\u06D6-\u06ED\u0640]/;
+
+const CHAR_MAP: Record<string, string> = {
+  'أ': 'ا',
+  'إ': 'ا',
+  'آ': 'ا',
+  'ٱ': 'ا',
+  'ى': 'ي',
+  'ی': 'ي',
+  'ة': 'ه',
+};
+
+const TOKEN_SEPARATOR = /[^\p{L}\p{N}]+/u;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/** وزن مطابقة بداية الكلمة مقارنة بالمطابقة الكاملة */
+const PREFIX_WEIGHT = 0.5;
+
+/** عدد الأحرف حول أول تطابق في المقتطف */
+const SNIPPET_RADIUS = 60;
+
+const ELLIPSIS = '…';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * مقتطف نتيجة مع مواضع التظليل
+ *
+ * @property highlights - [بداية، نهاية) داخل text
+ */
+export interface SearchSnippet {
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+export interface SearchHit {
+  conversationId: string;
+  messageId: string;
+  role: Message['role'];
+  timestamp: Date;
+  score: number;
+  snippet: SearchSnippet;
+}
+
+export interface SearchIndex {
+  /** إضافة رسالة أو تحديثها (الرسائل قيد البث تُفهرس عند انتهائها) */
+  indexMessage: (conversationId: string, message: Message) => void;
+  removeMessage: (messageId: string) => void;
+  removeConversation: (conversationId: string) => void;
+  /** إعادة البناء من الصفر (بعد التحميل أو الدمج مع الخادم) */
+  rebuild: (conversations: Array<{ id: string; messages: Message[] }>) => void;
+  search: (query: string, limit?: number) => SearchHit[];
+  /** عدد الرسائل المفهرسة */
+  size: () => number;
+}
+
+interface IndexedMessage {
+  conversationId: string;
+  role: Message['role'];
+  content: string;
+  timestamp: Date;
+  terms: Map<string, number>;
+}
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+/**
+ * توحيد النص مع موضع كل حرف ناتج في النص الأصلي
+ * (لتظليل المقتطف في النص الأصلي بعد البحث في النص الموحد)
+ */
+const normalizeWithOffsets = (text: string) => {
+  let normalized = '';
+  const offsets: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (IGNORED_CHARS.test(char)) continue;
+    const mapped = (CHAR_MAP[char] ?? char).toLowerCase();
+    for (let j = 0; j < mapped.length; j++) {
+      normalized += mapped[j];
+      offsets.push(i);
+    }
+  }
+
+  return { normalized, offsets };
+};
+
+/**
+ * @example
+ * normalizeArabic('إِضَافَة') // "اضافه"
+ */
+export const normalizeArabic = (text: string): string => normalizeWithOffsets(text).normalized;
+
+/**
+ * @example
+ * tokenize('أضف Part جديد!') // ["اضف", "part", "جديد"]
+ */
+export const tokenize = (text: string): string[] =>
+  normalizeArabic(text)
+    .split(TOKEN_SEPARATOR)
+    .filter((token) => token.length > 0);
+
+const countTerms = (content: string) => {
+  const terms = new Map<string, number>();
+  for (const token of tokenize(content)) {
+    terms.set(token, (terms.get(token) ?? 0) + 1);
+  }
+  return terms;
+};
+
+// ============================================================================
+// SNIPPET
+// ============================================================================
+
+/**
+ * مقتطف حول أول تطابق مع تظليل كل التطابقات داخله
+ *
+ * @param terms - كلمات البحث بعد التوحيد
+ */
+export const buildSnippet = (
+  content: string,
+  terms: string[],
+  radius = SNIPPET_RADIUS
+): SearchSnippet => {
+  const { normalized, offsets } = normalizeWithOffsets(content);
+  const ranges: Array<[number, number]> = [];
+
+  for (const term of terms) {
+    let index = normalized.indexOf(term);
+    while (index !== -1) {
+      // بداية كلمة فقط، مثل المطابقة في الفهرس
+      if (index === 0 || !WORD_CHAR.test(normalized[index - 1])) {
+        ranges.push([offsets[index], offsets[index + term.length - 1] + 1]);
+      }
+      index = normalized.indexOf(term, index + 1);
+    }
+  }
+
+  if (ranges.length === 0) {
+    const end = Math.min(content.length, radius * 2);
+    return {
+      text: content.slice(0, end) + (end < content.length ? ELLIPSIS : ''),
+      highlights: [],
+    };
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const start = Math.max(0, ranges[0][0] - radius);
+  const end = Math.min(content.length, ranges[0][1] + radius);
+  const prefix = start > 0 ? ELLIPSIS : '';
+
+  const highlights: Array<[number, number]> = [];
+  for (const [from, to] of ranges) {
+    if (from < start || to > end) continue;
+    const shifted: [number, number] = [from - start + prefix.length, to - start + prefix.length];
+    const last = highlights[highlights.length - 1];
+    if (last && shifted[0] <= last[1]) {
+      last[1] = Math.max(last[1], shifted[1]);
+    } else {
+      highlights.push(shifted);
+    }
+  }
+
+  return {
+    text: prefix + content.slice(start, end) + (end < content.length ? ELLIPSIS : ''),
+    highlights,
+  };
+};
+
+// ============================================================================
+// INDEX
+// ============================================================================
+
+/**
+ * إنشاء فهرس فارغ
+ *
+ * @example
+ * const index = createSearchIndex();
+ * index.indexMessage(conversation.id, message);
+ * index.search('RemoteEvent');
+ */
+export const createSearchIndex = (): SearchIndex => {
+  const messages = new Map<string, IndexedMessage>();
+  const postings = new Map<string, Map<string, number>>();
+  const byConversation = new Map<string, Set<string>>();
+
+  const removeMessage = (messageId: string) => {
+    const indexed = messages.get(messageId);
+    if (!indexed) return;
+
+    indexed.terms.forEach((_, term) => {
+      const posting = postings.get(term);
+      posting?.delete(messageId);
+      if (posting?.size === 0) postings.delete(term);
+    });
+    byConversation.get(indexed.conversationId)?.delete(messageId);
+    messages.delete(messageId);
+  };
+
+  const indexMessage = (conversationId: string, message: Message) => {
+    if (message.isStreaming) return;
+
+    const existing = messages.get(message.id);
+    if (existing && existing.content === message.content && existing.conversationId === conversationId) {
+      existing.role = message.role;
+      existing.timestamp = new Date(message.timestamp);
+      return;
+    }
+
+    removeMessage(message.id);
+    const terms = countTerms(message.content);
+    if (terms.size === 0) return;
+
+    messages.set(message.id, {
+      conversationId,
+      role: message.role,
+      content: message.content,
+      timestamp: new Date(message.timestamp),
+      terms,
+    });
+    terms.forEach((count, term) => {
+      let posting = postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        postings.set(term, posting);
+      }
+      posting.set(message.id, count);
+    });
+
+    let ids = byConversation.get(conversationId);
+    if (!ids) {
+      ids = new Set();
+      byConversation.set(conversationId, ids);
+    }
+    ids.add(message.id);
+  };
+
+  const removeConversation = (conversationId: string) => {
+    const ids = byConversation.get(conversationId);
+    if (!ids) return;
+    Array.from(ids).forEach(removeMessage);
+    byConversation.delete(conversationId);
+  };
+
+  const rebuild: SearchIndex['rebuild'] = (conversations) => {
+    messages.clear();
+    postings.clear();
+    byConversation.clear();
+    for (const conversation of conversations) {
+      conversation.messages.forEach((message) => indexMessage(conversation.id, message));
+    }
+  };
+
+  /**
+   * نقاط كلمة بحث واحدة لكل رسالة تحتوي كلمة تبدأ بها
+   */
+  const scoreTerm = (term: string) => {
+    const scores = new Map<string, number>();
+    postings.forEach((posting, token) => {
+      if (!token.startsWith(term)) return;
+      const weight = token === term ? 1 : PREFIX_WEIGHT;
+      const idf = Math.log(1 + messages.size / posting.size);
+      posting.forEach((count, messageId) => {
+        scores.set(messageId, (scores.get(messageId) ?? 0) + weight * idf * (1 + Math.log(count)));
+      });
+    });
+    return scores;
+  };
+
+  const search: SearchIndex['search'] = (query, limit = 50) => {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return [];
+
+    let scores: Map<string, number> | null = null;
+    for (const term of terms) {
+      const termScores = scoreTerm(term);
+      if (scores === null) {
+        scores = termScores;
+      } else {
+        const combined = new Map<string, number>();
+        scores.forEach((score, messageId) => {
+          const termScore = termScores.get(messageId);
+          if (termScore !== undefined) combined.set(messageId, score + termScore);
+        });
+        scores = combined;
+      }
+      if (scores.size === 0) return [];
+    }
+
+    return Array.from(scores.entries())
+      .map(([messageId, score]) => ({ messageId, score, indexed: messages.get(messageId) }))
+      .sort(
+        (a, b) =>
+          b.score - a.score || b.indexed.timestamp.getTime() - a.indexed.timestamp.getTime()
+      )
+      .slice(0, limit)
+      .map(({ messageId, score, indexed }) => ({
+        conversationId: indexed.conversationId,
+        messageId,
+        role: indexed.role,
+        timestamp: indexed.timestamp,
+        score,
+        snippet: buildSnippet(indexed.content, terms),
+      }));
+  };
+
+  return {
+    indexMessage,
+    removeMessage,
+    removeConversation,
+    rebuild,
+    search,
+    size: () => messages.size,
+  };
+};
+
+/**
+ * فهرس التطبيق (يحدّثه chatStore)
+ */
+export const searchIndex = createSearchIndex();
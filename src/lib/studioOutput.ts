@@ -0,0 +1,68 @@
+/**
+ * @fileoverview سجل Studio Output في الرسائل - Studio Output Messages
+ *
+ * @description
+ * رسالة المستخدم تحفظ السجل الملصق منفصلاً عن نصها (message.studioOutput)
+ * حتى تعرض الواجهة ملخصاً بدل النص الكامل. عند الإرسال:
+ * - آخر السجل (STUDIO_OUTPUT_LIMITS.raw) يُلحق بمحتوى الرسالة (الحالية والسجل السابق)؛
+ *   النص الكامل يبقى في الرسالة للعرض والتصدير ودمج لصق ثانٍ
+ * - الأخطاء المنظمة تُرسل مع الطلب فيبني الخادم تعليمات التشخيص
+ *   (buildStudioOutputPrompt في @shared/studioOutput)
+ *
+ * @usedBy
+ * - ChatInput: نص الرسالة الافتراضي
+ * - useChat: محتوى رسالة المستخدم وجسم الطلب
+ * - contextBuilder: رسائل السجل وتقدير الـ tokens
+ * - conversationExport: تصدير Markdown
+ */
+
+import type { Message } from '@/stores/chatStore';
+import { STUDIO_OUTPUT_LIMITS, type StudioOutputLog } from '@shared/studioOutput';
+import { fenceFor } from '@/lib/codeBlocks';
+
+/**
+ * نص الرسالة إذا أُرسل السجل بدون سؤال
+ */
+export const STUDIO_OUTPUT_DEFAULT_PROMPT = 'ما سبب هذه الأخطاء وكيف أصلحها؟';
+
+/**
+ * آخر السجل ضمن حد الإرسال (الأخطاء الأحدث في نهايته)
+ *
+ * @returns السجل كما هو إن لم يتجاوز الحد، وإلا "…" ثم آخره بدءاً من سطر كامل
+ */
+export const clipStudioOutputRaw = (raw: string): string => {
+  if (raw.length <= STUDIO_OUTPUT_LIMITS.raw) return raw;
+
+  const tail = raw.slice(-STUDIO_OUTPUT_LIMITS.raw);
+  const lineStart = tail.indexOf('\n');
+  return `…\n${lineStart >= 0 ? tail.slice(lineStart + 1) : tail}`;
+};
+
+/**
+ * نص الرسالة مع السجل الملصق في كتلة text
+ *
+ * @param clip - قص السجل لما يُرسل للخادم (العرض والتصدير بالنص الكامل)
+ *
+ * @example
+ * withStudioOutput({ content: 'لماذا يحدث هذا؟', studioOutput }, { clip: true })
+ * // 'لماذا يحدث هذا؟\n\n**سجل Studio Output:**\n```text\n...\n```'
+ */
+export const withStudioOutput = (
+  { content, studioOutput }: Pick<Message, 'content' | 'studioOutput'>,
+  { clip = false }: { clip?: boolean } = {}
+): string => {
+  if (!studioOutput) return content;
+
+  const raw = clip ? clipStudioOutputRaw(studioOutput.raw) : studioOutput.raw;
+  const fence = fenceFor(raw);
+  const log = `**سجل Studio Output:**\n${fence}text\n${raw}\n${fence}`;
+  return content.trim() ? `${content}\n\n${log}` : log;
+};
+
+/**
+ * ما يُرسل للخادم: الأخطاء فقط (النص الكامل موجود في الرسالة نفسها)
+ */
+export const toStudioOutputPayload = (
+  studioOutput: StudioOutputLog | undefined
+): Pick<StudioOutputLog, 'errors'> | undefined =>
+  studioOutput ? { errors: studioOutput.errors } : undefined;
@@ -0,0 +1,480 @@
+/**
+ * @fileoverview مزامنة المحادثات مع Supabase - Supabase Chat Sync
+ *
+ * @description
+ * ينفذ ChatSyncAdapter فوق جداول conversations و messages،
+ * ويوفر سحب سجل المستخدم الكامل عند تسجيل الدخول من جهاز جديد.
+ *
+ * @dependencies
+ * - @/integrations/supabase/client: عميل Supabase (الجلسة الحالية)
+ * - @/stores/chatSync: واجهة المحول
+ * - @/lib/supabaseShares: إلغاء روابط المشاركة عند حذف المحادثة
+ *
+ * @security
+ * جميع الصفوف تحمل user_id، وسياسات RLS في
+ * supabase/migrations/20240320_enable_rls.sql تمنع الوصول لصفوف الآخرين.
+ *
+ * @performance
+ * تحديثات الرسائل أثناء البث تُجمع (debounce) لتجنب كتابة كل token.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import type { ChatSyncAdapter, ChatSyncEvents, PendingSyncOperation } from '@/stores/chatSync';
+import { linkLinearMessages } from '@/lib/messageTree';
+import { revokeConversationShares } from '@/lib/supabaseShares';
+import { resolveGenerationSettings, type GenerationSettings } from '@shared/models';
+import {
+  isProjectProfileEmpty,
+  normalizeProjectProfile,
+  type ProjectProfile,
+} from '@shared/projectProfile';
+import type { StudioOutputLog } from '@shared/studioOutput';
+import type {
+  Attachment,
+  CodeFixRequest,
+  Conversation,
+  ConversationSummary,
+  Message,
+  MessageStatus,
+  MessageStopReason,
+  MessageUsage,
+} from '@/stores/chatStore';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * مهلة تجميع تحديثات الرسالة أثناء البث
+ * @value 1500ms
+ */
+const STREAMING_FLUSH_DELAY_MS = 1500;
+
+/**
+ * حجم صفحة السحب
+ * @value 1000 صف (حد PostgREST الافتراضي max_rows؛ لا يُرفع فوقه)
+ */
+const PULL_PAGE_SIZE = 1000;
+
+// ============================================================================
+// ROW MAPPING
+// ============================================================================
+
+type ConversationRow = Tables<'conversations'>;
+type MessageRow = Tables<'messages'>;
+
+/**
+ * إزالة البيانات المحلية فقط من المرفقات
+ *
+ * @note
+ * روابط blob و base64 لا معنى لها على جهاز آخر وقد تكون ضخمة،
+ * لذلك نحفظ البيانات الوصفية فقط.
+ */
+const serializeAttachments = (attachments?: Attachment[]): Json =>
+  (attachments ?? []).map(({ id, type, name, mimeType, size }) => ({
+    id,
+    type,
+    name,
+    mimeType: mimeType ?? null,
+    size: size ?? null,
+  }));
+
+const deserializeAttachments = (value: Json): Attachment[] | undefined => {
+  if (!Array.isArray(value) || value.length === 0) return undefined;
+
+  return value.map((raw) => {
+    const item = raw as Record<string, unknown>;
+    return {
+      id: String(item.id),
+      type: item.type === 'image' ? 'image' : 'file',
+      name: String(item.name ?? ''),
+      url: '',
+      mimeType: typeof item.mimeType === 'string' ? item.mimeType : undefined,
+      size: typeof item.size === 'number' ? item.size : undefined,
+    };
+  });
+};
+
+/**
+ * الحقول الإضافية للرسالة تُحفظ في عمود metadata (JSONB)
+ * 
+ * @extensionPoint
+ * أي حقل جديد في Message يحتاج المزامنة يُضاف هنا وفي deserializeMessageMetadata
+ */
+const serializeMessageMetadata = (message: Message): Json => ({
+  ...(message.stopReason ? { stopReason: message.stopReason } : {}),
+  ...(message.usage ? { usage: { ...message.usage } } : {}),
+  ...(message.codeFix ? { codeFix: { ...message.codeFix } } : {}),
+  ...(message.studioOutput ? { studioOutput: message.studioOutput as unknown as Json } : {}),
+});
+
+const deserializeUsage = (value: unknown): MessageUsage | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const usage = value as Record<string, unknown>;
+  if (typeof usage.promptTokens !== 'number' || typeof usage.completionTokens !== 'number') {
+    return undefined;
+  }
+  return {
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    model: typeof usage.model === 'string' ? usage.model : undefined,
+  };
+};
+
+const deserializeCodeFix = (value: unknown): CodeFixRequest | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const codeFix = value as Record<string, unknown>;
+  return typeof codeFix.language === 'string' && typeof codeFix.code === 'string'
+    ? { language: codeFix.language, code: codeFix.code }
+    : undefined;
+};
+
+const deserializeStudioOutput = (value: unknown): StudioOutputLog | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const log = value as Record<string, unknown>;
+  return typeof log.raw === 'string' && Array.isArray(log.errors)
+    ? { raw: log.raw, errors: log.errors as StudioOutputLog['errors'] }
+    : undefined;
+};
+
+const deserializeMessageMetadata = (value: Json): Partial<Message> => {
+  const metadata = (value ?? {}) as Record<string, unknown>;
+  return {
+    stopReason: typeof metadata.stopReason === 'string'
+      ? (metadata.stopReason as MessageStopReason)
+      : undefined,
+    usage: deserializeUsage(metadata.usage),
+    codeFix: deserializeCodeFix(metadata.codeFix),
+    studioOutput: deserializeStudioOutput(metadata.studioOutput),
+  };
+};
+
+/**
+ * الحقول الإضافية للمحادثة تُحفظ في عمود metadata (JSONB)
+ */
+const serializeConversationMetadata = (conversation: Conversation): Json => ({
+  ...(conversation.settings ? { settings: { ...conversation.settings } } : {}),
+  ...(conversation.projectProfile ? { projectProfile: { ...conversation.projectProfile } } : {}),
+  ...(conversation.summary ? { summary: { ...conversation.summary } } : {}),
+  ...(conversation.titleSource ? { titleSource: conversation.titleSource } : {}),
+  ...(conversation.pinned ? { pinned: true } : {}),
+  ...(conversation.folderId ? { folderId: conversation.folderId } : {}),
+  ...(conversation.tagIds?.length ? { tagIds: [...conversation.tagIds] } : {}),
+});
+
+const deserializeSummary = (value: unknown): ConversationSummary | undefined => {
+  if (!value || typeof value !== 'object') return undefined;
+  const summary = value as Record<string, unknown>;
+  if (typeof summary.content !== 'string' || typeof summary.upToMessageId !== 'string') {
+    return undefined;
+  }
+  return {
+    content: summary.content,
+    upToMessageId: summary.upToMessageId,
+    messageCount: typeof summary.messageCount === 'number' ? summary.messageCount : 0,
+  };
+};
+
+const deserializeConversationMetadata = (value: Json): Partial<Conversation> => {
+  const metadata = (value ?? {}) as Record<string, unknown>;
+  const settings = metadata.settings;
+  const projectProfile = metadata.projectProfile as ProjectProfile | undefined;
+  return {
+    settings: settings && typeof settings === 'object'
+      ? resolveGenerationSettings(settings as Partial<GenerationSettings>)
+      : undefined,
+    projectProfile: projectProfile && typeof projectProfile === 'object' && !isProjectProfileEmpty(projectProfile)
+      ? normalizeProjectProfile(projectProfile)
+      : undefined,
+    summary: deserializeSummary(metadata.summary),
+    titleSource: metadata.titleSource === 'generated' || metadata.titleSource === 'user'
+      ? metadata.titleSource
+      : undefined,
+    pinned: metadata.pinned === true ? true : undefined,
+    folderId: typeof metadata.folderId === 'string' ? metadata.folderId : undefined,
+    tagIds: Array.isArray(metadata.tagIds)
+      ? metadata.tagIds.filter((tagId): tagId is string => typeof tagId === 'string')
+      : undefined,
+  };
+};
+
+const conversationToRow = (
+  conversation: Conversation,
+  userId: string
+): TablesInsert<'conversations'> => ({
+  id: conversation.id,
+  user_id: userId,
+  title: conversation.title,
+  metadata: serializeConversationMetadata(conversation),
+  created_at: new Date(conversation.createdAt).toISOString(),
+  updated_at: new Date(conversation.updatedAt).toISOString(),
+});
+
+const messageToRow = (
+  conversationId: string,
+  message: Message,
+  userId: string
+): TablesInsert<'messages'> => ({
+  id: message.id,
+  conversation_id: conversationId,
+  user_id: userId,
+  parent_id: message.parentId ?? null,
+  role: message.role,
+  content: message.content,
+  status: message.status ?? null,
+  attachments: serializeAttachments(message.attachments),
+  metadata: serializeMessageMetadata(message),
+  created_at: new Date(message.timestamp).toISOString(),
+});
+
+const rowToMessage = (row: MessageRow): Message => ({
+  id: row.id,
+  role: row.role === 'assistant' ? 'assistant' : 'user',
+  content: row.content,
+  timestamp: new Date(row.created_at),
+  attachments: deserializeAttachments(row.attachments),
+  status: (row.status as MessageStatus | null) ?? undefined,
+  parentId: row.parent_id,
+  ...deserializeMessageMetadata(row.metadata),
+});
+
+const rowToConversation = (row: ConversationRow, messages: Message[]): Conversation => ({
+  id: row.id,
+  title: row.title,
+  // صفوف ما قبل الفروع لا تحمل parent_id
+  messages: linkLinearMessages(messages),
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+  unreadCount: 0,
+  draft: '',
+  synced: true,
+  ...deserializeConversationMetadata(row.metadata),
+});
+
+// ============================================================================
+// PULL
+// ============================================================================
+
+/**
+ * جلب كل صفوف الاستعلام صفحة بصفحة
+ *
+ * @description
+ * الخادم يقص أي استعلام عند max_rows دون خطأ؛ الدمج يعامل السحب كسجل
+ * كامل (ويحذف ما غاب عنه)، لذلك نتابع حتى تعود صفحة ناقصة
+ *
+ * @param fetchPage - الاستعلام مع range(from, to) وترتيب ثابت
+ */
+const fetchAllPages = async <Row>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: Row[] | null; error: unknown }>
+): Promise<Row[]> => {
+  const rows: Row[] = [];
+  for (let from = 0; ; from += PULL_PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PULL_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PULL_PAGE_SIZE) return rows;
+  }
+};
+
+/**
+ * جلب جميع محادثات المستخدم من الخادم
+ *
+ * @param userId - معرف المستخدم الحالي
+ * @returns المحادثات مرتبة من الأحدث، مع رسائلها مرتبة زمنياً
+ *
+ * @throws {PostgrestError} عند فشل الاستعلام
+ */
+export const fetchRemoteConversations = async (userId: string): Promise<Conversation[]> => {
+  const conversationRows = await fetchAllPages<ConversationRow>((from, to) =>
+    supabase
+      .from('conversations')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .order('id')
+      .range(from, to)
+  );
+
+  if (conversationRows.length === 0) return [];
+
+  const messageRows = await fetchAllPages<MessageRow>((from, to) =>
+    supabase
+      .from('messages')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+      .order('id')
+      .range(from, to)
+  );
+
+  // تجميع الرسائل حسب المحادثة
+  const messagesByConversation = new Map<string, Message[]>();
+  for (const row of messageRows) {
+    const list = messagesByConversation.get(row.conversation_id) ?? [];
+    list.push(rowToMessage(row));
+    messagesByConversation.set(row.conversation_id, list);
+  }
+
+  return conversationRows.map((row) =>
+    rowToConversation(row, messagesByConversation.get(row.id) ?? [])
+  );
+};
+
+/**
+ * رفع محادثة كاملة (مع رسائلها) دفعة واحدة
+ *
+ * @usedBy
+ * - useConversationSync لرفع المحادثات المحلية غير الموجودة على الخادم
+ */
+export const pushConversationSnapshot = async (conversation: Conversation, userId: string) => {
+  const { error: conversationError } = await supabase
+    .from('conversations')
+    .upsert(conversationToRow(conversation, userId));
+
+  if (conversationError) throw conversationError;
+  if (conversation.messages.length === 0) return;
+
+  const { error: messagesError } = await supabase
+    .from('messages')
+    .upsert(conversation.messages.map((m) => messageToRow(conversation.id, m, userId)));
+
+  if (messagesError) throw messagesError;
+};
+
+// ============================================================================
+// WRITE-THROUGH ADAPTER
+// ============================================================================
+
+/**
+ * إنشاء محول مزامنة مرتبط بمستخدم محدد
+ *
+ * @param userId - معرف المستخدم المسجل
+ * @param events - نتيجة كل كتابة (الفاشلة تُحفظ في المتجر لإعادة المحاولة)
+ * @returns محول يكتب كل تغيير إلى Supabase
+ *
+ * @ordering
+ * كل كتابات المحادثة ورسائلها تمر بطابور واحد لكل محادثة:
+ * - الرسالة تنتظر كتابة محادثتها (foreign key)
+ * - تحديث أثناء البث أبطأ من الكتابة النهائية لا يصل بعدها فيقص الرد
+ * - الحذف يأتي بعد كل ما سبقه فلا تعيد كتابة متأخرة الصف المحذوف
+ */
+export const createSupabaseChatSync = (
+  userId: string,
+  events: ChatSyncEvents = {}
+): ChatSyncAdapter => {
+  /** آخر عملية كتابة لكل محادثة (ذيل الطابور) */
+  const conversationWrites = new Map<string, Promise<void>>();
+
+  /** محادثة كل رسالة كُتبت (deleteMessage يصل بالمعرف فقط) */
+  const messageConversations = new Map<string, string>();
+
+  /** مؤقتات تجميع تحديثات البث لكل رسالة */
+  const pendingMessageFlushes = new Map<
+    string,
+    { conversationId: string; timer: ReturnType<typeof setTimeout> }
+  >();
+
+  /**
+   * تنفيذ الكتابة وإبلاغ المتجر بنتيجتها
+   */
+  const settle = async (
+    operation: PendingSyncOperation,
+    write: () => PromiseLike<{ error: unknown }>
+  ) => {
+    try {
+      const { error } = await write();
+      if (error) throw error;
+    } catch (error) {
+      console.error(`Chat sync failed (${operation.kind}):`, error);
+      events.onWriteFailed?.(operation);
+      return;
+    }
+    events.onWriteSucceeded?.(operation);
+  };
+
+  /**
+   * إضافة كتابة لطابور المحادثة (settle لا يرفض، فالطابور لا يتوقف بفشل)
+   */
+  const enqueue = (conversationId: string, write: () => Promise<void>) => {
+    const next = (conversationWrites.get(conversationId) ?? Promise.resolve()).then(write);
+    conversationWrites.set(conversationId, next);
+  };
+
+  const cancelFlush = (messageId: string) => {
+    const pending = pendingMessageFlushes.get(messageId);
+    if (pending) clearTimeout(pending.timer);
+    pendingMessageFlushes.delete(messageId);
+  };
+
+  const writeMessage = (conversationId: string, message: Message) => {
+    messageConversations.set(message.id, conversationId);
+    enqueue(conversationId, () =>
+      settle({ kind: 'upsertMessage', conversationId, messageId: message.id }, () =>
+        supabase.from('messages').upsert(messageToRow(conversationId, message, userId))
+      )
+    );
+  };
+
+  return {
+    upsertConversation: (conversation) => {
+      enqueue(conversation.id, () =>
+        settle({ kind: 'upsertConversation', conversationId: conversation.id }, () =>
+          supabase.from('conversations').upsert(conversationToRow(conversation, userId))
+        )
+      );
+    },
+
+    deleteConversation: (conversationId) => {
+      pendingMessageFlushes.forEach((pending, messageId) => {
+        if (pending.conversationId === conversationId) cancelFlush(messageId);
+      });
+      messageConversations.forEach((owner, messageId) => {
+        if (owner === conversationId) messageConversations.delete(messageId);
+      });
+
+      enqueue(conversationId, () =>
+        settle({ kind: 'deleteConversation', conversationId }, async () => {
+          // لقطة محادثة محذوفة لا تبقى متاحة للعامة
+          await revokeConversationShares(conversationId);
+          return supabase.from('conversations').delete().eq('id', conversationId);
+        })
+      );
+    },
+
+    upsertMessage: (conversationId, message) => {
+      cancelFlush(message.id);
+
+      // أثناء البث: كتابة مؤجلة، بعد الانتهاء: كتابة فورية
+      if (message.isStreaming) {
+        pendingMessageFlushes.set(message.id, {
+          conversationId,
+          timer: setTimeout(() => {
+            pendingMessageFlushes.delete(message.id);
+            writeMessage(conversationId, message);
+          }, STREAMING_FLUSH_DELAY_MS),
+        });
+        return;
+      }
+
+      writeMessage(conversationId, message);
+    },
+
+    deleteMessage: (messageId) => {
+      cancelFlush(messageId);
+
+      const write = () =>
+        settle({ kind: 'deleteMessage', messageId }, () =>
+          supabase.from('messages').delete().eq('id', messageId)
+        );
+      const conversationId = messageConversations.get(messageId);
+      messageConversations.delete(messageId);
+
+      if (conversationId) {
+        enqueue(conversationId, write);
+      } else {
+        write();
+      }
+    },
+  };
+};
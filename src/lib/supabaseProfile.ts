@@ -0,0 +1,78 @@
+/**
+ * @fileoverview ملف المشروع في Supabase - Supabase Project Profile
+ *
+ * @description
+ * قراءة وحفظ ملف المشروع العام للمستخدم في عمود profiles.project_profile
+ * وقوالب الرسائل في عمود profiles.prompt_templates
+ *
+ * @security
+ * سياسات RLS تسمح للمستخدم بقراءة وإنشاء وتحديث صفه فقط؛
+ * الحفظ (الملف والقوالب) يستخدم upsert لأن الصف قد لا يوجد (حسابات سبقت handle_new_user)،
+ * وupdate على صف غائب لا يعدّل شيئاً ولا يعيد خطأ
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { normalizeProjectProfile, type ProjectProfile } from '@shared/projectProfile';
+import { normalizePromptTemplates, type PromptTemplate } from '@/lib/promptTemplates';
+
+/**
+ * جلب ملف المشروع العام
+ *
+ * @returns الملف بعد التنظيف ({} إذا لم يُحفظ شيء)
+ */
+export const fetchProjectProfile = async (userId: string): Promise<ProjectProfile> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('project_profile')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const stored = data?.project_profile;
+  return stored && typeof stored === 'object' && !Array.isArray(stored)
+    ? normalizeProjectProfile(stored as ProjectProfile)
+    : {};
+};
+
+/**
+ * حفظ ملف المشروع العام
+ */
+export const saveProjectProfile = async (userId: string, profile: ProjectProfile): Promise<void> => {
+  const { error } = await supabase
+    .from('profiles')
+    .upsert({ id: userId, project_profile: { ...normalizeProjectProfile(profile) } });
+
+  if (error) throw error;
+};
+
+/**
+ * جلب قوالب الرسائل
+ *
+ * @returns القوالب بعد التنظيف ([] إذا لم يُحفظ شيء)
+ */
+export const fetchPromptTemplates = async (userId: string): Promise<PromptTemplate[]> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('prompt_templates')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return normalizePromptTemplates(data?.prompt_templates);
+};
+
+/**
+ * حفظ قوالب الرسائل (القائمة كاملة)
+ */
+export const savePromptTemplates = async (userId: string, templates: PromptTemplate[]): Promise<void> => {
+  const { error } = await supabase
+    .from('profiles')
+    .upsert({
+      id: userId,
+      prompt_templates: normalizePromptTemplates(templates).map((template) => ({ ...template })),
+    });
+
+  if (error) throw error;
+};
@@ -0,0 +1,167 @@
+/**
+ * @fileoverview روابط المشاركة في Supabase - Supabase Conversation Shares
+ *
+ * @description
+ * إنشاء وتحديث وإلغاء صفوف conversation_shares، وقراءة اللقطة العامة بالـ slug
+ *
+ * @security
+ * - سياسات RLS تسمح للمالك بقراءة وإنشاء وتحديث صفوفه فقط
+ * - الزائر (حتى بدون تسجيل) يقرأ عبر get_shared_conversation فقط:
+ *   لقطة غير ملغاة واحدة، بدون معرف المالك أو المحادثة
+ * - الإلغاء يضبط revoked_at ولا يحذف الصف (الـ slug لا يُعاد استخدامه)
+ * - حذف المحادثة يلغي كل روابطها (revokeConversationShares)
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { Conversation } from '@/stores/chatStore';
+import {
+  buildShareSnapshot,
+  createShareSlug,
+  type SharedConversationSnapshot,
+} from '@/lib/conversationShare';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * رابط مشاركة نشط يملكه المستخدم
+ */
+export interface ConversationShare {
+  slug: string;
+  /** وقت آخر لقطة */
+  updatedAt: Date;
+}
+
+/**
+ * ما يراه الزائر
+ */
+export interface SharedConversation {
+  title: string;
+  snapshot: SharedConversationSnapshot;
+  updatedAt: Date;
+}
+
+// ============================================================================
+// OWNER
+// ============================================================================
+
+const toShare = (row: { slug: string; updated_at: string }): ConversationShare => ({
+  slug: row.slug,
+  updatedAt: new Date(row.updated_at),
+});
+
+/**
+ * الرابط النشط للمحادثة (إن وجد)
+ */
+export const fetchActiveShare = async (conversationId: string): Promise<ConversationShare | null> => {
+  const { data, error } = await supabase
+    .from('conversation_shares')
+    .select('slug, updated_at')
+    .eq('conversation_id', conversationId)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toShare(data) : null;
+};
+
+/**
+ * إنشاء رابط جديد بلقطة من الفرع المعروض
+ */
+export const createShare = async (conversation: Conversation): Promise<ConversationShare> => {
+  const { data: { user }, error: userError } = await supabase.auth.getUser();
+  if (userError) throw userError;
+  if (!user) throw new Error('Not authenticated');
+
+  const { data, error } = await supabase
+    .from('conversation_shares')
+    .insert({
+      slug: createShareSlug(),
+      user_id: user.id,
+      conversation_id: conversation.id,
+      title: conversation.title,
+      snapshot: buildShareSnapshot(conversation) as unknown as Json,
+    })
+    .select('slug, updated_at')
+    .single();
+
+  if (error) throw error;
+  return toShare(data);
+};
+
+/**
+ * استبدال لقطة رابط موجود بالحالة الحالية للمحادثة
+ *
+ * @note الـ slug يبقى كما هو فيرى من لديه الرابط الرسائل الجديدة
+ */
+export const refreshShare = async (slug: string, conversation: Conversation): Promise<ConversationShare> => {
+  const { data, error } = await supabase
+    .from('conversation_shares')
+    .update({
+      title: conversation.title,
+      snapshot: buildShareSnapshot(conversation) as unknown as Json,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('slug', slug)
+    .select('slug, updated_at')
+    .single();
+
+  if (error) throw error;
+  return toShare(data);
+};
+
+/**
+ * إلغاء رابط (يتوقف عن العمل فوراً)
+ */
+export const revokeShare = async (slug: string): Promise<void> => {
+  const { error } = await supabase
+    .from('conversation_shares')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('slug', slug);
+
+  if (error) throw error;
+};
+
+/**
+ * إلغاء كل روابط المحادثة
+ *
+ * @usedBy
+ * - supabaseChatSync: عند حذف المحادثة (لا يوجد foreign key يحذف الروابط معها)
+ */
+export const revokeConversationShares = async (conversationId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('conversation_shares')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('conversation_id', conversationId)
+    .is('revoked_at', null);
+
+  if (error) throw error;
+};
+
+// ============================================================================
+// PUBLIC
+// ============================================================================
+
+/**
+ * قراءة محادثة مشتركة بالـ slug
+ *
+ * @returns null إذا لم يوجد الرابط أو أُلغي
+ */
+export const fetchSharedConversation = async (slug: string): Promise<SharedConversation | null> => {
+  const { data, error } = await supabase.rpc('get_shared_conversation', { share_slug: slug });
+
+  if (error) throw error;
+
+  const row = data?.[0];
+  if (!row) return null;
+
+  return {
+    title: row.title,
+    snapshot: row.snapshot as unknown as SharedConversationSnapshot,
+    updatedAt: new Date(row.updated_at),
+  };
+};
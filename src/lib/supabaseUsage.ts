@@ -0,0 +1,35 @@
+/**
+ * @fileoverview سجل الاستهلاك في Supabase - Supabase Usage
+ *
+ * @description
+ * قراءة مجاميع chat_usage اليومية عبر get_daily_usage: من كل الأجهزة
+ * وكل الأوضاع (المحادثة والتلخيص والعناوين)، وهي ما يُحسب عليه حد اليوم
+ *
+ * @security
+ * الدالة تعمل بصلاحيات المستخدم؛ سياسة RLS تسمح له بقراءة صفوفه فقط
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { ServerUsageRow } from '@/lib/usageStats';
+
+/**
+ * المجاميع اليومية منذ وقت محدد
+ *
+ * @param since - بداية النطاق؛ الأيام تُحسب بالمنطقة الزمنية للمتصفح
+ */
+export const fetchDailyUsage = async (since: Date): Promise<ServerUsageRow[]> => {
+  const { data, error } = await supabase.rpc('get_daily_usage', {
+    p_since: since.toISOString(),
+    p_time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+
+  if (error) throw error;
+
+  return (data ?? []).map((row) => ({
+    day: row.day,
+    mode: row.mode,
+    requests: Number(row.requests),
+    promptTokens: Number(row.prompt_tokens),
+    completionTokens: Number(row.completion_tokens),
+  }));
+};
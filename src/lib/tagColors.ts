@@ -0,0 +1,34 @@
+/**
+ * @fileoverview ألوان الوسوم - Tag Colors
+ *
+ * @description
+ * فئات Tailwind والأسماء العربية لألوان الوسوم (TAG_COLORS في chatStore).
+ *
+ * @usedBy
+ * - ConversationList, ConversationSidebar: نقطة اللون
+ * - TagManagerDialog: اختيار اللون
+ */
+
+import type { TagColor } from '@/stores/chatStore';
+
+export const TAG_COLOR_CLASSES: Record<TagColor, string> = {
+  red: 'bg-red-500',
+  orange: 'bg-orange-500',
+  yellow: 'bg-yellow-500',
+  green: 'bg-green-500',
+  blue: 'bg-blue-500',
+  purple: 'bg-purple-500',
+  pink: 'bg-pink-500',
+  gray: 'bg-gray-500',
+};
+
+export const TAG_COLOR_LABELS: Record<TagColor, string> = {
+  red: 'أحمر',
+  orange: 'برتقالي',
+  yellow: 'أصفر',
+  green: 'أخضر',
+  blue: 'أزرق',
+  purple: 'بنفسجي',
+  pink: 'وردي',
+  gray: 'رمادي',
+};
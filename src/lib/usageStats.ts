@@ -0,0 +1,200 @@
+/**
+ * @fileoverview تجميع استهلاك الـ tokens - Usage Statistics
+ *
+ * @description
+ * تجميع الاستهلاك لصفحة الاستخدام من مصدرين:
+ * - سجل الخادم (chat_usage): المجموع واليومي، من كل الأجهزة ويشمل التلخيص
+ *   والعناوين؛ هو ما يُحسب عليه حد الـ tokens اليومي
+ * - Message.usage: الاستهلاك لكل محادثة (سجل الخادم لا يعرف المحادثة)
+ *
+ * @note
+ * تُحسب كل عقد شجرة الرسائل وليس الفرع النشط فقط:
+ * الردود في الفروع القديمة استُهلكت فعلاً
+ *
+ * @usedBy
+ * - pages/Usage
+ */
+
+import type { Conversation, Message } from '@/stores/chatStore';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * مجموع استهلاك
+ *
+ * @property replies - عدد الردود التي تحمل usage (أو الطلبات في سجل الخادم)
+ */
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  replies: number;
+}
+
+export interface ConversationUsage extends UsageTotals {
+  conversationId: string;
+  title: string;
+}
+
+/**
+ * @property date - مفتاح اليوم بالتوقيت المحلي (YYYY-MM-DD)
+ */
+export interface DailyUsage extends UsageTotals {
+  date: string;
+}
+
+/**
+ * مجموع يوم ووضع من سجل الخادم (get_daily_usage)
+ *
+ * @property day - مفتاح اليوم بتوقيت المستخدم (YYYY-MM-DD)
+ * @property mode - chat أو summarize أو title
+ */
+export interface ServerUsageRow {
+  day: string;
+  mode: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+const emptyTotals = (): UsageTotals => ({
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  replies: 0,
+});
+
+const addMessage = (totals: UsageTotals, message: Message) => {
+  if (!message.usage) return;
+  totals.promptTokens += message.usage.promptTokens;
+  totals.completionTokens += message.usage.completionTokens;
+  totals.totalTokens += message.usage.promptTokens + message.usage.completionTokens;
+  totals.replies += 1;
+};
+
+/**
+ * مفتاح اليوم بالتوقيت المحلي
+ *
+ * @example
+ * toDayKey(new Date(2025, 0, 5)) // "2025-01-05"
+ */
+export const toDayKey = (date: Date | string): string => {
+  const d = new Date(date);
+  const month = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${d.getFullYear()}-${month}-${day}`;
+};
+
+// ============================================================================
+// AGGREGATION
+// ============================================================================
+
+/**
+ * المجموع الكلي لكل المحادثات
+ */
+export const getUsageTotals = (conversations: Conversation[]): UsageTotals => {
+  const totals = emptyTotals();
+  for (const conversation of conversations) {
+    conversation.messages.forEach((message) => addMessage(totals, message));
+  }
+  return totals;
+};
+
+/**
+ * الاستهلاك لكل محادثة، الأعلى أولاً (المحادثات بلا استهلاك تُستبعد)
+ */
+export const getUsageByConversation = (conversations: Conversation[]): ConversationUsage[] =>
+  conversations
+    .map((conversation) => {
+      const totals = emptyTotals();
+      conversation.messages.forEach((message) => addMessage(totals, message));
+      return { conversationId: conversation.id, title: conversation.title, ...totals };
+    })
+    .filter((usage) => usage.replies > 0)
+    .sort((a, b) => b.totalTokens - a.totalTokens);
+
+/**
+ * بداية أول يوم في النطاق (منتصف الليل المحلي)
+ *
+ * @param days - عدد الأيام شاملاً اليوم
+ */
+export const getRangeStart = (days: number, now: Date = new Date()): Date =>
+  new Date(now.getFullYear(), now.getMonth(), now.getDate() - (days - 1));
+
+/** أيام النطاق فارغة، من الأقدم للأحدث */
+const emptyDays = (days: number, now: Date) => {
+  const buckets = new Map<string, DailyUsage>();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const date = toDayKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() - offset));
+    buckets.set(date, { date, ...emptyTotals() });
+  }
+  return buckets;
+};
+
+/**
+ * الاستهلاك اليومي لآخر عدد من الأيام (الأيام الفارغة تظهر بصفر)
+ *
+ * @param days - عدد الأيام شاملاً اليوم
+ * @param now - اليوم الأخير في النطاق
+ * @returns من الأقدم للأحدث
+ */
+export const getUsageByDay = (
+  conversations: Conversation[],
+  days: number,
+  now: Date = new Date()
+): DailyUsage[] => {
+  const buckets = emptyDays(days, now);
+
+  for (const conversation of conversations) {
+    for (const message of conversation.messages) {
+      const bucket = buckets.get(toDayKey(message.timestamp));
+      if (bucket) addMessage(bucket, message);
+    }
+  }
+
+  return Array.from(buckets.values());
+};
+
+/**
+ * الاستهلاك اليومي من سجل الخادم (كل الأوضاع مجمعة)
+ *
+ * @returns من الأقدم للأحدث، بنفس شكل getUsageByDay
+ */
+export const getServerUsageByDay = (
+  rows: ServerUsageRow[],
+  days: number,
+  now: Date = new Date()
+): DailyUsage[] => {
+  const buckets = emptyDays(days, now);
+
+  for (const row of rows) {
+    const bucket = buckets.get(row.day);
+    if (!bucket) continue;
+    bucket.promptTokens += row.promptTokens;
+    bucket.completionTokens += row.completionTokens;
+    bucket.totalTokens += row.promptTokens + row.completionTokens;
+    bucket.replies += row.requests;
+  }
+
+  return Array.from(buckets.values());
+};
+
+/**
+ * مجموع الأيام
+ */
+export const sumDailyUsage = (daily: DailyUsage[]): UsageTotals =>
+  daily.reduce(
+    (totals, day) => ({
+      promptTokens: totals.promptTokens + day.promptTokens,
+      completionTokens: totals.completionTokens + day.completionTokens,
+      totalTokens: totals.totalTokens + day.totalTokens,
+      replies: totals.replies + day.replies,
+    }),
+    emptyTotals()
+  );
@@ -0,0 +1,242 @@
+/**
+ * @fileoverview محتوى شاشة الترحيب - Welcome Screen Content
+ *
+ * @description
+ * نصوص شاشة الترحيب بالعربية والإنجليزية: أسئلة البداية مصنفة حسب
+ * المجال، وبطاقات ما يستطيعه المساعد، واختيار آخر المحادثات للاستئناف.
+ *
+ * @usedBy
+ * - WelcomeScreen
+ */
+
+import type { ResponseLanguage } from '@shared/projectProfile';
+import type { Conversation } from '@/stores/chatStore';
+import { formatRelativeDate } from '@/lib/dateUtils';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type WelcomeLanguage = ResponseLanguage;
+
+export type StarterCategoryId = 'data' | 'combat' | 'ui' | 'security';
+
+export interface StarterCategory {
+  id: StarterCategoryId;
+  label: string;
+  prompts: string[];
+}
+
+export type CapabilityId = 'analysis' | 'api' | 'export' | 'templates';
+
+export interface Capability {
+  id: CapabilityId;
+  title: string;
+  description: string;
+}
+
+interface WelcomeContent {
+  title: string;
+  subtitle: string;
+  startersHeading: string;
+  recentHeading: string;
+  capabilitiesHeading: string;
+  categories: StarterCategory[];
+  capabilities: Capability[];
+}
+
+// ============================================================================
+// CONTENT
+// ============================================================================
+
+export const WELCOME_CONTENT: Record<WelcomeLanguage, WelcomeContent> = {
+  ar: {
+    title: 'ماذا تبني اليوم في Roblox؟',
+    subtitle: 'اختر سؤالاً للبدء أو اكتب سؤالك، و "/" تفتح القوالب الجاهزة',
+    startersHeading: 'ابدأ بسؤال',
+    recentHeading: 'تابع من حيث توقفت',
+    capabilitiesHeading: 'ما يمكنني فعله',
+    categories: [
+      {
+        id: 'data',
+        label: 'حفظ البيانات',
+        prompts: [
+          'اكتب نظام حفظ بيانات للاعبين باستخدام DataStoreService مع UpdateAsync وإعادة المحاولة',
+          'كيف أمنع فقدان البيانات عند إغلاق السيرفر باستخدام BindToClose؟',
+          'ما الفرق بين ProfileStore و DataStoreService ومتى أستخدم كلاً منهما؟',
+        ],
+      },
+      {
+        id: 'combat',
+        label: 'القتال',
+        prompts: [
+          'اكتب نظام سيف بضربات متتالية (combo) مع hitbox في السيرفر',
+          'كيف أبني نظام ضرر وصحة يعمل مع Humanoid ويمنع الضرب المتكرر؟',
+          'اكتب سلاحاً يطلق النار باستخدام Raycast مع التحقق في السيرفر',
+        ],
+      },
+      {
+        id: 'ui',
+        label: 'حركة الواجهات',
+        prompts: [
+          'اكتب قائمة متجر تفتح وتغلق بحركة TweenService سلسة',
+          'كيف أحرك زراً عند مرور الماوس عليه باستخدام TweenService؟',
+          'اكتب إشعاراً يظهر من أعلى الشاشة ويختفي تلقائياً بعد ثوانٍ',
+        ],
+      },
+      {
+        id: 'security',
+        label: 'مكافحة الغش',
+        prompts: [
+          'كيف أتحقق في السيرفر من كل ما يرسله العميل عبر RemoteEvent؟',
+          'اكتب نظاماً يكشف سرعة الحركة غير الطبيعية (speed hack) في السيرفر',
+          'ما أشهر الثغرات في ألعاب Roblox وكيف أحمي لعبتي منها؟',
+        ],
+      },
+    ],
+    capabilities: [
+      {
+        id: 'analysis',
+        title: 'فحص الكود',
+        description: 'ملاحظات تحت كل كتلة Luau وزر لإصلاحها',
+      },
+      {
+        id: 'api',
+        title: 'مرجع Roblox API',
+        description: 'تواقيع دقيقة وتنبيه على الدوال المتقادمة',
+      },
+      {
+        id: 'export',
+        title: 'التصدير إلى Studio',
+        description: 'نزّل السكربتات كنموذج .rbxmx أو مشروع Rojo',
+      },
+      {
+        id: 'templates',
+        title: 'قوالب "/"',
+        description: 'اكتب /datastore أو /explain-error في حقل الرسالة',
+      },
+    ],
+  },
+  en: {
+    title: 'What are you building in Roblox today?',
+    subtitle: 'Pick a prompt to get started or ask your own. Type "/" for templates',
+    startersHeading: 'Start with a prompt',
+    recentHeading: 'Pick up where you left off',
+    capabilitiesHeading: 'What I can do',
+    categories: [
+      {
+        id: 'data',
+        label: 'Data saving',
+        prompts: [
+          'Write a player data system with DataStoreService using UpdateAsync and retries',
+          'How do I avoid losing data when the server shuts down, using BindToClose?',
+          'ProfileStore vs DataStoreService: when should I use each?',
+        ],
+      },
+      {
+        id: 'combat',
+        label: 'Combat',
+        prompts: [
+          'Write a sword combo system with server-side hitboxes',
+          'How do I build a damage and health system on Humanoid with hit cooldowns?',
+          'Write a Raycast gun with server-side validation',
+        ],
+      },
+      {
+        id: 'ui',
+        label: 'UI tweens',
+        prompts: [
+          'Write a shop menu that opens and closes with a smooth TweenService animation',
+          'How do I animate a button on hover with TweenService?',
+          'Write a notification that slides in from the top and fades out after a few seconds',
+        ],
+      },
+      {
+        id: 'security',
+        label: 'Anti-exploit',
+        prompts: [
+          'How do I validate everything the client sends through a RemoteEvent on the server?',
+          'Write a server-side check that detects speed hacks',
+          'What are the most common Roblox exploits and how do I protect my game?',
+        ],
+      },
+    ],
+    capabilities: [
+      {
+        id: 'analysis',
+        title: 'Code checks',
+        description: 'Notes under every Luau block, with a one-click fix',
+      },
+      {
+        id: 'api',
+        title: 'Roblox API reference',
+        description: 'Accurate signatures and warnings about deprecated APIs',
+      },
+      {
+        id: 'export',
+        title: 'Export to Studio',
+        description: 'Download scripts as an .rbxmx model or a Rojo project',
+      },
+      {
+        id: 'templates',
+        title: '"/" templates',
+        description: 'Type /datastore or /explain-error in the message box',
+      },
+    ],
+  },
+};
+
+// ============================================================================
+// LANGUAGE
+// ============================================================================
+
+/**
+ * لغة شاشة الترحيب
+ *
+ * @behavior
+ * 1. لغة الرد المحددة في ملف المشروع
+ * 2. أول لغة عربية أو إنجليزية في إعدادات المتصفح
+ * 3. العربية (لغة الواجهة الافتراضية)
+ *
+ * @example
+ * detectWelcomeLanguage(undefined, ['en-US', 'ar']) // → 'en'
+ */
+export const detectWelcomeLanguage = (
+  preferred: ResponseLanguage | undefined,
+  browserLanguages: readonly string[]
+): WelcomeLanguage => {
+  if (preferred) return preferred;
+
+  for (const language of browserLanguages) {
+    const code = language.toLowerCase().split('-')[0];
+    if (code === 'ar' || code === 'en') return code;
+  }
+  return 'ar';
+};
+
+// ============================================================================
+// RECENT CONVERSATIONS
+// ============================================================================
+
+/**
+ * أحدث المحادثات غير الفارغة (عدا المحادثة المفتوحة)
+ *
+ * @param limit - العدد المعروض (3 افتراضياً)
+ */
+export const getRecentConversations = (
+  conversations: Conversation[],
+  currentId: string | null,
+  limit = 3
+): Conversation[] =>
+  conversations
+    .filter((conversation) => conversation.id !== currentId && conversation.messages.length > 0)
+    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+    .slice(0, limit);
+
+/**
+ * تاريخ آخر تحديث بلغة الشاشة
+ */
+export const formatRecentDate = (date: Date | string, language: WelcomeLanguage): string =>
+  language === 'ar'
+    ? formatRelativeDate(date)
+    : new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
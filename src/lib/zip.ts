@@ -0,0 +1,139 @@
+/**
+ * @fileoverview كاتب ZIP بسيط - Minimal ZIP Writer
+ *
+ * @description
+ * ينشئ أرشيف ZIP بدون ضغط (STORE) لملفات نصية صغيرة في المتصفح،
+ * بدلاً من إضافة مكتبة كاملة لتصدير المحادثات.
+ *
+ * ```
+ * [local header + data] × N   [central directory] × N   [end of central directory]
+ * ```
+ *
+ * @note
+ * - أسماء الملفات UTF-8 (العلم 11) لتبقى العناوين العربية صحيحة
+ * - بدون ZIP64: الحد 65,535 ملف و 4GB، أكثر من كافٍ للمحادثات
+ *
+ * @usedBy
+ * - conversationExport: تصدير كل المحادثات
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ZipEntry {
+  /** المسار داخل الأرشيف (يُسمح بـ "/" للمجلدات) */
+  name: string;
+  content: string | Uint8Array;
+}
+
+// ============================================================================
+// CRC-32
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n += 1) {
+    let c = n;
+    for (let k = 0; k < 8; k += 1) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i += 1) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// ============================================================================
+// WRITER
+// ============================================================================
+
+/** تاريخ ووقت MS-DOS كما يتوقعه تنسيق ZIP */
+const toDosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+const UTF8_FLAG = 0x0800;
+
+/**
+ * إنشاء أرشيف ZIP
+ *
+ * @example
+ * const bytes = createZip([{ name: 'chat.md', content: '# عنوان' }]);
+ * new Blob([bytes], { type: 'application/zip' });
+ */
+export const createZip = (entries: ZipEntry[], modifiedAt: Date = new Date()): Uint8Array => {
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(modifiedAt);
+
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.content === 'string' ? encoder.encode(entry.content) : entry.content;
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + name.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true);
+    lv.setUint16(6, UTF8_FLAG, true);
+    lv.setUint16(8, 0, true);
+    lv.setUint16(10, time, true);
+    lv.setUint16(12, date, true);
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, name.length, true);
+    lv.setUint16(28, 0, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true);
+    cv.setUint16(6, 20, true);
+    cv.setUint16(8, UTF8_FLAG, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint16(12, time, true);
+    cv.setUint16(14, date, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local, data);
+    centrals.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, end];
+  const output = new Uint8Array(offset + centralSize + end.length);
+  let position = 0;
+  for (const part of parts) {
+    output.set(part, position);
+    position += part.length;
+  }
+  return output;
+};
@@ -0,0 +1,207 @@
+/**
+ * @fileoverview صفحة المحادثة المشتركة - Shared Conversation Page
+ *
+ * @description
+ * تعرض لقطة رابط مشاركة (/share/:slug) للقراءة فقط:
+ * - متاحة بدون تسجيل دخول (لا AuthGuard)
+ * - الرسائل تُعرض بـ StreamingText (Markdown + تلوين الكود) بدون أزرار تعديل
+ * - "متابعة هذه المحادثة" تنسخها لمتجر الزائر بمعرفات جديدة وتفتحها
+ *
+ * @dependencies
+ * - @/lib/supabaseShares: get_shared_conversation
+ * - @/lib/conversationImport: parseSharedSnapshot + prepareImport
+ */
+
+import { useEffect, useState } from 'react';
+import { ArrowRight, FileText, Loader2, MessageSquarePlus } from 'lucide-react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { useChatStore } from '@/stores/chatStore';
+import { fetchSharedConversation, type SharedConversation as SharedConversationData } from '@/lib/supabaseShares';
+import { ImportFormatError, parseSharedSnapshot, prepareImport } from '@/lib/conversationImport';
+import { formatExportDate } from '@/lib/conversationExport';
+import { findSharedOriginal } from '@/lib/conversationShare';
+import { StreamingText } from '@/components/chat/StreamingText';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { toast } from 'sonner';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'missing' }
+  | { status: 'error' }
+  | { status: 'ready'; shared: SharedConversationData };
+
+// ============================================================================
+// COMPONENT
+// ============================================================================
+
+const SharedConversation = () => {
+  const { slug = '' } = useParams<{ slug: string }>();
+  const navigate = useNavigate();
+  const [state, setState] = useState<LoadState>({ status: 'loading' });
+
+  useEffect(() => {
+    let cancelled = false;
+    setState({ status: 'loading' });
+
+    fetchSharedConversation(slug)
+      .then((shared) => {
+        if (!cancelled) setState(shared ? { status: 'ready', shared } : { status: 'missing' });
+      })
+      .catch((error) => {
+        console.error('Shared conversation error:', error);
+        if (!cancelled) setState({ status: 'error' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slug]);
+
+  /**
+   * نسخ المحادثة لمتجر الزائر وفتحها
+   *
+   * @behavior
+   * - النسخة تحصل على معرفات جديدة؛ الرابط الأصلي لا يتأثر بما يُكتب بعدها
+   * - إن كانت موجودة (صاحبها، أو نُسخت من قبل) تُفتح الموجودة إن أمكن
+   * - الصفحة الرئيسية تطلب تسجيل الدخول إن لزم، والنسخة محفوظة محلياً
+   */
+  const handleContinue = (shared: SharedConversationData) => {
+    try {
+      const { conversations, folders, tags, importConversations, setCurrentConversation } =
+        useChatStore.getState();
+      const original = findSharedOriginal(conversations, shared.snapshot);
+      const [copy] = original
+        ? []
+        : prepareImport(parseSharedSnapshot(shared.snapshot), { conversations, folders, tags }).conversations;
+
+      if (copy) {
+        importConversations([copy]);
+        setCurrentConversation(copy.id);
+      } else {
+        if (original) setCurrentConversation(original.id);
+        toast.info('المحادثة موجودة بالفعل في محادثاتك');
+      }
+      navigate('/');
+    } catch (error) {
+      console.error('Continue shared conversation error:', error);
+      toast.error(error instanceof ImportFormatError ? error.message : 'تعذر نسخ المحادثة');
+    }
+  };
+
+  const shared = state.status === 'ready' ? state.shared : null;
+
+  return (
+    <div className="min-h-screen bg-background" dir="rtl">
+      {/* Header */}
+      <header className="sticky top-0 z-50 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4 max-w-3xl">
+          <Link to="/">
+            <Button variant="ghost" size="icon" className="h-9 w-9" aria-label="العودة للدردشة">
+              <ArrowRight className="h-5 w-5" strokeWidth={2} />
+            </Button>
+          </Link>
+          <div className="min-w-0 flex-1">
+            <h1 className="text-xl font-bold text-foreground truncate" dir="auto">
+              {shared?.title ?? 'محادثة مشتركة'}
+            </h1>
+            {shared && (
+              <p className="text-xs text-muted-foreground">
+                لقطة للقراءة فقط · {formatExportDate(shared.updatedAt)}
+              </p>
+            )}
+          </div>
+          {shared && (
+            <Button onClick={() => handleContinue(shared)} className="gap-2 shrink-0">
+              <MessageSquarePlus className="h-4 w-4" strokeWidth={2} />
+              <span className="hidden sm:inline">متابعة هذه المحادثة</span>
+            </Button>
+          )}
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="container mx-auto px-4 py-8 max-w-3xl">
+        {state.status === 'loading' && (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" strokeWidth={2} />
+          </div>
+        )}
+
+        {(state.status === 'missing' || state.status === 'error') && (
+          <div className="text-center py-16 space-y-2">
+            <p className="text-lg font-semibold text-foreground">
+              {state.status === 'missing' ? 'الرابط غير موجود أو تم إلغاؤه' : 'تعذر تحميل المحادثة'}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {state.status === 'missing'
+                ? 'اطلب من صاحب المحادثة رابطاً جديداً.'
+                : 'تحقق من الاتصال ثم أعد تحميل الصفحة.'}
+            </p>
+          </div>
+        )}
+
+        {shared && (
+          <div className="-mx-4">
+            {shared.snapshot.messages.map((message) => {
+              const isUser = message.role === 'user';
+              return (
+                <article
+                  key={message.id}
+                  className={cn(
+                    'px-4 py-5',
+                    isUser
+                      ? 'bg-transparent border-r-2 border-foreground/10'
+                      : 'bg-card/30 border-l-2 border-foreground/10'
+                  )}
+                >
+                  <div className="space-y-2">
+                    <div
+                      className={cn(
+                        'text-sm font-semibold',
+                        isUser ? 'text-muted-foreground' : 'text-foreground'
+                      )}
+                    >
+                      {isUser ? 'المستخدم' : 'Roblox Expert'}
+                    </div>
+
+                    {/* المرفقات: الأسماء فقط (المحتوى لا يُشارك) */}
+                    {message.attachments && message.attachments.length > 0 && (
+                      <div className="flex flex-wrap gap-1.5">
+                        {message.attachments.map((attachment) => (
+                          <span
+                            key={attachment.id}
+                            className="inline-flex items-center gap-1 rounded-md bg-muted/50 px-2 py-0.5 text-xs text-muted-foreground"
+                            dir="auto"
+                          >
+                            <FileText className="h-3 w-3" strokeWidth={2} />
+                            {attachment.name}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+
+                    <StreamingText content={message.content} isStreaming={false} />
+                  </div>
+                </article>
+              );
+            })}
+
+            <div className="flex justify-center pt-4">
+              <Button onClick={() => handleContinue(shared)} variant="outline" className="gap-2">
+                <MessageSquarePlus className="h-4 w-4" strokeWidth={2} />
+                متابعة هذه المحادثة
+              </Button>
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SharedConversation;
@@ -0,0 +1,289 @@
+/**
+ * @fileoverview صفحة الاستخدام - Token Usage Page
+ *
+ * @description
+ * تعرض استهلاك الـ tokens:
+ * - المجموع ورسم بياني يومي لآخر 30 يوماً من سجل الخادم (chat_usage):
+ *   كل الأجهزة، ويشمل طلبات التلخيص والعناوين
+ * - المحادثات الأعلى استهلاكاً مع زر لفتحها، من ردود المحادثات على هذا الجهاز
+ *   (سجل الخادم لا يربط الطلب بمحادثة)
+ *
+ * @dependencies
+ * - @/lib/supabaseUsage: get_daily_usage
+ * - @/lib/usageStats: التجميع
+ * - @/components/ui/chart: عناصر الرسم (recharts)
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowRight, Loader2, MessageSquare } from 'lucide-react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { AuthGuard } from '@/components/auth/AuthGuard';
+import { useChatStore } from '@/stores/chatStore';
+import { fetchDailyUsage } from '@/lib/supabaseUsage';
+import {
+  getRangeStart,
+  getServerUsageByDay,
+  getUsageByConversation,
+  sumDailyUsage,
+  type DailyUsage,
+} from '@/lib/usageStats';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type LoadState =
+  | { status: 'loading' }
+  | { status: 'error' }
+  | { status: 'ready'; daily: DailyUsage[] };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const CHART_DAYS = 30;
+const TOP_CONVERSATIONS = 10;
+
+const chartConfig = {
+  promptTokens: { label: 'الطلب', color: 'hsl(var(--muted-foreground))' },
+  completionTokens: { label: 'الرد', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const formatNumber = (value: number) => value.toLocaleString('ar');
+
+/**
+ * تاريخ المحور (يوم/شهر)
+ */
+const formatDayLabel = (dayKey: string) => {
+  const [, month, day] = dayKey.split('-');
+  return `${Number(day)}/${Number(month)}`;
+};
+
+// ============================================================================
+// CONTENT
+// ============================================================================
+
+const UsageContent = () => {
+  const conversations = useChatStore((state) => state.conversations);
+  const navigate = useNavigate();
+  const [state, setState] = useState<LoadState>({ status: 'loading' });
+
+  useEffect(() => {
+    let cancelled = false;
+    const now = new Date();
+
+    fetchDailyUsage(getRangeStart(CHART_DAYS, now))
+      .then((rows) => {
+        if (!cancelled) setState({ status: 'ready', daily: getServerUsageByDay(rows, CHART_DAYS, now) });
+      })
+      .catch((error) => {
+        console.error('Usage fetch error:', error);
+        if (!cancelled) setState({ status: 'error' });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const daily = state.status === 'ready' ? state.daily : null;
+  const totals = useMemo(() => (daily ? sumDailyUsage(daily) : null), [daily]);
+  const topConversations = useMemo(
+    () => getUsageByConversation(conversations).slice(0, TOP_CONVERSATIONS),
+    [conversations]
+  );
+
+  const openConversation = (id: string) => {
+    useChatStore.getState().setCurrentConversation(id);
+    navigate('/');
+  };
+
+  const summary = totals
+    ? [
+        { label: 'إجمالي الـ tokens', value: totals.totalTokens },
+        { label: 'tokens الطلبات', value: totals.promptTokens },
+        { label: 'tokens الردود', value: totals.completionTokens },
+        { label: 'عدد الطلبات', value: totals.replies },
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-background" dir="rtl">
+      {/* Header */}
+      <header className="sticky top-0 z-50 border-b border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-4">
+          <Link to="/">
+            <Button variant="ghost" size="icon" className="h-9 w-9" aria-label="العودة للدردشة">
+              <ArrowRight className="h-5 w-5" strokeWidth={2} />
+            </Button>
+          </Link>
+          <h1 className="text-xl font-bold text-foreground">الاستخدام</h1>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="container mx-auto px-4 py-8 max-w-5xl space-y-6">
+        {/* ─────────────────────────────────────────────────────────────────
+            SUMMARY
+            ───────────────────────────────────────────────────────────────── */}
+        {state.status === 'loading' && (
+          <div className="flex justify-center py-16">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" strokeWidth={2} />
+          </div>
+        )}
+
+        {state.status === 'error' && (
+          <div className="text-center py-16 space-y-2">
+            <p className="text-lg font-semibold text-foreground">تعذر تحميل سجل الاستخدام</p>
+            <p className="text-sm text-muted-foreground">تحقق من الاتصال ثم أعد تحميل الصفحة.</p>
+          </div>
+        )}
+
+        {daily && (
+          <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+            {summary.map((item) => (
+              <Card key={item.label}>
+                <CardHeader className="p-4 pb-1">
+                  <CardDescription>{item.label}</CardDescription>
+                </CardHeader>
+                <CardContent className="p-4 pt-0">
+                  <p className="text-2xl font-bold tabular-nums text-foreground">
+                    {formatNumber(item.value)}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {/* ─────────────────────────────────────────────────────────────────
+            DAILY CHART
+            ───────────────────────────────────────────────────────────────── */}
+        {daily && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">الاستهلاك اليومي</CardTitle>
+              <CardDescription>
+                آخر {formatNumber(CHART_DAYS)} يوماً، من كل أجهزتك، ويشمل تلخيص المحادثات وتوليد العناوين
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto" dir="ltr">
+                <BarChart data={daily}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis
+                    dataKey="date"
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={formatDayLabel}
+                    minTickGap={16}
+                  />
+                  <YAxis
+                    tickLine={false}
+                    axisLine={false}
+                    width={48}
+                    tickFormatter={(value: number) => value.toLocaleString('en-US', { notation: 'compact' })}
+                  />
+                  <ChartTooltip
+                    content={<ChartTooltipContent labelFormatter={(label) => formatDayLabel(String(label))} />}
+                  />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Bar dataKey="promptTokens" stackId="tokens" fill="var(--color-promptTokens)" />
+                  <Bar
+                    dataKey="completionTokens"
+                    stackId="tokens"
+                    fill="var(--color-completionTokens)"
+                    radius={[4, 4, 0, 0]}
+                  />
+                </BarChart>
+              </ChartContainer>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* ─────────────────────────────────────────────────────────────────
+            TOP CONVERSATIONS
+            ───────────────────────────────────────────────────────────────── */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">المحادثات الأعلى استهلاكاً</CardTitle>
+            <CardDescription>من ردود المحادثات المحفوظة على هذا الجهاز</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {topConversations.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                لا يوجد استهلاك مسجل بعد
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="text-right">المحادثة</TableHead>
+                    <TableHead className="text-right">الردود</TableHead>
+                    <TableHead className="text-right">الطلب</TableHead>
+                    <TableHead className="text-right">الرد</TableHead>
+                    <TableHead className="text-right">الإجمالي</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {topConversations.map((usage) => (
+                    <TableRow key={usage.conversationId}>
+                      <TableCell className="max-w-[16rem]">
+                        <button
+                          onClick={() => openConversation(usage.conversationId)}
+                          className="flex items-center gap-2 truncate text-foreground hover:underline rounded-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                        >
+                          <MessageSquare className="h-4 w-4 flex-shrink-0" strokeWidth={2} />
+                          <span dir="auto" className="truncate">{usage.title}</span>
+                        </button>
+                      </TableCell>
+                      <TableCell className="tabular-nums">{formatNumber(usage.replies)}</TableCell>
+                      <TableCell className="tabular-nums">{formatNumber(usage.promptTokens)}</TableCell>
+                      <TableCell className="tabular-nums">{formatNumber(usage.completionTokens)}</TableCell>
+                      <TableCell className="tabular-nums font-medium">
+                        {formatNumber(usage.totalTokens)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+// ============================================================================
+// PAGE
+// ============================================================================
+
+const Usage = () => {
+  return (
+    <AuthGuard>
+      <UsageContent />
+    </AuthGuard>
+  );
+};
+
+export default Usage;
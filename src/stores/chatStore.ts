@@ -8,17 +8,21 @@
  * - المرفقات (Attachments)
  * - حالات التحميل (Loading States)
  * 
- * يستخدم Zustand مع middleware للحفظ التلقائي في localStorage.
+ * يستخدم Zustand مع middleware للحفظ التلقائي في localStorage،
+ * ويكتب كل تغيير عبر محول المزامنة (chatSync) إلى الخادم عند تسجيل الدخول،
+ * ويحدّث فهرس البحث (searchIndex) مع كل تعديل على الرسائل.
  * 
  * @dependencies
  * - zustand: إدارة الحالة
  * - zustand/middleware/persist: الحفظ المحلي
+ * - ./chatSync: محول المزامنة مع الخادم (write-through)
+ * - @/lib/searchIndex: فهرس البحث في الرسائل
  * 
  * @impact
  * ⚠️ WARNING: أي تعديل على هذا الملف يؤثر على:
  * - جميع مكونات الدردشة (ChatContainer, ChatMessage, ChatInput, etc.)
  * - الـ Hook الرئيسي (useChat)
- * - بيانات المستخدمين المحفوظة في localStorage
+ * - بيانات المستخدمين المحفوظة في localStorage و Supabase
  * 
  * @architecture
  * ```
@@ -33,19 +37,35 @@
  * ├─────────────────────────────────────────────┤
  * │  Actions:                                   │
  * │  - createConversation()                     │
- * │  - addMessage()                             │
+ * │  - addMessage() / addBranch()               │
  * │  - updateMessage()                          │
+ * │  - switchBranch()                           │
  * │  - ... (see interface)                      │
  * ├─────────────────────────────────────────────┤
  * │  Selectors:                                 │
  * │  - getCurrentConversation()                 │
- * │  - getMessages()                            │
+ * │  - getMessages() (الفرع النشط فقط)          │
  * └─────────────────────────────────────────────┘
  * ```
  */
 
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
+import {
+  getChatSyncAdapter,
+  mergeConversations,
+  pendingSyncKey,
+  type PendingSyncOperation,
+} from './chatSync';
+import { findLatestLeaf, getActivePath, linkLinearMessages } from '@/lib/messageTree';
+import { searchIndex } from '@/lib/searchIndex';
+import { resolveGenerationSettings, type GenerationSettings } from '@shared/models';
+import {
+  isProjectProfileEmpty,
+  normalizeProjectProfile,
+  type ProjectProfile,
+} from '@shared/projectProfile';
+import type { StudioOutputLog } from '@shared/studioOutput';
 
 // ============================================================================
 // TYPE DEFINITIONS
@@ -88,13 +108,51 @@ export interface Attachment {
  * @value 'sent' - تم الإرسال للخادم
  * @value 'delivered' - تم استلام الرد
  * @value 'read' - تم عرض الرسالة للمستخدم
+ * @value 'queued' - في طابور الإرسال (لا يوجد اتصال)
+ * @value 'failed' - فشل الإرسال نهائياً (يمكن إعادة المحاولة يدوياً)
  * 
  * @extensionPoint
- * يمكن إضافة حالات جديدة مثل:
- * - 'failed': فشل الإرسال
- * - 'queued': في قائمة الانتظار
+ * يمكن إضافة حالات جديدة هنا مع عرضها في ChatMessage
  */
-export type MessageStatus = 'sending' | 'sent' | 'delivered' | 'read';
+export type MessageStatus = 'sending' | 'sent' | 'delivered' | 'read' | 'queued' | 'failed';
+
+/**
+ * سبب توقف رد المساعد قبل اكتماله
+ * 
+ * @value 'stopped' - أوقف المستخدم التوليد يدوياً (المحتوى الجزئي محفوظ)
+ * @value 'length' - وصل النموذج لحد الـ tokens (finish_reason: "length")
+ * 
+ * @extensionPoint
+ * أسباب جديدة تُضاف هنا، والرسائل التي تحملها قابلة للاستكمال لاحقاً
+ */
+export type MessageStopReason = 'stopped' | 'length';
+
+/**
+ * استهلاك رد المساعد من الـ tokens كما أبلغت عنه البوابة
+ * 
+ * @property promptTokens - tokens الطلب (رسالة النظام + السجل)
+ * @property completionTokens - tokens الرد
+ * @property model - النموذج الذي ولّد الرد
+ * 
+ * @note
+ * الاستكمال يضيف استهلاكه لنفس الرسالة، فالأرقام تشمل كل الطلبات التي بنت الرد
+ */
+export interface MessageUsage {
+  promptTokens: number;
+  completionTokens: number;
+  model?: string;
+}
+
+/**
+ * كتلة كود أُرسلت للإصلاح (زر "إصلاح" في CodeBlock)
+ * 
+ * @property language - لغة الكتلة كما في Markdown (مثل lua)
+ * @property code - الكود الأصلي؛ الرد يُعرض كمقارنة معه
+ */
+export interface CodeFixRequest {
+  language: string;
+  code: string;
+}
 
 /**
  * بنية الرسالة الواحدة
@@ -106,6 +164,11 @@ export type MessageStatus = 'sending' | 'sent' | 'delivered' | 'read';
  * @property attachments - المرفقات (اختياري)
  * @property isStreaming - هل الرسالة قيد البث؟ (للـ AI responses)
  * @property status - حالة الإرسال
+ * @property stopReason - سبب توقف الرد قبل اكتماله (إن وُجد)
+ * @property parentId - الرسالة السابقة في الفرع (null للجذر)
+ * @property usage - استهلاك الـ tokens (ردود المساعد فقط)
+ * @property codeFix - الكود الأصلي إذا كانت رسالة المستخدم طلب إصلاح
+ * @property studioOutput - سجل Output ملصق مع رسالة المستخدم وأخطاؤه المستخرجة
  * 
  * @example
  * const userMessage: Message = {
@@ -124,8 +187,21 @@ export interface Message {
   attachments?: Attachment[];
   isStreaming?: boolean;
   status?: MessageStatus;
+  stopReason?: MessageStopReason;
+  parentId?: string | null;
+  usage?: MessageUsage;
+  codeFix?: CodeFixRequest;
+  studioOutput?: StudioOutputLog;
 }
 
+/**
+ * تعديل جزئي على حقول الرسالة الإضافية
+ * 
+ * @usedBy
+ * - patchMessage لتحديث الحقول التي لا تغطيها الإجراءات المتخصصة
+ */
+export type MessagePatch = Partial<Omit<Message, 'id' | 'role' | 'timestamp'>>;
+
 /**
  * ثابت للصفيف الفارغ - يمنع إعادة إنشاء صفيف جديد في كل استدعاء
  * 
@@ -134,28 +210,158 @@ export interface Message {
  */
 const EMPTY_MESSAGES: Message[] = [];
 
+/**
+ * البحث عن رسالة ومحادثتها
+ * 
+ * @usedBy
+ * - إجراءات الرسائل لإبلاغ محول المزامنة بالمحادثة المالكة
+ */
+const findMessageLocation = (conversations: Conversation[], messageId: string) => {
+  for (const conversation of conversations) {
+    const message = conversation.messages.find((m) => m.id === messageId);
+    if (message) return { conversation, message };
+  }
+  return undefined;
+};
+
+/**
+ * تعديل المحادثات المطابقة وكتابتها للخادم
+ * 
+ * @usedBy
+ * - إجراءات التنظيم (التثبيت، المجلدات، الوسوم)
+ */
+const updateConversationsWhere = (
+  set: (fn: (state: ChatState) => Partial<ChatState>) => void,
+  get: () => ChatState,
+  match: (conversation: Conversation) => boolean,
+  update: (conversation: Conversation) => Conversation
+) => {
+  const ids = new Set(get().conversations.filter(match).map((c) => c.id));
+  if (ids.size === 0) return;
+  
+  set((state) => ({
+    conversations: state.conversations.map((c) => (ids.has(c.id) ? update(c) : c)),
+  }));
+  
+  const sync = getChatSyncAdapter();
+  get().conversations.filter((c) => ids.has(c.id)).forEach((c) => sync.upsertConversation(c));
+};
+
+/**
+ * ملخص الرسائل القديمة في المحادثة (نافذة السياق)
+ * 
+ * @property content - نص الملخص كما ولّده النموذج
+ * @property upToMessageId - آخر رسالة يغطيها الملخص (كل ما قبلها في المسار ملخص)
+ * @property messageCount - عدد الرسائل التي يغطيها
+ * 
+ * @note
+ * الملخص صالح فقط للفروع التي تمر بـ upToMessageId؛ فرع آخر يُلخص من جديد
+ */
+export interface ConversationSummary {
+  content: string;
+  upToMessageId: string;
+  messageCount: number;
+}
+
+/**
+ * ألوان الوسوم المتاحة (فئات Tailwind في @/lib/tagColors)
+ */
+export const TAG_COLORS = ['red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink', 'gray'] as const;
+
+export type TagColor = typeof TAG_COLORS[number];
+
+/**
+ * مجلد محادثات (مثل مجلد لكل لعبة Roblox قيد البناء)
+ * 
+ * @property collapsed - هل المجلد مطوي في الشريط الجانبي؟
+ */
+export interface ConversationFolder {
+  id: string;
+  name: string;
+  createdAt: Date;
+  collapsed?: boolean;
+}
+
+/**
+ * وسم ملون يمكن إرفاقه بعدة محادثات
+ */
+export interface ConversationTag {
+  id: string;
+  name: string;
+  color: TagColor;
+}
+
+/**
+ * مصدر عنوان المحادثة
+ * 
+ * @value 'generated' - ولّده الخادم بعد أول تبادل
+ * @value 'user' - أعاد المستخدم التسمية (لا يُستبدل تلقائياً)
+ */
+export type ConversationTitleSource = 'generated' | 'user';
+
 /**
  * بنية المحادثة الواحدة
  * 
  * @property id - معرف فريد (UUID v4)
- * @property title - عنوان المحادثة (يُستخرج من أول رسالة)
- * @property messages - قائمة الرسائل
+ * @property title - عنوان المحادثة (يُستخرج من أول رسالة ثم يُولّد بعد أول رد)
+ * @property titleSource - مصدر العنوان (غير محدد = أول رسالة)
+ * @property messages - عقد شجرة الرسائل بكل فروعها (مرتبطة عبر parentId)
  * @property createdAt - تاريخ الإنشاء
  * @property updatedAt - تاريخ آخر تحديث
  * @property unreadCount - عدد الرسائل غير المقروءة
  * @property draft - مسودة الرسالة الحالية
+ * @property activeLeafId - آخر رسالة في الفرع المعروض (غير محدد = أحدث فرع)
+ * @property settings - النموذج وإعدادات التوليد (غير محدد = الافتراضية)
+ * @property projectProfile - تخصيص ملف المشروع لهذه المحادثة (يطغى على الملف العام)
+ * @property summary - ملخص الرسائل القديمة التي لم تعد تُرسل كما هي
+ * @property pinned - مثبتة أعلى الشريط الجانبي
+ * @property folderId - المجلد (غير محدد = بدون مجلد)
+ * @property tagIds - الوسوم المرفقة
+ * @property synced - وصلت للخادم مرة على الأقل (محلي فقط؛ غيابها عن الخادم بعدها يعني أنها حُذفت)
  * 
  * @relationship
- * Conversation 1 ─────< Message (one-to-many)
+ * Conversation 1 ─────< Message (one-to-many, tree via parentId)
+ * Conversation >───── 1 ConversationFolder (اختياري)
+ * Conversation >─────< ConversationTag
+ * 
+ * @note
+ * لا تعرض messages مباشرة؛ استخدم getMessages أو getActivePath للفرع النشط
  */
 export interface Conversation {
   id: string;
   title: string;
+  titleSource?: ConversationTitleSource;
   messages: Message[];
   createdAt: Date;
   updatedAt: Date;
   unreadCount: number;
   draft: string;
+  activeLeafId?: string | null;
+  settings?: GenerationSettings;
+  projectProfile?: ProjectProfile;
+  summary?: ConversationSummary;
+  pinned?: boolean;
+  folderId?: string | null;
+  tagIds?: string[];
+  synced?: boolean;
+}
+
+/**
+ * عنصر في طابور الإرسال (Outbox)
+ * 
+ * @property id - معرف العنصر
+ * @property conversationId - المحادثة المالكة للرسالة
+ * @property messageId - رسالة المستخدم المنتظرة
+ * @property queuedAt - وقت الإضافة للطابور (يحدد ترتيب الإعادة)
+ * 
+ * @relationship
+ * OutboxEntry 1 ───── 1 Message (role: 'user', status: 'queued')
+ */
+export interface OutboxEntry {
+  id: string;
+  conversationId: string;
+  messageId: string;
+  queuedAt: Date;
 }
 
 // ============================================================================
@@ -195,6 +401,24 @@ interface ChatState {
   /** عدد المحادثات المعروضة (للـ pagination) */
   visibleConversationsCount: number;
   
+  /** طابور الرسائل المنتظرة لعودة الاتصال (بترتيب الإرسال) */
+  outbox: OutboxEntry[];
+  
+  /** رسالة يجب التمرير إليها وتظليلها (من نتائج البحث) */
+  highlightedMessageId: string | null;
+  
+  /** مجلدات المحادثات */
+  folders: ConversationFolder[];
+  
+  /** الوسوم المعرفة */
+  tags: ConversationTag[];
+  
+  /** المستخدم الذي تخصه البيانات المحلية (null = لم تُربط بحساب بعد) */
+  ownerId: string | null;
+  
+  /** كتابات فشلت على الخادم وتنتظر إعادة المحاولة (كتابة واحدة لكل كيان) */
+  pendingSync: PendingSyncOperation[];
+  
   // ─────────────────────────────────────────────────────────────────────────
   // CONVERSATION ACTIONS
   // ─────────────────────────────────────────────────────────────────────────
@@ -235,8 +459,42 @@ interface ChatState {
    * 
    * @param id - معرف المحادثة
    * @param title - العنوان الجديد
+   * @param source - مصدر العنوان (الافتراضي 'user' يقفله من التحديث التلقائي)
+   * 
+   * @note
+   * العنوان المولّد لا يستبدل عنواناً أعاد المستخدم تسميته
    */
-  updateConversationTitle: (id: string, title: string) => void;
+  updateConversationTitle: (id: string, title: string, source?: ConversationTitleSource) => void;
+  
+  /**
+   * تحديث النموذج وإعدادات التوليد لمحادثة
+   * 
+   * @param id - معرف المحادثة
+   * @param settings - الحقول المراد تغييرها (تُدمج مع الحالية وتُضبط ضمن الحدود)
+   * 
+   * @example
+   * updateConversationSettings(id, { model: 'google/gemini-3-pro-preview' });
+   */
+  updateConversationSettings: (id: string, settings: Partial<GenerationSettings>) => void;
+  
+  /**
+   * تعيين تخصيص ملف المشروع لمحادثة
+   * 
+   * @param id - معرف المحادثة
+   * @param profile - التخصيص الكامل (ملف فارغ أو null يزيل التخصيص)
+   * 
+   * @example
+   * updateConversationProfile(id, { frameworks: ['Fusion'] });
+   */
+  updateConversationProfile: (id: string, profile: ProjectProfile | null) => void;
+  
+  /**
+   * حفظ ملخص الرسائل القديمة لمحادثة
+   * 
+   * @param id - معرف المحادثة
+   * @param summary - الملخص الجديد (null يحذفه)
+   */
+  updateConversationSummary: (id: string, summary: ConversationSummary | null) => void;
   
   /**
    * تحميل المزيد من المحادثات (pagination)
@@ -246,6 +504,61 @@ interface ChatState {
    */
   loadMoreConversations: () => void;
   
+  // ─────────────────────────────────────────────────────────────────────────
+  // ORGANIZATION ACTIONS
+  // ─────────────────────────────────────────────────────────────────────────
+  
+  /**
+   * تثبيت المحادثة أعلى القائمة أو إلغاء تثبيتها
+   */
+  setConversationPinned: (id: string, pinned: boolean) => void;
+  
+  /**
+   * نقل المحادثة إلى مجلد
+   * 
+   * @param folderId - المجلد الهدف، أو null لإخراجها من أي مجلد
+   * 
+   * @usedBy
+   * - السحب والإفلات وقائمة المحادثة في ConversationList
+   */
+  moveConversationToFolder: (id: string, folderId: string | null) => void;
+  
+  /**
+   * إرفاق وسم بالمحادثة أو إزالته
+   */
+  toggleConversationTag: (id: string, tagId: string) => void;
+  
+  /**
+   * إنشاء مجلد
+   * 
+   * @returns معرف المجلد الجديد
+   */
+  createFolder: (name: string) => string;
+  
+  renameFolder: (id: string, name: string) => void;
+  
+  /**
+   * حذف مجلد
+   * 
+   * @behavior
+   * محادثات المجلد لا تُحذف، بل تعود "بدون مجلد"
+   */
+  deleteFolder: (id: string) => void;
+  
+  toggleFolderCollapsed: (id: string) => void;
+  
+  /**
+   * إنشاء وسم
+   * 
+   * @returns معرف الوسم الجديد
+   */
+  createTag: (name: string, color: TagColor) => string;
+  
+  /**
+   * حذف وسم وإزالته من كل المحادثات
+   */
+  deleteTag: (id: string) => void;
+  
   // ─────────────────────────────────────────────────────────────────────────
   // MESSAGE ACTIONS
   // ─────────────────────────────────────────────────────────────────────────
@@ -255,14 +568,72 @@ interface ChatState {
    * 
    * @param message - بيانات الرسالة (بدون id و timestamp)
    * @param conversationId - معرف المحادثة المستهدفة (اختياري، يستخدم الحالية)
+   * @param afterMessageId - إدراج الرسالة بعد هذه الرسالة بدلاً من النهاية (اختياري)
    * @returns معرف الرسالة الجديدة
    * 
    * @behavior
    * - إذا لم تكن هناك محادثة، تُنشأ واحدة تلقائياً
+   * - تُلحق الرسالة بنهاية الفرع النشط وتصبح نهايته الجديدة
    * - يُحدّث عنوان المحادثة من أول رسالة للمستخدم
    * - يُزاد عداد الرسائل غير المقروءة للمحادثات غير النشطة
+   * - afterMessageId يُدرج الرسالة بين تلك الرسالة وأبنائها
+   *   (عند إعادة إرسال رسالة من الطابور ليأتي الرد مباشرة بعدها)
    */
-  addMessage: (message: Omit<Message, 'id' | 'timestamp'>, conversationId?: string) => string;
+  addMessage: (
+    message: Omit<Message, 'id' | 'timestamp'>,
+    conversationId?: string,
+    afterMessageId?: string
+  ) => string;
+  
+  /**
+   * إضافة رسالة كفرع جديد
+   * 
+   * @param message - بيانات الرسالة (بدون id و timestamp)
+   * @param conversationId - المحادثة المالكة
+   * @param parentId - الأب (null لجذر جديد)
+   * @returns معرف الرسالة الجديدة
+   * 
+   * @behavior
+   * - تصبح الرسالة أخاً لأبناء parentId الحاليين (لا يُنقل أحد)
+   * - يصبح الفرع الجديد هو المعروض
+   * 
+   * @usedBy
+   * - تعديل رسالة مستخدم سابقة
+   * - إعادة توليد رد (يبقى الرد القديم كفرع أخ)
+   */
+  addBranch: (
+    message: Omit<Message, 'id' | 'timestamp'>,
+    conversationId: string,
+    parentId: string | null
+  ) => string;
+  
+  /**
+   * عرض فرع آخر
+   * 
+   * @param conversationId - المحادثة
+   * @param messageId - أي رسالة في الفرع المطلوب (عادة أخ للرسالة الحالية)
+   * 
+   * @behavior
+   * ينتقل لأحدث رسالة تحت messageId
+   */
+  switchBranch: (conversationId: string, messageId: string) => void;
+  
+  /**
+   * فتح محادثة عند رسالة معينة وتظليلها
+   * 
+   * @behavior
+   * - إذا كانت الرسالة في فرع غير معروض، يُعرض فرعها
+   * - ChatContainer يمرر إليها ثم يستدعي clearHighlightedMessage
+   * 
+   * @usedBy
+   * - ConversationSidebar عند اختيار نتيجة بحث
+   */
+  revealMessage: (conversationId: string, messageId: string) => void;
+  
+  /**
+   * إزالة التظليل بعد عرضه
+   */
+  clearHighlightedMessage: () => void;
   
   /**
    * تحديث محتوى رسالة موجودة
@@ -284,10 +655,24 @@ interface ChatState {
    */
   setMessageStreaming: (id: string, isStreaming: boolean) => void;
   
+  /**
+   * تعديل حقول إضافية في رسالة
+   * 
+   * @param id - معرف الرسالة
+   * @param patch - الحقول المراد تعديلها
+   * 
+   * @example
+   * patchMessage(assistantId, { stopReason: 'stopped' });
+   */
+  patchMessage: (id: string, patch: MessagePatch) => void;
+  
   /**
    * حذف رسالة
    * 
    * @param id - معرف الرسالة للحذف
+   * 
+   * @behavior
+   * أبناء الرسالة يُربطون بأبيها حتى لا ينقطع الفرع
    */
   deleteMessage: (id: string) => void;
   
@@ -299,6 +684,29 @@ interface ChatState {
    */
   setDraft: (id: string, draft: string) => void;
   
+  // ─────────────────────────────────────────────────────────────────────────
+  // OUTBOX ACTIONS
+  // ─────────────────────────────────────────────────────────────────────────
+  
+  /**
+   * إضافة رسالة مستخدم لطابور الإرسال
+   * 
+   * @param conversationId - المحادثة المالكة
+   * @param messageId - رسالة المستخدم
+   * 
+   * @sideEffects
+   * - تُعيَّن حالة الرسالة إلى 'queued'
+   * - لا يُضاف العنصر مرتين لنفس الرسالة
+   */
+  enqueueMessage: (conversationId: string, messageId: string) => void;
+  
+  /**
+   * إزالة رسالة من طابور الإرسال
+   * 
+   * @param messageId - رسالة المستخدم
+   */
+  dequeueMessage: (messageId: string) => void;
+  
   // ─────────────────────────────────────────────────────────────────────────
   // UI STATE ACTIONS
   // ─────────────────────────────────────────────────────────────────────────
@@ -336,6 +744,89 @@ interface ChatState {
    */
   syncFromStorage: () => void;
   
+  /**
+   * ربط البيانات المحلية بالمستخدم المسجل
+   * 
+   * @param userId - المستخدم الذي سجل الدخول
+   * 
+   * @behavior
+   * - بيانات مستخدم آخر (نفس المتصفح) تُمسح قبل المزامنة: لا تظهر له ولا تُرفع لحسابه
+   * - بيانات بدون مالك (قبل أول تسجيل دخول) تُنسب للمستخدم الحالي
+   * 
+   * @usedBy
+   * - useConversationSync قبل سحب السجل
+   */
+  claimLocalData: (userId: string) => void;
+  
+  /**
+   * تعليم المحادثة كموجودة على الخادم (بدون كتابة جديدة)
+   * 
+   * @usedBy
+   * - useConversationSync بعد نجاح رفع المحادثة
+   */
+  markConversationSynced: (id: string) => void;
+  
+  /**
+   * حفظ كتابة فشلت لإعادة محاولتها
+   * 
+   * @usedBy
+   * - محول المزامنة (onWriteFailed)
+   */
+  queueSyncRetry: (operation: PendingSyncOperation) => void;
+  
+  /**
+   * نجحت كتابة على الخادم
+   * 
+   * @behavior
+   * - تُزال الكتابة المنتظرة لنفس الكيان
+   * - حذف المحادثة يزيل كل كتابات رسائلها المنتظرة
+   * - كتابة المحادثة تعلّمها كمرفوعة (synced)
+   */
+  resolveSyncOperation: (operation: PendingSyncOperation) => void;
+  
+  /**
+   * إعادة الكتابات المنتظرة بالحالة الحالية للمتجر
+   * 
+   * @behavior
+   * - ما حُذف محلياً منذ الفشل لا يُعاد رفعه
+   * - محادثة لم تصل للخادم قط تُرفع مع كل رسائلها
+   * - ما يفشل مجدداً يعود للطابور عبر المحول
+   * 
+   * @usedBy
+   * - useConversationSync: بعد السحب وعند عودة الاتصال
+   * - SyncStatus: زر إعادة المحاولة
+   */
+  retryPendingSync: () => void;
+  
+  /**
+   * دمج المحادثات القادمة من الخادم مع المحلية
+   * 
+   * @param remote - محادثات المستخدم من الخادم
+   * @returns المحادثات المحلية التي لم تُرفع بعد (لرفعها)
+   * 
+   * @behavior
+   * المحادثات التي وصلت للخادم سابقاً ثم غابت عنه حُذفت من جهاز آخر فتُحذف محلياً
+   * 
+   * @usedBy
+   * - useConversationSync بعد تسجيل الدخول
+   */
+  mergeRemoteConversations: (remote: Conversation[]) => Conversation[];
+  
+  /**
+   * إضافة محادثات مستوردة
+   * 
+   * @param conversations - محادثات بمعرفات جديدة (prepareImport في @/lib/conversationImport)
+   * @param extras - مجلدات ووسوم جديدة تشير إليها المحادثات
+   * 
+   * @behavior
+   * - تُضاف في أعلى القائمة وتُرفع للخادم وتُفهرس للبحث
+   * - المحادثة النشطة لا تتغير
+   */
+  importConversations: (
+    conversations: Conversation[],
+    extras?: { folders?: ConversationFolder[]; tags?: ConversationTag[] }
+  ) => void;
+  
   // ─────────────────────────────────────────────────────────────────────────
   // SELECTORS (GETTERS)
   // ─────────────────────────────────────────────────────────────────────────
@@ -346,9 +837,9 @@ interface ChatState {
   getCurrentConversation: () => Conversation | undefined;
   
   /**
-   * الحصول على رسائل المحادثة النشطة
+   * الحصول على رسائل الفرع المعروض من المحادثة النشطة
    * 
-   * @returns صفيف الرسائل أو صفيف فارغ ثابت
+   * @returns صفيف الرسائل (مرجع ثابت ما لم يتغير) أو صفيف فارغ ثابت
    */
   getMessages: () => Message[];
 }
@@ -383,6 +874,12 @@ export const useChatStore = create<ChatState>()(
       isAssistantTyping: false,
       pendingAttachments: [],
       visibleConversationsCount: 10,
+      outbox: [],
+      highlightedMessageId: null,
+      folders: [],
+      tags: [],
+      ownerId: null,
+      pendingSync: [],
 
       // ═══════════════════════════════════════════════════════════════════════
       // CONVERSATION ACTIONS
@@ -416,6 +913,8 @@ export const useChatStore = create<ChatState>()(
           currentConversationId: id,
         }));
         
+        getChatSyncAdapter().upsertConversation(newConversation);
+        
         return id;
       },
 
@@ -443,14 +942,69 @@ export const useChatStore = create<ChatState>()(
             currentConversationId: newCurrentId,
           };
         });
+        
+        getChatSyncAdapter().deleteConversation(id);
+        searchIndex.removeConversation(id);
+        
+        // رسائل المحادثة المحذوفة لم تعد بحاجة للإرسال
+        set((state) => ({
+          outbox: state.outbox.filter((entry) => entry.conversationId !== id),
+        }));
       },
 
-      updateConversationTitle: (id, title) => {
+      updateConversationTitle: (id, title, source = 'user') => {
+        const trimmed = title.trim();
+        const conversation = get().conversations.find((c) => c.id === id);
+        if (!trimmed || !conversation) return;
+        if (source === 'generated' && conversation.titleSource === 'user') return;
+
         set((state) => ({
           conversations: state.conversations.map((c) =>
-            c.id === id ? { ...c, title, updatedAt: new Date() } : c
+            c.id === id ? { ...c, title: trimmed, titleSource: source, updatedAt: new Date() } : c
           ),
         }));
+        
+        const updated = get().conversations.find((c) => c.id === id);
+        if (updated) getChatSyncAdapter().upsertConversation(updated);
+      },
+
+      updateConversationSettings: (id, settings) => {
+        set((state) => ({
+          conversations: state.conversations.map((c) =>
+            c.id === id
+              ? { ...c, settings: resolveGenerationSettings({ ...c.settings, ...settings }) }
+              : c
+          ),
+        }));
+        
+        const updated = get().conversations.find((c) => c.id === id);
+        if (updated) getChatSyncAdapter().upsertConversation(updated);
+      },
+
+      updateConversationSummary: (id, summary) => {
+        set((state) => ({
+          conversations: state.conversations.map((c) =>
+            c.id === id ? { ...c, summary: summary ?? undefined } : c
+          ),
+        }));
+        
+        const updated = get().conversations.find((c) => c.id === id);
+        if (updated) getChatSyncAdapter().upsertConversation(updated);
+      },
+
+      updateConversationProfile: (id, profile) => {
+        const projectProfile = isProjectProfileEmpty(profile)
+          ? undefined
+          : normalizeProjectProfile(profile);
+
+        set((state) => ({
+          conversations: state.conversations.map((c) =>
+            c.id === id ? { ...c, projectProfile } : c
+          ),
+        }));
+        
+        const updated = get().conversations.find((c) => c.id === id);
+        if (updated) getChatSyncAdapter().upsertConversation(updated);
       },
 
       loadMoreConversations: () => {
@@ -459,11 +1013,77 @@ export const useChatStore = create<ChatState>()(
         }));
       },
 
+      // ═══════════════════════════════════════════════════════════════════════
+      // ORGANIZATION ACTIONS
+      // ═══════════════════════════════════════════════════════════════════════
+
+      setConversationPinned: (id, pinned) => {
+        updateConversationsWhere(set, get, (c) => c.id === id, (c) => ({ ...c, pinned }));
+      },
+
+      moveConversationToFolder: (id, folderId) => {
+        const target = folderId && get().folders.some((f) => f.id === folderId) ? folderId : null;
+        updateConversationsWhere(set, get, (c) => c.id === id, (c) => ({ ...c, folderId: target }));
+      },
+
+      toggleConversationTag: (id, tagId) => {
+        updateConversationsWhere(set, get, (c) => c.id === id, (c) => {
+          const tagIds = c.tagIds ?? [];
+          return {
+            ...c,
+            tagIds: tagIds.includes(tagId)
+              ? tagIds.filter((t) => t !== tagId)
+              : [...tagIds, tagId],
+          };
+        });
+      },
+
+      createFolder: (name) => {
+        const id = crypto.randomUUID();
+        set((state) => ({
+          folders: [...state.folders, { id, name: name.trim(), createdAt: new Date() }],
+        }));
+        return id;
+      },
+
+      renameFolder: (id, name) => {
+        set((state) => ({
+          folders: state.folders.map((f) => (f.id === id ? { ...f, name: name.trim() } : f)),
+        }));
+      },
+
+      deleteFolder: (id) => {
+        set((state) => ({ folders: state.folders.filter((f) => f.id !== id) }));
+        updateConversationsWhere(set, get, (c) => c.folderId === id, (c) => ({ ...c, folderId: null }));
+      },
+
+      toggleFolderCollapsed: (id) => {
+        set((state) => ({
+          folders: state.folders.map((f) => (f.id === id ? { ...f, collapsed: !f.collapsed } : f)),
+        }));
+      },
+
+      createTag: (name, color) => {
+        const id = crypto.randomUUID();
+        set((state) => ({ tags: [...state.tags, { id, name: name.trim(), color }] }));
+        return id;
+      },
+
+      deleteTag: (id) => {
+        set((state) => ({ tags: state.tags.filter((t) => t.id !== id) }));
+        updateConversationsWhere(
+          set,
+          get,
+          (c) => !!c.tagIds?.includes(id),
+          (c) => ({ ...c, tagIds: c.tagIds.filter((t) => t !== id) })
+        );
+      },
+
       // ═══════════════════════════════════════════════════════════════════════
       // MESSAGE ACTIONS
       // ═══════════════════════════════════════════════════════════════════════
 
-      addMessage: (message, targetConversationId) => {
+      addMessage: (message, targetConversationId, afterMessageId) => {
         const state = get();
         let conversationId = targetConversationId || state.currentConversationId;
         
@@ -478,6 +1098,9 @@ export const useChatStore = create<ChatState>()(
           id,
           timestamp: new Date(),
         };
+        
+        /** الرسائل التي انتقلت تحت الرسالة المُدرجة */
+        let reparented: Message[] = [];
 
         set((state) => ({
           conversations: state.conversations.map((c) => {
@@ -488,10 +1111,40 @@ export const useChatStore = create<ChatState>()(
                 ? message.content.slice(0, 40) + (message.content.length > 40 ? '...' : '')
                 : c.title;
               
+              const activePath = getActivePath(c);
+              const activeLeafId = activePath[activePath.length - 1]?.id ?? null;
+              const insertAfter = afterMessageId && c.messages.some((m) => m.id === afterMessageId)
+                ? afterMessageId
+                : null;
+              
+              // الإلحاق بنهاية الفرع النشط
+              if (!insertAfter) {
+                newMessage.parentId = activeLeafId;
+                return {
+                  ...c,
+                  title: newTitle,
+                  messages: [...c.messages, newMessage],
+                  activeLeafId: id,
+                  updatedAt: new Date(),
+                  unreadCount: c.id === state.currentConversationId ? 0 : c.unreadCount + 1,
+                };
+              }
+              
+              // الإدراج بين الرسالة وأبنائها
+              newMessage.parentId = insertAfter;
+              reparented = c.messages
+                .filter((m) => m.parentId === insertAfter)
+                .map((m) => ({ ...m, parentId: id }));
+              const reparentedIds = new Set(reparented.map((m) => m.id));
+              
               return {
                 ...c,
                 title: newTitle,
-                messages: [...c.messages, newMessage],
+                messages: [
+                  ...c.messages.map((m) => (reparentedIds.has(m.id) ? { ...m, parentId: id } : m)),
+                  newMessage,
+                ],
+                activeLeafId: activeLeafId === insertAfter ? id : activeLeafId,
                 updatedAt: new Date(),
                 // زيادة عداد غير المقروءة للمحادثات غير النشطة
                 unreadCount: c.id === state.currentConversationId ? 0 : c.unreadCount + 1,
@@ -501,9 +1154,70 @@ export const useChatStore = create<ChatState>()(
           }),
         }));
 
+        // الكتابة للخادم: المحادثة (العنوان/التاريخ) ثم الرسالة
+        const updatedConversation = get().conversations.find((c) => c.id === conversationId);
+        if (updatedConversation) {
+          const sync = getChatSyncAdapter();
+          sync.upsertConversation(updatedConversation);
+          sync.upsertMessage(conversationId, newMessage);
+          reparented.forEach((m) => sync.upsertMessage(conversationId, m));
+          searchIndex.indexMessage(conversationId, newMessage);
+        }
+
         return id;
       },
 
+      addBranch: (message, conversationId, parentId) => {
+        const id = crypto.randomUUID();
+        const newMessage: Message = {
+          ...message,
+          id,
+          parentId,
+          timestamp: new Date(),
+        };
+
+        set((state) => ({
+          conversations: state.conversations.map((c) =>
+            c.id === conversationId
+              ? {
+                  ...c,
+                  messages: [...c.messages, newMessage],
+                  activeLeafId: id,
+                  updatedAt: new Date(),
+                }
+              : c
+          ),
+        }));
+
+        const updatedConversation = get().conversations.find((c) => c.id === conversationId);
+        if (updatedConversation) {
+          const sync = getChatSyncAdapter();
+          sync.upsertConversation(updatedConversation);
+          sync.upsertMessage(conversationId, newMessage);
+          searchIndex.indexMessage(conversationId, newMessage);
+        }
+
+        return id;
+      },
+
+      switchBranch: (conversationId, messageId) => {
+        set((state) => ({
+          conversations: state.conversations.map((c) =>
+            c.id === conversationId
+              ? { ...c, activeLeafId: findLatestLeaf(c.messages, messageId) }
+              : c
+          ),
+        }));
+      },
+
+      revealMessage: (conversationId, messageId) => {
+        get().setCurrentConversation(conversationId);
+        get().switchBranch(conversationId, messageId);
+        set({ highlightedMessageId: messageId });
+      },
+
+      clearHighlightedMessage: () => set({ highlightedMessageId: null }),
+
       updateMessage: (id, content, status) => {
         set((state) => ({
           conversations: state.conversations.map((c) => ({
@@ -515,6 +1229,12 @@ export const useChatStore = create<ChatState>()(
             ),
           })),
         }));
+        
+        const location = findMessageLocation(get().conversations, id);
+        if (location) {
+          getChatSyncAdapter().upsertMessage(location.conversation.id, location.message);
+          searchIndex.indexMessage(location.conversation.id, location.message);
+        }
       },
 
       setMessageStreaming: (id, isStreaming) => {
@@ -526,16 +1246,60 @@ export const useChatStore = create<ChatState>()(
             ),
           })),
         }));
+        
+        const location = findMessageLocation(get().conversations, id);
+        if (location) {
+          getChatSyncAdapter().upsertMessage(location.conversation.id, location.message);
+          searchIndex.indexMessage(location.conversation.id, location.message);
+        }
       },
 
-      deleteMessage: (id) => {
+      patchMessage: (id, patch) => {
         set((state) => ({
           conversations: state.conversations.map((c) => ({
             ...c,
-            messages: c.messages.filter((msg) => msg.id !== id),
-            updatedAt: new Date(),
+            messages: c.messages.map((msg) =>
+              msg.id === id ? { ...msg, ...patch } : msg
+            ),
           })),
         }));
+        
+        const location = findMessageLocation(get().conversations, id);
+        if (location) {
+          getChatSyncAdapter().upsertMessage(location.conversation.id, location.message);
+          searchIndex.indexMessage(location.conversation.id, location.message);
+        }
+      },
+
+      deleteMessage: (id) => {
+        const location = findMessageLocation(get().conversations, id);
+        const parentId = location?.message.parentId ?? null;
+        const children = location?.conversation.messages.filter((msg) => msg.parentId === id) ?? [];
+        
+        set((state) => ({
+          conversations: state.conversations.map((c) => {
+            if (c.id !== location?.conversation.id) return c;
+            
+            return {
+              ...c,
+              messages: c.messages
+                .filter((msg) => msg.id !== id)
+                .map((msg) => (msg.parentId === id ? { ...msg, parentId } : msg)),
+              activeLeafId: c.activeLeafId === id ? parentId : c.activeLeafId,
+              updatedAt: new Date(),
+            };
+          }),
+        }));
+        
+        const sync = getChatSyncAdapter();
+        sync.deleteMessage(id);
+        searchIndex.removeMessage(id);
+        if (location) {
+          children.forEach((child) => {
+            sync.upsertMessage(location.conversation.id, { ...child, parentId });
+          });
+        }
+        get().dequeueMessage(id);
       },
 
       setDraft: (id, draft) => {
@@ -546,6 +1310,33 @@ export const useChatStore = create<ChatState>()(
         }));
       },
 
+      // ═══════════════════════════════════════════════════════════════════════
+      // OUTBOX ACTIONS
+      // ═══════════════════════════════════════════════════════════════════════
+
+      enqueueMessage: (conversationId, messageId) => {
+        const message = findMessageLocation(get().conversations, messageId)?.message;
+        if (message && message.status !== 'queued') {
+          get().updateMessage(messageId, message.content, 'queued');
+        }
+        
+        set((state) => {
+          if (state.outbox.some((entry) => entry.messageId === messageId)) return {};
+          return {
+            outbox: [
+              ...state.outbox,
+              { id: crypto.randomUUID(), conversationId, messageId, queuedAt: new Date() },
+            ],
+          };
+        });
+      },
+
+      dequeueMessage: (messageId) => {
+        set((state) => ({
+          outbox: state.outbox.filter((entry) => entry.messageId !== messageId),
+        }));
+      },
+
       // ═══════════════════════════════════════════════════════════════════════
       // UI STATE ACTIONS
       // ═══════════════════════════════════════════════════════════════════════
@@ -580,7 +1371,13 @@ export const useChatStore = create<ChatState>()(
               set({
                 conversations: parsed.state.conversations,
                 currentConversationId: parsed.state.currentConversationId,
+                outbox: parsed.state.outbox ?? [],
+                folders: parsed.state.folders ?? [],
+                tags: parsed.state.tags ?? [],
+                ownerId: parsed.state.ownerId ?? null,
+                pendingSync: parsed.state.pendingSync ?? [],
               });
+              searchIndex.rebuild(get().conversations);
             }
           } catch (e) {
             // Guard: التعامل مع JSON غير صالح
@@ -589,6 +1386,137 @@ export const useChatStore = create<ChatState>()(
         }
       },
 
+      claimLocalData: (userId) => {
+        const { ownerId } = get();
+        if (ownerId === userId) return;
+
+        if (ownerId) {
+          set({
+            conversations: [],
+            currentConversationId: null,
+            pendingAttachments: [],
+            outbox: [],
+            folders: [],
+            tags: [],
+            pendingSync: [],
+          });
+          searchIndex.rebuild([]);
+        }
+        set({ ownerId: userId });
+      },
+
+      markConversationSynced: (id) => {
+        set((state) => ({
+          conversations: state.conversations.map((c) =>
+            c.id === id && !c.synced ? { ...c, synced: true } : c
+          ),
+        }));
+      },
+
+      queueSyncRetry: (operation) => {
+        const key = pendingSyncKey(operation);
+        set((state) => ({
+          pendingSync: [...state.pendingSync.filter((op) => pendingSyncKey(op) !== key), operation],
+        }));
+      },
+
+      resolveSyncOperation: (operation) => {
+        const key = pendingSyncKey(operation);
+        set((state) => ({
+          pendingSync: state.pendingSync.filter((op) =>
+            pendingSyncKey(op) !== key &&
+            !(operation.kind === 'deleteConversation' &&
+              op.kind === 'upsertMessage' &&
+              op.conversationId === operation.conversationId)
+          ),
+        }));
+
+        if (operation.kind === 'upsertConversation') {
+          get().markConversationSynced(operation.conversationId);
+        }
+      },
+
+      retryPendingSync: () => {
+        const { pendingSync, conversations } = get();
+        if (pendingSync.length === 0) return;
+        
+        set({ pendingSync: [] });
+        const sync = getChatSyncAdapter();
+        
+        pendingSync.forEach((operation) => {
+          switch (operation.kind) {
+            case 'upsertConversation': {
+              const conversation = conversations.find((c) => c.id === operation.conversationId);
+              if (!conversation) return;
+              sync.upsertConversation(conversation);
+              if (!conversation.synced) {
+                conversation.messages.forEach((message) => sync.upsertMessage(conversation.id, message));
+              }
+              return;
+            }
+            case 'upsertMessage': {
+              const location = findMessageLocation(conversations, operation.messageId);
+              if (location) sync.upsertMessage(location.conversation.id, location.message);
+              return;
+            }
+            case 'deleteConversation':
+              sync.deleteConversation(operation.conversationId);
+              return;
+            case 'deleteMessage':
+              sync.deleteMessage(operation.messageId);
+              return;
+          }
+        });
+      },
+
+      mergeRemoteConversations: (remote) => {
+        // حذف لم يصل للخادم بعد: لا تُعاد المحادثة أو الرسالة من السحب
+        const pendingDeletes = new Set(
+          get().pendingSync.flatMap((op) =>
+            op.kind === 'deleteConversation' ? [op.conversationId] :
+            op.kind === 'deleteMessage' ? [op.messageId] : []
+          )
+        );
+        const { conversations, localOnly } = mergeConversations(
+          get().conversations,
+          remote
+            .filter((c) => !pendingDeletes.has(c.id))
+            .map((c) => ({ ...c, messages: c.messages.filter((m) => !pendingDeletes.has(m.id)) }))
+        );
+        const conversationIds = new Set(conversations.map((c) => c.id));
+        
+        set((state) => ({
+          conversations,
+          outbox: state.outbox.filter((entry) => conversationIds.has(entry.conversationId)),
+          // الحفاظ على المحادثة النشطة إن وُجدت، وإلا الأحدث
+          currentConversationId: conversations.some((c) => c.id === state.currentConversationId)
+            ? state.currentConversationId
+            : (conversations[0]?.id || null),
+        }));
+        searchIndex.rebuild(conversations);
+        
+        return localOnly;
+      },
+
+      importConversations: (imported, { folders = [], tags = [] } = {}) => {
+        if (imported.length === 0) return;
+
+        set((state) => ({
+          conversations: [...imported, ...state.conversations],
+          folders: [...state.folders, ...folders],
+          tags: [...state.tags, ...tags],
+        }));
+
+        const sync = getChatSyncAdapter();
+        imported.forEach((conversation) => {
+          sync.upsertConversation(conversation);
+          conversation.messages.forEach((message) => {
+            sync.upsertMessage(conversation.id, message);
+            searchIndex.indexMessage(conversation.id, message);
+          });
+        });
+      },
+
       // ═══════════════════════════════════════════════════════════════════════
       // SELECTORS
       // ═══════════════════════════════════════════════════════════════════════
@@ -602,7 +1530,8 @@ export const useChatStore = create<ChatState>()(
         const state = get();
         const conversation = state.conversations.find((c) => c.id === state.currentConversationId);
         // تحسين: إرجاع ثابت فارغ لمنع re-renders
-        return conversation?.messages || EMPTY_MESSAGES;
+        if (!conversation || conversation.messages.length === 0) return EMPTY_MESSAGES;
+        return getActivePath(conversation);
       },
     }),
     {
@@ -612,6 +1541,35 @@ export const useChatStore = create<ChatState>()(
       
       name: 'roblox-chat-storage',
       
+      /**
+       * @version 1 - الرسائل أصبحت شجرة (parentId + activeLeafId)
+       */
+      version: 1,
+      
+      /**
+       * ترقية البيانات المحفوظة من إصدارات سابقة
+       * 
+       * @note
+       * الإصدار 0: قائمة رسائل خطية، تُربط كسلسلة بالترتيب
+       */
+      migrate: (persistedState, version) => {
+        const state = persistedState as { conversations?: Conversation[] };
+        if (version < 1 && state?.conversations) {
+          state.conversations = state.conversations.map((c) => ({
+            ...c,
+            messages: linkLinearMessages(c.messages),
+          }));
+        }
+        return state as ChatState;
+      },
+      
+      /**
+       * بناء فهرس البحث من البيانات المحفوظة (الفهرس نفسه لا يُحفظ)
+       */
+      onRehydrateStorage: () => (state) => {
+        if (state) searchIndex.rebuild(state.conversations);
+      },
+      
       /**
        * اختيار البيانات المراد حفظها
        * 
@@ -621,10 +1579,25 @@ export const useChatStore = create<ChatState>()(
        * - isAssistantTyping: حالة مؤقتة
        * - pendingAttachments: لم تُرسل بعد
        * - visibleConversationsCount: UI state
+       * - highlightedMessageId: UI state
+       * 
+       * المجلدات والوسوم تُحفظ محلياً فقط؛ المحادثة تحفظ معرفاتها في metadata
+       * على الخادم، والمعرف غير المعروف على جهاز آخر يُعامل كـ "بدون مجلد"
+       * 
+       * outbox يُحفظ ليبقى الطابور بعد إغلاق التبويب دون اتصال
+       * 
+       * ownerId يُحفظ حتى لا تنتقل بيانات مستخدم لآخر يسجل الدخول من نفس المتصفح
+       * 
+       * pendingSync يُحفظ حتى لا تضيع تعديلات فشلت كتابتها إذا أُغلق التبويب
        */
       partialize: (state) => ({
         conversations: state.conversations,
         currentConversationId: state.currentConversationId,
+        outbox: state.outbox,
+        folders: state.folders,
+        tags: state.tags,
+        ownerId: state.ownerId,
+        pendingSync: state.pendingSync,
       }),
     }
   )
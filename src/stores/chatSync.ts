@@ -0,0 +1,173 @@
+/**
+ * @fileoverview واجهة مزامنة المحادثات - Chat Sync Adapter Registry
+ *
+ * @description
+ * نقطة توسعة تسمح لمتجر الدردشة بكتابة التغييرات إلى مخزن خارجي
+ * (Supabase حالياً) دون أن يعتمد المتجر على أي عميل شبكة مباشرة.
+ *
+ * المحول الافتراضي لا يفعل شيئاً، لذلك يعمل المتجر محلياً بالكامل
+ * (وفي الاختبارات) حتى يُسجَّل محول حقيقي بعد تسجيل الدخول.
+ *
+ * @usedBy
+ * - chatStore: يستدعي المحول بعد كل تعديل على المحادثات والرسائل
+ * - useConversationSync: يسجّل محول Supabase عند تسجيل الدخول
+ *
+ * @errorHandling
+ * الكتابة الفاشلة تُبلَّغ للمتجر (onWriteFailed) فتُحفظ في pendingSync
+ * وتُعاد عند عودة الاتصال أو تسجيل الدخول التالي
+ */
+
+import type { Conversation, Message } from './chatStore';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * عمليات الكتابة التي ينفذها المتجر على المخزن البعيد
+ *
+ * @note
+ * جميع الدوال "fire-and-forget" - المتجر لا ينتظر نتيجتها،
+ * والمحول يسجل الأخطاء ويبلّغ بالنتيجة عبر ChatSyncEvents.
+ */
+export interface ChatSyncAdapter {
+  /** إنشاء أو تحديث بيانات المحادثة (بدون الرسائل) */
+  upsertConversation: (conversation: Conversation) => void;
+  /** حذف محادثة مع جميع رسائلها */
+  deleteConversation: (conversationId: string) => void;
+  /** إنشاء أو تحديث رسالة */
+  upsertMessage: (conversationId: string, message: Message) => void;
+  /** حذف رسالة */
+  deleteMessage: (messageId: string) => void;
+}
+
+/**
+ * كتابة تنتظر الخادم (فشلت وستُعاد)
+ *
+ * @note
+ * لا تحمل البيانات نفسها: إعادة المحاولة تكتب الحالة الحالية من المتجر
+ */
+export type PendingSyncOperation =
+  | { kind: 'upsertConversation'; conversationId: string }
+  | { kind: 'deleteConversation'; conversationId: string }
+  | { kind: 'upsertMessage'; conversationId: string; messageId: string }
+  | { kind: 'deleteMessage'; messageId: string };
+
+/**
+ * إشعارات المحول للمتجر بنتيجة كل كتابة
+ */
+export interface ChatSyncEvents {
+  onWriteSucceeded?: (operation: PendingSyncOperation) => void;
+  onWriteFailed?: (operation: PendingSyncOperation) => void;
+}
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+const noopAdapter: ChatSyncAdapter = {
+  upsertConversation: () => {},
+  deleteConversation: () => {},
+  upsertMessage: () => {},
+  deleteMessage: () => {},
+};
+
+let activeAdapter: ChatSyncAdapter = noopAdapter;
+
+/**
+ * تسجيل محول المزامنة النشط
+ *
+ * @param adapter - المحول الجديد، أو null للعودة للوضع المحلي فقط
+ */
+export const setChatSyncAdapter = (adapter: ChatSyncAdapter | null) => {
+  activeAdapter = adapter ?? noopAdapter;
+};
+
+/**
+ * الحصول على محول المزامنة النشط
+ */
+export const getChatSyncAdapter = (): ChatSyncAdapter => activeAdapter;
+
+/**
+ * مفتاح الكيان الذي تكتبه العملية
+ *
+ * @description
+ * عمليتان على نفس الكيان تشتركان في المفتاح: الأحدث (نجاحاً أو فشلاً)
+ * تحل محل السابقة لأنها تكتب حالته الأحدث
+ */
+export const pendingSyncKey = (operation: PendingSyncOperation): string =>
+  operation.kind === 'upsertMessage' || operation.kind === 'deleteMessage'
+    ? `message:${operation.messageId}`
+    : `conversation:${operation.conversationId}`;
+
+// ============================================================================
+// MERGE
+// ============================================================================
+
+const toTime = (date: Date | string) => new Date(date).getTime();
+
+/**
+ * دمج المحادثات البعيدة مع المحلية
+ *
+ * @description
+ * - محادثة بعيدة غير موجودة محلياً: تُضاف كما هي
+ * - محادثة موجودة في الطرفين: اتحاد الرسائل حسب المعرف
+ *   (النسخة المحلية من الرسالة تفوز)، والعنوان من الطرف الأحدث
+ * - محادثة محلية غائبة عن الخادم: إن وصلت له سابقاً (synced) فقد حُذفت
+ *   من جهاز آخر وتُحذف، وإلا فهي لم تُرفع بعد
+ * - المسودة وعداد غير المقروءة يبقيان محليين دائماً
+ *
+ * @param local - المحادثات في المتجر
+ * @param remote - المحادثات القادمة من الخادم
+ * @returns المحادثات المدمجة (الأحدث أولاً) والمحادثات المحلية غير المرفوعة
+ *
+ * @note
+ * remote يجب أن يكون سجل المستخدم الكامل، وإلا حُذفت محادثات موجودة
+ *
+ * @example
+ * const { conversations, localOnly } = mergeConversations(state.conversations, remote);
+ */
+export const mergeConversations = (
+  local: Conversation[],
+  remote: Conversation[]
+): { conversations: Conversation[]; localOnly: Conversation[] } => {
+  const remoteIds = new Set(remote.map((c) => c.id));
+  const localById = new Map(local.map((c) => [c.id, c]));
+
+  const merged = remote.map((remoteConversation) => {
+    const localConversation = localById.get(remoteConversation.id);
+    if (!localConversation) return remoteConversation;
+
+    const localMessageIds = new Set(localConversation.messages.map((m) => m.id));
+    const messages = [
+      ...localConversation.messages,
+      ...remoteConversation.messages.filter((m) => !localMessageIds.has(m.id)),
+    ].sort((a, b) => toTime(a.timestamp) - toTime(b.timestamp));
+
+    const remoteIsNewer = toTime(remoteConversation.updatedAt) > toTime(localConversation.updatedAt);
+
+    return {
+      ...localConversation,
+      title: remoteIsNewer ? remoteConversation.title : localConversation.title,
+      titleSource: remoteIsNewer ? remoteConversation.titleSource : localConversation.titleSource,
+      settings: localConversation.settings ?? remoteConversation.settings,
+      projectProfile: localConversation.projectProfile ?? remoteConversation.projectProfile,
+      summary: localConversation.summary ?? remoteConversation.summary,
+      pinned: localConversation.pinned ?? remoteConversation.pinned,
+      folderId: localConversation.folderId ?? remoteConversation.folderId,
+      tagIds: localConversation.tagIds ?? remoteConversation.tagIds,
+      updatedAt: remoteIsNewer ? remoteConversation.updatedAt : localConversation.updatedAt,
+      messages,
+      synced: true,
+    };
+  });
+
+  const localOnly = local.filter((c) => !remoteIds.has(c.id) && !c.synced);
+
+  return {
+    conversations: [...merged, ...localOnly].sort(
+      (a, b) => toTime(b.updatedAt) - toTime(a.updatedAt)
+    ),
+    localOnly: localOnly.filter((c) => c.messages.length > 0),
+  };
+};
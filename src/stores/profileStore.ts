@@ -0,0 +1,80 @@
+/**
+ * @fileoverview متجر ملف المشروع - Project Profile Store
+ *
+ * @description
+ * يحتفظ بملف المشروع العام للمستخدم (نوع اللعبة، المكتبات، ...)
+ * الذي يُرسل مع كل طلب دردشة. تخصيص المحادثة الواحدة يُحفظ في
+ * Conversation.projectProfile داخل chatStore.
+ *
+ * ويحتفظ أيضاً بقوالب الرسائل التي أنشأها المستخدم (أوامر "/")،
+ * وتُحفظ مثل الملف في صف المستخدم في profiles.
+ *
+ * @dependencies
+ * - zustand/middleware/persist: نسخة محلية تعمل قبل وصول رد الخادم
+ *
+ * @usedBy
+ * - useChat: إرفاق الملف بالطلب
+ * - useConversationSync: تحميل الملف والقوالب من الخادم عند تسجيل الدخول
+ * - ProjectProfileDialog: التعديل
+ * - ChatInput / PromptTemplatesDialog: قوالب الرسائل
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { normalizeProjectProfile, type ProjectProfile } from '@shared/projectProfile';
+import { normalizePromptTemplates, type PromptTemplate } from '@/lib/promptTemplates';
+
+// ============================================================================
+// TYPE DEFINITIONS
+// ============================================================================
+
+interface ProfileState {
+  /** ملف المشروع العام (بعد التنظيف) */
+  projectProfile: ProjectProfile;
+
+  /**
+   * استبدال ملف المشروع العام
+   *
+   * @param profile - الملف الجديد (يُنظف ويُضبط ضمن الحدود)
+   */
+  setProjectProfile: (profile: ProjectProfile | null) => void;
+
+  /** قوالب المستخدم (بدون المدمجة) */
+  promptTemplates: PromptTemplate[];
+
+  /**
+   * استبدال قوالب المستخدم
+   *
+   * @param templates - القائمة الجديدة (تُنظف ويُحذف المكرر)
+   */
+  setPromptTemplates: (templates: PromptTemplate[] | null) => void;
+}
+
+// ============================================================================
+// STORE IMPLEMENTATION
+// ============================================================================
+
+export const useProfileStore = create<ProfileState>()(
+  persist(
+    (set) => ({
+      projectProfile: {},
+
+      setProjectProfile: (profile) => {
+        set({ projectProfile: normalizeProjectProfile(profile) });
+      },
+
+      promptTemplates: [],
+
+      setPromptTemplates: (templates) => {
+        set({ promptTemplates: normalizePromptTemplates(templates) });
+      },
+    }),
+    {
+      name: 'roblox-profile-storage',
+      partialize: (state) => ({
+        projectProfile: state.projectProfile,
+        promptTemplates: state.promptTemplates,
+      }),
+    }
+  )
+);
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { appendApiCheckNote } from '../../supabase/functions/chat/apiCheckStream';
+
+const streamOf = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+};
+
+const readAll = async (stream: ReadableStream<Uint8Array>) => {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return text;
+    text += decoder.decode(value, { stream: true });
+  }
+};
+
+const delta = (content: string) =>
+  `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content } }] })}\n\n`;
+
+describe('appendApiCheckNote', () => {
+  it('keeps reading when a chunk holds no complete line', async () => {
+    const line = delta('wait(1)');
+    const body = streamOf([line.slice(0, 10), line.slice(10, 20), line.slice(20), 'data: [DO', 'NE]\n\n']);
+
+    const output = await readAll(appendApiCheckNote(body, (content) => `note: ${content}`));
+
+    expect(output).toBe(`${line}${delta('note: wait(1)')}data: [DONE]\n\n`);
+  });
+
+  it('skips the note for replies cut at the length limit', async () => {
+    const cut = `data: ${JSON.stringify({ choices: [{ index: 0, delta: {}, finish_reason: 'length' }] })}\n\n`;
+    const body = streamOf([delta('local'), cut, 'data: [DONE]\n\n']);
+
+    const output = await readAll(appendApiCheckNote(body, () => 'note'));
+
+    expect(output).toBe(`${delta('local')}${cut}data: [DONE]\n\n`);
+  });
+});
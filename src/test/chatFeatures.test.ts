@@ -9,6 +9,7 @@ describe('Chat Features', () => {
       isLoading: false,
       pendingAttachments: [],
       visibleConversationsCount: 10,
+      outbox: [],
     });
   });
 
@@ -121,4 +122,61 @@ describe('Chat Features', () => {
     expect(useChatStore.getState().getMessages()[0].status).toBe('sent');
     expect(useChatStore.getState().getMessages()[0].content).toBe('Test Updated');
   });
+
+  it('should queue a message in the outbox only once', () => {
+    const { createConversation, addMessage, enqueueMessage } = useChatStore.getState();
+
+    const conversationId = createConversation();
+    const msgId = addMessage({ role: 'user', content: 'Offline', status: 'sent' });
+
+    enqueueMessage(conversationId, msgId);
+    enqueueMessage(conversationId, msgId);
+
+    expect(useChatStore.getState().outbox).toHaveLength(1);
+    expect(useChatStore.getState().getMessages()[0].status).toBe('queued');
+  });
+
+  it('should drop outbox entries when their message or conversation is deleted', () => {
+    const { createConversation, addMessage, enqueueMessage, deleteMessage, deleteConversation } = useChatStore.getState();
+
+    const id1 = createConversation();
+    const msg1 = addMessage({ role: 'user', content: 'First' });
+    enqueueMessage(id1, msg1);
+    deleteMessage(msg1);
+    expect(useChatStore.getState().outbox).toHaveLength(0);
+
+    const msg2 = addMessage({ role: 'user', content: 'Second' });
+    enqueueMessage(id1, msg2);
+    deleteConversation(id1);
+    expect(useChatStore.getState().outbox).toHaveLength(0);
+  });
+
+  it('should insert a reply right after the queued message it answers', () => {
+    const { createConversation, addMessage } = useChatStore.getState();
+
+    const conversationId = createConversation();
+    const first = addMessage({ role: 'user', content: 'First' });
+    addMessage({ role: 'user', content: 'Second' });
+    addMessage({ role: 'assistant', content: 'Reply to first' }, conversationId, first);
+
+    expect(useChatStore.getState().getMessages().map((m) => m.content)).toEqual([
+      'First',
+      'Reply to first',
+      'Second',
+    ]);
+  });
+
+  it('should keep partial content when a reply is marked as stopped', () => {
+    const { createConversation, addMessage, updateMessage, patchMessage } = useChatStore.getState();
+
+    createConversation();
+    const replyId = addMessage({ role: 'assistant', content: '', isStreaming: true });
+    updateMessage(replyId, 'local part = Instance.new(');
+    patchMessage(replyId, { isStreaming: false, stopReason: 'stopped' });
+
+    const [reply] = useChatStore.getState().getMessages();
+    expect(reply.content).toBe('local part = Instance.new(');
+    expect(reply.isStreaming).toBe(false);
+    expect(reply.stopReason).toBe('stopped');
+  });
 });
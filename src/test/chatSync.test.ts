@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useChatStore, Conversation } from '../stores/chatStore';
+import { mergeConversations, setChatSyncAdapter, ChatSyncAdapter } from '../stores/chatSync';
+import { makeConversation } from './fixtures';
+
+describe('mergeConversations', () => {
+  it('adds remote conversations that are missing locally', () => {
+    const remote = makeConversation({ title: 'Remote' });
+    const { conversations, localOnly } = mergeConversations([], [remote]);
+
+    expect(conversations).toEqual([remote]);
+    expect(localOnly).toEqual([]);
+  });
+
+  it('unions messages and keeps local drafts', () => {
+    const shared = { id: 'm1', role: 'user' as const, content: 'Hi', timestamp: new Date('2025-01-01T00:00:01Z') };
+    const remoteOnly = { id: 'm2', role: 'assistant' as const, content: 'Hello', timestamp: new Date('2025-01-01T00:00:02Z') };
+
+    const local = makeConversation({ id: 'c1', messages: [shared], draft: 'draft' });
+    const remote = makeConversation({
+      id: 'c1',
+      title: 'Renamed',
+      messages: [shared, remoteOnly],
+      updatedAt: new Date('2025-01-02T00:00:00Z'),
+    });
+
+    const { conversations } = mergeConversations([local], [remote]);
+
+    expect(conversations).toHaveLength(1);
+    expect(conversations[0].messages.map((m) => m.id)).toEqual(['m1', 'm2']);
+    expect(conversations[0].title).toBe('Renamed');
+    expect(conversations[0].draft).toBe('draft');
+  });
+
+  it('reports non-empty local conversations that the server does not have', () => {
+    const empty = makeConversation({});
+    const withMessages = makeConversation({
+      messages: [{ id: 'm1', role: 'user', content: 'Hi', timestamp: new Date() }],
+    });
+
+    const { localOnly } = mergeConversations([empty, withMessages], []);
+
+    expect(localOnly.map((c) => c.id)).toEqual([withMessages.id]);
+  });
+
+  it('drops conversations that were uploaded before and are gone from the server', () => {
+    const message = { id: 'm1', role: 'user' as const, content: 'Hi', timestamp: new Date() };
+    const deletedElsewhere = makeConversation({ messages: [message], synced: true });
+    const neverUploaded = makeConversation({ messages: [message] });
+
+    const { conversations, localOnly } = mergeConversations([deletedElsewhere, neverUploaded], []);
+
+    expect(conversations.map((c) => c.id)).toEqual([neverUploaded.id]);
+    expect(localOnly.map((c) => c.id)).toEqual([neverUploaded.id]);
+  });
+});
+
+describe('chatStore write-through', () => {
+  const adapter: ChatSyncAdapter = {
+    upsertConversation: vi.fn(),
+    deleteConversation: vi.fn(),
+    upsertMessage: vi.fn(),
+    deleteMessage: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    setChatSyncAdapter(adapter);
+    useChatStore.setState({
+      conversations: [],
+      currentConversationId: null,
+      isLoading: false,
+      pendingAttachments: [],
+    });
+  });
+
+  afterEach(() => {
+    setChatSyncAdapter(null);
+  });
+
+  it('forwards conversation and message changes to the adapter', () => {
+    const { createConversation, addMessage, updateMessage, deleteMessage, deleteConversation } =
+      useChatStore.getState();
+
+    const conversationId = createConversation();
+    const messageId = addMessage({ role: 'user', content: 'Hello' });
+    updateMessage(messageId, 'Hello again');
+    deleteMessage(messageId);
+    deleteConversation(conversationId);
+
+    expect(adapter.upsertConversation).toHaveBeenCalled();
+    expect(adapter.upsertMessage).toHaveBeenLastCalledWith(
+      conversationId,
+      expect.objectContaining({ id: messageId, content: 'Hello again' })
+    );
+    expect(adapter.deleteMessage).toHaveBeenCalledWith(messageId);
+    expect(adapter.deleteConversation).toHaveBeenCalledWith(conversationId);
+  });
+});
+
+describe('claimLocalData', () => {
+  beforeEach(() => {
+    useChatStore.setState({ conversations: [], currentConversationId: null, outbox: [], ownerId: null });
+  });
+
+  it('adopts unowned data and clears data that belongs to another user', () => {
+    const { claimLocalData, createConversation, addMessage, enqueueMessage } = useChatStore.getState();
+    const conversationId = createConversation();
+    enqueueMessage(conversationId, addMessage({ role: 'user', content: 'Hi' }));
+
+    claimLocalData('user-a');
+    expect(useChatStore.getState().conversations).toHaveLength(1);
+    expect(useChatStore.getState().ownerId).toBe('user-a');
+
+    claimLocalData('user-a');
+    expect(useChatStore.getState().conversations).toHaveLength(1);
+
+    claimLocalData('user-b');
+    expect(useChatStore.getState()).toMatchObject({
+      conversations: [],
+      outbox: [],
+      currentConversationId: null,
+      ownerId: 'user-b',
+    });
+  });
+});
+
+describe('pending sync', () => {
+  const adapter: ChatSyncAdapter = {
+    upsertConversation: vi.fn(),
+    deleteConversation: vi.fn(),
+    upsertMessage: vi.fn(),
+    deleteMessage: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useChatStore.setState({ conversations: [], currentConversationId: null, pendingSync: [] });
+  });
+
+  afterEach(() => {
+    setChatSyncAdapter(null);
+  });
+
+  it('keeps one pending write per entity and clears it on success', () => {
+    const { queueSyncRetry, resolveSyncOperation } = useChatStore.getState();
+
+    queueSyncRetry({ kind: 'upsertConversation', conversationId: 'c1' });
+    queueSyncRetry({ kind: 'upsertMessage', conversationId: 'c1', messageId: 'm1' });
+    queueSyncRetry({ kind: 'deleteMessage', messageId: 'm1' });
+    expect(useChatStore.getState().pendingSync).toEqual([
+      { kind: 'upsertConversation', conversationId: 'c1' },
+      { kind: 'deleteMessage', messageId: 'm1' },
+    ]);
+
+    resolveSyncOperation({ kind: 'upsertMessage', conversationId: 'c1', messageId: 'm1' });
+    resolveSyncOperation({ kind: 'deleteConversation', conversationId: 'c1' });
+    expect(useChatStore.getState().pendingSync).toEqual([]);
+  });
+
+  it('replays pending writes with the current state', () => {
+    const { createConversation, addMessage, queueSyncRetry, retryPendingSync } = useChatStore.getState();
+    const conversationId = createConversation();
+    const messageId = addMessage({ role: 'user', content: 'Hi' });
+    setChatSyncAdapter(adapter);
+
+    queueSyncRetry({ kind: 'upsertConversation', conversationId });
+    queueSyncRetry({ kind: 'upsertMessage', conversationId: 'gone', messageId: 'gone' });
+    queueSyncRetry({ kind: 'deleteConversation', conversationId: 'deleted' });
+    retryPendingSync();
+
+    expect(useChatStore.getState().pendingSync).toEqual([]);
+    expect(adapter.upsertConversation).toHaveBeenCalledWith(expect.objectContaining({ id: conversationId }));
+    // لم تصل للخادم قط: تُرفع رسائلها معها
+    expect(adapter.upsertMessage).toHaveBeenCalledTimes(1);
+    expect(adapter.upsertMessage).toHaveBeenCalledWith(conversationId, expect.objectContaining({ id: messageId }));
+    expect(adapter.deleteConversation).toHaveBeenCalledWith('deleted');
+  });
+
+  it('does not bring back remote rows whose deletion is still pending', () => {
+    const remote: Conversation = {
+      id: 'c1',
+      title: 'Remote',
+      messages: [],
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      unreadCount: 0,
+      draft: '',
+    };
+    useChatStore.getState().queueSyncRetry({ kind: 'deleteConversation', conversationId: 'c1' });
+
+    useChatStore.getState().mergeRemoteConversations([remote]);
+
+    expect(useChatStore.getState().conversations).toEqual([]);
+  });
+});
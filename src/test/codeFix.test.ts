@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { applyHunks, diffLines } from '../lib/diff';
+import { extractCodeBlocks } from '../lib/codeBlocks';
+import { buildCodeFixPrompt, extractFixedCode } from '../lib/codeFix';
+
+const original = ['--!strict', 'while true do', '  wait(1)', '  print("tick")', 'end'].join('\n');
+const fixed = ['--!strict', 'while true do', '  task.wait(1)', '  print("tick")', 'end', 'print("done")'].join('\n');
+
+describe('diffLines', () => {
+  it('groups changes into hunks with leading context', () => {
+    expect(diffLines(original, fixed)).toEqual([
+      { oldStart: 2, removed: ['  wait(1)'], added: ['  task.wait(1)'], context: ['--!strict', 'while true do'] },
+      { oldStart: 5, removed: [], added: ['print("done")'], context: ['  print("tick")', 'end'] },
+    ]);
+    expect(diffLines(original, original)).toEqual([]);
+  });
+
+  it('applies only accepted hunks', () => {
+    const hunks = diffLines(original, fixed);
+
+    expect(applyHunks(original, hunks, [true, true])).toBe(fixed);
+    expect(applyHunks(original, hunks, [false, false])).toBe(original);
+    expect(applyHunks(original, hunks, [true, false])).toBe(fixed.replace('\nprint("done")', ''));
+  });
+});
+
+describe('buildCodeFixPrompt', () => {
+  it('includes the code, diagnostics and pasted Output', () => {
+    const prompt = buildCodeFixPrompt({
+      language: 'lua',
+      code: 'wait(1)',
+      diagnostics: [{ rule: 'legacy-scheduler', severity: 'warning', line: 1, message: 'متقادمة', suggestion: 'task.wait' }],
+      studioOutput: '  Workspace.Script:1: oops  ',
+    });
+
+    expect(prompt).toContain('```lua\nwait(1)\n```');
+    expect(prompt).toContain('- سطر 1: متقادمة (`task.wait`)');
+    expect(prompt).toContain('```text\nWorkspace.Script:1: oops\n```');
+  });
+
+  it('keeps the end of a long Output log', () => {
+    const lines = Array.from({ length: 400 }, (_, i) => `Workspace.Script:${i + 1}: error ${i + 1}`);
+    const prompt = buildCodeFixPrompt({ language: 'lua', code: 'x()', diagnostics: [], studioOutput: lines.join('\n') });
+
+    expect(prompt).toContain('Workspace.Script:400: error 400\n```');
+    expect(prompt).not.toContain('Workspace.Script:1: error 1\n');
+    expect(prompt).toContain('```text\n…\n');
+  });
+
+  it('uses a longer fence when the code contains backticks', () => {
+    const prompt = buildCodeFixPrompt({ language: 'lua', code: 'local s = `a```', diagnostics: [] });
+    expect(prompt).toContain('````lua\nlocal s = `a```\n````');
+    expect(prompt).not.toContain('ملاحظات الفحص');
+  });
+});
+
+describe('extractFixedCode', () => {
+  it('returns the first closed block in the same language family', () => {
+    const reply = 'تم:\n```json\n{}\n```\n```luau\ntask.wait(1)\n```\n```lua\nother()';
+
+    expect(extractCodeBlocks(reply).map((b) => b.language)).toEqual(['json', 'luau']);
+    expect(extractFixedCode(reply, { language: 'lua', code: 'wait(1)' })).toBe('task.wait(1)');
+    expect(extractFixedCode('no code', { language: 'lua', code: '' })).toBeNull();
+  });
+});
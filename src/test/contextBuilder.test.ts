@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_MESSAGE_CHARS,
+  RECENT_TOKEN_BUDGET,
+  buildSummarizeRequest,
+  planContext,
+  truncateForContext,
+} from '../lib/contextBuilder';
+import { makeMessage } from './fixtures';
+
+// كل رسالة ≈ 1000 token
+const message = (index: number) =>
+  makeMessage({ id: `m${index}`, role: index % 2 === 0 ? 'user' : 'assistant', content: 'x'.repeat(4000) });
+
+const history = (count: number) => Array.from({ length: count }, (_, i) => message(i));
+
+describe('contextBuilder', () => {
+  it('sends the whole history while it fits the budget', () => {
+    const plan = planContext(history(10));
+
+    expect(plan.summary).toBeNull();
+    expect(plan.toSummarize).toEqual([]);
+    expect(plan.recent).toHaveLength(10);
+  });
+
+  it('keeps recent turns and marks older ones for summarization when over budget', () => {
+    const plan = planContext(history(40));
+    const recentCount = RECENT_TOKEN_BUDGET / 1000;
+
+    expect(plan.recent).toHaveLength(recentCount);
+    expect(plan.recent[plan.recent.length - 1].id).toBe('m39');
+    expect(plan.toSummarize).toHaveLength(40 - recentCount);
+    expect(plan.toSummarize[0].id).toBe('m0');
+  });
+
+  it('skips messages already covered by a summary on this branch', () => {
+    const summary = { content: 'ملخص', upToMessageId: 'm29', messageCount: 30 };
+    const plan = planContext(history(40), summary);
+
+    expect(plan.summary).toBe(summary);
+    expect(plan.toSummarize).toEqual([]);
+    expect(plan.recent.map((m) => m.id)).toEqual(history(40).slice(30).map((m) => m.id));
+  });
+
+  it('ignores a summary from another branch', () => {
+    const summary = { content: 'ملخص', upToMessageId: 'other', messageCount: 5 };
+
+    expect(planContext(history(4), summary).summary).toBeNull();
+  });
+
+  it('truncates messages longer than the server limit', () => {
+    const truncated = truncateForContext('a'.repeat(MAX_MESSAGE_CHARS + 10));
+
+    expect(truncated.length).toBe(MAX_MESSAGE_CHARS);
+    expect(truncateForContext('short')).toBe('short');
+  });
+
+  it('builds a summarize request that carries the previous summary', () => {
+    const request = buildSummarizeRequest(
+      { content: 'قديم', upToMessageId: 'm0', messageCount: 1 },
+      history(2)
+    );
+
+    expect(request[0].role).toBe('system');
+    expect(request[0].content).toContain('قديم');
+    expect(request[request.length - 1].role).toBe('user');
+    expect(request).toHaveLength(4);
+  });
+});
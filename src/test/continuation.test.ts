@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { buildContinuationPrompt, findOpenFence, mergeContinuation } from '../lib/continuation';
+
+describe('findOpenFence', () => {
+  it('detects an unclosed lua block', () => {
+    const content = 'شرح\n```lua\nlocal Players = game:GetService("Players")\n';
+    expect(findOpenFence(content)).toEqual({ marker: '```', language: 'lua' });
+  });
+
+  it('returns null when every block is closed', () => {
+    const content = '```lua\nprint(1)\n```\n\nنص\n```json\n{}\n```';
+    expect(findOpenFence(content)).toBeNull();
+  });
+});
+
+describe('buildContinuationPrompt', () => {
+  it('tells the model not to reopen an unclosed block', () => {
+    expect(buildContinuationPrompt('```lua\nlocal x =')).toContain('without opening a new code block');
+    expect(buildContinuationPrompt('plain text')).not.toContain('code block');
+  });
+});
+
+describe('mergeContinuation', () => {
+  it('drops a reopened lua fence inside an unclosed block', () => {
+    const previous = '```lua\nlocal DataStore = {}\n';
+    const continuation = '```lua\nfunction DataStore.new()\nend\n```';
+
+    expect(mergeContinuation(previous, continuation)).toBe(
+      '```lua\nlocal DataStore = {}\nfunction DataStore.new()\nend\n```'
+    );
+  });
+
+  it('keeps a closing fence that immediately follows the cut', () => {
+    const previous = '```lua\nprint("done")\n';
+    expect(mergeContinuation(previous, '```\n\nتم.')).toBe('```lua\nprint("done")\n```\n\nتم.');
+  });
+
+  it('removes text the model repeated from the end of the previous part', () => {
+    const previous = '```lua\nlocal part = Instance.new(';
+    const continuation = 'local part = Instance.new("Part")\n```';
+
+    expect(mergeContinuation(previous, continuation)).toBe(
+      '```lua\nlocal part = Instance.new("Part")\n```'
+    );
+  });
+
+  it('appends plain text as-is', () => {
+    expect(mergeContinuation('الخطوة الأولى', ' ثم الخطوة الثانية')).toBe(
+      'الخطوة الأولى ثم الخطوة الثانية'
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import type { Conversation, Message } from '../stores/chatStore';
+import {
+  EXPORT_FORMAT,
+  buildExportFile,
+  conversationToHtml,
+  conversationToMarkdown,
+  toFileName,
+} from '../lib/conversationExport';
+import { crc32, createZip } from '../lib/zip';
+
+const at = (minute: number) => new Date(2025, 0, 1, 12, minute);
+
+const messages: Message[] = [
+  {
+    id: 'u1',
+    role: 'user',
+    content: 'كيف أحفظ البيانات؟',
+    timestamp: at(0),
+    parentId: null,
+    status: 'sent',
+    attachments: [{ id: 'f1', type: 'file', name: 'Data.lua', url: 'blob:x', base64: 'cHJpbnQ=', size: 6 }],
+  },
+  { id: 'a-old', role: 'assistant', content: 'رد قديم', timestamp: at(1), parentId: 'u1' },
+  {
+    id: 'a1',
+    role: 'assistant',
+    content: 'استخدم DataStoreService:\n\n```lua\nlocal DataStoreService = game:GetService("DataStoreService")',
+    timestamp: at(2),
+    parentId: 'u1',
+    stopReason: 'stopped',
+    isStreaming: false,
+  },
+];
+
+const conversation: Conversation = {
+  id: 'c1',
+  title: 'نظام <الحفظ>',
+  messages,
+  activeLeafId: 'a1',
+  createdAt: at(0),
+  updatedAt: at(2),
+  unreadCount: 2,
+  draft: 'مسودة',
+  folderId: 'folder-1',
+  tagIds: ['tag-1'],
+};
+
+describe('conversationToMarkdown', () => {
+  it('exports the active branch and keeps lua fences', () => {
+    const markdown = conversationToMarkdown(conversation);
+
+    expect(markdown.startsWith('# نظام <الحفظ>\n')).toBe(true);
+    expect(markdown).toContain('```lua\nlocal DataStoreService');
+    expect(markdown).not.toContain('رد قديم');
+    expect(markdown).toContain('- 📎 Data.lua (6 B)');
+  });
+
+  it('closes a code block left open by a stopped reply', () => {
+    expect(conversationToMarkdown(conversation).trimEnd().endsWith('game:GetService("DataStoreService")\n```')).toBe(true);
+  });
+});
+
+describe('buildExportFile', () => {
+  it('serializes every branch without session-only fields', () => {
+    const file = buildExportFile(
+      [conversation],
+      {
+        folders: [
+          { id: 'folder-1', name: 'لعبة', createdAt: at(0) },
+          { id: 'folder-2', name: 'أخرى', createdAt: at(0) },
+        ],
+        tags: [{ id: 'tag-1', name: 'DataStore', color: 'blue' }],
+      },
+      at(5)
+    );
+
+    expect(file).toMatchObject({ format: EXPORT_FORMAT, version: 1, exportedAt: at(5).toISOString() });
+    expect(file.folders).toEqual([{ id: 'folder-1', name: 'لعبة', createdAt: at(0).toISOString() }]);
+    expect(file.tags).toHaveLength(1);
+
+    const [exported] = file.conversations;
+    expect(exported.messages).toHaveLength(3);
+    expect(exported).not.toHaveProperty('draft');
+    expect(exported).not.toHaveProperty('unreadCount');
+    expect(exported.messages[0]).not.toHaveProperty('status');
+    expect(exported.messages[0].attachments[0]).toEqual({
+      id: 'f1', type: 'file', name: 'Data.lua', base64: 'cHJpbnQ=', size: 6,
+    });
+    expect(exported.messages[0].timestamp).toBe(at(0).toISOString());
+  });
+});
+
+describe('conversationToHtml', () => {
+  it('renders a standalone document with escaped title and highlighted code', async () => {
+    const html = await conversationToHtml(conversation);
+
+    expect(html.startsWith('<!DOCTYPE html>\n<html lang="ar" dir="rtl">')).toBe(true);
+    expect(html).toContain('<title>نظام &lt;الحفظ&gt;</title>');
+    expect(html).toContain('<style>');
+    expect(html).toMatch(/<span[^>]*style="[^"]*color[^"]*"[^>]*>local<\/span>/);
+    expect(html).not.toContain('رد قديم');
+  });
+});
+
+describe('toFileName', () => {
+  it('keeps letters from any script and drops punctuation', () => {
+    expect(toFileName('نظام الحفظ: DataStore?', 'md')).toBe('نظام-الحفظ-DataStore.md');
+    expect(toFileName('???', 'json')).toBe('conversation.json');
+  });
+});
+
+describe('createZip', () => {
+  it('computes standard CRC-32 checksums', () => {
+    expect(crc32(new TextEncoder().encode('hello'))).toBe(0x3610a686);
+  });
+
+  it('writes stored entries with UTF-8 names and a central directory', () => {
+    const zip = createZip([
+      { name: 'محادثة.md', content: '# hi' },
+      { name: 'b.json', content: '{}' },
+    ]);
+    const view = new DataView(zip.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(6, true) & 0x0800).toBe(0x0800);
+
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+  });
+});
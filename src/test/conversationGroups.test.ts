@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useChatStore, type Conversation } from '../stores/chatStore';
+import { groupConversations } from '../lib/conversationGroups';
+import { getDateBucket } from '../lib/dateUtils';
+import { makeConversation } from './fixtures';
+
+const now = new Date(2025, 0, 15, 12);
+
+const conversation = (id: string, updatedAt: Date, extra: Partial<Conversation> = {}) =>
+  makeConversation({ id, title: id, createdAt: updatedAt, updatedAt, ...extra });
+
+describe('getDateBucket', () => {
+  it('uses calendar days rather than 24-hour windows', () => {
+    expect(getDateBucket(new Date(2025, 0, 15, 0, 5), now)).toBe('today');
+    expect(getDateBucket(new Date(2025, 0, 14, 23, 30), now)).toBe('yesterday');
+    expect(getDateBucket(new Date(2025, 0, 10), now)).toBe('thisWeek');
+    expect(getDateBucket(new Date(2025, 0, 1), now)).toBe('thisMonth');
+    expect(getDateBucket(new Date(2024, 10, 1), now)).toBe('older');
+  });
+});
+
+describe('groupConversations', () => {
+  const folders = [{ id: 'game', name: 'Obby', createdAt: now }];
+
+  it('splits pinned, foldered and dated conversations, newest first', () => {
+    const groups = groupConversations(
+      [
+        conversation('old', new Date(2024, 10, 1)),
+        conversation('today', new Date(2025, 0, 15, 9)),
+        conversation('pinned', new Date(2024, 0, 1), { pinned: true, folderId: 'game' }),
+        conversation('inFolder', new Date(2025, 0, 14), { folderId: 'game' }),
+        conversation('todayLater', new Date(2025, 0, 15, 11)),
+      ],
+      folders,
+      { now }
+    );
+
+    expect(groups.pinned.map((c) => c.id)).toEqual(['pinned']);
+    expect(groups.folders[0].conversations.map((c) => c.id)).toEqual(['inFolder']);
+    expect(groups.dates.map((d) => d.bucket)).toEqual(['today', 'older']);
+    expect(groups.dates[0].conversations.map((c) => c.id)).toEqual(['todayLater', 'today']);
+  });
+
+  it('treats unknown folders as ungrouped and paginates only the dated list', () => {
+    const groups = groupConversations(
+      [
+        conversation('a', new Date(2025, 0, 15), { folderId: 'deleted' }),
+        conversation('b', new Date(2025, 0, 14)),
+        conversation('c', new Date(2025, 0, 13), { folderId: 'game' }),
+      ],
+      folders,
+      { now, limit: 1 }
+    );
+
+    expect(groups.dates.flatMap((d) => d.conversations.map((c) => c.id))).toEqual(['a']);
+    expect(groups.ungroupedTotal).toBe(2);
+    expect(groups.folders[0].conversations).toHaveLength(1);
+  });
+
+  it('filters by tag', () => {
+    const groups = groupConversations(
+      [conversation('tagged', now, { tagIds: ['bug'] }), conversation('plain', now)],
+      [],
+      { now, tagId: 'bug' }
+    );
+
+    expect(groups.dates[0].conversations.map((c) => c.id)).toEqual(['tagged']);
+  });
+});
+
+describe('chatStore organization', () => {
+  beforeEach(() => {
+    useChatStore.setState({
+      conversations: [conversation('c1', now), conversation('c2', now)],
+      folders: [],
+      tags: [],
+    });
+  });
+
+  it('moves conversations out of a deleted folder', () => {
+    const { createFolder, moveConversationToFolder, deleteFolder } = useChatStore.getState();
+    const folderId = createFolder('  Tycoon ');
+    moveConversationToFolder('c1', folderId);
+
+    expect(useChatStore.getState().folders[0].name).toBe('Tycoon');
+    expect(useChatStore.getState().conversations[0].folderId).toBe(folderId);
+
+    deleteFolder(folderId);
+    expect(useChatStore.getState().conversations[0].folderId).toBeNull();
+  });
+
+  it('ignores moves to a folder that does not exist', () => {
+    useChatStore.getState().moveConversationToFolder('c1', 'missing');
+
+    expect(useChatStore.getState().conversations[0].folderId).toBeNull();
+  });
+
+  it('toggles tags and strips deleted tags from conversations', () => {
+    const { createTag, toggleConversationTag, deleteTag } = useChatStore.getState();
+    const tagId = createTag('bug', 'red');
+    toggleConversationTag('c1', tagId);
+    toggleConversationTag('c2', tagId);
+    toggleConversationTag('c2', tagId);
+
+    expect(useChatStore.getState().conversations.map((c) => c.tagIds)).toEqual([[tagId], []]);
+
+    deleteTag(tagId);
+    expect(useChatStore.getState().conversations[0].tagIds).toEqual([]);
+  });
+
+  it('picks up folders and tags saved by another tab', () => {
+    const { createFolder, createTag } = useChatStore.getState();
+    const folderId = createFolder('Tycoon');
+    const tagId = createTag('bug', 'red');
+    const savedByOtherTab = localStorage.getItem('roblox-chat-storage')!;
+    useChatStore.setState({ folders: [], tags: [] });
+    localStorage.setItem('roblox-chat-storage', savedByOtherTab);
+
+    useChatStore.getState().syncFromStorage();
+
+    expect(useChatStore.getState().folders.map((folder) => folder.id)).toEqual([folderId]);
+    expect(useChatStore.getState().tags.map((tag) => tag.id)).toEqual([tagId]);
+  });
+});
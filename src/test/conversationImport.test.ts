@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import type { Conversation } from '../stores/chatStore';
+import { buildExportFile } from '../lib/conversationExport';
+import {
+  ImportFormatError,
+  describeSkipped,
+  parseImportFile,
+  prepareImport,
+} from '../lib/conversationImport';
+
+const at = (minute: number) => new Date(2025, 0, 1, 12, minute);
+
+const conversation: Conversation = {
+  id: 'c1',
+  title: 'DataStore',
+  messages: [
+    {
+      id: 'u1',
+      role: 'user',
+      content: 'كيف أحفظ البيانات؟',
+      timestamp: at(0),
+      parentId: null,
+      attachments: [{ id: 'f1', type: 'image', name: 'shot.png', url: 'blob:x', base64: 'AAAA', mimeType: 'image/png' }],
+    },
+    { id: 'a1', role: 'assistant', content: 'استخدم DataStoreService', timestamp: at(1), parentId: 'u1' },
+  ],
+  activeLeafId: 'a1',
+  createdAt: at(0),
+  updatedAt: at(1),
+  unreadCount: 0,
+  draft: '',
+  summary: { content: 'ملخص', upToMessageId: 'u1', messageCount: 1 },
+  folderId: 'folder-1',
+  tagIds: ['tag-1'],
+};
+
+const archive = () =>
+  JSON.stringify(
+    buildExportFile([conversation], {
+      folders: [{ id: 'folder-1', name: 'لعبة', createdAt: at(0) }],
+      tags: [{ id: 'tag-1', name: 'DataStore', color: 'blue' }],
+    })
+  );
+
+const empty = { conversations: [], folders: [], tags: [] };
+
+/** مثال مصغر من conversations.json في تصدير ChatGPT */
+const chatGptExport = JSON.stringify([
+  {
+    title: 'Leaderboard script',
+    create_time: 1700000000,
+    update_time: 1700000300,
+    current_node: 'n-a2',
+    mapping: {
+      root: { id: 'root', message: null, parent: null, children: ['n-sys'] },
+      'n-sys': {
+        id: 'n-sys',
+        message: { id: 'n-sys', author: { role: 'system' }, content: { content_type: 'text', parts: [''] } },
+        parent: 'root',
+        children: ['n-u'],
+      },
+      'n-u': {
+        id: 'n-u',
+        message: { id: 'n-u', author: { role: 'user' }, create_time: 1700000100, content: { content_type: 'text', parts: ['leaderstats?'] } },
+        parent: 'n-sys',
+        children: ['n-a1', 'n-a2'],
+      },
+      'n-a1': {
+        id: 'n-a1',
+        message: { id: 'n-a1', author: { role: 'assistant' }, create_time: 1700000200, content: { content_type: 'text', parts: ['first'] } },
+        parent: 'n-u',
+        children: [],
+      },
+      'n-a2': {
+        id: 'n-a2',
+        message: { id: 'n-a2', author: { role: 'assistant' }, create_time: 1700000300, content: { content_type: 'text', parts: ['second'] } },
+        parent: 'n-u',
+        children: [],
+      },
+    },
+  },
+  { title: 'Broken', mapping: 'nope' },
+]);
+
+describe('parseImportFile', () => {
+  it('reads an app archive and rebuilds dates and attachment urls', () => {
+    const parsed = parseImportFile(archive());
+
+    expect(parsed.source).toBe('archive');
+    const [imported] = parsed.conversations;
+    expect(imported.createdAt).toEqual(at(0));
+    expect(imported.messages[0].timestamp).toBeInstanceOf(Date);
+    expect(imported.messages[0].attachments[0].url).toBe('data:image/png;base64,AAAA');
+    expect(parsed.folders[0].createdAt).toEqual(at(0));
+  });
+
+  it('maps the ChatGPT tree, folding hidden nodes and keeping branches', () => {
+    const parsed = parseImportFile(chatGptExport);
+
+    expect(parsed.source).toBe('chatgpt');
+    expect(parsed.skipped).toEqual([{ title: 'Broken', reason: 'invalid' }]);
+
+    const [imported] = parsed.conversations;
+    expect(imported.title).toBe('Leaderboard script');
+    expect(imported.messages.map((m) => [m.id, m.parentId])).toEqual([
+      ['n-u', null],
+      ['n-a1', 'n-u'],
+      ['n-a2', 'n-u'],
+    ]);
+    expect(imported.activeLeafId).toBe('n-a2');
+    expect(imported.createdAt).toEqual(new Date(1700000000 * 1000));
+  });
+
+  it('rejects unknown formats', () => {
+    expect(() => parseImportFile('not json')).toThrow(ImportFormatError);
+    expect(() => parseImportFile('{"hello":1}')).toThrow(ImportFormatError);
+  });
+});
+
+describe('prepareImport', () => {
+  it('remaps every id and links folders and tags by name', () => {
+    const prepared = prepareImport(parseImportFile(archive()), {
+      ...empty,
+      tags: [{ id: 'mine', name: 'DataStore', color: 'red' }],
+    });
+
+    const [imported] = prepared.conversations;
+    const [user, reply] = imported.messages;
+    expect(imported.id).not.toBe('c1');
+    expect(user.id).not.toBe('u1');
+    expect(reply.parentId).toBe(user.id);
+    expect(imported.activeLeafId).toBe(reply.id);
+    expect(imported.summary.upToMessageId).toBe(user.id);
+
+    expect(imported.tagIds).toEqual(['mine']);
+    expect(prepared.tags).toEqual([]);
+    expect(prepared.folders).toHaveLength(1);
+    expect(imported.folderId).toBe(prepared.folders[0].id);
+  });
+
+  it('skips conversations that already exist or repeat inside the file', () => {
+    const parsed = parseImportFile(archive());
+    parsed.conversations.push({ ...parsed.conversations[0], id: 'copy' });
+
+    expect(prepareImport(parsed, empty).skipped).toEqual([{ title: 'DataStore', reason: 'duplicate' }]);
+
+    // استيراد نفس الملف بعد تغيير المعرفات
+    const first = prepareImport(parseImportFile(archive()), empty);
+    const second = prepareImport(parseImportFile(archive()), { ...empty, conversations: first.conversations });
+    expect(second.conversations).toHaveLength(0);
+    expect(second.skipped).toEqual([{ title: 'DataStore', reason: 'duplicate' }]);
+  });
+});
+
+describe('describeSkipped', () => {
+  it('summarizes reasons and names the first few titles', () => {
+    expect(describeSkipped([])).toBeNull();
+    expect(
+      describeSkipped([
+        { title: 'أ', reason: 'duplicate' },
+        { title: 'ب', reason: 'duplicate' },
+        { title: 'ج', reason: 'invalid' },
+        { title: 'د', reason: 'empty' },
+      ])
+    ).toBe('تم تخطي 2 مكررة، 1 غير صالحة، 1 فارغة: أ، ب، ج و1 أخرى');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import type { Conversation } from '../stores/chatStore';
+import { buildShareSnapshot, createShareSlug, findSharedOriginal, getShareUrl } from '../lib/conversationShare';
+import { parseSharedSnapshot, prepareImport } from '../lib/conversationImport';
+
+const at = (minute: number) => new Date(2025, 0, 1, 12, minute);
+
+const conversation: Conversation = {
+  id: 'c1',
+  title: 'Leaderboard',
+  messages: [
+    {
+      id: 'u1',
+      role: 'user',
+      content: 'leaderstats?',
+      timestamp: at(0),
+      parentId: null,
+      attachments: [{ id: 'f1', type: 'image', name: 'shot.png', url: 'blob:x', base64: 'AAAA', mimeType: 'image/png' }],
+    },
+    { id: 'a1', role: 'assistant', content: 'first', timestamp: at(1), parentId: 'u1' },
+    { id: 'a2', role: 'assistant', content: 'second', timestamp: at(2), parentId: 'u1' },
+  ],
+  activeLeafId: 'a2',
+  createdAt: at(0),
+  updatedAt: at(2),
+  unreadCount: 0,
+  draft: 'مسودة',
+  summary: { content: 'ملخص', upToMessageId: 'u1', messageCount: 1 },
+  projectProfile: { gameGenre: 'Obby' },
+  folderId: 'folder-1',
+  tagIds: ['tag-1'],
+};
+
+describe('createShareSlug', () => {
+  it('returns distinct url-safe slugs accepted by the table check', () => {
+    const slugs = new Set(Array.from({ length: 20 }, createShareSlug));
+
+    expect(slugs.size).toBe(20);
+    for (const slug of slugs) {
+      expect(slug).toMatch(/^[A-Za-z0-9_-]{22}$/);
+    }
+    expect(getShareUrl('abc', 'https://example.com')).toBe('https://example.com/share/abc');
+  });
+});
+
+describe('buildShareSnapshot', () => {
+  it('keeps only the visible branch and drops private fields', () => {
+    const snapshot = buildShareSnapshot(conversation);
+
+    expect(snapshot.messages.map((m) => m.content)).toEqual(['leaderstats?', 'second']);
+    expect(snapshot.id).not.toBe('c1');
+    expect(snapshot.messages.map((m) => m.id)).not.toContain('u1');
+    expect(snapshot.messages[1].parentId).toBe(snapshot.messages[0].id);
+    expect(snapshot.activeLeafId).toBe(snapshot.messages[1].id);
+    expect(snapshot.messages[0].attachments).toEqual([
+      { id: 'f1', type: 'image', name: 'shot.png', mimeType: 'image/png' },
+    ]);
+    expect(Object.keys(snapshot).sort()).toEqual(
+      ['activeLeafId', 'createdAt', 'id', 'messages', 'title', 'updatedAt'].sort()
+    );
+  });
+
+  it('round-trips into a fresh copy for the viewer', () => {
+    const snapshot = JSON.parse(JSON.stringify(buildShareSnapshot(conversation)));
+    const empty = { conversations: [], folders: [], tags: [] };
+
+    const [copy] = prepareImport(parseSharedSnapshot(snapshot), empty).conversations;
+    expect(copy.id).not.toBe('c1');
+    expect(copy.messages.map((m) => m.content)).toEqual(['leaderstats?', 'second']);
+    expect(copy.activeLeafId).toBe(copy.messages[1].id);
+    expect(copy.folderId).toBeUndefined();
+
+    // صاحب المحادثة يفتح رابطه، ومن نسخها سابقاً يفتح نسخته
+    expect(findSharedOriginal([conversation], snapshot)).toBe(conversation);
+    expect(findSharedOriginal([copy], snapshot)).toBe(copy);
+    expect(findSharedOriginal([{ ...conversation, title: 'Other' }], snapshot)).toBeUndefined();
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MAX_TITLE_LENGTH, buildTitleRequest, cleanGeneratedTitle } from '../lib/conversationTitle';
+import { useChatStore } from '../stores/chatStore';
+
+describe('cleanGeneratedTitle', () => {
+  it('strips prefixes, quotes and trailing punctuation', () => {
+    expect(cleanGeneratedTitle('Title: "DataStore Saving Errors."')).toBe('DataStore Saving Errors');
+    expect(cleanGeneratedTitle('«نظام حفظ البيانات»؟')).toBe('نظام حفظ البيانات');
+    expect(cleanGeneratedTitle('## العنوان: حركة اللاعب')).toBe('حركة اللاعب');
+  });
+
+  it('keeps only the first non-empty line', () => {
+    expect(cleanGeneratedTitle('\nRemoteEvent Security\nExplanation follows')).toBe('RemoteEvent Security');
+  });
+
+  it('returns null for empty output and caps long titles', () => {
+    expect(cleanGeneratedTitle('  "" ')).toBeNull();
+
+    const long = cleanGeneratedTitle('word '.repeat(30));
+    expect(long.length).toBeLessThanOrEqual(MAX_TITLE_LENGTH + 3);
+    expect(long.endsWith('...')).toBe(true);
+  });
+});
+
+describe('buildTitleRequest', () => {
+  it('sends the exchange as a single truncated user message', () => {
+    const request = buildTitleRequest('كيف أحفظ البيانات؟', 'x'.repeat(5000));
+
+    expect(request).toHaveLength(1);
+    expect(request[0].role).toBe('user');
+    expect(request[0].content).toContain('<user>\nكيف أحفظ البيانات؟\n</user>');
+    expect((request[0].content as string).length).toBeLessThan(2000);
+  });
+});
+
+describe('updateConversationTitle', () => {
+  beforeEach(() => {
+    useChatStore.setState({ conversations: [], currentConversationId: null });
+  });
+
+  it('does not replace a title the user renamed', () => {
+    const { createConversation, updateConversationTitle } = useChatStore.getState();
+    const id = createConversation();
+
+    updateConversationTitle(id, 'Generated', 'generated');
+    expect(useChatStore.getState().conversations[0]).toMatchObject({ title: 'Generated', titleSource: 'generated' });
+
+    updateConversationTitle(id, '  My Obby  ');
+    updateConversationTitle(id, 'Generated again', 'generated');
+    expect(useChatStore.getState().conversations[0]).toMatchObject({ title: 'My Obby', titleSource: 'user' });
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * @fileoverview بيانات الاختبار المشتركة - Test Fixtures
+ *
+ * @description
+ * محادثات ورسائل بالحد الأدنى من الحقول؛ كل اختبار يمرر ما يهمه فقط
+ *
+ * @example
+ * makeConversation({ id: 'c1', messages: [makeMessage({ id: 'm1' })] })
+ */
+
+import type { Conversation, Message } from '@/stores/chatStore';
+
+const FIXTURE_DATE = '2025-01-01T00:00:00Z';
+
+/**
+ * رسالة مستخدم؛ المحتوى الافتراضي هو المعرف
+ */
+export const makeMessage = (overrides: Partial<Message> & Pick<Message, 'id'>): Message => ({
+  role: 'user',
+  content: overrides.id,
+  timestamp: new Date(FIXTURE_DATE),
+  ...overrides,
+});
+
+/**
+ * محادثة فارغة بمعرف عشوائي
+ */
+export const makeConversation = (overrides: Partial<Conversation> = {}): Conversation => ({
+  id: crypto.randomUUID(),
+  title: 'محادثة',
+  messages: [],
+  createdAt: new Date(FIXTURE_DATE),
+  updatedAt: new Date(FIXTURE_DATE),
+  unreadCount: 0,
+  draft: '',
+  ...overrides,
+});
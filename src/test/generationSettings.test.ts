@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useChatStore } from '../stores/chatStore';
+import {
+  DEFAULT_GENERATION_SETTINGS,
+  TEMPERATURE_MAX,
+  isAllowedModel,
+  resolveGenerationSettings,
+} from '@shared/models';
+
+describe('resolveGenerationSettings', () => {
+  it('falls back to the defaults', () => {
+    expect(resolveGenerationSettings(undefined)).toEqual(DEFAULT_GENERATION_SETTINGS);
+  });
+
+  it('rejects unknown models and clamps values to the model limits', () => {
+    expect(isAllowedModel('openai/unknown')).toBe(false);
+
+    const settings = resolveGenerationSettings({
+      model: 'openai/unknown',
+      temperature: 9,
+      maxTokens: 1_000_000,
+    });
+
+    expect(settings.model).toBe(DEFAULT_GENERATION_SETTINGS.model);
+    expect(settings.temperature).toBe(TEMPERATURE_MAX);
+    expect(settings.maxTokens).toBe(16384);
+  });
+});
+
+describe('conversation settings', () => {
+  beforeEach(() => {
+    useChatStore.setState({
+      conversations: [],
+      currentConversationId: null,
+      isLoading: false,
+      pendingAttachments: [],
+      outbox: [],
+    });
+  });
+
+  it('stores settings per conversation', () => {
+    const { createConversation, addMessage, updateConversationSettings } = useChatStore.getState();
+
+    const refactorThread = createConversation();
+    addMessage({ role: 'user', content: 'أعد هيكلة نظام القتال' });
+    const quickThread = createConversation();
+
+    updateConversationSettings(refactorThread, { model: 'google/gemini-3-pro-preview' });
+
+    const conversations = useChatStore.getState().conversations;
+    expect(conversations.find((c) => c.id === refactorThread)?.settings?.model).toBe(
+      'google/gemini-3-pro-preview'
+    );
+    expect(conversations.find((c) => c.id === quickThread)?.settings).toBeUndefined();
+  });
+});
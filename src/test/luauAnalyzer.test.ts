@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeLuau, type LuauRule } from '../lib/luauAnalyzer';
+
+const rules = (source: string) => analyzeLuau(source).map((d) => [d.rule, d.line] as [LuauRule, number]);
+
+describe('analyzeLuau', () => {
+  it('accepts a clean strict script', () => {
+    const source = [
+      '--!strict',
+      'local Players = game:GetService("Players")',
+      'local RunService = game:GetService("RunService")',
+      '',
+      'local function onPlayerAdded(player: Player)',
+      '  local value = if player.UserId > 0 then "ok" else "guest"',
+      '  print(value) -- wait() هنا تعليق',
+      'end',
+      '',
+      'Players.PlayerAdded:Connect(onPlayerAdded)',
+      'task.wait(1)',
+    ].join('\n');
+
+    expect(analyzeLuau(source)).toEqual([]);
+  });
+
+  it('reports unbalanced blocks with the opening line', () => {
+    expect(rules('if ready then\n  for i = 1, 3 do\n    print(i)\n  end\n')).toEqual([['unbalanced-end', 1]]);
+    expect(rules('print(1)\nend')).toEqual([['unbalanced-end', 2]]);
+    expect(rules('repeat\n  task.wait()\nuntil done')).toEqual([]);
+    expect(rules('local s = "open\nprint(s)')).toEqual([['syntax', 1]]);
+  });
+
+  it('flags legacy scheduler calls and deprecated APIs', () => {
+    const source = 'wait(1)\nspawn(fn)\nlocal t = tick()\npart.Touched:connect(fn)\nobj:Remove()\nlocal x = Workspace';
+
+    expect(rules(source)).toEqual([
+      ['legacy-scheduler', 1],
+      ['missing-strict', 1],
+      ['legacy-scheduler', 2],
+      ['deprecated-api', 3],
+      ['deprecated-api', 4],
+      ['deprecated-api', 5],
+      ['deprecated-api', 6],
+    ]);
+
+    // اسم محلي يخفي الدالة العامة
+    expect(rules('local wait = task.wait\nwait(1)')).toEqual([]);
+  });
+
+  it('flags tree lookups inside loops and per-frame callbacks', () => {
+    const source = [
+      '--!strict',
+      'local folder = workspace:WaitForChild("Coins")',
+      'for _, player in Players:GetPlayers() do',
+      '  local root = player.Character:FindFirstChild("HumanoidRootPart")',
+      'end',
+      'RunService.Heartbeat:Connect(function()',
+      '  local hum = character:FindFirstChildOfClass("Humanoid")',
+      'end)',
+    ].join('\n');
+
+    expect(rules(source)).toEqual([
+      ['find-in-loop', 4],
+      ['find-in-loop', 7],
+    ]);
+  });
+
+  it('flags client arguments used without validation in remote handlers', () => {
+    const unsafe = [
+      'remote.OnServerEvent:Connect(function(player, amount, target)',
+      '  if target then',
+      '    coins[player] += amount',
+      '  end',
+      'end)',
+    ].join('\n');
+    const [diagnostic] = analyzeLuau(unsafe);
+    expect(diagnostic.rule).toBe('unvalidated-remote');
+    expect(diagnostic.line).toBe(1);
+    expect(diagnostic.message).toContain('amount');
+    expect(diagnostic.message).not.toContain('target');
+
+    const safe = [
+      '--!strict',
+      'local function onBuy(player: Player, itemId: unknown)',
+      '  if typeof(itemId) ~= "string" then return end',
+      '  give(player, itemId)',
+      'end',
+      'remote.OnServerEvent:Connect(onBuy)',
+    ].join('\n');
+    expect(rules(safe)).toEqual([]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import apiDump from '@shared/API-Dump.json';
+import { createApiIndex, type ApiDump } from '@shared/robloxApi';
+import { buildApiCheckNote, checkLuauApi } from '@shared/luauApiCheck';
+import { analyzeLuau } from '@/lib/luauAnalyzer';
+import { mergeDiagnostics } from '@/lib/apiCheck';
+
+const index = createApiIndex(apiDump as ApiDump);
+
+const check = (source: string) =>
+  checkLuauApi(index, source).map(({ rule, line, suggestion }) => ({ rule, line, suggestion }));
+
+describe('checkLuauApi', () => {
+  it('flags deprecated classes, members and Instance.new parents', () => {
+    const source = [
+      'local Players = game:GetService("Players")',
+      'local mover = Instance.new("BodyVelocity", workspace)',
+      'Players.PlayerAdded:Connect(function(player)',
+      '  local model = player.Character',
+      '  model:SetPrimaryPartCFrame(CFrame.new())',
+      '  wait(1)',
+      'end)',
+    ].join('\n');
+
+    expect(check(source)).toEqual([
+      { rule: 'deprecated-api', line: 2, suggestion: 'Instance.new("LinearVelocity")' },
+      { rule: 'instance-new-parent', line: 2, suggestion: 'Instance.new("BodyVelocity")' },
+      { rule: 'deprecated-api', line: 5, suggestion: ':PivotTo(' },
+      { rule: 'legacy-scheduler', line: 6, suggestion: 'task.wait' },
+    ]);
+  });
+
+  it('reports unknown methods and assignments but not child access', () => {
+    const source = [
+      'local humanoid = character:FindFirstChildOfClass("Humanoid")',
+      'local hum: Humanoid = script.Parent.Humanoid',
+      'hum:Explode()',
+      'hum.Speed = 20',
+      'print(workspace.Map.Spawn)',
+      'local wait = task.wait',
+      'wait(1)',
+    ].join('\n');
+
+    expect(check(source)).toEqual([
+      { rule: 'unknown-member', line: 3, suggestion: undefined },
+      { rule: 'unknown-member', line: 4, suggestion: undefined },
+    ]);
+  });
+
+  it('catches FilterDescendantsInstances misuse and deprecated enum items', () => {
+    const source = [
+      'local params = RaycastParams.new()',
+      'params.FilterType = Enum.RaycastFilterType.Blacklist',
+      'params.FilterDescendantsInstances = workspace',
+      'params.FilterDescendantsInstances = ignoreList',
+      'table.insert(params.FilterDescendantsInstances, workspace.Map)',
+    ].join('\n');
+
+    expect(check(source)).toEqual([
+      { rule: 'deprecated-api', line: 2, suggestion: 'Enum.RaycastFilterType.Exclude' },
+      { rule: 'raycast-filter', line: 3, suggestion: 'FilterDescendantsInstances = { workspace }' },
+      { rule: 'raycast-filter', line: 5, suggestion: 'params.FilterDescendantsInstances = list' },
+    ]);
+  });
+
+  it('reports unknown classes only when the dump is complete', () => {
+    const source = [
+      'local folder = Instance.new("Folder")',
+      'local coins = Instance.new("IntValue")',
+      'local weld = Instance.new("WeldConstraint")',
+      'local emitter = Instance.new("ParticleEmitter")',
+      'local gui = Instance.new("BillboardGui")',
+      'local part = Instance.new("Prat")',
+    ].join('\n');
+
+    expect(check(source)).toEqual([]);
+
+    const completeIndex = createApiIndex({ ...(apiDump as ApiDump), Complete: true });
+    expect(checkLuauApi(completeIndex, source).map(({ rule, line }) => ({ rule, line }))).toEqual(
+      [1, 2, 3, 4, 5, 6].map((line) => ({ rule: 'unknown-member', line }))
+    );
+  });
+
+  it('ignores comments and strings', () => {
+    expect(check('-- wait(1) و Instance.new("BodyVelocity")\nprint("part:Remove()")')).toEqual([]);
+  });
+});
+
+describe('buildApiCheckNote', () => {
+  it('summarizes warnings from Luau blocks only', () => {
+    const content = 'شرح\n```lua\nlocal v = Instance.new("BodyGyro")\n```\n```js\nwait(1)\n```';
+
+    expect(buildApiCheckNote(index, content)).toBe(
+      '\n\n---\n**فحص Roblox API:**\n- سطر 1: BodyGyro متقادمة؛ استخدم AlignOrientation (`Instance.new("AlignOrientation")`)'
+    );
+    expect(buildApiCheckNote(index, '```lua\nprint(1)\n```')).toBeNull();
+  });
+});
+
+describe('mergeDiagnostics', () => {
+  it('drops findings both analyzers report and sorts by line', () => {
+    const source = '--!strict\nlocal part = Instance.new("Part", workspace)\nwait(1)';
+    const merged = mergeDiagnostics(analyzeLuau(source), checkLuauApi(index, source));
+
+    expect(merged.map(({ rule, line }) => ({ rule, line }))).toEqual([
+      { rule: 'instance-new-parent', line: 2 },
+      { rule: 'legacy-scheduler', line: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useChatStore, Conversation, Message } from '../stores/chatStore';
+import {
+  findLatestLeaf,
+  getActivePath,
+  getPathTo,
+  getSiblingPositions,
+  linkLinearMessages,
+} from '../lib/messageTree';
+import { makeConversation, makeMessage } from './fixtures';
+
+const at = (second: number) => new Date(`2025-01-01T00:00:${String(second).padStart(2, '0')}Z`);
+
+const node = (id: string, parentId: string | null, second: number, role: Message['role'] = 'user') =>
+  makeMessage({ id, role, parentId, timestamp: at(second) });
+
+/**
+ * a ─┬─ b1
+ *    └─ b2 ── c
+ */
+const tree: Message[] = [
+  node('a', null, 1),
+  node('b1', 'a', 2, 'assistant'),
+  node('b2', 'a', 3, 'assistant'),
+  node('c', 'b2', 4),
+];
+
+const conversation = (overrides: Partial<Conversation> = {}) =>
+  makeConversation({ id: 'conv', messages: tree, createdAt: at(0), updatedAt: at(0), ...overrides });
+
+describe('messageTree', () => {
+  it('follows the newest branch when no leaf is selected', () => {
+    expect(findLatestLeaf(tree, null)).toBe('c');
+    expect(getActivePath(conversation()).map((m) => m.id)).toEqual(['a', 'b2', 'c']);
+  });
+
+  it('shows the selected branch and returns a stable reference', () => {
+    const selected = conversation({ activeLeafId: 'b1' });
+    const path = getActivePath(selected);
+
+    expect(path.map((m) => m.id)).toEqual(['a', 'b1']);
+    expect(getActivePath(selected)).toBe(path);
+    expect(getPathTo(tree, 'c').map((m) => m.id)).toEqual(['a', 'b2', 'c']);
+  });
+
+  it('reports sibling positions along the path', () => {
+    const positions = getSiblingPositions(tree, getActivePath(conversation()));
+
+    expect(positions.get('b2')).toEqual({ index: 1, count: 2, previousId: 'b1', nextId: undefined });
+    expect(positions.get('c')).toMatchObject({ index: 0, count: 1 });
+  });
+
+  it('links legacy linear messages into a chain', () => {
+    const legacy = [node('x', null, 1), node('y', null, 2), node('z', null, 3)].map(
+      ({ parentId: _parentId, ...message }) => message
+    );
+
+    expect(linkLinearMessages(legacy).map((m) => m.parentId)).toEqual([null, 'x', 'y']);
+    expect(linkLinearMessages(tree)).toBe(tree);
+  });
+});
+
+describe('chatStore branching', () => {
+  beforeEach(() => {
+    useChatStore.setState({
+      conversations: [],
+      currentConversationId: null,
+      isLoading: false,
+      pendingAttachments: [],
+      outbox: [],
+    });
+  });
+
+  it('keeps the old reply as a sibling when a branch is added and can switch back', () => {
+    const { createConversation, addMessage, addBranch, switchBranch } = useChatStore.getState();
+
+    const conversationId = createConversation();
+    const question = addMessage({ role: 'user', content: 'كيف أحفظ البيانات؟' });
+    const first = addMessage({ role: 'assistant', content: 'DataStoreService' });
+    const second = addBranch({ role: 'assistant', content: 'ProfileService' }, conversationId, question);
+
+    expect(useChatStore.getState().getMessages().map((m) => m.id)).toEqual([question, second]);
+
+    switchBranch(conversationId, first);
+    expect(useChatStore.getState().getMessages().map((m) => m.id)).toEqual([question, first]);
+  });
+
+  it('forks an edited user message without touching the original thread', () => {
+    const { createConversation, addMessage, addBranch, switchBranch } = useChatStore.getState();
+
+    const conversationId = createConversation();
+    const original = addMessage({ role: 'user', content: 'v1' });
+    const reply = addMessage({ role: 'assistant', content: 'reply to v1' });
+    const edited = addBranch({ role: 'user', content: 'v2' }, conversationId, null);
+    addMessage({ role: 'assistant', content: 'reply to v2' });
+
+    expect(useChatStore.getState().getMessages().map((m) => m.content)).toEqual(['v2', 'reply to v2']);
+
+    switchBranch(conversationId, original);
+    expect(useChatStore.getState().getMessages().map((m) => m.id)).toEqual([original, reply]);
+    expect(edited).not.toBe(original);
+  });
+
+  it('reattaches children when a message in the middle is deleted', () => {
+    const { createConversation, addMessage, deleteMessage } = useChatStore.getState();
+
+    createConversation();
+    const first = addMessage({ role: 'user', content: 'First' });
+    const middle = addMessage({ role: 'assistant', content: 'Middle' });
+    const last = addMessage({ role: 'user', content: 'Last' });
+
+    deleteMessage(middle);
+
+    expect(useChatStore.getState().getMessages().map((m) => m.id)).toEqual([first, last]);
+  });
+});
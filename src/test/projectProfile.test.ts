@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useChatStore } from '../stores/chatStore';
+import {
+  PROJECT_PROFILE_LIMITS,
+  buildProjectProfilePrompt,
+  mergeProjectProfiles,
+  normalizeProjectProfile,
+} from '@shared/projectProfile';
+
+describe('project profile', () => {
+  it('drops empty fields and enforces the limits', () => {
+    const profile = normalizeProjectProfile({
+      gameGenre: '   ',
+      frameworks: ['Knit', ' Knit ', '', ...Array.from({ length: 20 }, (_, i) => `Lib${i}`)],
+      notes: 'x'.repeat(PROJECT_PROFILE_LIMITS.notes + 50),
+    });
+
+    expect(profile.gameGenre).toBeUndefined();
+    expect(profile.frameworks?.[0]).toBe('Knit');
+    expect(profile.frameworks).toHaveLength(PROJECT_PROFILE_LIMITS.frameworks);
+    expect(profile.notes).toHaveLength(PROJECT_PROFILE_LIMITS.notes);
+  });
+
+  it('lets the conversation override only the fields it sets', () => {
+    const merged = mergeProjectProfiles(
+      { gameGenre: 'Tycoon', frameworks: ['Knit', 'ProfileService'], luauMode: 'strict' },
+      { frameworks: ['Fusion'], gameGenre: '' }
+    );
+
+    expect(merged).toEqual({ gameGenre: 'Tycoon', frameworks: ['Fusion'], luauMode: 'strict' });
+  });
+
+  it('renders a prompt section only when something is set', () => {
+    expect(buildProjectProfilePrompt({})).toBeNull();
+
+    const prompt = buildProjectProfilePrompt({ frameworks: ['Knit'], luauMode: 'strict' });
+    expect(prompt).toContain('Knit');
+    expect(prompt).toContain('--!strict');
+  });
+});
+
+describe('conversation project profile', () => {
+  beforeEach(() => {
+    useChatStore.setState({
+      conversations: [],
+      currentConversationId: null,
+      isLoading: false,
+      pendingAttachments: [],
+      outbox: [],
+    });
+  });
+
+  it('stores and clears the per-conversation override', () => {
+    const { createConversation, updateConversationProfile } = useChatStore.getState();
+    const conversationId = createConversation();
+
+    updateConversationProfile(conversationId, { responseLanguage: 'en' });
+    expect(useChatStore.getState().getCurrentConversation()?.projectProfile).toEqual({
+      responseLanguage: 'en',
+    });
+
+    updateConversationProfile(conversationId, { notes: '  ' });
+    expect(useChatStore.getState().getCurrentConversation()?.projectProfile).toBeUndefined();
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BUILT_IN_TEMPLATES,
+  fillTemplate,
+  getSlashQuery,
+  matchTemplates,
+  normalizePromptTemplates,
+  parseTemplateFields,
+  toTemplateCommand,
+} from '@/lib/promptTemplates';
+
+describe('template fields', () => {
+  it('treats placeholders alone on a line as multiline fields', () => {
+    const body = 'حسّن {{الهدف}} في هذا الكود:\n```lua\n{{الكود}}\n```\nمع الحفاظ على {{الهدف}}';
+
+    expect(parseTemplateFields(body)).toEqual([
+      { name: 'الهدف', multiline: false },
+      { name: 'الكود', multiline: true },
+    ]);
+  });
+
+  it('fills every occurrence and leaves empty fields visible', () => {
+    expect(fillTemplate('{{a}} ثم {{ a }} ثم {{b}}', { a: ' x ', b: '  ' })).toBe('x ثم x ثم {{b}}');
+  });
+
+  it('gives every built-in template at least one field', () => {
+    for (const template of BUILT_IN_TEMPLATES) {
+      expect(parseTemplateFields(template.body).length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('slash commands', () => {
+  it('only opens while the whole input is a command', () => {
+    expect(getSlashQuery('/')).toBe('');
+    expect(getSlashQuery('/Opt')).toBe('opt');
+    expect(getSlashQuery('/opt code')).toBeNull();
+    expect(getSlashQuery('a/opt')).toBeNull();
+  });
+
+  it('ranks command prefixes before other matches', () => {
+    const commands = (query: string) =>
+      matchTemplates(BUILT_IN_TEMPLATES, query).map((template) => template.command);
+
+    expect(commands('')).toHaveLength(BUILT_IN_TEMPLATES.length);
+    expect(commands('e')).toEqual(['explain-error', 'datastore', 'remote-validate', 'optimize', 'convert-to-strict']);
+    expect(commands('strict')).toEqual(['convert-to-strict']);
+  });
+});
+
+describe('user templates', () => {
+  it('normalizes commands and drops invalid, reserved and duplicate entries', () => {
+    expect(toTemplateCommand('/My Tween_UI!')).toBe('my-tween-ui');
+
+    const templates = normalizePromptTemplates([
+      { id: '1', command: 'tween', title: ' حركة ', body: ' اكتب tween ' },
+      { id: '2', command: 'tween', title: '', body: 'مكرر' },
+      { id: '3', command: 'datastore', title: '', body: 'محجوز' },
+      { id: '4', command: 'Bad Name', title: '', body: 'غير صالح' },
+      { id: '5', command: 'empty', title: '', body: '   ' },
+      'not a template',
+    ]);
+
+    expect(templates).toEqual([{ id: '1', command: 'tween', title: 'حركة', body: 'اكتب tween' }]);
+    expect(normalizePromptTemplates(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildRateLimitHeaders,
+  evaluateRateLimit,
+  parseRateLimitHeaders,
+} from '@shared/rateLimit';
+
+const config = { requestsPerMinute: 3, tokensPerDay: 1000 };
+const now = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+describe('evaluateRateLimit', () => {
+  it('allows a request and reports the budget left after it', () => {
+    const status = evaluateRateLimit({ requestTimes: [now - 70_000, now - 5_000], tokensToday: 400 }, config, now);
+
+    expect(status.reason).toBeNull();
+    expect(status.remainingRequests).toBe(1);
+    expect(status.remainingTokens).toBe(600);
+  });
+
+  it('rejects a burst until the oldest request leaves the window', () => {
+    const status = evaluateRateLimit(
+      { requestTimes: [now - 50_000, now - 20_000, now - 1_000], tokensToday: 0 },
+      config,
+      now
+    );
+
+    expect(status.reason).toBe('requests');
+    expect(status.retryAfterSeconds).toBe(10);
+  });
+
+  it('rejects until midnight UTC once the daily tokens are spent', () => {
+    const status = evaluateRateLimit({ requestTimes: [], tokensToday: 1200 }, config, now);
+
+    expect(status.reason).toBe('tokens');
+    expect(status.retryAfterSeconds).toBe(12 * 60 * 60);
+  });
+
+  it('lets auxiliary requests past a full minute but not past the daily tokens', () => {
+    const burst = [now - 50_000, now - 20_000, now - 1_000];
+
+    const status = evaluateRateLimit({ requestTimes: burst, tokensToday: 0 }, config, now, false);
+    expect(status.reason).toBeNull();
+    expect(status.remainingRequests).toBe(0);
+
+    expect(evaluateRateLimit({ requestTimes: [], tokensToday: 1200 }, config, now, false).reason).toBe('tokens');
+  });
+
+    it('round-trips through the response headers', () => {
+    const status = evaluateRateLimit({ requestTimes: [], tokensToday: 1200 }, config, now);
+    const headers = new Headers(buildRateLimitHeaders(status));
+
+    expect(parseRateLimitHeaders(headers, 'tokens')).toEqual(status);
+    expect(parseRateLimitHeaders(new Headers())).toBeNull();
+  });
+});
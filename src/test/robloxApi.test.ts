@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import apiDump from '@shared/API-Dump.json';
+import {
+  buildApiReferencePrompt,
+  createApiIndex,
+  findApiMentions,
+  findMember,
+  formatMember,
+  type ApiDump,
+} from '@shared/robloxApi';
+
+const index = createApiIndex(apiDump as ApiDump);
+
+describe('roblox API index', () => {
+  it('resolves members through the superclass chain', () => {
+    expect(findMember(index, 'Part', 'Touched')?.owner).toBe('BasePart');
+    expect(findMember(index, 'DataStore', 'UpdateAsync')?.owner).toBe('GlobalDataStore');
+    expect(findMember(index, 'Part', 'Explode')).toBeNull();
+  });
+
+  it('formats members as Luau signatures', () => {
+    const getAsync = findMember(index, 'DataStore', 'GetAsync').member;
+    const fireClient = findMember(index, 'RemoteEvent', 'FireClient').member;
+
+    expect(formatMember(getAsync)).toBe(':GetAsync(key: string, options: DataStoreGetOptions = nil): ...any [Yields]');
+    expect(formatMember(fireClient)).toBe(':FireClient(player: Player, ...any)');
+  });
+});
+
+describe('findApiMentions', () => {
+  it('finds classes by name and attributes accessed members', () => {
+    const mentions = findApiMentions(
+      index,
+      'عندي workspace و game:GetService("DataStoreService") وأريد store:UpdateAsync و Instance.new("Part")'
+    );
+
+    expect([...mentions.explicit]).toEqual(['Workspace', 'DataStoreService', 'Part']);
+    expect([...mentions.classes.get('GlobalDataStore')]).toEqual(['UpdateAsync']);
+  });
+});
+
+describe('buildApiReferencePrompt', () => {
+  it('lists signatures and flags deprecated APIs', () => {
+    const prompt = buildApiReferencePrompt(index, 'ليش BodyVelocity ما يشتغل مع part.Velocity و Enum.RaycastFilterType؟');
+
+    expect(prompt).toContain('BodyVelocity : BodyMover [Deprecated]');
+    expect(prompt).toContain('  .Velocity: Vector3');
+    expect(prompt).toContain('Enum.RaycastFilterType: Blacklist [Deprecated], Whitelist [Deprecated], Exclude, Include');
+  });
+
+  it('returns null when nothing from the API is mentioned', () => {
+    expect(buildApiReferencePrompt(index, 'كيف حالك؟')).toBeNull();
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { collectScripts, inferScript, toRbxmx, toRojoEntries } from '../lib/robloxScripts';
+
+const server = ['--!strict', '-- ServerScriptService/Systems/DataManager.server.lua', 'print("server")'].join('\n');
+const client = ['-- StarterPlayerScripts > Input (LocalScript)', 'local player = game.Players.LocalPlayer'].join('\n');
+const module = ['local Config = {}', 'Config.Speed = 16', 'return Config'].join('\n');
+
+describe('inferScript', () => {
+  it('reads the class and location from the header comment', () => {
+    expect(inferScript(server)).toEqual({
+      script: { className: 'Script', name: 'DataManager', parent: ['ServerScriptService', 'Systems'], source: server },
+      hasHeader: true,
+    });
+    expect(inferScript(client).script).toMatchObject({
+      className: 'LocalScript',
+      name: 'Input',
+      parent: ['StarterPlayer', 'StarterPlayerScripts'],
+    });
+  });
+
+  it('falls back to the code when there is no header', () => {
+    expect(inferScript(module)).toMatchObject({
+      script: { className: 'ModuleScript', name: 'Config', parent: ['ReplicatedStorage'] },
+      hasHeader: false,
+    });
+    expect(inferScript('local player = game.Players.LocalPlayer').script.className).toBe('LocalScript');
+    expect(inferScript('print("hi")').script).toMatchObject({ className: 'Script', parent: ['ServerScriptService'] });
+  });
+});
+
+describe('collectScripts', () => {
+  it('skips unheaded snippets when others have headers and dedupes names', () => {
+    const scripts = collectScripts([server, 'Config.Speed = 20', server]);
+    expect(scripts.map((script) => script.name)).toEqual(['DataManager', 'DataManager2']);
+  });
+});
+
+describe('toRbxmx', () => {
+  it('nests scripts in service folders and keeps source in CDATA', () => {
+    const headedModule = `-- ReplicatedStorage/Config.lua\n-- ]]>\n${module}`;
+    const xml = toRbxmx(collectScripts([server, headedModule]));
+
+    expect(xml).toContain('<Item class="Folder"');
+    expect(xml).toContain('<string name="Name">ServerScriptService</string>');
+    expect(xml).toContain('<Item class="Script"');
+    expect(xml).toContain('<Item class="ModuleScript"');
+    expect(xml).toContain('<ProtectedString name="Source"><![CDATA[--!strict');
+    expect(xml).toContain(']]]]><![CDATA[>');
+  });
+});
+
+describe('toRojoEntries', () => {
+  it('maps services to src folders with Rojo file suffixes', () => {
+    const entries = toRojoEntries(collectScripts([server, client]), 'Game');
+    const project = JSON.parse(entries[0].content as string);
+
+    expect(entries.map((entry) => entry.name)).toEqual([
+      'default.project.json',
+      'src/ServerScriptService/Systems/DataManager.server.lua',
+      'src/StarterPlayer/StarterPlayerScripts/Input.client.lua',
+    ]);
+    expect(project.tree).toEqual({
+      $className: 'DataModel',
+      ServerScriptService: { $path: 'src/ServerScriptService' },
+      StarterPlayer: { StarterPlayerScripts: { $path: 'src/StarterPlayer/StarterPlayerScripts' } },
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { buildSnippet, createSearchIndex, normalizeArabic, tokenize } from '../lib/searchIndex';
+import { makeMessage } from './fixtures';
+
+const message = (id: string, content: string, day = 1) =>
+  makeMessage({ id, content, timestamp: new Date(2025, 0, day) });
+
+describe('searchIndex', () => {
+  it('normalizes diacritics and alef/yaa variants', () => {
+    expect(normalizeArabic('إِضَافَة')).toBe('اضافه');
+    expect(normalizeArabic('مستوى')).toBe(normalizeArabic('مستوي'));
+    expect(tokenize('أضف Part جديد!')).toEqual(['اضف', 'part', 'جديد']);
+  });
+
+  it('finds messages regardless of hamza and diacritics', () => {
+    const index = createSearchIndex();
+    index.indexMessage('c1', message('m1', 'كيف أُنشئ RemoteEvent؟'));
+    index.indexMessage('c2', message('m2', 'لا علاقة'));
+
+    const hits = index.search('انشئ');
+
+    expect(hits.map((hit) => hit.messageId)).toEqual(['m1']);
+    expect(hits[0].conversationId).toBe('c1');
+  });
+
+  it('matches word prefixes and requires every query word', () => {
+    const index = createSearchIndex();
+    index.indexMessage('c1', message('m1', 'DataStore save player data'));
+    index.indexMessage('c1', message('m2', 'DataStore load'));
+
+    expect(index.search('datast sav').map((hit) => hit.messageId)).toEqual(['m1']);
+    expect(index.search('store')).toEqual([]);
+  });
+
+  it('ranks exact matches above prefix matches', () => {
+    const index = createSearchIndex();
+    index.indexMessage('c1', message('prefix', 'tweening the part', 2));
+    index.indexMessage('c1', message('exact', 'tween the part', 1));
+
+    expect(index.search('tween').map((hit) => hit.messageId)).toEqual(['exact', 'prefix']);
+  });
+
+  it('updates and removes entries incrementally', () => {
+    const index = createSearchIndex();
+    index.indexMessage('c1', message('m1', 'old text'));
+    index.indexMessage('c1', message('m1', 'new text'));
+
+    expect(index.search('old')).toEqual([]);
+    expect(index.search('new')).toHaveLength(1);
+
+    index.indexMessage('c2', message('m2', 'new idea'));
+    index.removeConversation('c1');
+    expect(index.search('new').map((hit) => hit.messageId)).toEqual(['m2']);
+
+    index.removeMessage('m2');
+    expect(index.size()).toBe(0);
+  });
+
+  it('skips messages that are still streaming', () => {
+    const index = createSearchIndex();
+    index.indexMessage('c1', { ...message('m1', 'partial'), isStreaming: true });
+
+    expect(index.size()).toBe(0);
+  });
+
+  it('highlights matches in the original text', () => {
+    const content = 'شرح إِضافة هنا';
+    const snippet = buildSnippet(content, tokenize('اضافه'));
+    const [start, end] = snippet.highlights[0];
+
+    expect(snippet.text).toBe(content);
+    expect(snippet.text.slice(start, end)).toBe('إِضافة');
+  });
+
+  it('trims long content around the first match', () => {
+    const content = `${'a '.repeat(100)}target${' b'.repeat(100)}`;
+    const snippet = buildSnippet(content, ['target'], 10);
+    const [start, end] = snippet.highlights[0];
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    expect(snippet.text.slice(start, end)).toBe('target');
+  });
+});
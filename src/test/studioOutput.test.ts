@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { STUDIO_OUTPUT_LIMITS, buildStudioOutputPrompt, parseStudioOutput } from '@shared/studioOutput';
+import { clipStudioOutputRaw, withStudioOutput } from '@/lib/studioOutput';
+import { toHistoryMessages } from '@/lib/contextBuilder';
+
+const OUTPUT = [
+  '12:00:01.000  ServerScriptService.Main:42: attempt to index nil with \'Humanoid\'  -  Server - Main:42',
+  '12:00:01.000  Stack Begin  -  Studio',
+  '12:00:01.000  Script \'ServerScriptService.Main\', Line 42 - function onTouched  -  Studio - Main:42',
+  '12:00:01.000  Script \'ServerScriptService.Main\', Line 10  -  Studio - Main:10',
+  '12:00:01.000  Stack End  -  Studio',
+  '12:00:02.000  ServerScriptService.Main:42: attempt to index nil with \'Humanoid\'  -  Server - Main:42',
+  '12:00:03.000  Loaded 5 items  -  Server - Main:3',
+  '12:00:04.000  Infinite yield possible on \'ReplicatedStorage:WaitForChild("Remotes")\'  -  Studio',
+  '12:00:04.000  Stack Begin  -  Studio',
+  '12:00:04.000  Script \'Players.Ali.PlayerScripts.Client\', Line 3  -  Studio - Client:3',
+  '12:00:04.000  Stack End  -  Studio',
+].join('\n');
+
+describe('parseStudioOutput', () => {
+  it('parses errors with stack frames and merges repeats', () => {
+    expect(parseStudioOutput(OUTPUT)?.errors).toEqual([
+      {
+        message: "attempt to index nil with 'Humanoid'",
+        frames: [
+          { path: 'ServerScriptService.Main', line: 42, function: 'onTouched' },
+          { path: 'ServerScriptService.Main', line: 10 },
+        ],
+        count: 2,
+      },
+      {
+        message: 'Infinite yield possible on \'ReplicatedStorage:WaitForChild("Remotes")\'',
+        frames: [{ path: 'Players.Ali.PlayerScripts.Client', line: 3 }],
+        count: 1,
+      },
+    ]);
+  });
+
+  it('accepts a single error line without timestamps', () => {
+    expect(parseStudioOutput('Workspace.Door.Script:5: attempt to call a nil value')?.errors).toEqual([
+      { message: 'attempt to call a nil value', frames: [{ path: 'Workspace.Door.Script', line: 5 }], count: 1 },
+    ]);
+  });
+
+  it('ignores regular text and code', () => {
+    expect(parseStudioOutput('local part = workspace:FindFirstChild("Part")\nprint(part)')).toBeNull();
+    expect(parseStudioOutput('الساعة 12:30:00 بدأ الاختبار')).toBeNull();
+  });
+});
+
+describe('buildStudioOutputPrompt', () => {
+  it('lists each error with its callers and a known cause', () => {
+    const prompt = buildStudioOutputPrompt(parseStudioOutput(OUTPUT)!.errors);
+
+    expect(prompt).toContain(
+      "1. ServerScriptService.Main:42 (onTouched): attempt to index nil with 'Humanoid' (تكرر 2 مرات)"
+    );
+    expect(prompt).toContain('   استُدعي من: ServerScriptService.Main:10');
+    expect(prompt).toContain('القيمة التي قبل .Humanoid هي nil');
+    expect(buildStudioOutputPrompt([])).toBeNull();
+  });
+});
+
+describe('withStudioOutput', () => {
+  it('appends the pasted log to the message text for the model', () => {
+    const studioOutput = parseStudioOutput(OUTPUT)!;
+    const content = withStudioOutput({ content: 'لماذا يحدث هذا؟', studioOutput });
+
+    expect(content.startsWith('لماذا يحدث هذا؟\n\n**سجل Studio Output:**\n```text\n')).toBe(true);
+    expect(content).toContain("ServerScriptService.Main:42: attempt to index nil with 'Humanoid'");
+    expect(withStudioOutput({ content: 'سؤال' })).toBe('سؤال');
+
+    const [history] = toHistoryMessages([
+      { id: 'm1', role: 'user', content: 'لماذا يحدث هذا؟', timestamp: new Date(), studioOutput },
+    ]);
+    expect(history.content).toBe(content);
+  });
+
+  it('keeps the full log on the message and sends only its newest lines', () => {
+    const older = Array.from({ length: 200 }, (_, i) => `12:00:00.000  Loaded item ${i}  -  Server - Main:3`);
+    const text = [...older, OUTPUT].join('\n');
+    const studioOutput = parseStudioOutput(text)!;
+    expect(studioOutput.raw).toBe(text);
+
+    const clipped = clipStudioOutputRaw(studioOutput.raw);
+    expect(clipped.length).toBeLessThanOrEqual(STUDIO_OUTPUT_LIMITS.raw + 2);
+    expect(clipped.startsWith('…\n12:00:')).toBe(true);
+    expect(clipped.endsWith(OUTPUT)).toBe(true);
+
+    const message = { content: 'لماذا؟', studioOutput };
+    expect(withStudioOutput(message)).toContain('Loaded item 0 ');
+    expect(withStudioOutput(message, { clip: true })).not.toContain('Loaded item 0 ');
+
+    const [history] = toHistoryMessages([{ id: 'm1', role: 'user', timestamp: new Date(), ...message }]);
+    expect(history.content).toBe(withStudioOutput(message, { clip: true }));
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import type { Message } from '../stores/chatStore';
+import {
+  getRangeStart,
+  getServerUsageByDay,
+  getUsageByConversation,
+  getUsageByDay,
+  getUsageTotals,
+  sumDailyUsage,
+  toDayKey,
+} from '../lib/usageStats';
+import { makeConversation, makeMessage } from './fixtures';
+
+const reply = (id: string, date: Date, promptTokens: number, completionTokens: number) =>
+  makeMessage({ id, role: 'assistant', timestamp: date, usage: { promptTokens, completionTokens } });
+
+const conversation = (id: string, messages: Message[]) => makeConversation({ id, title: id, messages });
+
+const today = new Date(2025, 0, 10, 15);
+const yesterday = new Date(2025, 0, 9, 9);
+
+const conversations = [
+  conversation('cheap', [
+    makeMessage({ id: 'q', timestamp: yesterday }),
+    reply('a1', yesterday, 100, 50),
+  ]),
+  conversation('expensive', [reply('b1', today, 1000, 400), reply('b2', today, 1200, 300)]),
+  conversation('empty', []),
+];
+
+describe('usageStats', () => {
+  it('sums every reply that reports usage', () => {
+    expect(getUsageTotals(conversations)).toEqual({
+      promptTokens: 2300,
+      completionTokens: 750,
+      totalTokens: 3050,
+      replies: 3,
+    });
+  });
+
+  it('ranks conversations by total tokens and skips those without usage', () => {
+    const ranked = getUsageByConversation(conversations);
+
+    expect(ranked.map((usage) => usage.conversationId)).toEqual(['expensive', 'cheap']);
+    expect(ranked[0].totalTokens).toBe(2900);
+  });
+
+  it('buckets by local day and fills empty days', () => {
+    const daily = getUsageByDay(conversations, 3, today);
+
+    expect(daily.map((day) => day.date)).toEqual(['2025-01-08', '2025-01-09', '2025-01-10']);
+    expect(daily.map((day) => day.totalTokens)).toEqual([0, 150, 2900]);
+    expect(toDayKey(today)).toBe('2025-01-10');
+  });
+
+  it('merges server modes per day and sums the range', () => {
+    const daily = getServerUsageByDay(
+      [
+        { day: '2025-01-09', mode: 'chat', requests: 2, promptTokens: 100, completionTokens: 40 },
+        { day: '2025-01-09', mode: 'title', requests: 1, promptTokens: 30, completionTokens: 5 },
+        { day: '2025-01-10', mode: 'summarize', requests: 1, promptTokens: 800, completionTokens: 200 },
+        { day: '2024-12-01', mode: 'chat', requests: 9, promptTokens: 9, completionTokens: 9 },
+      ],
+      3,
+      today
+    );
+
+    expect(daily.map((day) => day.totalTokens)).toEqual([0, 175, 1000]);
+    expect(sumDailyUsage(daily)).toEqual({
+      promptTokens: 930,
+      completionTokens: 245,
+      totalTokens: 1175,
+      replies: 4,
+    });
+    expect(getRangeStart(3, today)).toEqual(new Date(2025, 0, 8));
+  });
+});
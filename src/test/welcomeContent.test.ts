@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  WELCOME_CONTENT,
+  detectWelcomeLanguage,
+  getRecentConversations,
+} from '@/lib/welcomeContent';
+import { makeConversation, makeMessage } from './fixtures';
+
+const conversation = (id: string, updatedAt: string, messageCount = 1) =>
+  makeConversation({
+    id,
+    title: id,
+    messages: Array.from({ length: messageCount }, (_, index) =>
+      makeMessage({ id: `${id}-${index}`, content: 'سؤال', timestamp: new Date(updatedAt), parentId: null })
+    ),
+    createdAt: new Date(updatedAt),
+    updatedAt: new Date(updatedAt),
+  });
+
+describe('detectWelcomeLanguage', () => {
+  it('prefers the profile language, then the first supported browser language', () => {
+    expect(detectWelcomeLanguage('en', ['ar-SA'])).toBe('en');
+    expect(detectWelcomeLanguage(undefined, ['fr-FR', 'en-GB', 'ar'])).toBe('en');
+    expect(detectWelcomeLanguage(undefined, ['AR-eg'])).toBe('ar');
+    expect(detectWelcomeLanguage(undefined, ['fr-FR'])).toBe('ar');
+  });
+
+  it('offers the same categories and capabilities in every language', () => {
+    const ids = (language: 'ar' | 'en') => ({
+      categories: WELCOME_CONTENT[language].categories.map((category) => category.id),
+      capabilities: WELCOME_CONTENT[language].capabilities.map((capability) => capability.id),
+    });
+
+    expect(ids('en')).toEqual(ids('ar'));
+  });
+});
+
+describe('getRecentConversations', () => {
+  it('returns the latest non-empty conversations except the open one', () => {
+    const conversations = [
+      conversation('old', '2024-01-01'),
+      conversation('current', '2024-05-01'),
+      conversation('empty', '2024-06-01', 0),
+      conversation('newest', '2024-04-01'),
+      conversation('middle', '2024-03-01'),
+      conversation('older', '2024-02-01'),
+    ];
+
+    expect(getRecentConversations(conversations, 'current').map((c) => c.id)).toEqual([
+      'newest',
+      'middle',
+      'older',
+    ]);
+  });
+});
@@ -0,0 +1,592 @@
+/**
+ * @fileoverview فحص استخدام Roblox API في كود Luau - Luau API Usage Check
+ *
+ * @description
+ * يقارن كل وصول Class.Member في الكود بملف API Dump ويرصد:
+ *
+ * | القاعدة               | الخطورة  | المثال                                             |
+ * |----------------------|---------|----------------------------------------------------|
+ * | deprecated-api       | warning | Instance.new("BodyVelocity")، model:SetPrimaryPartCFrame |
+ * | unknown-member       | info    | humanoid:Explode() (غير موجود في الـ dump)           |
+ * | instance-new-parent  | warning | Instance.new("Part", workspace)                     |
+ * | raycast-filter       | warning | params.FilterDescendantsInstances = character       |
+ * | legacy-scheduler     | warning | wait() بدل task.wait()                              |
+ *
+ * @algorithm
+ * نوع المتغير يُستنتج من مصدره ثم تُتبع السلسلة عضواً بعضو:
+ * - game:GetService("X") / game.X / workspace / Instance.new("X")
+ * - local x: X = ... (type annotation)
+ * - نوع الخاصية أو قيمة الدالة في الـ dump (player.Character → Model)
+ * - FindFirstChildOfClass("X") وأخواتها → X
+ * - وسائط الأحداث (part.Touched:Connect(function(hit) → hit: BasePart)
+ *
+ * @note
+ * - الوصول بـ . للقراءة قد يكون ابناً (workspace.Map) فلا يُعتبر عضواً مجهولاً؛
+ *   فقط الاستدعاء بـ : والإسناد بـ = يُفحصان
+ * - Instance عام جداً (FindFirstChild يعيده) فلا تُفحص أعضاؤه
+ * - Instance.new("X") لفئة غائبة يُبلَّغ عنه فقط مع dump كامل (index.complete)
+ * - imports نسبية فقط حتى يعمل في Deno و Vite معاً
+ *
+ * @usedBy
+ * - Edge Function chat: ملاحظة في نهاية الرد (التحذيرات فقط)
+ * - StreamingText (CodeBlock): مع تشخيصات luauAnalyzer تحت الكتلة
+ */
+
+import { findMember, type ApiIndex, type ApiMember, type ApiType } from "./robloxApi.ts";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ApiCheckRule =
+  | "deprecated-api"
+  | "unknown-member"
+  | "instance-new-parent"
+  | "raycast-filter"
+  | "legacy-scheduler";
+
+export interface ApiCheckDiagnostic {
+  rule: ApiCheckRule;
+  severity: "warning" | "info";
+  /** رقم السطر في الكتلة (يبدأ من 1) */
+  line: number;
+  message: string;
+  /** البديل المقترح (كود) */
+  suggestion?: string;
+}
+
+interface Token {
+  type: "name" | "string" | "number" | "symbol";
+  value: string;
+  line: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/**
+ * البديل الحديث لكل API متقادم (Class.Member، Class، أو Enum.X.Y)
+ */
+const REPLACEMENTS: Record<string, string> = {
+  BodyVelocity: "LinearVelocity",
+  BodyPosition: "AlignPosition",
+  BodyGyro: "AlignOrientation",
+  BodyAngularVelocity: "AngularVelocity",
+  BodyForce: "VectorForce",
+  "BasePart.Velocity": "AssemblyLinearVelocity",
+  "BasePart.RotVelocity": "AssemblyAngularVelocity",
+  "BasePart.BreakJoints": "Destroy",
+  "Model.SetPrimaryPartCFrame": "PivotTo",
+  "Model.GetPrimaryPartCFrame": "GetPivot",
+  "Humanoid.LoadAnimation": "Animator:LoadAnimation()",
+  "WorldRoot.FindPartOnRay": "Raycast",
+  "WorldRoot.FindPartOnRayWithIgnoreList": "Raycast",
+  "WorldRoot.FindPartOnRayWithWhitelist": "Raycast",
+  "WorldRoot.FindPartsInRegion3": "GetPartBoundsInBox",
+  "GuiObject.TweenPosition": "TweenService:Create()",
+  "GuiObject.TweenSize": "TweenService:Create()",
+  "GuiObject.TweenSizeAndPosition": "TweenService:Create()",
+  "Instance.Remove": "Destroy",
+  "Instance.remove": "Destroy",
+  "Instance.destroy": "Destroy",
+  "Instance.clone": "Clone",
+  "Instance.children": "GetChildren",
+  "Instance.getChildren": "GetChildren",
+  "Instance.findFirstChild": "FindFirstChild",
+  "Instance.isA": "IsA",
+  "Players.getPlayers": "GetPlayers",
+  "Players.playerFromCharacter": "GetPlayerFromCharacter",
+  "PhysicsService.CreateCollisionGroup": "RegisterCollisionGroup",
+  "PhysicsService.SetPartCollisionGroup": "part.CollisionGroup = name",
+  "GlobalDataStore.OnUpdate": "MessagingService:SubscribeAsync()",
+  "CollectionService.GetCollection": "GetTagged",
+  "PathfindingService.FindPathAsync": "CreatePath() + path:ComputeAsync()",
+  "Debris.addItem": "AddItem",
+  "Sound.Pitch": "PlaybackSpeed",
+  "Enum.RaycastFilterType.Blacklist": "Enum.RaycastFilterType.Exclude",
+  "Enum.RaycastFilterType.Whitelist": "Enum.RaycastFilterType.Include",
+};
+
+const LEGACY_SCHEDULER: Record<string, string> = {
+  wait: "task.wait",
+  spawn: "task.spawn",
+  delay: "task.delay",
+};
+
+/** دوال تعيد فئة اسمها في الوسيط الأول */
+const CLASS_ARGUMENT_METHODS = new Set([
+  "FindFirstChildOfClass",
+  "FindFirstChildWhichIsA",
+  "FindFirstAncestorOfClass",
+  "FindFirstAncestorWhichIsA",
+]);
+
+/** أنواع عامة لا تُفحص أعضاؤها */
+const GENERIC_CLASSES = new Set(["Instance"]);
+
+const MULTI_CHAR_SYMBOLS = ["...", "==", "~=", "<=", ">=", "..", "::", "->", "+=", "-=", "*=", "/="];
+
+const NAME_PATTERN = /[A-Za-z_][A-Za-z0-9_]*/y;
+const NUMBER_PATTERN = /0[xX][0-9a-fA-F_]+|[0-9][0-9_]*(?:\.[0-9_]*)?(?:[eE][+-]?[0-9]+)?|\.[0-9]+/y;
+const LONG_BRACKET = /\[(=*)\[/y;
+
+/** علامة فتح كتلة Markdown (نفس قاعدة codeBlocks في الواجهة) */
+const OPEN_FENCE = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const LUAU_LANGUAGES = new Set(["lua", "luau"]);
+
+// ============================================================================
+// LEXER
+// ============================================================================
+
+/**
+ * tokens بدون تعليقات؛ النصوص تحتفظ بمحتواها فقط
+ */
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  const skipLongBracket = (start: number): number => {
+    LONG_BRACKET.lastIndex = start;
+    const open = LONG_BRACKET.exec(source);
+    if (!open) return -1;
+    const close = `]${open[1]}]`;
+    const end = source.indexOf(close, start + open[0].length);
+    const stop = end === -1 ? source.length : end + close.length;
+    line += (source.slice(start, stop).match(/\n/g) ?? []).length;
+    return stop;
+  };
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === "\n") {
+      line++;
+      i++;
+    } else if (/\s/.test(char)) {
+      i++;
+    } else if (source.startsWith("--", i)) {
+      const end = skipLongBracket(i + 2);
+      if (end !== -1) {
+        i = end;
+      } else {
+        const newline = source.indexOf("\n", i);
+        i = newline === -1 ? source.length : newline;
+      }
+    } else if (char === '"' || char === "'" || char === "`") {
+      let j = i + 1;
+      while (j < source.length && source[j] !== char && source[j] !== "\n") {
+        j += source[j] === "\\" ? 2 : 1;
+      }
+      tokens.push({ type: "string", value: source.slice(i + 1, j), line });
+      i = j + 1;
+    } else if (char === "[" && (source[i + 1] === "[" || source[i + 1] === "=")) {
+      const startLine = line;
+      const end = skipLongBracket(i);
+      if (end === -1) {
+        tokens.push({ type: "symbol", value: char, line });
+        i++;
+      } else {
+        tokens.push({ type: "string", value: "", line: startLine });
+        i = end;
+      }
+    } else {
+      NAME_PATTERN.lastIndex = i;
+      NUMBER_PATTERN.lastIndex = i;
+      const name = NAME_PATTERN.exec(source);
+      const number = !name && NUMBER_PATTERN.exec(source);
+      const symbol = MULTI_CHAR_SYMBOLS.find((item) => source.startsWith(item, i)) ?? char;
+
+      if (name) {
+        tokens.push({ type: "name", value: name[0], line });
+        i += name[0].length;
+      } else if (number) {
+        tokens.push({ type: "number", value: number[0], line });
+        i += number[0].length;
+      } else {
+        tokens.push({ type: "symbol", value: symbol, line });
+        i += symbol.length;
+      }
+    }
+  }
+
+  return tokens;
+};
+
+// ============================================================================
+// CHECK
+// ============================================================================
+
+const isDeprecated = (tags?: string[]) => !!tags?.includes("Deprecated");
+
+/**
+ * شكل البديل في الكود: :Method( للدوال، .Property للخصائص
+ */
+const formatSuggestion = (member: ApiMember, replacement: string) => {
+  if (!/^\w+$/.test(replacement)) return replacement;
+  return member.MemberType === "Function" ? `:${replacement}(` : `.${replacement}`;
+};
+
+/**
+ * فحص كود Luau واحد
+ *
+ * @example
+ * checkLuauApi(index, 'local v = Instance.new("BodyVelocity")')
+ * // [{ rule: 'deprecated-api', line: 1, message: 'BodyVelocity متقادمة؛ استخدم LinearVelocity', ... }]
+ */
+export const checkLuauApi = (index: ApiIndex, source: string): ApiCheckDiagnostic[] => {
+  const tokens = tokenize(source);
+  const diagnostics: ApiCheckDiagnostic[] = [];
+  const types = new Map<string, string>();
+  const declared = new Set<string>();
+
+  /** أثناء حل نوع بدون إبلاغ (قاعدة FilterDescendantsInstances) */
+  let muted = false;
+  const report = (diagnostic: ApiCheckDiagnostic) => {
+    if (!muted) diagnostics.push(diagnostic);
+  };
+
+  const at = (i: number) => tokens[i]?.value;
+  const isMemberAccess = (i: number) => at(i - 1) === "." || at(i - 1) === ":";
+
+  const classOf = (type?: ApiType): string | null =>
+    type?.Category === "Class" && !GENERIC_CLASSES.has(type.Name) && index.classes.has(type.Name)
+      ? type.Name
+      : null;
+
+  const knownClass = (name?: string): string | null =>
+    name && index.classes.has(name) && !GENERIC_CLASSES.has(name) ? name : null;
+
+  /** موضع القوس المغلق المقابل */
+  const closingParen = (open: number) => {
+    let depth = 0;
+    for (let i = open; i < tokens.length; i++) {
+      if (at(i) === "(") depth++;
+      if (at(i) === ")" && --depth === 0) return i;
+    }
+    return tokens.length - 1;
+  };
+
+  /** أسماء وسائط الدالة بعد function( حتى ) */
+  const functionParameters = (open: number): string[] => {
+    const names: string[] = [];
+    for (let i = open + 1; i < tokens.length && at(i) !== ")"; i++) {
+      if (tokens[i].type === "name" && (at(i - 1) === "(" || at(i - 1) === ",")) names.push(at(i));
+    }
+    return names;
+  };
+
+  const reportClass = (className: string, line: number) => {
+    if (!index.classes.has(className)) {
+      // في الـ dump المختار تغيب فئات شائعة (Folder، IntValue...)
+      if (!index.complete) return;
+      report({
+        rule: "unknown-member",
+        severity: "info",
+        line,
+        message: `الفئة "${className}" غير موجودة في API Dump`,
+      });
+    } else if (isDeprecated(index.classes.get(className).Tags)) {
+      const replacement = REPLACEMENTS[className];
+      report({
+        rule: "deprecated-api",
+        severity: "warning",
+        line,
+        message: replacement
+          ? `${className} متقادمة؛ استخدم ${replacement}`
+          : `${className} متقادمة`,
+        suggestion: replacement ? `Instance.new("${replacement}")` : undefined,
+      });
+    }
+  };
+
+  /**
+   * بداية السلسلة: نوعها وأول token بعدها
+   */
+  const readBase = (i: number): { cls: string | null; next: number } => {
+    const name = at(i);
+
+    if (name === "game") {
+      if (at(i + 1) === ":" && at(i + 2) === "GetService" && at(i + 3) === "(" && tokens[i + 4]?.type === "string") {
+        return { cls: knownClass(at(i + 4)), next: closingParen(i + 3) + 1 };
+      }
+      if (at(i + 1) === "." && knownClass(at(i + 2))) {
+        return { cls: at(i + 2), next: i + 3 };
+      }
+      return { cls: null, next: i + 1 };
+    }
+
+    if (name === "workspace") return { cls: "Workspace", next: i + 1 };
+
+    if (name === "Instance" && at(i + 1) === "." && at(i + 2) === "new" && at(i + 3) === "(") {
+      const close = closingParen(i + 3);
+      const classToken = tokens[i + 4];
+      if (classToken?.type === "string") {
+        reportClass(classToken.value, classToken.line);
+        if (at(i + 5) === ",") {
+          report({
+            rule: "instance-new-parent",
+            severity: "warning",
+            line: classToken.line,
+            message: "Instance.new(class, parent) أبطأ ويكرر النسخ؛ اضبط الخصائص ثم Parent في النهاية",
+            suggestion: `Instance.new("${classToken.value}")`,
+          });
+        }
+        return { cls: knownClass(classToken.value), next: close + 1 };
+      }
+      return { cls: null, next: close + 1 };
+    }
+
+    return { cls: types.get(name) ?? null, next: i + 1 };
+  };
+
+  /**
+   * تتبع السلسلة عضواً بعضو
+   *
+   * @returns نوع نهاية السلسلة (إن عُرف) وأول token بعدها
+   */
+  const readChain = (i: number): { cls: string | null; next: number } => {
+    let { cls, next: j } = readBase(i);
+
+    while (cls && (at(j) === "." || at(j) === ":") && tokens[j + 1]?.type === "name") {
+      const accessor = at(j);
+      const nameToken = tokens[j + 1];
+      const found = findMember(index, cls, nameToken.value);
+      j += 2;
+
+      if (!found) {
+        const isAssignment = at(j) === "=";
+        if (accessor === ":" || isAssignment) {
+          report({
+            rule: "unknown-member",
+            severity: "info",
+            line: nameToken.line,
+            message: `${nameToken.value} ليس عضواً في ${cls} حسب API Dump`,
+          });
+        }
+        return { cls: null, next: j };
+      }
+
+      const { member, owner } = found;
+      if (isDeprecated(member.Tags)) {
+        const replacement = REPLACEMENTS[`${owner}.${member.Name}`];
+        report({
+          rule: "deprecated-api",
+          severity: "warning",
+          line: nameToken.line,
+          message: replacement
+            ? `${owner}.${member.Name} متقادمة؛ استخدم ${replacement}`
+            : `${owner}.${member.Name} متقادمة`,
+          suggestion: replacement ? formatSuggestion(member, replacement) : undefined,
+        });
+      }
+
+      if (member.MemberType === "Function") {
+        if (at(j) !== "(") return { cls: null, next: j };
+        const classArgument = CLASS_ARGUMENT_METHODS.has(member.Name) && tokens[j + 1]?.type === "string"
+          ? knownClass(at(j + 1))
+          : null;
+        cls = classArgument ?? classOf(member.ReturnType);
+        j = closingParen(j) + 1;
+      } else if (member.MemberType === "Property") {
+        cls = classOf(member.ValueType);
+      } else {
+        // event:Connect(function(a, b) → أنواع الوسائط من الحدث
+        if (
+          member.MemberType === "Event" &&
+          at(j) === ":" &&
+          (at(j + 1) === "Connect" || at(j + 1) === "Once") &&
+          at(j + 2) === "(" &&
+          at(j + 3) === "function" &&
+          at(j + 4) === "("
+        ) {
+          functionParameters(j + 4).forEach((parameter, position) => {
+            const parameterClass = classOf(member.Parameters?.[position]?.Type);
+            if (parameterClass) types.set(parameter, parameterClass);
+            else types.delete(parameter);
+          });
+        }
+        return { cls: null, next: j };
+      }
+    }
+
+    return { cls, next: j };
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== "name" || isMemberAccess(i)) continue;
+
+    // local x [: Type] = <chain>
+    if (token.value === "local" && tokens[i + 1]?.type === "name" && at(i + 1) !== "function") {
+      const target = at(i + 1);
+      let j = i + 2;
+      const annotated = at(j) === ":" ? knownClass(at(j + 1)) : null;
+      if (at(j) === ":") j += 2;
+      declared.add(target);
+
+      if (at(j) === "=" && tokens[j + 1]?.type === "name") {
+        const { cls, next } = readChain(j + 1);
+        const resolved = annotated ?? cls;
+        if (resolved) types.set(target, resolved);
+        else types.delete(target);
+        // قيمة غير معروفة (مثل wait(1)) تُفحص كبقية الكود
+        i = cls || next > j + 2 ? next - 1 : j;
+      } else if (annotated) {
+        types.set(target, annotated);
+      } else {
+        types.delete(target);
+      }
+      continue;
+    }
+
+    // local function wait() تُخفي الاسم العام
+    if (at(i - 1) === "function" && at(i - 2) === "local") {
+      declared.add(token.value);
+      continue;
+    }
+
+    // function(player: Player) - نوع الوسيط
+    if ((at(i - 1) === "(" || at(i - 1) === ",") && at(i + 1) === ":" && knownClass(at(i + 2))) {
+      types.set(token.value, at(i + 2));
+      i += 2;
+      continue;
+    }
+
+    if (LEGACY_SCHEDULER[token.value] && at(i + 1) === "(" && !declared.has(token.value) && at(i - 1) !== "function") {
+      report({
+        rule: "legacy-scheduler",
+        severity: "warning",
+        line: token.line,
+        message: `${token.value}() قديمة وغير دقيقة؛ استخدم ${LEGACY_SCHEDULER[token.value]}()`,
+        suggestion: LEGACY_SCHEDULER[token.value],
+      });
+      continue;
+    }
+
+    // Enum.X.Y
+    if (token.value === "Enum" && at(i + 1) === "." && at(i + 3) === "." && index.enums.has(at(i + 2))) {
+      const enumName = at(i + 2);
+      const itemToken = tokens[i + 4];
+      if (itemToken?.type === "name") {
+        const item = index.enums.get(enumName).Items.find((entry) => entry.Name === itemToken.value);
+        const fullName = `Enum.${enumName}.${itemToken.value}`;
+        if (!item) {
+          report({
+            rule: "unknown-member",
+            severity: "info",
+            line: itemToken.line,
+            message: `${itemToken.value} ليست قيمة في Enum.${enumName} حسب API Dump`,
+          });
+        } else if (isDeprecated(item.Tags)) {
+          const replacement = REPLACEMENTS[fullName];
+          report({
+            rule: "deprecated-api",
+            severity: "warning",
+            line: itemToken.line,
+            message: replacement ? `${fullName} متقادمة؛ استخدم ${replacement}` : `${fullName} متقادمة`,
+            suggestion: replacement,
+          });
+        }
+      }
+      i += 4;
+      continue;
+    }
+
+    const { next } = readChain(i);
+    i = Math.max(i, next - 1);
+  }
+
+  // FilterDescendantsInstances: جدول كامل في كل مرة
+  tokens.forEach((token, i) => {
+    if (token.value !== "FilterDescendantsInstances" || at(i - 1) !== ".") return;
+
+    // = character بدل = { character } (المتغير الجدولي لا يُعرف نوعه فلا يُحذَّر منه)
+    if (at(i + 1) === "=" && tokens[i + 2]?.type === "name") {
+      muted = true;
+      const { cls } = readChain(i + 2);
+      muted = false;
+      if (cls || at(i + 2) === "script") {
+        report({
+          rule: "raycast-filter",
+          severity: "warning",
+          line: token.line,
+          message: "FilterDescendantsInstances تقبل جدولاً من Instances وليس Instance واحدة",
+          suggestion: `FilterDescendantsInstances = { ${at(i + 2)} }`,
+        });
+      }
+    }
+
+    // table.insert(params.FilterDescendantsInstances, x) يعدّل نسخة فقط
+    if (at(i - 3) === "(" && at(i - 4) === "insert" && at(i - 5) === "." && at(i - 6) === "table") {
+      report({
+        rule: "raycast-filter",
+        severity: "warning",
+        line: token.line,
+        message: "قراءة FilterDescendantsInstances تعيد نسخة؛ table.insert عليها لا يغيّر الفلتر. ابنِ الجدول ثم أسنده",
+        suggestion: `${at(i - 2)}.FilterDescendantsInstances = list`,
+      });
+    }
+  });
+
+  return diagnostics.sort((a, b) => a.line - b.line);
+};
+
+// ============================================================================
+// RESPONSE NOTE
+// ============================================================================
+
+/**
+ * كتل Luau المغلقة في الرد (نفس قاعدة extractCodeBlocks في الواجهة)
+ */
+export const findLuauBlocks = (content: string): string[] => {
+  const blocks: string[] = [];
+  let open: { marker: string; isLuau: boolean; lines: string[] } | null = null;
+
+  for (const line of content.replace(/\r\n/g, "\n").split("\n")) {
+    if (!open) {
+      const match = OPEN_FENCE.exec(line);
+      if (match) open = { marker: match[1], isLuau: LUAU_LANGUAGES.has(match[2].toLowerCase()), lines: [] };
+      continue;
+    }
+
+    const trimmed = line.trim();
+    if (trimmed.startsWith(open.marker) && /^(`+|~+)$/.test(trimmed) && trimmed[0] === open.marker[0]) {
+      if (open.isLuau) blocks.push(open.lines.join("\n"));
+      open = null;
+    } else {
+      open.lines.push(line);
+    }
+  }
+
+  return blocks;
+};
+
+/**
+ * ملاحظة Markdown تُلحق بنهاية الرد
+ *
+ * @description
+ * التحذيرات فقط: "غير موجود في الـ dump" قد يكون نقصاً في الملف نفسه،
+ * فيظهر تحت الكتلة في الواجهة ولا يُحفظ في نص الرد
+ *
+ * @returns النص، أو null إذا لم توجد تحذيرات
+ */
+export const buildApiCheckNote = (index: ApiIndex, content: string): string | null => {
+  const blocks = findLuauBlocks(content);
+  const items = blocks.flatMap((code, blockIndex) =>
+    checkLuauApi(index, code)
+      .filter((diagnostic) => diagnostic.severity === "warning")
+      .map((diagnostic) => {
+        const location = blocks.length > 1
+          ? `الكتلة ${blockIndex + 1}، سطر ${diagnostic.line}`
+          : `سطر ${diagnostic.line}`;
+        const suggestion = diagnostic.suggestion ? ` (\`${diagnostic.suggestion}\`)` : "";
+        return `- ${location}: ${diagnostic.message}${suggestion}`;
+      })
+  );
+
+  if (items.length === 0) return null;
+
+  return ["", "", "---", "**فحص Roblox API:**", ...items].join("\n");
+};
@@ -0,0 +1,137 @@
+/**
+ * @fileoverview النماذج المسموح بها وإعدادات التوليد - Chat Models Allow-List
+ *
+ * @description
+ * مصدر واحد لقائمة النماذج وحدود الإعدادات، يستخدمه:
+ * - Edge Function (التحقق من الطلب قبل إرساله للبوابة)
+ * - الواجهة (منتقي النموذج في ChatHeader) عبر الاسم المستعار @shared
+ *
+ * @note
+ * الملف بدون أي imports حتى يعمل في Deno و Vite معاً
+ *
+ * @impact
+ * ⚠️ إضافة نموذج هنا تسمح به في الخادم فوراً؛ تأكد أنه مدعوم في بوابة Lovable AI
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * نموذج متاح للدردشة
+ *
+ * @property id - المعرف كما تتوقعه البوابة
+ * @property label - الاسم المعروض
+ * @property description - وصف قصير لمتى يُستخدم
+ * @property maxOutputTokens - أقصى حد للـ tokens الناتجة يسمح به الخادم لهذا النموذج
+ */
+export interface ChatModel {
+  id: string;
+  label: string;
+  description: string;
+  maxOutputTokens: number;
+}
+
+/**
+ * إعدادات التوليد لمحادثة
+ *
+ * @property model - معرف نموذج من CHAT_MODELS
+ * @property temperature - درجة العشوائية
+ * @property maxTokens - أقصى عدد tokens للرد الواحد
+ */
+export interface GenerationSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+// ============================================================================
+// ALLOW-LIST
+// ============================================================================
+
+export const CHAT_MODELS: readonly ChatModel[] = [
+  {
+    id: "google/gemini-3-flash-preview",
+    label: "Gemini 3.0 Flash",
+    description: "سريع ومناسب للأسئلة اليومية",
+    maxOutputTokens: 16384,
+  },
+  {
+    id: "google/gemini-3-pro-preview",
+    label: "Gemini 3.0 Pro",
+    description: "الأقوى لإعادة الهيكلة العميقة والأنظمة الكبيرة",
+    maxOutputTokens: 32768,
+  },
+  {
+    id: "google/gemini-2.5-pro",
+    label: "Gemini 2.5 Pro",
+    description: "استدلال قوي وسياق طويل",
+    maxOutputTokens: 32768,
+  },
+  {
+    id: "google/gemini-2.5-flash",
+    label: "Gemini 2.5 Flash",
+    description: "متوازن بين السرعة والجودة",
+    maxOutputTokens: 16384,
+  },
+];
+
+// ============================================================================
+// BOUNDS & DEFAULTS
+// ============================================================================
+
+export const DEFAULT_MODEL_ID = "google/gemini-3-flash-preview";
+
+/** حدود درجة العشوائية */
+export const TEMPERATURE_MIN = 0;
+export const TEMPERATURE_MAX = 1.5;
+
+/** أقل حد للـ tokens (ردود أقصر من ذلك تُقطع قبل أن تفيد) */
+export const MAX_TOKENS_MIN = 256;
+
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+  model: DEFAULT_MODEL_ID,
+  temperature: 0.7,
+  maxTokens: 8192,
+};
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * البحث عن نموذج في القائمة المسموح بها
+ */
+export const findChatModel = (id: string | undefined): ChatModel | undefined =>
+  CHAT_MODELS.find((model) => model.id === id);
+
+/**
+ * هل المعرف ضمن النماذج المسموح بها؟
+ */
+export const isAllowedModel = (id: string): boolean => findChatModel(id) !== undefined;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * دمج إعدادات جزئية مع الافتراضية وضبطها ضمن الحدود
+ *
+ * @param settings - إعدادات المحادثة (قد تكون ناقصة أو قديمة)
+ * @returns إعدادات كاملة وصالحة دائماً
+ *
+ * @example
+ * resolveGenerationSettings({ model: "google/gemini-2.5-pro", maxTokens: 100000 })
+ * // → { model: "google/gemini-2.5-pro", temperature: 0.7, maxTokens: 32768 }
+ */
+export const resolveGenerationSettings = (
+  settings?: Partial<GenerationSettings> | null
+): GenerationSettings => {
+  const model = findChatModel(settings?.model) ?? findChatModel(DEFAULT_MODEL_ID) ?? CHAT_MODELS[0];
+  const temperature = settings?.temperature ?? DEFAULT_GENERATION_SETTINGS.temperature;
+  const maxTokens = settings?.maxTokens ?? DEFAULT_GENERATION_SETTINGS.maxTokens;
+
+  return {
+    model: model.id,
+    temperature: clamp(temperature, TEMPERATURE_MIN, TEMPERATURE_MAX),
+    maxTokens: Math.round(clamp(maxTokens, MAX_TOKENS_MIN, model.maxOutputTokens)),
+  };
+};
@@ -0,0 +1,190 @@
+/**
+ * @fileoverview ملف المشروع (تعليمات المستخدم المخصصة) - Project Profile
+ *
+ * @description
+ * وصف مختصر لمشروع المستخدم (نوع اللعبة، المكتبات، اصطلاحات التسمية، ...)
+ * يُدمج في رسالة النظام حتى تطابق الإجابات أسلوب الكود دون إعادة الشرح.
+ *
+ * - ملف عام لكل المستخدم (profiles.project_profile)
+ * - تخصيص اختياري لكل محادثة يطغى على الحقول التي يحددها
+ *
+ * @usedBy
+ * - Edge Function chat: التحقق والدمج وبناء نص التعليمات
+ * - ProjectProfileDialog: حدود الحقول وقائمة المكتبات
+ *
+ * @note
+ * الملف بدون أي imports حتى يعمل في Deno و Vite معاً
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** وضع فحص الأنواع في Luau */
+export type LuauMode = "strict" | "nonstrict";
+
+/** لغة الرد المفضلة (غير محددة = نفس لغة السؤال) */
+export type ResponseLanguage = "ar" | "en";
+
+/**
+ * ملف المشروع - كل الحقول اختيارية (غير محدد = بلا تفضيل)
+ *
+ * @property gameGenre - نوع اللعبة (مثل: Tycoon، Obby، FPS)
+ * @property frameworks - المكتبات المستخدمة في المشروع
+ * @property namingConventions - اصطلاحات التسمية
+ * @property luauMode - وضع --!strict أو --!nonstrict
+ * @property responseLanguage - لغة الرد
+ * @property notes - تعليمات إضافية حرة
+ */
+export interface ProjectProfile {
+  gameGenre?: string;
+  frameworks?: string[];
+  namingConventions?: string;
+  luauMode?: LuauMode;
+  responseLanguage?: ResponseLanguage;
+  notes?: string;
+}
+
+// ============================================================================
+// LIMITS
+// ============================================================================
+
+export const PROJECT_PROFILE_LIMITS = {
+  gameGenre: 100,
+  framework: 40,
+  frameworks: 12,
+  namingConventions: 500,
+  notes: 1500,
+} as const;
+
+/**
+ * المكتبات الشائعة المعروضة كخيارات جاهزة
+ */
+export const KNOWN_FRAMEWORKS = [
+  "Knit",
+  "ProfileService",
+  "ProfileStore",
+  "Fusion",
+  "Roact",
+  "React-lua",
+  "Promise",
+  "Janitor",
+  "Trove",
+  "Signal",
+  "Rojo",
+  "Wally",
+] as const;
+
+// ============================================================================
+// NORMALIZATION
+// ============================================================================
+
+const cleanText = (value: string | undefined, maxLength: number): string | undefined => {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed.slice(0, maxLength) : undefined;
+};
+
+/**
+ * تنظيف الملف: قص المسافات، حذف الحقول الفارغة، وتطبيق الحدود
+ *
+ * @returns ملف بدون حقول فارغة (قد يكون {})
+ */
+export const normalizeProjectProfile = (profile?: ProjectProfile | null): ProjectProfile => {
+  const frameworks = Array.from(
+    new Set(
+      (profile?.frameworks ?? [])
+        .map((name) => cleanText(name, PROJECT_PROFILE_LIMITS.framework))
+        .filter((name): name is string => Boolean(name))
+    )
+  ).slice(0, PROJECT_PROFILE_LIMITS.frameworks);
+
+  const normalized: ProjectProfile = {
+    gameGenre: cleanText(profile?.gameGenre, PROJECT_PROFILE_LIMITS.gameGenre),
+    frameworks: frameworks.length > 0 ? frameworks : undefined,
+    namingConventions: cleanText(profile?.namingConventions, PROJECT_PROFILE_LIMITS.namingConventions),
+    luauMode: profile?.luauMode,
+    responseLanguage: profile?.responseLanguage,
+    notes: cleanText(profile?.notes, PROJECT_PROFILE_LIMITS.notes),
+  };
+
+  return Object.fromEntries(
+    Object.entries(normalized).filter(([, value]) => value !== undefined)
+  ) as ProjectProfile;
+};
+
+/**
+ * هل الملف فارغ (لا يضيف شيئاً للتعليمات)؟
+ */
+export const isProjectProfileEmpty = (profile?: ProjectProfile | null): boolean =>
+  Object.keys(normalizeProjectProfile(profile)).length === 0;
+
+/**
+ * دمج الملف العام مع تخصيص المحادثة
+ *
+ * @description
+ * كل حقل محدد في تخصيص المحادثة يطغى على نظيره في الملف العام
+ */
+export const mergeProjectProfiles = (
+  base?: ProjectProfile | null,
+  override?: ProjectProfile | null
+): ProjectProfile =>
+  normalizeProjectProfile({
+    ...normalizeProjectProfile(base),
+    ...normalizeProjectProfile(override),
+  });
+
+// ============================================================================
+// PROMPT
+// ============================================================================
+
+const LUAU_MODE_INSTRUCTIONS: Record<LuauMode, string> = {
+  strict: "ابدأ كل سكربت بـ --!strict واكتب type annotations كاملة",
+  nonstrict: "استخدم --!nonstrict ولا تُلزم نفسك بكتابة الأنواع",
+};
+
+const RESPONSE_LANGUAGE_INSTRUCTIONS: Record<ResponseLanguage, string> = {
+  ar: "أجب بالعربية دائماً (المصطلحات التقنية تبقى بالإنجليزية)",
+  en: "Always answer in English",
+};
+
+/**
+ * بناء قسم ملف المشروع في رسالة النظام
+ *
+ * @returns النص، أو null إذا كان الملف فارغاً
+ */
+export const buildProjectProfilePrompt = (profile?: ProjectProfile | null): string | null => {
+  const normalized = normalizeProjectProfile(profile);
+  const lines: string[] = [];
+
+  if (normalized.gameGenre) {
+    lines.push(`• نوع اللعبة: ${normalized.gameGenre}`);
+  }
+  if (normalized.frameworks) {
+    lines.push(
+      `• المكتبات المستخدمة: ${normalized.frameworks.join(", ")} — ابنِ الحلول عليها بدلاً من بدائلها`
+    );
+  }
+  if (normalized.namingConventions) {
+    lines.push(`• اصطلاحات التسمية: ${normalized.namingConventions}`);
+  }
+  if (normalized.luauMode) {
+    lines.push(`• وضع Luau: ${LUAU_MODE_INSTRUCTIONS[normalized.luauMode]}`);
+  }
+  if (normalized.responseLanguage) {
+    lines.push(`• لغة الرد: ${RESPONSE_LANGUAGE_INSTRUCTIONS[normalized.responseLanguage]}`);
+  }
+  if (normalized.notes) {
+    lines.push(`• ملاحظات المستخدم:\n${normalized.notes}`);
+  }
+
+  if (lines.length === 0) return null;
+
+  return [
+    "═══════════════════════════════════════════════════════════════════════════════",
+    "█ ملف مشروع المستخدم",
+    "═══════════════════════════════════════════════════════════════════════════════",
+    "",
+    "هذه تفضيلات مشروع المستخدم. التزم بها في كل إجابة ما لم يطلب خلاف ذلك صراحة:",
+    ...lines,
+  ].join("\n");
+};
@@ -0,0 +1,206 @@
+/**
+ * @fileoverview حدود الاستخدام لكل مستخدم - Per-User Rate Limits
+ *
+ * @description
+ * منطق قرار الحدود وترويسات الرد، مشترك بين:
+ * - Edge Function: يقرر قبول الطلب أو رفضه بـ 429 ويضيف الترويسات
+ * - الواجهة: تقرأ الترويسات لعرض العد التنازلي والرصيد المتبقي
+ *
+ * حدان مستقلان:
+ * - عدد الطلبات في آخر دقيقة (نافذة منزلقة) - طلبات المحادثة فقط؛
+ *   التلخيص والعنوان يرافقان رسالة المستخدم فلا يُحسبان عليه
+ * - مجموع الـ tokens منذ بداية اليوم (UTC) - كل الطلبات
+ *
+ * @note
+ * الملف بدون أي imports حتى يعمل في Deno و Vite معاً
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * حدود المستخدم الواحد
+ *
+ * @property requestsPerMinute - أقصى عدد طلبات في أي 60 ثانية
+ * @property tokensPerDay - أقصى tokens (مدخلة + ناتجة) في اليوم
+ */
+export interface RateLimitConfig {
+  requestsPerMinute: number;
+  tokensPerDay: number;
+}
+
+/**
+ * استخدام المستخدم الحالي كما يعيده مخزن الاستخدام
+ *
+ * @property requestTimes - أوقات الطلبات (ms) خلال آخر دقيقة
+ * @property tokensToday - مجموع الـ tokens منذ منتصف الليل UTC
+ */
+export interface UsageSnapshot {
+  requestTimes: number[];
+  tokensToday: number;
+}
+
+/** سبب الرفض */
+export type RateLimitReason = "requests" | "tokens";
+
+/**
+ * حالة الحدود بعد تقييم طلب
+ *
+ * @property reason - سبب الرفض، أو null إذا قُبل الطلب
+ * @property retryAfterSeconds - متى يمكن المحاولة مجدداً (للرفض فقط)
+ * @property remainingRequests - الطلبات المتبقية في الدقيقة الحالية (بعد هذا الطلب إن قُبل)
+ */
+export interface RateLimitStatus {
+  reason: RateLimitReason | null;
+  retryAfterSeconds: number | null;
+  limitRequests: number;
+  remainingRequests: number;
+  limitTokens: number;
+  remainingTokens: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
+  requestsPerMinute: 10,
+  tokensPerDay: 1_000_000,
+};
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * أسماء الترويسات (Retry-After قياسية، والباقي على نمط OpenAI)
+ *
+ * @impact
+ * ⚠️ يجب أن تبقى مطابقة لـ Access-Control-Expose-Headers في Edge Function
+ */
+export const RATE_LIMIT_HEADERS = {
+  retryAfter: "Retry-After",
+  limitRequests: "X-RateLimit-Limit-Requests",
+  remainingRequests: "X-RateLimit-Remaining-Requests",
+  limitTokens: "X-RateLimit-Limit-Tokens",
+  remainingTokens: "X-RateLimit-Remaining-Tokens",
+} as const;
+
+// ============================================================================
+// EVALUATION
+// ============================================================================
+
+/**
+ * بداية اليوم الحالي (UTC) بالـ ms
+ */
+export const startOfUtcDay = (now: number): number => now - (now % DAY_MS);
+
+/**
+ * تقييم طلب جديد مقابل الحدود
+ *
+ * @param usage - الاستخدام الحالي (قبل هذا الطلب)
+ * @param config - الحدود
+ * @param now - الوقت الحالي (ms)
+ * @param countsRequest - false للأوضاع المساعدة: يخضع لحد الـ tokens فقط
+ *
+ * @example
+ * evaluateRateLimit({ requestTimes: [], tokensToday: 0 }, DEFAULT_RATE_LIMIT_CONFIG, Date.now())
+ * // → { reason: null, remainingRequests: 9, ... }
+ */
+export const evaluateRateLimit = (
+  usage: UsageSnapshot,
+  config: RateLimitConfig,
+  now: number,
+  countsRequest = true
+): RateLimitStatus => {
+  const recent = usage.requestTimes.filter((time) => time > now - MINUTE_MS);
+  const remainingTokens = Math.max(0, config.tokensPerDay - usage.tokensToday);
+
+  const base = {
+    limitRequests: config.requestsPerMinute,
+    limitTokens: config.tokensPerDay,
+    remainingTokens,
+  };
+
+  if (remainingTokens === 0) {
+    return {
+      ...base,
+      reason: "tokens",
+      retryAfterSeconds: Math.ceil((startOfUtcDay(now) + DAY_MS - now) / 1000),
+      remainingRequests: Math.max(0, config.requestsPerMinute - recent.length),
+    };
+  }
+
+  if (countsRequest && recent.length >= config.requestsPerMinute) {
+    const oldest = Math.min(...recent);
+    return {
+      ...base,
+      reason: "requests",
+      retryAfterSeconds: Math.max(1, Math.ceil((oldest + MINUTE_MS - now) / 1000)),
+      remainingRequests: 0,
+    };
+  }
+
+  return {
+    ...base,
+    reason: null,
+    retryAfterSeconds: null,
+    remainingRequests: Math.max(0, config.requestsPerMinute - recent.length - (countsRequest ? 1 : 0)),
+  };
+};
+
+// ============================================================================
+// HEADERS
+// ============================================================================
+
+/**
+ * ترويسات الرد لحالة الحدود
+ */
+export const buildRateLimitHeaders = (status: RateLimitStatus): Record<string, string> => ({
+  [RATE_LIMIT_HEADERS.limitRequests]: String(status.limitRequests),
+  [RATE_LIMIT_HEADERS.remainingRequests]: String(status.remainingRequests),
+  [RATE_LIMIT_HEADERS.limitTokens]: String(status.limitTokens),
+  [RATE_LIMIT_HEADERS.remainingTokens]: String(status.remainingTokens),
+  ...(status.retryAfterSeconds !== null
+    ? { [RATE_LIMIT_HEADERS.retryAfter]: String(status.retryAfterSeconds) }
+    : {}),
+});
+
+/**
+ * قراءة ترويسات الحدود من رد
+ *
+ * @returns null إذا لم يرسل الخادم الترويسات (مثل 429 من البوابة نفسها)
+ */
+export const parseRateLimitHeaders = (
+  headers: Headers,
+  reason: RateLimitReason | null = null
+): RateLimitStatus | null => {
+  const read = (name: string) => {
+    const value = headers.get(name);
+    const parsed = value === null ? NaN : Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  };
+
+  const limitRequests = read(RATE_LIMIT_HEADERS.limitRequests);
+  const remainingRequests = read(RATE_LIMIT_HEADERS.remainingRequests);
+  const limitTokens = read(RATE_LIMIT_HEADERS.limitTokens);
+  const remainingTokens = read(RATE_LIMIT_HEADERS.remainingTokens);
+
+  if (
+    limitRequests === null ||
+    remainingRequests === null ||
+    limitTokens === null ||
+    remainingTokens === null
+  ) {
+    return null;
+  }
+
+  return {
+    reason,
+    retryAfterSeconds: read(RATE_LIMIT_HEADERS.retryAfter),
+    limitRequests,
+    remainingRequests,
+    limitTokens,
+    remainingTokens,
+  };
+};
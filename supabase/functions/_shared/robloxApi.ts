@@ -0,0 +1,401 @@
+/**
+ * @fileoverview مرجع Roblox API من ملف API Dump - Roblox API Reference
+ *
+ * @description
+ * يبحث في API-Dump.json (نفس تنسيق Roblox Client Tracker) عن الفئات
+ * والأعضاء المذكورة في سؤال المستخدم، ويبني قسماً في رسالة النظام
+ * بتواقيعها الدقيقة حتى لا يخترع النموذج خصائص غير موجودة.
+ *
+ * @algorithm
+ * 1. الفئات: كل معرّف يطابق اسم فئة (Players، "DataStoreService"، workspace)
+ *    ما عدا X.new
+ * 2. الأعضاء: كل معرّف يطابق اسم عضو
+ *    - يُنسب لفئة مذكورة إن وُجد فيها أو في أسلافها
+ *    - وإلا للفئات التي تعرّفه: بعد . أو : (مثل :SetAsync) إن لم تتجاوز
+ *      MAX_MEMBER_OWNERS، وبدونهما للاسم المركب الذي تعرّفه فئة واحدة (PlayerRemoving)
+ * 3. الـ Enums: Enum.X
+ * 4. الفئة المذكورة صراحة تُعرض مع أعضائها الخاصة، والمستنتجة بالأعضاء المذكورة فقط
+ *
+ * @usedBy
+ * - Edge Function chat: قسم "مرجع Roblox API" لكل طلب
+ *
+ * @note
+ * الملف بدون أي imports حتى يعمل في Deno و Vite معاً؛ الـ dump يُمرَّر
+ * كقيمة (Deno يستورده كـ JSON module من الملف المحلي بدون شبكة)
+ *
+ * @note
+ * API-Dump.json يُولَّد من الـ dump الرسمي بـ npm run api-dump
+ * (scripts/generate-api-dump.mjs)؛ الملف المولَّد يحمل "Complete": true،
+ * والملف بدونه جزء مختار من الفئات الشائعة
+ */
+
+// ============================================================================
+// TYPES - تنسيق API-Dump.json
+// ============================================================================
+
+export interface ApiType {
+  Category: string;
+  Name: string;
+}
+
+export interface ApiParameter {
+  Name: string;
+  Type: ApiType;
+  Default?: string;
+}
+
+/**
+ * @property Security - نص للدوال والأحداث، { Read, Write } للخصائص
+ */
+export interface ApiMember {
+  MemberType: "Property" | "Function" | "Event" | "Callback";
+  Name: string;
+  Tags?: string[];
+  Security?: string | { Read: string; Write: string };
+  ValueType?: ApiType;
+  Parameters?: ApiParameter[];
+  ReturnType?: ApiType;
+}
+
+export interface ApiClass {
+  Name: string;
+  Superclass: string;
+  Tags?: string[];
+  Members: ApiMember[];
+}
+
+export interface ApiEnum {
+  Name: string;
+  Items: { Name: string; Value: number; Tags?: string[] }[];
+}
+
+/**
+ * @property Complete - الملف مولَّد من الـ dump الكامل (npm run api-dump)
+ */
+export interface ApiDump {
+  Complete?: boolean;
+  Classes: ApiClass[];
+  Enums?: ApiEnum[];
+}
+
+/**
+ * فهرس البحث
+ *
+ * @property memberOwners - اسم العضو ← الفئات التي تعرّفه مباشرة
+ * @property complete - غياب فئة عن الفهرس يعني أنها غير موجودة في Roblox
+ */
+export interface ApiIndex {
+  classes: Map<string, ApiClass>;
+  memberOwners: Map<string, string[]>;
+  enums: Map<string, ApiEnum>;
+  complete: boolean;
+}
+
+/**
+ * ما ذُكر في النص
+ *
+ * @property classes - الفئة ← الأعضاء المذكورة منها (بترتيب الظهور)
+ * @property explicit - الفئات المذكورة بالاسم
+ */
+export interface ApiMentions {
+  classes: Map<string, Set<string>>;
+  explicit: Set<string>;
+  enums: string[];
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** عضو يعرّفه أكثر من هذا العدد من الفئات غامض (مثل Enabled) */
+const MAX_MEMBER_OWNERS = 3;
+
+const MAX_CLASSES = 12;
+
+/** أقصى أعضاء خاصة تُعرض لفئة مذكورة صراحة (غير المذكورة بالاسم) */
+const MAX_OWN_MEMBERS = 16;
+
+/** حد طول القسم حتى لا يبتلع سياق المحادثة */
+const MAX_REFERENCE_LENGTH = 6000;
+
+/** اسم مركب (PlayerRemoving) يكفي وحده للدلالة على عضو بدون . أو : */
+const COMPOUND_NAME = /^[A-Z][a-z0-9]+[A-Z]/;
+
+/** متغيرات عامة في Luau تشير لفئة */
+const GLOBAL_ALIASES: Record<string, string> = {
+  workspace: "Workspace",
+};
+
+/** الوسوم التي تهم كاتب السكربت */
+const DISPLAYED_TAGS = new Set(["Deprecated", "ReadOnly", "Yields", "CanYield"]);
+
+/** أعضاء لا يصل إليها السكربت */
+const HIDDEN_TAGS = new Set(["Hidden", "NotScriptable"]);
+
+const PRIMITIVE_TYPES: Record<string, string> = {
+  bool: "boolean",
+  int: "number",
+  int64: "number",
+  float: "number",
+  double: "number",
+  string: "string",
+  null: "nil",
+};
+
+const GROUP_TYPES: Record<string, string> = {
+  Tuple: "...any",
+  Variant: "any",
+  Array: "{any}",
+  Dictionary: "{[string]: any}",
+  Map: "{[any]: any}",
+};
+
+// ============================================================================
+// INDEX
+// ============================================================================
+
+/**
+ * بناء الفهرس مرة واحدة لكل تحميل للـ dump
+ */
+export const createApiIndex = (dump: ApiDump): ApiIndex => {
+  const classes = new Map<string, ApiClass>();
+  const memberOwners = new Map<string, string[]>();
+
+  for (const apiClass of dump.Classes) {
+    classes.set(apiClass.Name, apiClass);
+    for (const member of apiClass.Members) {
+      const owners = memberOwners.get(member.Name) ?? [];
+      owners.push(apiClass.Name);
+      memberOwners.set(member.Name, owners);
+    }
+  }
+
+  return {
+    classes,
+    memberOwners,
+    enums: new Map((dump.Enums ?? []).map((apiEnum) => [apiEnum.Name, apiEnum])),
+    complete: dump.Complete === true,
+  };
+};
+
+/**
+ * الفئة وأسلافها بالترتيب (Part → FormFactorPart → BasePart → ... → Instance)
+ */
+export const getClassChain = (index: ApiIndex, className: string): ApiClass[] => {
+  const chain: ApiClass[] = [];
+  let current = index.classes.get(className);
+  while (current && chain.length < 32) {
+    chain.push(current);
+    current = index.classes.get(current.Superclass);
+  }
+  return chain;
+};
+
+/**
+ * العضو في الفئة أو أقرب أسلافها
+ *
+ * @returns العضو والفئة التي تعرّفه، أو null
+ */
+export const findMember = (
+  index: ApiIndex,
+  className: string,
+  memberName: string
+): { member: ApiMember; owner: string } | null => {
+  for (const apiClass of getClassChain(index, className)) {
+    const member = apiClass.Members.find((item) => item.Name === memberName);
+    if (member) return { member, owner: apiClass.Name };
+  }
+  return null;
+};
+
+const isScriptable = (member: ApiMember) => {
+  if (member.Tags?.some((tag) => HIDDEN_TAGS.has(tag))) return false;
+  const security = typeof member.Security === "string" ? member.Security : member.Security?.Read;
+  return !security || security === "None";
+};
+
+// ============================================================================
+// RETRIEVAL
+// ============================================================================
+
+/**
+ * الفئات والأعضاء والـ Enums المذكورة في النص
+ *
+ * @example
+ * findApiMentions(index, 'كيف أستخدم DataStoreService مع :UpdateAsync؟')
+ * // classes: DataStoreService → {}, GlobalDataStore → { UpdateAsync }
+ */
+export const findApiMentions = (index: ApiIndex, text: string): ApiMentions => {
+  const classes = new Map<string, Set<string>>();
+  const explicit = new Set<string>();
+  const addMember = (className: string, memberName?: string) => {
+    if (!classes.has(className)) classes.set(className, new Set());
+    if (memberName) classes.get(className).add(memberName);
+  };
+
+  for (const match of text.matchAll(/[A-Za-z_][A-Za-z0-9_]*/g)) {
+    const identifier = match[0];
+    // Instance.new و Vector3.new منشئات وليست استخداماً للفئة
+    if (/^\s*\.\s*new\b/.test(text.slice(match.index + identifier.length))) continue;
+
+    const className = GLOBAL_ALIASES[identifier] ?? identifier;
+    if (index.classes.has(className) && !explicit.has(className)) {
+      explicit.add(className);
+      addMember(className);
+    }
+  }
+
+  for (const [, accessor, memberName] of text.matchAll(/([.:]\s*)?([A-Za-z_][A-Za-z0-9_]*)/g)) {
+    const owners = index.memberOwners.get(memberName);
+    if (!owners) continue;
+
+    const inMentioned = [...explicit].filter((className) => findMember(index, className, memberName));
+    if (inMentioned.length > 0) {
+      inMentioned.forEach((className) => addMember(className, memberName));
+    } else if (accessor ? owners.length <= MAX_MEMBER_OWNERS : owners.length === 1 && COMPOUND_NAME.test(memberName)) {
+      owners.forEach((className) => addMember(className, memberName));
+    }
+  }
+
+  const enums = Array.from(
+    new Set([...text.matchAll(/\bEnum\.([A-Za-z_][A-Za-z0-9_]*)/g)].map((match) => match[1]))
+  ).filter((name) => index.enums.has(name));
+
+  return { classes, explicit, enums };
+};
+
+// ============================================================================
+// FORMATTING
+// ============================================================================
+
+const formatType = (type?: ApiType): string => {
+  if (!type) return "any";
+  switch (type.Category) {
+    case "Primitive":
+      return PRIMITIVE_TYPES[type.Name] ?? type.Name;
+    case "Group":
+      return GROUP_TYPES[type.Name] ?? type.Name;
+    case "Enum":
+      return `Enum.${type.Name}`;
+    default:
+      return type.Name;
+  }
+};
+
+const formatParameters = (parameters: ApiParameter[] = []) =>
+  parameters
+    .map((parameter) =>
+      parameter.Type.Name === "Tuple" && parameter.Type.Category === "Group"
+        ? "...any"
+        : `${parameter.Name}: ${formatType(parameter.Type)}${
+            parameter.Default !== undefined ? ` = ${parameter.Default}` : ""
+          }`
+    )
+    .join(", ");
+
+const formatReturn = (type?: ApiType) =>
+  !type || type.Name === "void" ? "" : `: ${formatType(type)}`;
+
+/**
+ * سطر العضو بصيغة Luau
+ *
+ * @example
+ * formatMember(GetAsync) // ':GetAsync(key: string, options: DataStoreGetOptions = nil): ...any [Yields]'
+ */
+export const formatMember = (member: ApiMember): string => {
+  const tags = (member.Tags ?? []).filter((tag) => DISPLAYED_TAGS.has(tag));
+  const suffix = tags.length > 0 ? ` [${tags.join(", ")}]` : "";
+
+  switch (member.MemberType) {
+    case "Property":
+      return `.${member.Name}: ${formatType(member.ValueType)}${suffix}`;
+    case "Function":
+      return `:${member.Name}(${formatParameters(member.Parameters)})${formatReturn(member.ReturnType)}${suffix}`;
+    case "Event":
+      return `.${member.Name}(${formatParameters(member.Parameters)}) → RBXScriptSignal${suffix}`;
+    case "Callback":
+      return `.${member.Name} = function(${formatParameters(member.Parameters)})${formatReturn(member.ReturnType)}${suffix}`;
+  }
+};
+
+const formatClass = (index: ApiIndex, className: string, mentioned: Set<string>, isExplicit: boolean) => {
+  const apiClass = index.classes.get(className);
+  const classTags = (apiClass.Tags ?? []).filter((tag) => tag === "Deprecated" || tag === "Service");
+  const lines = [
+    `${className} : ${apiClass.Superclass}${classTags.length > 0 ? ` [${classTags.join(", ")}]` : ""}`,
+  ];
+
+  for (const memberName of mentioned) {
+    const found = findMember(index, className, memberName);
+    if (!found || !isScriptable(found.member)) continue;
+    const inherited = found.owner !== className ? `  (من ${found.owner})` : "";
+    lines.push(`  ${formatMember(found.member)}${inherited}`);
+  }
+
+  if (isExplicit) {
+    apiClass.Members
+      .filter((member) =>
+        !mentioned.has(member.Name) && isScriptable(member) && !member.Tags?.includes("Deprecated")
+      )
+      .slice(0, MAX_OWN_MEMBERS)
+      .forEach((member) => lines.push(`  ${formatMember(member)}`));
+  }
+
+  return lines.join("\n");
+};
+
+const formatEnum = (apiEnum: ApiEnum) =>
+  `Enum.${apiEnum.Name}: ${apiEnum.Items
+    .map((item) => (item.Tags?.includes("Deprecated") ? `${item.Name} [Deprecated]` : item.Name))
+    .join(", ")}`;
+
+// ============================================================================
+// PROMPT
+// ============================================================================
+
+/**
+ * بناء قسم المرجع في رسالة النظام
+ *
+ * @description
+ * الفئات المذكورة صراحة أولاً بترتيب ظهورها، ثم المستنتجة من الأعضاء
+ * (الأكثر أعضاءً مذكورة أولاً)
+ *
+ * @returns النص، أو null إذا لم يُذكر شيء من الـ API
+ */
+export const buildApiReferencePrompt = (index: ApiIndex, text: string): string | null => {
+  const { classes, explicit, enums } = findApiMentions(index, text);
+
+  const implicit = [...classes.keys()]
+    .filter((className) => !explicit.has(className))
+    .sort((a, b) => classes.get(b).size - classes.get(a).size);
+
+  const sections: string[] = [];
+  let length = 0;
+
+  for (const className of [...explicit, ...implicit].slice(0, MAX_CLASSES)) {
+    const section = formatClass(index, className, classes.get(className), explicit.has(className));
+    if (length + section.length > MAX_REFERENCE_LENGTH) break;
+    sections.push(section);
+    length += section.length;
+  }
+
+  for (const name of enums) {
+    const section = formatEnum(index.enums.get(name));
+    if (length + section.length > MAX_REFERENCE_LENGTH) break;
+    sections.push(section);
+    length += section.length;
+  }
+
+  if (sections.length === 0) return null;
+
+  return [
+    "═══════════════════════════════════════════════════════════════════════════════",
+    "█ مرجع Roblox API (من API Dump)",
+    "═══════════════════════════════════════════════════════════════════════════════",
+    "",
+    "تواقيع دقيقة للفئات المذكورة في السؤال. التزم بها حرفياً ولا تستخدم خصائص أو دوال",
+    "غير موجودة فيها؛ [Deprecated] = لا تستخدمه واذكر البديل الحديث.",
+    "",
+    sections.join("\n\n"),
+  ].join("\n");
+};
@@ -0,0 +1,303 @@
+/**
+ * @fileoverview أخطاء نافذة Output في Studio - Studio Output Parser
+ *
+ * @description
+ * يحول نص Output الملصق (أخطاء + Stack Begin/End) إلى أخطاء منظمة:
+ *
+ * ```
+ * 12:00:01.000  ServerScriptService.Main:42: attempt to index nil with 'Humanoid'  -  Server - Main:42
+ * 12:00:01.000  Stack Begin  -  Studio
+ * 12:00:01.000  Script 'ServerScriptService.Main', Line 42 - function onTouched  -  Studio - Main:42
+ * 12:00:01.000  Script 'ServerScriptService.Main', Line 10  -  Studio - Main:10
+ * 12:00:01.000  Stack End  -  Studio
+ *            │
+ *            ▼
+ * { message: "attempt to index nil with 'Humanoid'",
+ *   frames: [{ path: "ServerScriptService.Main", line: 42, function: "onTouched" },
+ *            { path: "ServerScriptService.Main", line: 10 }] }
+ * ```
+ *
+ * - الواجهة: كشف اللصق في ChatInput وعرض ملخص بدل النص الكامل
+ * - Edge Function chat: تعليمات تشخيص موجهة في بداية رسالة النظام
+ *
+ * @note
+ * الملف بدون أي imports حتى يعمل في Deno و Vite معاً
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * موضع في الـ stack
+ *
+ * @property path - مسار السكربت (ServerScriptService.Main)
+ * @property function - اسم الدالة إن ذكره Studio
+ */
+export interface StudioFrame {
+  path: string;
+  line: number;
+  function?: string;
+}
+
+/**
+ * خطأ واحد مع الـ stack
+ *
+ * @property frames - أولها مكان الخطأ ثم من استدعاه
+ * @property count - عدد مرات تكراره في السجل الملصق
+ */
+export interface StudioError {
+  message: string;
+  frames: StudioFrame[];
+  count: number;
+}
+
+/**
+ * السجل الملصق كما يُحفظ مع رسالة المستخدم
+ *
+ * @property raw - النص الملصق كاملاً (يُقص من بدايته عند الإرسال للنموذج فقط)
+ */
+export interface StudioOutputLog {
+  raw: string;
+  errors: StudioError[];
+}
+
+// ============================================================================
+// LIMITS
+// ============================================================================
+
+/**
+ * @property raw - أقصى ما يُرسل للنموذج من السجل (آخره، حيث الأخطاء الأحدث)
+ */
+export const STUDIO_OUTPUT_LIMITS = {
+  raw: 4000,
+  errors: 10,
+  frames: 8,
+  message: 300,
+  path: 200,
+  function: 100,
+} as const;
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+/** 12:00:01.000 في بداية السطر */
+const TIMESTAMP = /^\d{1,2}:\d{2}:\d{2}(?:\.\d+)?\s+/;
+
+/** "  -  Server - Main:42" أو "  -  Studio" في نهاية السطر */
+const SOURCE_SUFFIX = /\s+-\s+(?:Server|Client|Studio|Edit)(?:\s+-\s+.*)?$/;
+
+/** ServerScriptService.Main:42: رسالة */
+const ERROR_LINE = /^([A-Za-z_][^:'"\n]*?):(\d+):\s*(.+)$/;
+
+/** Script 'ServerScriptService.Main', Line 42 - function onTouched */
+const STACK_FRAME = /^Script '([^']+)', Line (\d+)(?:\s*-\s*(?:function\s+)?(.+))?$/;
+
+const STACK_MARKER = /^Stack (?:Begin|End)$/;
+
+const clip = (value: string, max: number) => value.slice(0, max);
+
+const toFrame = (path: string, line: string, fn?: string): StudioFrame => {
+  const frame: StudioFrame = {
+    path: clip(path.trim(), STUDIO_OUTPUT_LIMITS.path),
+    line: Number(line),
+  };
+  const name = fn?.trim();
+  if (name) frame.function = clip(name, STUDIO_OUTPUT_LIMITS.function);
+  return frame;
+};
+
+const sameFrame = (a: StudioFrame, b: StudioFrame) => a.path === b.path && a.line === b.line;
+
+/**
+ * استخراج الأخطاء من نص Output
+ *
+ * @returns السجل، أو null إذا لم يحتوِ النص على أي خطأ بموضع
+ *
+ * @behavior
+ * - الخطأ المكرر بنفس الرسالة والموضع يُجمع في عنصر واحد (count)
+ * - أسطر الـ stack تُلحق بآخر خطأ؛ أول سطر منها غالباً هو مكان الخطأ نفسه فلا يُكرر
+ * - رسالة بلا موضع يتبعها Stack Begin (مثل Infinite yield possible) تصبح خطأً
+ *   موضعه أول سطر في الـ stack
+ * - الأسطر الأخرى (print، تحذيرات بلا stack) تبقى في raw فقط
+ *
+ * @example
+ * parseStudioOutput("Workspace.Door.Script:5: attempt to call a nil value")
+ * // → { raw: "...", errors: [{ message: "attempt to call a nil value", frames: [{ path: "Workspace.Door.Script", line: 5 }], count: 1 }] }
+ */
+export const parseStudioOutput = (text: string): StudioOutputLog | null => {
+  const errors: StudioError[] = [];
+  let current: StudioError | null = null;
+  let inStack = false;
+  /** آخر سطر نصي بلا موضع (مرشح لخطأ إذا تبعه stack) */
+  let unlocated: string | null = null;
+
+  const addError = (message: string, frame?: StudioFrame) => {
+    const duplicate = errors.find((error) =>
+      error.message === message &&
+      (frame ? !!error.frames[0] && sameFrame(error.frames[0], frame) : true)
+    );
+
+    if (duplicate) {
+      duplicate.count += 1;
+      current = duplicate;
+    } else if (errors.length < STUDIO_OUTPUT_LIMITS.errors) {
+      current = { message, frames: frame ? [frame] : [], count: 1 };
+      errors.push(current);
+    } else {
+      current = null;
+    }
+  };
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim().replace(TIMESTAMP, "").replace(SOURCE_SUFFIX, "").trim();
+    if (!line) continue;
+
+    if (STACK_MARKER.test(line)) {
+      inStack = line === "Stack Begin";
+      if (inStack && unlocated) addError(unlocated);
+      unlocated = null;
+      continue;
+    }
+
+    const frameMatch = STACK_FRAME.exec(line);
+    if (frameMatch) {
+      unlocated = null;
+      if (!current) continue;
+      const frame = toFrame(frameMatch[1], frameMatch[2], frameMatch[3]);
+      const existing = current.frames.find((item) => sameFrame(item, frame));
+      if (existing) {
+        if (!existing.function && frame.function) existing.function = frame.function;
+      } else if (current.frames.length < STUDIO_OUTPUT_LIMITS.frames) {
+        current.frames.push(frame);
+      }
+      continue;
+    }
+
+    if (inStack) continue;
+
+    const errorMatch = ERROR_LINE.exec(line);
+    if (errorMatch) {
+      unlocated = null;
+      addError(
+        clip(errorMatch[3].trim(), STUDIO_OUTPUT_LIMITS.message),
+        toFrame(errorMatch[1], errorMatch[2])
+      );
+    } else {
+      unlocated = clip(line, STUDIO_OUTPUT_LIMITS.message);
+    }
+  }
+
+  // خطأ بلا موضع ولا stack لا يفيد التشخيص
+  const located = errors.filter((error) => error.frames.length > 0);
+  if (located.length === 0) return null;
+
+  return { raw: text.trim(), errors: located };
+};
+
+/**
+ * "ServerScriptService.Main:42"
+ */
+export const formatStudioFrame = (frame: StudioFrame): string => `${frame.path}:${frame.line}`;
+
+// ============================================================================
+// PROMPT
+// ============================================================================
+
+/**
+ * أسباب شائعة لرسائل Studio المعروفة (تُضاف تحت الخطأ المطابق)
+ */
+const KNOWN_ERROR_HINTS: Array<{ pattern: RegExp; hint: string }> = [
+  {
+    pattern: /attempt to index nil with '([^']+)'/,
+    hint: "القيمة التي قبل .$1 هي nil: كائن لم يُحمّل بعد (Character، WaitForChild) أو FindFirstChild لم يجد شيئاً",
+  },
+  {
+    pattern: /is not a valid member of/,
+    hint: "الاسم خاطئ أو الكائن لم يُنسخ بعد للعميل: تحقق من المسار واستخدم WaitForChild",
+  },
+  {
+    pattern: /Infinite yield possible/,
+    hint: "WaitForChild ينتظر كائناً غير موجود: المسار أو الاسم خاطئ أو الكائن يُنشأ في الجهة الأخرى",
+  },
+  {
+    pattern: /attempt to call a nil value/,
+    hint: "الدالة غير موجودة: خطأ في الاسم، أو ModuleScript لم يُرجع الجدول، أو استدعاء قبل التعريف",
+  },
+  {
+    pattern: /attempt to perform arithmetic/,
+    hint: "عملية حسابية على nil أو نص: تحقق من القيم الافتراضية وتحويل tonumber",
+  },
+  {
+    pattern: /attempt to compare/,
+    hint: "مقارنة بين أنواع مختلفة أو مع nil",
+  },
+  {
+    pattern: /Requested module experienced an error while loading/,
+    hint: "الخطأ الحقيقي داخل ModuleScript المطلوب: ابحث عن أول خطأ قبله في السجل",
+  },
+  {
+    pattern: /exhausted allowed execution time|Script timeout/,
+    hint: "حلقة بدون task.wait أو تكرار لا ينتهي",
+  },
+  {
+    pattern: /DataStore request was added to queue|DataStore.*(?:throttl|limit)/i,
+    hint: "تجاوز حدود طلبات DataStore: قلل الحفظ المتكرر واجمع التغييرات",
+  },
+  {
+    pattern: /HTTP 403|Studio access to APIs is not allowed/,
+    hint: "الوصول لخدمات API غير مفعّل في Game Settings > Security",
+  },
+  {
+    pattern: /Expected .+ got|Incomplete statement|'end' expected/,
+    hint: "خطأ في صياغة الكود عند السطر المذكور أو قبله مباشرة",
+  },
+];
+
+const hintFor = (message: string): string | null => {
+  for (const { pattern, hint } of KNOWN_ERROR_HINTS) {
+    const match = pattern.exec(message);
+    if (match) return hint.replace("$1", match[1] ?? "");
+  }
+  return null;
+};
+
+/**
+ * بناء قسم التشخيص في بداية رسالة النظام
+ *
+ * @returns النص، أو null إذا لم توجد أخطاء
+ */
+export const buildStudioOutputPrompt = (errors: StudioError[] | undefined): string | null => {
+  if (!errors || errors.length === 0) return null;
+
+  const items = errors.slice(0, STUDIO_OUTPUT_LIMITS.errors).map((error, index) => {
+    const [origin, ...callers] = error.frames;
+    const lines = [
+      `${index + 1}. ${origin ? `${formatStudioFrame(origin)}${origin.function ? ` (${origin.function})` : ""}: ` : ""}${error.message}` +
+        (error.count > 1 ? ` (تكرر ${error.count} مرات)` : ""),
+    ];
+    if (callers.length > 0) {
+      lines.push(
+        `   استُدعي من: ${callers
+          .map((frame) => `${formatStudioFrame(frame)}${frame.function ? ` (${frame.function})` : ""}`)
+          .join(" ← ")}`
+      );
+    }
+    const hint = hintFor(error.message);
+    if (hint) lines.push(`   سبب شائع: ${hint}`);
+    return lines.join("\n");
+  });
+
+  return [
+    "═══════════════════════════════════════════════════════════════════════════════",
+    "█ تشخيص أخطاء Studio Output",
+    "═══════════════════════════════════════════════════════════════════════════════",
+    "",
+    "ألصق المستخدم سجل Output من Roblox Studio (النص أو آخره في آخر رسالة). الأخطاء المستخرجة:",
+    ...items,
+    "",
+    "ابدأ ردك بتشخيص كل خطأ بالترتيب: السبب المرجح، السكربت والسطر الذي يجب فحصه، ثم الإصلاح بكود مختصر.",
+    "إذا كانت الأخطاء نتيجة لخطأ واحد سابق فقل ذلك وابدأ به. إذا احتجت الكود حول السطر فاطلبه بالتحديد بدل التخمين.",
+  ].join("\n");
+};
@@ -0,0 +1,100 @@
+/**
+ * @fileoverview ملاحظة فحص API في نهاية الرد - API Check Stream
+ *
+ * @description
+ * يمرر رد SSE سطراً بسطر ويجمع المحتوى، ثم قبل [DONE] يضيف chunk محتوى
+ * أخير بتحذيرات فحص Roblox API (إن وُجدت). الواجهة تقرؤه كجزء عادي من
+ * الرد فيُحفظ ويُصدَّر ويصل للنموذج في الرسائل التالية.
+ *
+ * @note
+ * الرد المقطوع عند حد الطول (finish_reason: length) لا تُضاف له ملاحظة:
+ * "متابعة" تكمل النص من آخره، والكتلة الأخيرة لم تكتمل بعد
+ */
+
+// ============================================================================
+// STREAM
+// ============================================================================
+
+const encodeChunk = (content: string) =>
+  `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content } }] })}\n\n`;
+
+/**
+ * @param body - رد SSE (بعد عدّاد الاستخدام)
+ * @param buildNote - الملاحظة من المحتوى الكامل، أو null
+ */
+export const appendApiCheckNote = (
+  body: ReadableStream<Uint8Array>,
+  buildNote: (content: string) => string | null
+): ReadableStream<Uint8Array> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = "";
+  let content = "";
+  let finishReason: string | null = null;
+  let noteSent = false;
+
+  const scanLine = (line: string) => {
+    const json = line.slice(6).trim();
+    try {
+      const parsed = JSON.parse(json);
+      const choice = parsed.choices?.[0];
+      if (typeof choice?.delta?.content === "string") content += choice.delta.content;
+      if (choice?.finish_reason) finishReason = choice.finish_reason;
+    } catch {
+      // سطر ليس JSON: يمر كما هو
+    }
+  };
+
+  const noteChunk = () => {
+    if (finishReason === "length") return "";
+    try {
+      const note = buildNote(content);
+      return note ? encodeChunk(note) : "";
+    } catch (error) {
+      console.error("API check failed:", error);
+      return "";
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      // chunk بدون سطر كامل لا يُخرج شيئاً، والتيار لا يستدعي pull مجدداً
+      // قبل enqueue: نواصل القراءة حتى يكتمل سطر أو ينتهي الرد
+      let output = "";
+      while (!output) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          // انتهى الرد بدون [DONE]
+          const rest = buffer + (noteSent ? "" : noteChunk());
+          if (rest) controller.enqueue(encoder.encode(rest));
+          controller.close();
+          return;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        let newlineIndex: number;
+        while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+          const line = buffer.slice(0, newlineIndex + 1);
+          buffer = buffer.slice(newlineIndex + 1);
+          const trimmed = line.trim();
+
+          if (trimmed === "data: [DONE]" && !noteSent) {
+            output += noteChunk();
+            noteSent = true;
+          } else if (trimmed.startsWith("data: ")) {
+            scanLine(trimmed);
+          }
+          output += line;
+        }
+      }
+
+      controller.enqueue(encoder.encode(output));
+    },
+
+    async cancel(reason) {
+      await reader.cancel(reason);
+    },
+  });
+};
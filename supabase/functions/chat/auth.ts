@@ -0,0 +1,62 @@
+/**
+ * @fileoverview التحقق من هوية المستخدم في Edge Function - Request Authentication
+ *
+ * @description
+ * يتحقق من access token الخاص بجلسة Supabase المرسل في ترويسة Authorization
+ * ويعيد معرف المستخدم لاستخدامه في السجلات والحصص والحفظ.
+ *
+ * @security
+ * verify_jwt في config.toml يتحقق من التوقيع فقط، والمفتاح العام (anon key)
+ * نفسه JWT صالح. لذلك نسأل Supabase Auth عن المستخدم: المفتاح العام
+ * أو توكن منتهي أو مستخدم محذوف كلها تُرفض هنا.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * المستخدم صاحب الطلب
+ *
+ * @property id - معرف المستخدم (auth.users.id)
+ * @property email - البريد الإلكتروني إن وجد
+ */
+export interface AuthenticatedUser {
+  id: string;
+  email: string | null;
+}
+
+// ============================================================================
+// AUTHENTICATION
+// ============================================================================
+
+/**
+ * استخراج المستخدم من طلب
+ *
+ * @returns المستخدم، أو null إذا كان الطلب مجهول الهوية أو التوكن غير صالح
+ * @throws {Error} إذا لم تكن متغيرات بيئة Supabase مضبوطة
+ */
+export const authenticateRequest = async (req: Request): Promise<AuthenticatedUser | null> => {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader?.startsWith("Bearer ")) return null;
+
+  const token = authHeader.slice("Bearer ".length).trim();
+  if (!token) return null;
+
+  const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+  const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    throw new Error("SUPABASE_URL or SUPABASE_ANON_KEY is not configured");
+  }
+
+  const supabase = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data.user) return null;
+
+  return { id: data.user.id, email: data.user.email ?? null };
+};
@@ -4,11 +4,51 @@
  * @description
  * نقطة الاتصال بين الواجهة الأمامية وخدمة Lovable AI
  * مع تعليمات محسنة للنموذج ودعم متعدد اللغات
+ *
+ * @security
+ * يقبل فقط المستخدمين المسجلين (access token الجلسة، وليس المفتاح العام)
  */
 
 /// <reference types="https://esm.sh/@supabase/functions-js/src/edge-runtime.d.ts" />
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  CHAT_MODELS,
+  MAX_TOKENS_MIN,
+  TEMPERATURE_MAX,
+  TEMPERATURE_MIN,
+  DEFAULT_MODEL_ID,
+  isAllowedModel,
+  resolveGenerationSettings,
+} from "../_shared/models.ts";
+import { buildApiCheckNote } from "../_shared/luauApiCheck.ts";
+import {
+  PROJECT_PROFILE_LIMITS,
+  buildProjectProfilePrompt,
+  mergeProjectProfiles,
+} from "../_shared/projectProfile.ts";
+import {
+  RATE_LIMIT_HEADERS,
+  buildRateLimitHeaders,
+} from "../_shared/rateLimit.ts";
+import {
+  buildApiReferencePrompt,
+  createApiIndex,
+  type ApiDump,
+} from "../_shared/robloxApi.ts";
+import {
+  STUDIO_OUTPUT_LIMITS,
+  buildStudioOutputPrompt,
+} from "../_shared/studioOutput.ts";
+import apiDump from "../_shared/API-Dump.json" with { type: "json" };
+import { appendApiCheckNote } from "./apiCheckStream.ts";
+import { authenticateRequest } from "./auth.ts";
+import {
+  estimateTokens,
+  getRateLimitConfig,
+  getUsageStore,
+  meterUsageStream,
+} from "./usage.ts";
 
 // ============================================================================
 // CORS CONFIGURATION
@@ -17,6 +57,8 @@ import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+  // بدونها لا يستطيع المتصفح قراءة ترويسات الحدود من الرد
+  "Access-Control-Expose-Headers": Object.values(RATE_LIMIT_HEADERS).join(", "),
 };
 
 // ============================================================================
@@ -30,10 +72,92 @@ const MessageSchema = z.object({
     .max(50000, "Message content too long"),
 });
 
+/**
+ * إعدادات التوليد الاختيارية
+ *
+ * @note
+ * الحد الأعلى لـ maxTokens هنا هو الأكبر بين النماذج؛
+ * resolveGenerationSettings يضبطه لاحقاً حسب النموذج المختار
+ */
+const SettingsSchema = z.object({
+  model: z.string()
+    .refine(isAllowedModel, "Model is not allowed")
+    .optional(),
+  temperature: z.number()
+    .min(TEMPERATURE_MIN, "Temperature too low")
+    .max(TEMPERATURE_MAX, "Temperature too high")
+    .optional(),
+  maxTokens: z.number()
+    .int("maxTokens must be an integer")
+    .min(MAX_TOKENS_MIN, "maxTokens too small")
+    .max(Math.max(...CHAT_MODELS.map((m) => m.maxOutputTokens)), "maxTokens too large")
+    .optional(),
+});
+
+/**
+ * ملف المشروع (عام أو خاص بالمحادثة)
+ *
+ * @note
+ * النصوص الحرة محدودة الطول حتى لا تبتلع رسالة النظام سياق المحادثة
+ */
+const ProjectProfileSchema = z.object({
+  gameGenre: z.string()
+    .max(PROJECT_PROFILE_LIMITS.gameGenre, "gameGenre too long")
+    .optional(),
+  frameworks: z.array(
+    z.string().max(PROJECT_PROFILE_LIMITS.framework, "Framework name too long")
+  )
+    .max(PROJECT_PROFILE_LIMITS.frameworks, "Too many frameworks")
+    .optional(),
+  namingConventions: z.string()
+    .max(PROJECT_PROFILE_LIMITS.namingConventions, "namingConventions too long")
+    .optional(),
+  luauMode: z.enum(["strict", "nonstrict"]).optional(),
+  responseLanguage: z.enum(["ar", "en"]).optional(),
+  notes: z.string()
+    .max(PROJECT_PROFILE_LIMITS.notes, "notes too long")
+    .optional(),
+});
+
+const ProfileSchema = z.object({
+  user: ProjectProfileSchema.optional(),
+  conversation: ProjectProfileSchema.optional(),
+});
+
+/**
+ * أخطاء Output الملصقة مع رسالة المستخدم الحالية
+ *
+ * @note
+ * النص الكامل يصل داخل الرسالة نفسها؛ هنا الأخطاء المستخرجة فقط
+ */
+const StudioFrameSchema = z.object({
+  path: z.string().max(STUDIO_OUTPUT_LIMITS.path, "Frame path too long"),
+  line: z.number().int().nonnegative(),
+  function: z.string()
+    .max(STUDIO_OUTPUT_LIMITS.function, "Frame function too long")
+    .optional(),
+});
+
+const StudioOutputSchema = z.object({
+  errors: z.array(
+    z.object({
+      message: z.string().max(STUDIO_OUTPUT_LIMITS.message, "Error message too long"),
+      frames: z.array(StudioFrameSchema)
+        .max(STUDIO_OUTPUT_LIMITS.frames, "Too many frames"),
+      count: z.number().int().positive(),
+    })
+  )
+    .max(STUDIO_OUTPUT_LIMITS.errors, "Too many errors"),
+});
+
 const RequestSchema = z.object({
   messages: z.array(MessageSchema)
     .min(1, "At least one message required")
     .max(100, "Too many messages"),
+  settings: SettingsSchema.optional(),
+  profile: ProfileSchema.optional(),
+  mode: z.enum(["chat", "summarize", "title"]).optional(),
+  studioOutput: StudioOutputSchema.optional(),
 });
 
 // ============================================================================
@@ -62,6 +186,11 @@ const ROBLOX_EXPERT_SYSTEM_PROMPT = `أنت خبير برمجة Roblox Studio م
 • تعليقات واضحة داخل الكود
 • type annotations عند الحاجة
 • اتبع أفضل الممارسات دائماً
+• كل سكربت كامل يبدأ (بعد --!strict) بسطر مساره في Studio، واللاحقة تحدد نوعه:
+  -- ServerScriptService/Systems/DataManager.server.lua   (Script)
+  -- StarterPlayer/StarterPlayerScripts/Input.client.lua  (LocalScript)
+  -- ReplicatedStorage/Modules/Config.lua                 (ModuleScript)
+  (المقتطفات والأمثلة القصيرة بدون سطر مسار)
 
 ═══════════════════════════════════════════════════════════════════════════════
 █ هندسة Roblox - البنية المعمارية
@@ -861,6 +990,85 @@ end
 
 أنت جاهز لمساعدة المطورين في إنشاء تجارب Roblox احترافية.`;
 
+// ============================================================================
+// ROBLOX API REFERENCE
+// ============================================================================
+
+/**
+ * فهرس API Dump المحلي (يُبنى مرة واحدة عند تحميل الدالة)
+ *
+ * @note
+ * الملف مرفق مع الدالة فلا يحتاج شبكة. القاموس أعلاه للأنماط والممارسات،
+ * والتواقيع الدقيقة للفئات المذكورة في السؤال تأتي من هنا
+ */
+const API_INDEX = createApiIndex(apiDump as ApiDump);
+
+// ============================================================================
+// SUMMARIZATION PROMPT (mode: "summarize")
+// ============================================================================
+
+/**
+ * تعليمات تلخيص الرسائل القديمة حين تتجاوز المحادثة نافذة السياق
+ *
+ * @note
+ * الملخص يُقرأ لاحقاً من النموذج نفسه لا من المستخدم، لذا الأولوية
+ * للحقائق التقنية (أسماء، مسارات، قرارات) على الأسلوب
+ */
+const SUMMARY_SYSTEM_PROMPT = `أنت تلخص محادثة برمجة Roblox/Luau لتستمر لاحقاً بدون الرسائل الأصلية.
+
+اكتب ملخصاً مكثفاً بلغة المحادثة يحفظ:
+• هدف المستخدم والمشكلة الحالية
+• أسماء السكربتات والـ ModuleScripts والمسارات (ServerScriptService/...) والـ RemoteEvents
+• القرارات التقنية المتفق عليها والبدائل المرفوضة وسببها
+• الأخطاء التي ظهرت وما أصلحها
+• مقتطفات الكود الضرورية فقط (التواقيع والأنواع، لا الملفات كاملة)
+• ما بقي دون حل
+
+إذا وُجد ملخص سابق فادمجه مع الجديد في ملخص واحد. لا تضف مقدمات أو خاتمة.`;
+
+/** حدود طلب التلخيص: نموذج سريع ودرجة عشوائية منخفضة */
+const SUMMARY_SETTINGS = {
+  model: DEFAULT_MODEL_ID,
+  temperature: 0.2,
+  maxTokens: 1500,
+};
+
+// ============================================================================
+// TITLE PROMPT (mode: "title")
+// ============================================================================
+
+/**
+ * تعليمات توليد عنوان المحادثة بعد أول تبادل
+ *
+ * @note
+ * الواجهة تنظف الناتج أيضاً (علامات الاقتباس، البادئات، الطول)
+ */
+const TITLE_SYSTEM_PROMPT = `اكتب عنواناً قصيراً يصف موضوع محادثة برمجة Roblox/Luau التالية.
+
+• من 3 إلى 6 كلمات بلغة المستخدم
+• اذكر الشيء المحدد (النظام، الخدمة، الخطأ) لا صيغة السؤال ("كيف أعمل...")
+• بدون علامات اقتباس أو ترقيم في النهاية أو رموز تعبيرية
+
+أعد العنوان فقط في سطر واحد.`;
+
+/** حدود طلب العنوان: رد من سطر واحد */
+const TITLE_SETTINGS = {
+  model: DEFAULT_MODEL_ID,
+  temperature: 0.3,
+  maxTokens: 40,
+};
+
+/**
+ * رسالة النظام والإعدادات للأوضاع المساعدة (كل ما عدا "chat")
+ *
+ * @note
+ * إعدادات المحادثة وملف المشروع لا تُطبق عليها
+ */
+const AUXILIARY_MODES = {
+  summarize: { systemPrompt: SUMMARY_SYSTEM_PROMPT, settings: SUMMARY_SETTINGS },
+  title: { systemPrompt: TITLE_SYSTEM_PROMPT, settings: TITLE_SETTINGS },
+};
+
 // ============================================================================
 // MAIN SERVER HANDLER
 // ============================================================================
@@ -871,10 +1079,10 @@ serve(async (req) => {
   }
 
   try {
-    const authHeader = req.headers.get("Authorization");
-    if (!authHeader?.startsWith("Bearer ")) {
+    const user = await authenticateRequest(req);
+    if (!user) {
       return new Response(
-        JSON.stringify({ error: "Unauthorized - Missing authorization header" }),
+        JSON.stringify({ error: "Unauthorized - Sign in required" }),
         {
           status: 401,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -910,34 +1118,105 @@ serve(async (req) => {
     }
 
     const { messages } = parsedBody;
+    const auxiliaryMode = parsedBody.mode && parsedBody.mode !== "chat"
+      ? AUXILIARY_MODES[parsedBody.mode]
+      : null;
+    const settings = auxiliaryMode
+      ? auxiliaryMode.settings
+      : resolveGenerationSettings(parsedBody.settings);
+
+    // سطر واحد لكل طلب يربط الاستهلاك بالمستخدم في سجلات الدالة
+    console.info(JSON.stringify({
+      event: "chat_request",
+      mode: parsedBody.mode ?? "chat",
+      userId: user.id,
+      model: settings.model,
+      messages: messages.length,
+      maxTokens: settings.maxTokens,
+    }));
+
+    // ملف المشروع يُلحق بنهاية رسالة النظام (تخصيص المحادثة يطغى على العام)
+    const profilePrompt = buildProjectProfilePrompt(
+      mergeProjectProfiles(parsedBody.profile?.user, parsedBody.profile?.conversation)
+    );
+    // مرجع API للفئات والأعضاء المذكورة في آخر سؤال، قبل ملف المشروع
+    const lastUserMessage = [...messages].reverse().find((message) => message.role === "user");
+    const apiReferencePrompt = !auxiliaryMode && lastUserMessage
+      ? buildApiReferencePrompt(API_INDEX, lastUserMessage.content)
+      : null;
+    // تعليمات تشخيص أخطاء Output الملصقة في بداية رسالة النظام
+    const studioOutputPrompt = !auxiliaryMode
+      ? buildStudioOutputPrompt(parsedBody.studioOutput?.errors)
+      : null;
+    const systemPrompt = auxiliaryMode
+      ? auxiliaryMode.systemPrompt
+      : [studioOutputPrompt, ROBLOX_EXPERT_SYSTEM_PROMPT, apiReferencePrompt, profilePrompt]
+        .filter(Boolean)
+        .join("\n\n");
 
     const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
     if (!LOVABLE_API_KEY) {
       throw new Error("LOVABLE_API_KEY is not configured");
     }
 
+    // ────────────────────────────────────────────────────────────────────────
+    // حدود المستخدم: طلبات الدقيقة (المحادثة فقط) و tokens اليوم (كل الأوضاع)
+    // ────────────────────────────────────────────────────────────────────────
+
+    const usageStore = getUsageStore();
+    const { status: rateLimit, eventId: usageEventId } = await usageStore.claimRequest(
+      user.id,
+      settings.model,
+      parsedBody.mode ?? "chat",
+      getRateLimitConfig(),
+      Date.now()
+    );
+    const rateLimitHeaders = buildRateLimitHeaders(rateLimit);
+
+    if (rateLimit.reason || !usageEventId) {
+      return new Response(
+        JSON.stringify({
+          error: rateLimit.reason === "tokens"
+            ? "Daily token quota exceeded"
+            : "Too many requests, please slow down",
+          reason: rateLimit.reason,
+          retryAfter: rateLimit.retryAfterSeconds,
+        }),
+        {
+          status: 429,
+          headers: { ...corsHeaders, ...rateLimitHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const promptEstimate = estimateTokens(systemPrompt + JSON.stringify(messages));
+
+    // req.signal يُلغى عند انقطاع اتصال العميل (زر الإيقاف أو إغلاق الصفحة)،
+    // فيُلغى طلب البوابة معه بدلاً من استهلاك الـ tokens بلا فائدة
     const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
       method: "POST",
+      signal: req.signal,
       headers: {
         Authorization: `Bearer ${LOVABLE_API_KEY}`,
         "Content-Type": "application/json",
       },
       body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
+        model: settings.model,
         messages: [
-          { role: "system", content: ROBLOX_EXPERT_SYSTEM_PROMPT },
+          { role: "system", content: systemPrompt },
           ...messages,
         ],
         stream: true,
-        max_tokens: 8192,
-        temperature: 0.7,
+        stream_options: { include_usage: true },
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature,
       }),
     });
 
     if (!response.ok) {
       if (response.status === 429) {
         return new Response(
-          JSON.stringify({ error: "Rate limits exceeded, please try again later." }),
+          JSON.stringify({ error: "Rate limits exceeded, please try again later.", reason: "upstream" }),
           {
             status: 429,
             headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -956,7 +1235,7 @@ serve(async (req) => {
       }
       
       const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
+      console.error("AI gateway error:", response.status, `user=${user.id}`, errorText);
       
       return new Response(
         JSON.stringify({ error: "AI gateway error" }),
@@ -967,11 +1246,26 @@ serve(async (req) => {
       );
     }
 
-    return new Response(response.body, {
-      headers: { ...corsHeaders, "Content-Type": "text/event-stream" },
+    const meteredBody = meterUsageStream(response.body!, promptEstimate, (usage) =>
+      usageStore.recordTokens(usageEventId, usage).catch((error) => {
+        console.error("Failed to record usage:", `user=${user.id}`, error);
+      })
+    );
+    // ردود المحادثة فقط: ملخص/عنوان لا تحتوي كوداً يُراجَع
+    const body = auxiliaryMode
+      ? meteredBody
+      : appendApiCheckNote(meteredBody, (content) => buildApiCheckNote(API_INDEX, content));
+
+    return new Response(body, {
+      headers: { ...corsHeaders, ...rateLimitHeaders, "Content-Type": "text/event-stream" },
     });
 
   } catch (e) {
+    // العميل قطع الاتصال: لا أحد ينتظر الرد
+    if (req.signal.aborted) {
+      return new Response(null, { status: 499, headers: corsHeaders });
+    }
+
     console.error("chat error:", e);
     
     const errorMessage = e instanceof Error ? e.message : "Unknown error";
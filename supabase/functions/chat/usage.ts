@@ -0,0 +1,303 @@
+/**
+ * @fileoverview تسجيل الاستخدام لكل مستخدم - Usage Store & Stream Meter
+ *
+ * @description
+ * - UsageStore: تقييم حدود المستخدم وتسجيل الطلبات والـ tokens
+ *   - postgres: جدول chat_usage عبر service role (الافتراضي)
+ *   - memory: ذاكرة العملية فقط، للتجربة المحلية (RATE_LIMIT_STORE=memory)
+ * - meterUsageStream: يمرر رد SSE كما هو ويحسب الـ tokens عند انتهائه
+ *
+ * @note
+ * التقييم والتسجيل خطوة واحدة (claimRequest): في postgres دالة
+ * claim_chat_request بقفل لكل مستخدم، فلا تمر طلبات متزامنة بنفس العدد.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import {
+  DEFAULT_RATE_LIMIT_CONFIG,
+  evaluateRateLimit,
+  startOfUtcDay,
+  type RateLimitConfig,
+  type RateLimitStatus,
+  type UsageSnapshot,
+} from "../_shared/rateLimit.ts";
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * استهلاك طلب واحد
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * نتيجة حجز طلب
+ *
+ * @property status - حالة الحدود قبل هذا الطلب (الترويسات وسبب الرفض)
+ * @property eventId - معرف سجل الطلب، أو null إذا رُفض ولم يُسجَّل
+ */
+/** وضع الطلب (يُحفظ في chat_usage.mode)؛ "chat" وحده يُحسب في حد الطلبات */
+export type UsageMode = "chat" | "summarize" | "title";
+
+export interface UsageClaim {
+  status: RateLimitStatus;
+  eventId: string | null;
+}
+
+export interface UsageStore {
+  /** تقييم الحدود وتسجيل الطلب إن قُبل، قبل إرساله للبوابة، كعملية واحدة */
+  claimRequest: (
+    userId: string,
+    model: string,
+    mode: UsageMode,
+    config: RateLimitConfig,
+    now: number
+  ) => Promise<UsageClaim>;
+  /** إضافة الـ tokens لسجل الطلب بعد انتهاء الرد */
+  recordTokens: (eventId: string, usage: TokenUsage) => Promise<void>;
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+const readPositiveInt = (name: string, fallback: number) => {
+  const value = Number(Deno.env.get(name));
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+};
+
+/**
+ * الحدود من متغيرات البيئة (CHAT_REQUESTS_PER_MINUTE, CHAT_TOKENS_PER_DAY)
+ */
+export const getRateLimitConfig = (): RateLimitConfig => ({
+  requestsPerMinute: readPositiveInt(
+    "CHAT_REQUESTS_PER_MINUTE",
+    DEFAULT_RATE_LIMIT_CONFIG.requestsPerMinute
+  ),
+  tokensPerDay: readPositiveInt("CHAT_TOKENS_PER_DAY", DEFAULT_RATE_LIMIT_CONFIG.tokensPerDay),
+});
+
+// ============================================================================
+// STORES
+// ============================================================================
+
+interface MemoryEvent {
+  id: string;
+  userId: string;
+  mode: UsageMode;
+  at: number;
+  tokens: number;
+}
+
+const createMemoryUsageStore = (): UsageStore => {
+  const events: MemoryEvent[] = [];
+
+  const getSnapshot = (userId: string, now: number): UsageSnapshot => {
+    const dayStart = startOfUtcDay(now);
+    // لا حاجة لأي سجل أقدم من بداية اليوم أو من آخر دقيقة
+    const keepFrom = Math.min(dayStart, now - 60_000);
+    for (let i = events.length - 1; i >= 0; i--) {
+      if (events[i].at < keepFrom) events.splice(i, 1);
+    }
+
+    const own = events.filter((event) => event.userId === userId);
+    return {
+      requestTimes: own
+        .filter((event) => event.mode === "chat" && event.at > now - 60_000)
+        .map((event) => event.at),
+      tokensToday: own
+        .filter((event) => event.at >= dayStart)
+        .reduce((sum, event) => sum + event.tokens, 0),
+    };
+  };
+
+  return {
+    // بدون await بين القراءة والإضافة، فلا يتداخل طلبان
+    claimRequest: (userId, _model, mode, config, now) => {
+      const status = evaluateRateLimit(getSnapshot(userId, now), config, now, mode === "chat");
+      if (status.reason) return Promise.resolve({ status, eventId: null });
+
+      const id = crypto.randomUUID();
+      events.push({ id, userId, mode, at: now, tokens: 0 });
+      return Promise.resolve({ status, eventId: id });
+    },
+
+    recordTokens: (eventId, usage) => {
+      const event = events.find((item) => item.id === eventId);
+      if (event) event.tokens = usage.promptTokens + usage.completionTokens;
+      return Promise.resolve();
+    },
+  };
+};
+
+const createPostgresUsageStore = (url: string, serviceRoleKey: string): UsageStore => {
+  const supabase = createClient(url, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  return {
+    // القرار نفسه يُتخذ داخل claim_chat_request؛ evaluateRateLimit هنا للترويسات
+    claimRequest: async (userId, model, mode, config, now) => {
+      const { data, error } = await supabase.rpc("claim_chat_request", {
+        p_user_id: userId,
+        p_model: model,
+        p_mode: mode,
+        p_now: new Date(now).toISOString(),
+        p_requests_per_minute: config.requestsPerMinute,
+        p_tokens_per_day: config.tokensPerDay,
+      });
+
+      if (error) throw error;
+
+      const row = data?.[0];
+      if (!row) throw new Error("claim_chat_request returned no row");
+
+      const snapshot: UsageSnapshot = {
+        requestTimes: (row.request_times ?? []).map((time: string) => new Date(time).getTime()),
+        tokensToday: Number(row.tokens_today) || 0,
+      };
+
+      return {
+        status: evaluateRateLimit(snapshot, config, now, mode === "chat"),
+        eventId: (row.event_id as string | null) ?? null,
+      };
+    },
+
+    recordTokens: async (eventId, usage) => {
+      const { error } = await supabase
+        .from("chat_usage")
+        .update({
+          prompt_tokens: usage.promptTokens,
+          completion_tokens: usage.completionTokens,
+        })
+        .eq("id", eventId);
+
+      if (error) throw error;
+    },
+  };
+};
+
+let usageStore: UsageStore | null = null;
+
+/**
+ * المخزن حسب RATE_LIMIT_STORE (يُنشأ مرة واحدة لكل عملية)
+ *
+ * @throws {Error} إذا كان postgres مطلوباً ومتغيرات Supabase غير مضبوطة
+ */
+export const getUsageStore = (): UsageStore => {
+  if (usageStore) return usageStore;
+
+  if (Deno.env.get("RATE_LIMIT_STORE") === "memory") {
+    usageStore = createMemoryUsageStore();
+    return usageStore;
+  }
+
+  const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+  const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY is not configured");
+  }
+
+  usageStore = createPostgresUsageStore(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+  return usageStore;
+};
+
+// ============================================================================
+// STREAM METER
+// ============================================================================
+
+/** تقدير تقريبي عندما لا ترسل البوابة usage (حرف ≈ ربع token) */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * تمرير رد SSE مع حساب استهلاكه
+ *
+ * @param body - رد البوابة
+ * @param promptEstimate - تقدير tokens الطلب (يُستخدم إن لم تُرسل usage)
+ * @param onComplete - يُستدعى مرة واحدة عند انتهاء الرد أو إلغائه أو انقطاعه
+ *
+ * @description
+ * يقرأ chunk الـ usage الذي ترسله البوابة مع stream_options.include_usage،
+ * وإلا يقدّر من طول المحتوى المتدفق.
+ */
+export const meterUsageStream = (
+  body: ReadableStream<Uint8Array>,
+  promptEstimate: number,
+  onComplete: (usage: TokenUsage) => Promise<void>
+): ReadableStream<Uint8Array> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let completionChars = 0;
+  let reported: TokenUsage | null = null;
+  let finished = false;
+
+  const scanLine = (line: string) => {
+    if (!line.startsWith("data: ")) return;
+    const json = line.slice(6).trim();
+    if (json === "[DONE]") return;
+    try {
+      const parsed = JSON.parse(json);
+      const delta = parsed.choices?.[0]?.delta?.content;
+      if (typeof delta === "string") completionChars += delta.length;
+      if (parsed.usage) {
+        reported = {
+          promptTokens: Number(parsed.usage.prompt_tokens) || 0,
+          completionTokens: Number(parsed.usage.completion_tokens) || 0,
+        };
+      }
+    } catch {
+      // سطر غير مكتمل أو ليس JSON: لا يؤثر على العد
+    }
+  };
+
+  const finish = async () => {
+    if (finished) return;
+    finished = true;
+    if (buffer) scanLine(buffer);
+    await onComplete(
+      reported ?? {
+        promptTokens: promptEstimate,
+        completionTokens: Math.ceil(completionChars / 4),
+      }
+    );
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (error) {
+        // البوابة انقطعت أو أُلغي الطلب: ما تدفق قبلها يُحسب أيضاً
+        await finish();
+        throw error;
+      }
+
+      const { done, value } = chunk;
+      if (done) {
+        await finish();
+        controller.close();
+        return;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+        scanLine(buffer.slice(0, newlineIndex).replace(/\r$/, ""));
+        buffer = buffer.slice(newlineIndex + 1);
+      }
+
+      controller.enqueue(value);
+    },
+
+    async cancel(reason) {
+      await finish();
+      await reader.cancel(reason);
+    },
+  });
+};
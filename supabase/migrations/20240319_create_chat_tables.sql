@@ -0,0 +1,70 @@
+-- Migration: Create the chat persistence tables
+-- Runs before 20240320_enable_rls.sql, which enables RLS and creates the
+-- owner-based policies for every table defined here.
+
+-- PROFILES: one row per auth user, created automatically on sign-up.
+CREATE TABLE IF NOT EXISTS public.profiles (
+    id UUID PRIMARY KEY REFERENCES auth.users (id) ON DELETE CASCADE,
+    display_name TEXT,
+    avatar_url TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- CONVERSATIONS: ids are generated on the client (crypto.randomUUID) so that
+-- offline-created conversations keep the same id once they are synced.
+CREATE TABLE IF NOT EXISTS public.conversations (
+    id UUID PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+    title TEXT NOT NULL DEFAULT 'محادثة جديدة',
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS conversations_user_updated_idx
+    ON public.conversations (user_id, updated_at DESC);
+
+-- MESSAGES: user_id is denormalised so the RLS policies can check ownership
+-- without joining on conversations.
+CREATE TABLE IF NOT EXISTS public.messages (
+    id UUID PRIMARY KEY,
+    conversation_id UUID NOT NULL REFERENCES public.conversations (id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+    content TEXT NOT NULL DEFAULT '',
+    status TEXT,
+    attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+    metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS messages_conversation_created_idx
+    ON public.messages (conversation_id, created_at);
+
+CREATE INDEX IF NOT EXISTS messages_user_idx
+    ON public.messages (user_id);
+
+-- Keep profiles in step with auth.users.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO public.profiles (id, display_name, avatar_url)
+    VALUES (
+        NEW.id,
+        NEW.raw_user_meta_data ->> 'full_name',
+        NEW.raw_user_meta_data ->> 'avatar_url'
+    )
+    ON CONFLICT (id) DO NOTHING;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+    AFTER INSERT ON auth.users
+    FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
@@ -0,0 +1,14 @@
+-- Migration: Store conversations as message trees
+-- Editing a user message or regenerating a reply creates a sibling branch;
+-- every message points at the message it answers or follows.
+--
+-- No foreign key on parent_id: streaming replies are flushed with a delay,
+-- so a child row can reach the server before its parent. Integrity is kept
+-- by the client, and rows written before this migration (parent_id NULL)
+-- are linked by created_at when they are pulled.
+
+ALTER TABLE public.messages
+    ADD COLUMN IF NOT EXISTS parent_id UUID;
+
+CREATE INDEX IF NOT EXISTS messages_parent_idx
+    ON public.messages (parent_id);
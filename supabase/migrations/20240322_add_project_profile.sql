@@ -0,0 +1,13 @@
+-- Migration: Per-user project profile
+-- Game genre, frameworks, naming conventions and language preferences that
+-- the chat function appends to its system prompt.
+--
+-- The size check mirrors the field limits in _shared/projectProfile.ts with
+-- headroom for JSON keys; the edge function validates each field again.
+
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS project_profile JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.profiles
+    ADD CONSTRAINT profiles_project_profile_size
+    CHECK (octet_length(project_profile::text) <= 16384);
@@ -0,0 +1,31 @@
+-- Migration: Per-user chat usage for rate limits and daily token quotas
+-- One row per request to the chat function. Rows are written only by the
+-- function with the service role; users may read their own usage.
+--
+-- Token counts are filled in when the response stream ends (exact figures
+-- from the gateway when it reports usage, otherwise a character estimate).
+
+CREATE TABLE IF NOT EXISTS public.chat_usage (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+    model TEXT NOT NULL,
+    prompt_tokens INTEGER NOT NULL DEFAULT 0,
+    completion_tokens INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS chat_usage_user_created_idx
+    ON public.chat_usage (user_id, created_at DESC);
+
+-- Tables created after 20240320_enable_rls.sql must opt in themselves.
+ALTER TABLE public.chat_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.chat_usage FORCE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.chat_usage FROM anon;
+REVOKE ALL ON public.chat_usage FROM authenticated;
+GRANT SELECT ON public.chat_usage TO authenticated;
+
+CREATE POLICY "Users can view own usage"
+ON public.chat_usage FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
@@ -0,0 +1,69 @@
+-- Migration: Read-only share links for conversations
+-- A share is a snapshot of one branch of a conversation, taken when the link
+-- is created (or refreshed). Later messages never leak into an existing link.
+--
+-- Owners manage their rows through RLS. Everyone else, including signed-out
+-- visitors, can only read a non-revoked snapshot by its slug through
+-- get_shared_conversation(); the table itself stays closed to anon.
+--
+-- The slug is 128 random bits generated by the client (base64url, 22 chars).
+-- conversation_id has no foreign key: the conversation may not have reached
+-- the server yet when the link is created, and the snapshot is self-contained.
+
+CREATE TABLE IF NOT EXISTS public.conversation_shares (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[A-Za-z0-9_-]{22,64}$'),
+    user_id UUID NOT NULL REFERENCES auth.users (id) ON DELETE CASCADE,
+    conversation_id UUID NOT NULL,
+    title TEXT NOT NULL,
+    snapshot JSONB NOT NULL CHECK (octet_length(snapshot::text) <= 2097152),
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    revoked_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS conversation_shares_owner_idx
+    ON public.conversation_shares (user_id, conversation_id)
+    WHERE revoked_at IS NULL;
+
+-- Tables created after 20240320_enable_rls.sql must opt in themselves.
+ALTER TABLE public.conversation_shares ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_shares FORCE ROW LEVEL SECURITY;
+
+REVOKE ALL ON public.conversation_shares FROM anon;
+GRANT SELECT, INSERT, UPDATE ON public.conversation_shares TO authenticated;
+
+CREATE POLICY "Users can view own shares"
+ON public.conversation_shares FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own shares"
+ON public.conversation_shares FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = user_id);
+
+-- Revoking and refreshing are updates; rows are never deleted so a revoked
+-- slug can't be reissued to a different conversation.
+CREATE POLICY "Users can update own shares"
+ON public.conversation_shares FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Public read path: one snapshot by slug, never the owner or conversation id.
+CREATE OR REPLACE FUNCTION public.get_shared_conversation(share_slug TEXT)
+RETURNS TABLE (title TEXT, snapshot JSONB, updated_at TIMESTAMPTZ)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT s.title, s.snapshot, s.updated_at
+    FROM public.conversation_shares AS s
+    WHERE s.slug = share_slug
+      AND s.revoked_at IS NULL;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_shared_conversation(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_shared_conversation(TEXT) TO anon, authenticated;
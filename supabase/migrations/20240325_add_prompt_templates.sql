@@ -0,0 +1,13 @@
+-- Migration: Per-user prompt templates
+-- Slash-command templates the user created in the chat input ("/my-command").
+-- Built-in templates ship with the client and are never stored here.
+--
+-- The size check allows the limits in src/lib/promptTemplates.ts
+-- (30 templates, 4000-character bodies) with headroom for JSON keys.
+
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS prompt_templates JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.profiles
+    ADD CONSTRAINT profiles_prompt_templates_size
+    CHECK (octet_length(prompt_templates::text) <= 524288);
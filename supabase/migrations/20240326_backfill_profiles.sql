@@ -0,0 +1,20 @@
+-- Migration: Guarantee a profile row per user
+-- handle_new_user only runs for sign-ups after 20240319, so accounts created
+-- earlier have no profiles row and updates to it silently affect nothing.
+--
+-- Backfill the missing rows and let users insert their own row, so the client
+-- can upsert project_profile / prompt_templates even if the trigger missed one.
+
+INSERT INTO public.profiles (id, display_name, avatar_url)
+SELECT
+    u.id,
+    u.raw_user_meta_data ->> 'full_name',
+    u.raw_user_meta_data ->> 'avatar_url'
+FROM auth.users u
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can insert own profile" ON public.profiles;
+CREATE POLICY "Users can insert own profile"
+ON public.profiles FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = id);
@@ -0,0 +1,58 @@
+-- Migration: Atomic per-user rate limit check
+-- The chat function used to read the usage and record the request in two
+-- round trips, so parallel requests all saw the same count and together could
+-- exceed the per-minute limit.
+--
+-- claim_chat_request() reads the usage and records the request in one
+-- transaction, under a per-user advisory lock. It returns the usage as it was
+-- before this request; the function evaluates it with the same rules
+-- (evaluateRateLimit in _shared/rateLimit.ts) to build the response headers.
+-- event_id is NULL when the request was rejected and nothing was recorded.
+
+CREATE OR REPLACE FUNCTION public.claim_chat_request(
+    p_user_id UUID,
+    p_model TEXT,
+    p_now TIMESTAMPTZ,
+    p_requests_per_minute INTEGER,
+    p_tokens_per_day INTEGER
+)
+RETURNS TABLE (event_id UUID, request_times TIMESTAMPTZ[], tokens_today BIGINT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    day_start TIMESTAMPTZ := date_trunc('day', p_now AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+BEGIN
+    -- Held until commit, so the next claim for this user sees our row.
+    PERFORM pg_advisory_xact_lock(hashtextextended('claim_chat_request:' || p_user_id::text, 0));
+
+    SELECT
+        coalesce(
+            array_agg(u.created_at ORDER BY u.created_at)
+                FILTER (WHERE u.created_at > p_now - interval '1 minute'),
+            '{}'
+        ),
+        coalesce(sum(u.prompt_tokens + u.completion_tokens) FILTER (WHERE u.created_at >= day_start), 0)
+    INTO request_times, tokens_today
+    FROM public.chat_usage AS u
+    WHERE u.user_id = p_user_id
+      AND u.created_at >= least(day_start, p_now - interval '1 minute');
+
+    event_id := NULL;
+    IF tokens_today < p_tokens_per_day
+       AND coalesce(array_length(request_times, 1), 0) < p_requests_per_minute THEN
+        INSERT INTO public.chat_usage (user_id, model, created_at)
+        VALUES (p_user_id, p_model, p_now)
+        RETURNING id INTO event_id;
+    END IF;
+
+    RETURN NEXT;
+END;
+$$;
+
+-- Only the chat function (service role) claims requests.
+REVOKE ALL ON FUNCTION public.claim_chat_request(UUID, TEXT, TIMESTAMPTZ, INTEGER, INTEGER)
+    FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_chat_request(UUID, TEXT, TIMESTAMPTZ, INTEGER, INTEGER)
+    TO service_role;
@@ -0,0 +1,37 @@
+-- Migration: Daily usage for the usage page
+-- The page used to add up the usage stored on local replies, which misses
+-- summary and title requests and anything sent from other devices. Those
+-- rows are exactly what the daily token quota is enforced against.
+--
+-- get_daily_usage() returns the caller's chat_usage rows summed per day (in
+-- the viewer's time zone) and mode. It runs as the caller, so the existing
+-- "Users can view own usage" policy still applies.
+
+CREATE OR REPLACE FUNCTION public.get_daily_usage(p_since TIMESTAMPTZ, p_time_zone TEXT)
+RETURNS TABLE (
+    day DATE,
+    mode TEXT,
+    requests BIGINT,
+    prompt_tokens BIGINT,
+    completion_tokens BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+    SELECT
+        (u.created_at AT TIME ZONE p_time_zone)::date AS day,
+        u.mode,
+        count(*) AS requests,
+        sum(u.prompt_tokens) AS prompt_tokens,
+        sum(u.completion_tokens) AS completion_tokens
+    FROM public.chat_usage AS u
+    WHERE u.user_id = auth.uid()
+      AND u.created_at >= p_since
+    GROUP BY 1, 2
+    ORDER BY 1, 2;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_daily_usage(TIMESTAMPTZ, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_daily_usage(TIMESTAMPTZ, TEXT) TO authenticated;
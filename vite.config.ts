@@ -18,6 +18,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // كود مشترك مع Edge Functions (بدون imports خاصة بـ Deno)
+      "@shared": path.resolve(__dirname, "./supabase/functions/_shared"),
     },
     // Prevent duplicate React instances - CRITICAL for hooks to work
     dedupe: [